@@ -64,6 +64,19 @@ const __dirname = dirname(__filename);
   }
 };
 
+// Hashing worker (worker_threads entry loaded by HashPool)
+const hashWorkerBuildOptions = {
+  entryPoints: ['src/main/hash-worker.ts'],
+  bundle: true,
+  platform: 'node',
+  target: 'node20',
+  format: 'esm',
+  outfile: 'dist/main/hash-worker.mjs',
+  sourcemap: true,
+  tsconfig: 'tsconfig.main.json',
+  logLevel: 'info'
+};
+
 const preloadBuildOptions = {
   entryPoints: ['src/main/preload.ts'],
   bundle: true,
@@ -86,12 +99,14 @@ async function build() {
     if (isWatch) {
       const mainCtx = await esbuild.context(buildOptions);
       const preloadCtx = await esbuild.context(preloadBuildOptions);
-      await Promise.all([mainCtx.watch(), preloadCtx.watch()]);
+      const hashWorkerCtx = await esbuild.context(hashWorkerBuildOptions);
+      await Promise.all([mainCtx.watch(), preloadCtx.watch(), hashWorkerCtx.watch()]);
       console.log('Watching for changes...');
     } else {
       await Promise.all([
         esbuild.build(buildOptions),
-        esbuild.build(preloadBuildOptions)
+        esbuild.build(preloadBuildOptions),
+        esbuild.build(hashWorkerBuildOptions)
       ]);
       console.log('Build completed successfully');
     }
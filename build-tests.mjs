@@ -0,0 +1,57 @@
+import * as esbuild from 'esbuild';
+import fs from 'fs';
+import path from 'path';
+
+// Test files live next to the modules they cover: src/**/*.test.ts
+function findTests(dir) {
+  return fs.readdirSync(dir, { recursive: true })
+    .filter(file => file.endsWith('.test.ts'))
+    .map(file => path.join(dir, file));
+}
+
+const entryPoints = findTests('src');
+
+const buildOptions = {
+  entryPoints,
+  bundle: true,
+  platform: 'node',
+  target: 'node20',
+  format: 'esm',
+  outdir: 'dist/tests',
+  outExtension: { '.js': '.mjs' },
+  entryNames: '[name]',
+  external: [
+    'better-sqlite3',
+    'electron-store',
+    'webtorrent',
+    '@diva.exchange/i2p-sam'
+  ],
+  sourcemap: true,
+  tsconfig: 'tsconfig.main.json',
+  logLevel: 'info',
+  banner: {
+    js: `
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+const require = createRequire(import.meta.url);
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+// Tests run in plain Node: modules that read electron at load get an empty one
+globalThis.__electron ??= {};
+`
+  }
+};
+
+async function build() {
+  try {
+    fs.rmSync('dist/tests', { recursive: true, force: true });
+    await esbuild.build(buildOptions);
+    console.log(`Built ${entryPoints.length} test file(s)`);
+  } catch (error) {
+    console.error('Build failed:', error);
+    process.exit(1);
+  }
+}
+
+build();
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+export interface ContentHashes {
+  hash: string;   // SHA256 of the whole file (hex)
+  pieces: Buffer; // Concatenated 20-byte SHA1 piece hashes
+}
+
+/**
+ * Stream a file once, computing its SHA256 and the SHA1 of every piece.
+ * Runs in the hashing workers; rejects with an AbortError if signal aborts.
+ */
+export function hashContent(
+  filePath: string,
+  pieceLength: number,
+  chunkSize: number,
+  signal?: AbortSignal
+): Promise<ContentHashes> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    const pieceHashes: Buffer[] = [];
+    let piece = crypto.createHash('sha1');
+    let pieceBytes = 0;
+
+    const stream = fs.createReadStream(filePath, { highWaterMark: chunkSize, signal });
+
+    stream.on('data', (chunk: string | Buffer) => {
+      const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      hash.update(data);
+
+      // Split the chunk at piece boundaries
+      let offset = 0;
+      while (offset < data.length) {
+        const take = Math.min(pieceLength - pieceBytes, data.length - offset);
+        piece.update(data.subarray(offset, offset + take));
+        pieceBytes += take;
+        offset += take;
+
+        if (pieceBytes === pieceLength) {
+          pieceHashes.push(piece.digest());
+          piece = crypto.createHash('sha1');
+          pieceBytes = 0;
+        }
+      }
+    });
+
+    stream.on('end', () => {
+      // Handle last piece (may be smaller)
+      if (pieceBytes > 0) {
+        pieceHashes.push(piece.digest());
+      }
+      resolve({ hash: hash.digest('hex'), pieces: Buffer.concat(pieceHashes) });
+    });
+
+    stream.on('error', (error) => {
+      reject(error);
+    });
+  });
+}
@@ -1,5 +1,8 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
+import { hasPositiveClause, matchesSearchQuery, parseSearchQuery } from '../shared/search-query.js';
+import { normalizeShareRules } from '../shared/share-rules.js';
+import type { DirectMessage, DirectMessageStatus, FolderVisibility, KeywordPosting, SearchQueryAST, ShareRules } from '../shared/types.js';
 
 // Get electron from global (set by bootstrap.cjs)
 const electron = (globalThis as any).__electron;
@@ -9,7 +12,7 @@ import path from 'path';
 let db: Database.Database | null = null;
 
 /** Database schema version for migrations */
-const SCHEMA_VERSION = 2;
+const SCHEMA_VERSION = 12;
 
 export function getDatabase(): Database.Database {
   if (!db) {
@@ -277,6 +280,268 @@ function runMigrations(db: Database.Database): void {
     db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(2);
     console.log('[Database] Migration to version 2 complete');
   }
+
+  // Migration 2 -> 3: Full-text search index over local files
+  if (currentVersion < 3) {
+    console.log('[Database] Running migration to version 3 (FTS5 search index)...');
+
+    // Standalone FTS5 table keyed by local_files.id (rowid).
+    // Columns: filename, directory path segments, MIME type
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS local_files_fts USING fts5(
+        filename,
+        folders,
+        mimeType,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    // Populate from existing rows
+    db.exec('DELETE FROM local_files_fts');
+    const rows = db.prepare('SELECT id, path, filename, mimeType FROM local_files').all() as {
+      id: number;
+      path: string;
+      filename: string;
+      mimeType: string | null;
+    }[];
+    const insertFts = db.prepare('INSERT INTO local_files_fts (rowid, filename, folders, mimeType) VALUES (?, ?, ?, ?)');
+    const populate = db.transaction(() => {
+      for (const row of rows) {
+        insertFts.run(row.id, row.filename, toFolderSegments(row.path), row.mimeType || '');
+      }
+    });
+    populate();
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(3);
+    console.log(`[Database] Migration to version 3 complete (${rows.length} files indexed)`);
+  }
+
+  // Migration 3 -> 4: Keyword postings stored for the DHT keyword index
+  if (currentVersion < 4) {
+    console.log('[Database] Running migration to version 4 (DHT keyword index)...');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS dht_keywords (
+        keywordId TEXT NOT NULL,
+        fileHash TEXT NOT NULL,
+        publisher TEXT NOT NULL,
+        infoHash TEXT,
+        filename TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        mimeType TEXT,
+        expiresAt INTEGER NOT NULL,
+        PRIMARY KEY (keywordId, fileHash, publisher)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_dht_keywords_expires ON dht_keywords(expiresAt);
+    `);
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(4);
+    console.log('[Database] Migration to version 4 complete');
+  }
+
+  // Migration 4 -> 5: Piece hashes of indexed files (info dict built at index time)
+  if (currentVersion < 5) {
+    console.log('[Database] Running migration to version 5 (indexed piece hashes)...');
+
+    const localFilesCols = db.prepare("PRAGMA table_info(local_files)").all() as { name: string }[];
+    const localFilesColNames = localFilesCols.map(c => c.name);
+
+    if (!localFilesColNames.includes('pieceLength')) {
+      db.exec('ALTER TABLE local_files ADD COLUMN pieceLength INTEGER');
+    }
+    if (!localFilesColNames.includes('pieces')) {
+      db.exec('ALTER TABLE local_files ADD COLUMN pieces TEXT');
+    }
+
+    // Files indexed before have no piece hashes: hash them again on the next scan
+    const { changes } = db.prepare('UPDATE local_files SET modifiedAt = NULL WHERE pieces IS NULL').run();
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(5);
+    console.log(`[Database] Migration to version 5 complete (${changes} files to re-hash)`);
+  }
+
+  // Migration 5 -> 6: Per-folder share rules (JSON, NULL = defaults)
+  if (currentVersion < 6) {
+    console.log('[Database] Running migration to version 6 (share rules)...');
+
+    const sharedFoldersCols = db.prepare("PRAGMA table_info(shared_folders)").all() as { name: string }[];
+    if (!sharedFoldersCols.some(c => c.name === 'rules')) {
+      db.exec('ALTER TABLE shared_folders ADD COLUMN rules TEXT');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(6);
+    console.log('[Database] Migration to version 6 complete');
+  }
+
+  // Migration 6 -> 7: Temporary peer bans (NULL = blocked until unblocked)
+  if (currentVersion < 7) {
+    console.log('[Database] Running migration to version 7 (peer bans)...');
+
+    const peersCols = db.prepare("PRAGMA table_info(peers)").all() as { name: string }[];
+    const peersColNames = peersCols.map(c => c.name);
+
+    if (!peersColNames.includes('blockedUntil')) {
+      db.exec('ALTER TABLE peers ADD COLUMN blockedUntil INTEGER');
+    }
+    if (!peersColNames.includes('blockReason')) {
+      db.exec('ALTER TABLE peers ADD COLUMN blockReason TEXT');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(7);
+    console.log('[Database] Migration to version 7 complete');
+  }
+
+  // Migration 7 -> 8: Friends and per-folder visibility
+  if (currentVersion < 8) {
+    console.log('[Database] Running migration to version 8 (friends)...');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS friends (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        b32Address TEXT UNIQUE NOT NULL,
+        destination TEXT NOT NULL,
+        signingKey TEXT NOT NULL,
+        displayName TEXT,
+        addedAt INTEGER DEFAULT (strftime('%s', 'now'))
+      );
+    `);
+
+    const sharedFoldersCols = db.prepare("PRAGMA table_info(shared_folders)").all() as { name: string }[];
+    const sharedFoldersColNames = sharedFoldersCols.map(c => c.name);
+
+    if (!sharedFoldersColNames.includes('visibility')) {
+      db.exec("ALTER TABLE shared_folders ADD COLUMN visibility TEXT DEFAULT 'public'");
+    }
+    if (!sharedFoldersColNames.includes('allowedFriends')) {
+      db.exec('ALTER TABLE shared_folders ADD COLUMN allowedFriends TEXT');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(8);
+    console.log('[Database] Migration to version 8 complete');
+  }
+
+  // Migration 8 -> 9: Direct messages (history and outgoing queue)
+  if (currentVersion < 9) {
+    console.log('[Database] Running migration to version 9 (direct messages)...');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        peerId TEXT NOT NULL,
+        destination TEXT,
+        direction TEXT NOT NULL,
+        body TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER DEFAULT 0,
+        nextAttemptAt INTEGER,
+        createdAt INTEGER DEFAULT (strftime('%s', 'now')),
+        deliveredAt INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_peer ON messages(peerId, createdAt);
+      CREATE INDEX IF NOT EXISTS idx_messages_queue ON messages(status, nextAttemptAt);
+    `);
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(9);
+    console.log('[Database] Migration to version 9 complete');
+  }
+
+  // Migration 9 -> 10: Download queue (position and priority per torrent)
+  if (currentVersion < 10) {
+    console.log('[Database] Running migration to version 10 (download queue)...');
+
+    const torrentsCols = db.prepare("PRAGMA table_info(torrents)").all() as { name: string }[];
+    const torrentsColNames = torrentsCols.map(c => c.name);
+
+    if (!torrentsColNames.includes('queuePosition')) {
+      db.exec('ALTER TABLE torrents ADD COLUMN queuePosition INTEGER');
+      // Existing torrents keep the order they were added in
+      db.exec('UPDATE torrents SET queuePosition = id');
+    }
+    if (!torrentsColNames.includes('priority')) {
+      db.exec('ALTER TABLE torrents ADD COLUMN priority INTEGER DEFAULT 1');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(10);
+    console.log('[Database] Migration to version 10 complete');
+  }
+
+  // Migration 10 -> 11: Per-torrent bandwidth limits
+  if (currentVersion < 11) {
+    console.log('[Database] Running migration to version 11 (bandwidth limits)...');
+
+    const torrentsCols = db.prepare("PRAGMA table_info(torrents)").all() as { name: string }[];
+    const torrentsColNames = torrentsCols.map(c => c.name);
+
+    if (!torrentsColNames.includes('uploadLimit')) {
+      db.exec('ALTER TABLE torrents ADD COLUMN uploadLimit INTEGER DEFAULT 0');
+    }
+    if (!torrentsColNames.includes('downloadLimit')) {
+      db.exec('ALTER TABLE torrents ADD COLUMN downloadLimit INTEGER DEFAULT 0');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(11);
+    console.log('[Database] Migration to version 11 complete');
+  }
+
+  // Migration 11 -> 12: Publisher signatures on DHT keyword postings
+  if (currentVersion < 12) {
+    console.log('[Database] Running migration to version 12 (signed keyword postings)...');
+
+    const keywordCols = db.prepare("PRAGMA table_info(dht_keywords)").all() as { name: string }[];
+    const keywordColNames = keywordCols.map(c => c.name);
+
+    if (!keywordColNames.includes('signingKey')) {
+      db.exec('ALTER TABLE dht_keywords ADD COLUMN signingKey TEXT');
+    }
+    if (!keywordColNames.includes('signature')) {
+      db.exec('ALTER TABLE dht_keywords ADD COLUMN signature TEXT');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(12);
+    console.log('[Database] Migration to version 12 complete');
+  }
+}
+
+// ============================================================================
+// FULL-TEXT SEARCH HELPERS
+// ============================================================================
+
+/** BM25 column weights: filename, folders, mimeType */
+const FTS_RANK = 'bm25(local_files_fts, 10.0, 2.0, 1.0)';
+
+/**
+ * SQL condition and parameters matching files under a folder (no LIKE wildcards)
+ */
+function underFolder(folderPath: string): [string, string[]] {
+  const prefix = folderPath.endsWith(path.sep) ? folderPath : folderPath + path.sep;
+  return ['substr(path, 1, length(?)) = ?', [prefix, prefix]];
+}
+
+/**
+ * Turn a file path into space-separated directory segments for the FTS index
+ */
+function toFolderSegments(filePath: string): string {
+  return path.dirname(filePath).split(/[\\/]+/).filter(Boolean).join(' ');
+}
+
+/**
+ * Build a safe FTS5 MATCH expression from the positive text clauses of a query.
+ * Terms become quoted prefix terms, phrases quoted phrases, all ANDed.
+ * Returns null when the query has no positive text clause.
+ */
+export function buildFtsQuery(ast: SearchQueryAST): string | null {
+  // Inside an FTS5 string a double quote is written twice
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+  const parts: string[] = [];
+  for (const clause of ast.clauses) {
+    if (clause.negated) continue;
+    if (clause.kind === 'term') parts.push(`${quote(clause.value)}*`);
+    if (clause.kind === 'phrase') parts.push(quote(clause.value.join(' ')));
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
 }
 
 export function closeDatabase(): void {
@@ -296,13 +561,33 @@ export const FileOps = {
     size: number;
     mimeType: string;
     modifiedAt: number;
+    infoHash: string;
+    pieceLength: number;
+    pieces: string;
   }) => {
     const db = getDatabase();
     const stmt = db.prepare(`
-      INSERT OR REPLACE INTO local_files (path, filename, hash, size, mimeType, modifiedAt, sharedAt)
-      VALUES (?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
+      INSERT OR REPLACE INTO local_files (path, filename, hash, size, mimeType, modifiedAt, infoHash, pieceLength, pieces, sharedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
     `);
-    return stmt.run(file.path, file.filename, file.hash, file.size, file.mimeType, file.modifiedAt);
+
+    // REPLACE may drop rows conflicting on path or hash - remove their index entries first
+    const insertWithIndex = db.transaction(() => {
+      db.prepare(`
+        DELETE FROM local_files_fts WHERE rowid IN (SELECT id FROM local_files WHERE path = ? OR hash = ?)
+      `).run(file.path, file.hash);
+
+      const result = stmt.run(
+        file.path, file.filename, file.hash, file.size, file.mimeType, file.modifiedAt,
+        file.infoHash, file.pieceLength, file.pieces
+      );
+
+      db.prepare('INSERT INTO local_files_fts (rowid, filename, folders, mimeType) VALUES (?, ?, ?, ?)')
+        .run(result.lastInsertRowid, file.filename, toFolderSegments(file.path), file.mimeType || '');
+      return result;
+    });
+
+    return insertWithIndex();
   },
 
   getByHash: (hash: string) => {
@@ -315,14 +600,119 @@ export const FileOps = {
     return db.prepare('SELECT * FROM local_files WHERE isShared = 1 ORDER BY filename').all();
   },
 
-  search: (query: string) => {
-    const db = getDatabase();
-    return db.prepare('SELECT * FROM local_files WHERE isShared = 1 AND filename LIKE ? ORDER BY filename').all(`%${query}%`);
+  /**
+   * Search shared files with the query language, best matches first (BM25).
+   * Text clauses go through the FTS index; every candidate is then checked
+   * with matchesSearchQuery so exclusions and operators apply exactly as on remote peers.
+   * Files failing the optional accept check (e.g. hidden from the requester) don't
+   * count against the limit.
+   */
+  search: (query: string | SearchQueryAST, limit = 500, accept?: (file: any) => boolean) => {
+    const db = getDatabase();
+    const ast = typeof query === 'string' ? parseSearchQuery(query).ast : query;
+    if (!hasPositiveClause(ast)) return [];
+
+    const match = buildFtsQuery(ast);
+    const stmt = match
+      ? db.prepare(`
+          SELECT lf.*, ${FTS_RANK} AS rank
+          FROM local_files_fts
+          JOIN local_files lf ON lf.id = local_files_fts.rowid
+          WHERE local_files_fts MATCH ? AND lf.isShared = 1
+          ORDER BY rank
+        `)
+      : db.prepare('SELECT * FROM local_files WHERE isShared = 1 ORDER BY filename');
+
+    const results: any[] = [];
+    for (const row of (match ? stmt.iterate(match) : stmt.iterate()) as Iterable<any>) {
+      if (!matchesSearchQuery(ast, row) || (accept && !accept(row))) continue;
+      results.push(row);
+      if (results.length >= limit) break;
+    }
+    return results;
   },
 
   delete: (hash: string) => {
     const db = getDatabase();
-    return db.prepare('DELETE FROM local_files WHERE hash = ?').run(hash);
+    const deleteWithIndex = db.transaction(() => {
+      db.prepare('DELETE FROM local_files_fts WHERE rowid IN (SELECT id FROM local_files WHERE hash = ?)').run(hash);
+      return db.prepare('DELETE FROM local_files WHERE hash = ?').run(hash);
+    });
+    return deleteWithIndex();
+  },
+
+  deleteById: (id: number) => {
+    const db = getDatabase();
+    const deleteWithIndex = db.transaction(() => {
+      db.prepare('DELETE FROM local_files_fts WHERE rowid = ?').run(id);
+      return db.prepare('DELETE FROM local_files WHERE id = ?').run(id);
+    });
+    return deleteWithIndex();
+  },
+
+  // Remove all files under a shared folder (and their search index entries)
+  deleteByFolder: (folderPath: string) => {
+    const db = getDatabase();
+    const [condition, params] = underFolder(folderPath);
+    const deleteWithIndex = db.transaction(() => {
+      db.prepare(`DELETE FROM local_files_fts WHERE rowid IN (SELECT id FROM local_files WHERE ${condition})`).run(...params);
+      return db.prepare(`DELETE FROM local_files WHERE ${condition}`).run(...params);
+    });
+    return deleteWithIndex();
+  },
+
+  // All indexed files under a folder, shared or not (incremental rescans)
+  getByFolder: (folderPath: string) => {
+    const db = getDatabase();
+    const [condition, params] = underFolder(folderPath);
+    return db.prepare(`SELECT * FROM local_files WHERE ${condition}`).all(...params) as {
+      id: number;
+      path: string;
+      filename: string;
+      hash: string;
+      size: number;
+      modifiedAt: number;
+      infoHash: string | null;
+    }[];
+  },
+
+  getByPath: (filePath: string) => {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM local_files WHERE path = ?').get(filePath) as {
+      id: number;
+      path: string;
+      filename: string;
+      hash: string;
+      size: number;
+      modifiedAt: number;
+      infoHash: string | null;
+    } | undefined;
+  },
+
+  // Any indexed file with this content hash, shared or not
+  findByHash: (hash: string) => {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM local_files WHERE hash = ?').get(hash) as {
+      id: number;
+      path: string;
+      filename: string;
+      infoHash: string | null;
+    } | undefined;
+  },
+
+  /**
+   * Move a renamed file's row to its new path. The hash and pieces are kept;
+   * the infoHash changes since the torrent name is the filename.
+   */
+  rename: (id: number, newPath: string, filename: string, modifiedAt: number, infoHash: string) => {
+    const db = getDatabase();
+    const renameWithIndex = db.transaction(() => {
+      db.prepare('UPDATE local_files SET path = ?, filename = ?, modifiedAt = ?, infoHash = ? WHERE id = ?')
+        .run(newPath, filename, modifiedAt, infoHash, id);
+      db.prepare('UPDATE local_files_fts SET filename = ?, folders = ? WHERE rowid = ?')
+        .run(filename, toFolderSegments(newPath), id);
+    });
+    return renameWithIndex();
   },
 
   setShared: (hash: string, shared: boolean) => {
@@ -348,6 +738,23 @@ export const FileOps = {
     return db.prepare('SELECT * FROM local_files WHERE isShared = 1 AND (infoHash IS NULL OR infoHash = "")').all();
   },
 
+  // Shared files with a complete info dict (infoHash + piece hashes), ready to seed
+  getSeedable: () => {
+    const db = getDatabase();
+    return db.prepare(`
+      SELECT * FROM local_files
+      WHERE isShared = 1 AND infoHash IS NOT NULL AND pieceLength IS NOT NULL AND pieces IS NOT NULL
+    `).all() as {
+      path: string;
+      filename: string;
+      hash: string;
+      size: number;
+      infoHash: string;
+      pieceLength: number;
+      pieces: string;
+    }[];
+  },
+
   // Get file with its infoHash for downloads
   getWithInfoHash: (fileHash: string) => {
     const db = getDatabase();
@@ -500,6 +907,79 @@ export const PeerOps = {
   delete: (peerId: string) => {
     const db = getDatabase();
     return db.prepare('DELETE FROM peers WHERE peerId = ?').run(peerId);
+  },
+
+  /**
+   * Block a peer until unblocked (blockedUntil NULL). Replaces a temporary ban.
+   */
+  block: (peerId: string, reason: string) => {
+    const db = getDatabase();
+    return db.prepare(`
+      INSERT INTO peers (peerId, isBlocked, blockedUntil, blockReason)
+      VALUES (?, 1, NULL, ?)
+      ON CONFLICT(peerId) DO UPDATE SET
+        isBlocked = 1,
+        blockedUntil = NULL,
+        blockReason = excluded.blockReason
+    `).run(peerId, reason);
+  },
+
+  /**
+   * Lift a block or a temporary ban
+   */
+  unblock: (peerId: string) => {
+    const db = getDatabase();
+    return db.prepare('UPDATE peers SET isBlocked = 0, blockedUntil = NULL, blockReason = NULL WHERE peerId = ?').run(peerId);
+  },
+
+  /**
+   * Ban a peer until a time (unix seconds). A peer blocked until unblocked
+   * stays that way.
+   */
+  ban: (peerId: string, until: number, reason: string) => {
+    const db = getDatabase();
+    return db.prepare(`
+      INSERT INTO peers (peerId, isBlocked, blockedUntil, blockReason)
+      VALUES (?, 1, ?, ?)
+      ON CONFLICT(peerId) DO UPDATE SET
+        isBlocked = 1,
+        blockedUntil = excluded.blockedUntil,
+        blockReason = excluded.blockReason
+      WHERE peers.isBlocked = 0 OR peers.blockedUntil IS NOT NULL
+    `).run(peerId, until, reason);
+  },
+
+  /**
+   * Lift a temporary ban, leaving a block until unblocked in place
+   */
+  unban: (peerId: string) => {
+    const db = getDatabase();
+    return db.prepare(`
+      UPDATE peers SET isBlocked = 0, blockedUntil = NULL, blockReason = NULL
+      WHERE peerId = ? AND blockedUntil IS NOT NULL
+    `).run(peerId);
+  },
+
+  /**
+   * Blocked peers whose block has not expired
+   */
+  getBlocked: () => {
+    const db = getDatabase();
+    const now = Math.floor(Date.now() / 1000);
+    return db.prepare(`
+      SELECT * FROM peers
+      WHERE isBlocked = 1 AND (blockedUntil IS NULL OR blockedUntil > ?)
+      ORDER BY lastSeen DESC
+    `).all(now) as { peerId: string; blockedUntil: number | null; blockReason: string | null }[];
+  },
+
+  unblockExpired: () => {
+    const db = getDatabase();
+    const now = Math.floor(Date.now() / 1000);
+    return db.prepare(`
+      UPDATE peers SET isBlocked = 0, blockedUntil = NULL, blockReason = NULL
+      WHERE isBlocked = 1 AND blockedUntil IS NOT NULL AND blockedUntil <= ?
+    `).run(now);
   }
 };
 
@@ -523,6 +1003,14 @@ export const SharedFolderOps = {
     return db.prepare('SELECT * FROM shared_folders WHERE isEnabled = 1').all();
   },
 
+  /**
+   * Whether a path is a shared folder
+   */
+  has: (folderPath: string): boolean => {
+    const db = getDatabase();
+    return db.prepare('SELECT 1 FROM shared_folders WHERE path = ? AND isEnabled = 1').get(folderPath) !== undefined;
+  },
+
   updateStats: (folderPath: string, filesCount: number, totalSize: number) => {
     const db = getDatabase();
     return db.prepare(`
@@ -530,6 +1018,190 @@ export const SharedFolderOps = {
       SET filesCount = ?, totalSize = ?, lastScanned = strftime('%s', 'now')
       WHERE path = ?
     `).run(filesCount, totalSize, folderPath);
+  },
+
+  getRules: (folderPath: string): ShareRules => {
+    const db = getDatabase();
+    const row = db.prepare('SELECT rules FROM shared_folders WHERE path = ?').get(folderPath) as { rules: string | null } | undefined;
+    if (!row?.rules) return normalizeShareRules();
+
+    try {
+      return normalizeShareRules(JSON.parse(row.rules));
+    } catch {
+      console.warn(`[Database] Invalid share rules for ${folderPath}, using defaults`);
+      return normalizeShareRules();
+    }
+  },
+
+  setRules: (folderPath: string, rules: ShareRules) => {
+    const db = getDatabase();
+    return db.prepare('UPDATE shared_folders SET rules = ? WHERE path = ?').run(JSON.stringify(rules), folderPath);
+  },
+
+  /**
+   * Who can see a folder's files: everyone, all friends or the listed friends (b32 addresses)
+   */
+  getVisibility: (folderPath: string): { visibility: FolderVisibility; allowedFriends: string[] } => {
+    const db = getDatabase();
+    const row = db.prepare('SELECT visibility, allowedFriends FROM shared_folders WHERE path = ?').get(folderPath) as {
+      visibility: string | null;
+      allowedFriends: string | null;
+    } | undefined;
+
+    let allowedFriends: string[] = [];
+    try {
+      allowedFriends = row?.allowedFriends ? JSON.parse(row.allowedFriends) : [];
+    } catch {
+      console.warn(`[Database] Invalid friends list for ${folderPath}`);
+    }
+
+    const visibility = row?.visibility === 'friends' || row?.visibility === 'selected' ? row.visibility : 'public';
+    return { visibility, allowedFriends };
+  },
+
+  setVisibility: (folderPath: string, visibility: FolderVisibility, allowedFriends: string[]) => {
+    const db = getDatabase();
+    return db.prepare('UPDATE shared_folders SET visibility = ?, allowedFriends = ? WHERE path = ?')
+      .run(visibility, JSON.stringify(allowedFriends), folderPath);
+  }
+};
+
+// Direct message operations. peerId is the other side's b32 address;
+// outgoing messages stay 'queued' until acknowledged, incoming ones are 'received' until read
+export const MessageOps = {
+  /**
+   * Store a message. Returns false if one with this ID exists (retried delivery)
+   */
+  add: (message: {
+    id: string;
+    peerId: string;
+    destination: string | null;
+    direction: 'in' | 'out';
+    body: string;
+    status: DirectMessageStatus;
+  }): boolean => {
+    const db = getDatabase();
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO messages (id, peerId, destination, direction, body, status, nextAttemptAt)
+      VALUES (?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
+    `).run(message.id, message.peerId, message.destination, message.direction, message.body, message.status);
+    return result.changes > 0;
+  },
+
+  get: (id: string) => {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM messages WHERE id = ?').get(id) as DirectMessage | undefined;
+  },
+
+  getConversation: (peerId: string, limit = 500) => {
+    const db = getDatabase();
+    return db.prepare(`
+      SELECT * FROM (
+        SELECT *, rowid AS seq FROM messages WHERE peerId = ? ORDER BY createdAt DESC, rowid DESC LIMIT ?
+      ) ORDER BY createdAt, seq
+    `).all(peerId, limit) as DirectMessage[];
+  },
+
+  /**
+   * Last message and unread count per peer, most recent first
+   */
+  getConversations: () => {
+    const db = getDatabase();
+    return db.prepare(`
+      SELECT m.peerId, m.body AS lastMessage, m.direction AS lastDirection, m.createdAt AS lastAt,
+        (SELECT COUNT(*) FROM messages u WHERE u.peerId = m.peerId AND u.status = 'received') AS unread
+      FROM messages m
+      WHERE m.rowid = (SELECT rowid FROM messages l WHERE l.peerId = m.peerId ORDER BY createdAt DESC, rowid DESC LIMIT 1)
+      ORDER BY m.createdAt DESC
+    `).all() as { peerId: string; lastMessage: string; lastDirection: 'in' | 'out'; lastAt: number; unread: number }[];
+  },
+
+  // Queued outgoing messages due for a delivery attempt
+  getDue: (limit = 20) => {
+    const db = getDatabase();
+    const now = Math.floor(Date.now() / 1000);
+    return db.prepare(`
+      SELECT * FROM messages
+      WHERE direction = 'out' AND status = 'queued' AND (nextAttemptAt IS NULL OR nextAttemptAt <= ?)
+      ORDER BY createdAt
+      LIMIT ?
+    `).all(now, limit) as DirectMessage[];
+  },
+
+  // Full destination a peer last messaged us from (or we reached it at)
+  getLastDestination: (peerId: string) => {
+    const db = getDatabase();
+    const row = db.prepare(`
+      SELECT destination FROM messages WHERE peerId = ? AND destination IS NOT NULL ORDER BY createdAt DESC, rowid DESC LIMIT 1
+    `).get(peerId) as { destination: string } | undefined;
+    return row?.destination || null;
+  },
+
+  setDestination: (id: string, destination: string) => {
+    const db = getDatabase();
+    return db.prepare('UPDATE messages SET destination = ? WHERE id = ?').run(destination, id);
+  },
+
+  markDelivered: (id: string) => {
+    const db = getDatabase();
+    return db.prepare(`
+      UPDATE messages SET status = 'delivered', deliveredAt = strftime('%s', 'now') WHERE id = ?
+    `).run(id);
+  },
+
+  reschedule: (id: string, nextAttemptAt: number) => {
+    const db = getDatabase();
+    return db.prepare('UPDATE messages SET attempts = attempts + 1, nextAttemptAt = ? WHERE id = ?').run(nextAttemptAt, id);
+  },
+
+  markFailed: (id: string) => {
+    const db = getDatabase();
+    return db.prepare("UPDATE messages SET status = 'failed' WHERE id = ?").run(id);
+  },
+
+  // Put a failed message back in the queue (retry from the UI)
+  requeue: (id: string) => {
+    const db = getDatabase();
+    return db.prepare(`
+      UPDATE messages SET status = 'queued', attempts = 0, nextAttemptAt = strftime('%s', 'now'), createdAt = strftime('%s', 'now')
+      WHERE id = ? AND direction = 'out' AND status = 'failed'
+    `).run(id);
+  },
+
+  markRead: (peerId: string) => {
+    const db = getDatabase();
+    return db.prepare("UPDATE messages SET status = 'read' WHERE peerId = ? AND status = 'received'").run(peerId);
+  }
+};
+
+// Friend operations (peers who exchanged invitations with us)
+export const FriendOps = {
+  add: (friend: { b32Address: string; destination: string; signingKey: string; displayName: string }) => {
+    const db = getDatabase();
+    return db.prepare(`
+      INSERT INTO friends (b32Address, destination, signingKey, displayName)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(b32Address) DO UPDATE SET
+        destination = excluded.destination,
+        signingKey = excluded.signingKey,
+        displayName = excluded.displayName
+    `).run(friend.b32Address, friend.destination, friend.signingKey, friend.displayName);
+  },
+
+  remove: (b32Address: string) => {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM friends WHERE b32Address = ?').run(b32Address);
+  },
+
+  getAll: () => {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM friends ORDER BY displayName').all() as {
+      b32Address: string;
+      destination: string;
+      signingKey: string;
+      displayName: string | null;
+      addedAt: number;
+    }[];
   }
 };
 
@@ -558,6 +1230,74 @@ export const DHTCacheOps = {
   }
 };
 
+// DHT keyword index operations (postings stored on behalf of other peers)
+export const KeywordIndexOps = {
+  /**
+   * Store postings for a keyword, keeping the later expiry of duplicates.
+   * Only the maxPostings entries expiring last are kept per keyword.
+   */
+  store: (keywordId: string, postings: KeywordPosting[], ttl: number, maxPostings = 500) => {
+    const db = getDatabase();
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    const upsert = db.prepare(`
+      INSERT INTO dht_keywords (keywordId, fileHash, publisher, infoHash, filename, size, mimeType, signingKey, signature, expiresAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(keywordId, fileHash, publisher) DO UPDATE SET
+        infoHash = excluded.infoHash,
+        filename = excluded.filename,
+        size = excluded.size,
+        mimeType = excluded.mimeType,
+        signingKey = excluded.signingKey,
+        signature = excluded.signature,
+        expiresAt = MAX(expiresAt, excluded.expiresAt)
+    `);
+    const trim = db.prepare(`
+      DELETE FROM dht_keywords WHERE keywordId = ? AND rowid NOT IN (
+        SELECT rowid FROM dht_keywords WHERE keywordId = ? ORDER BY expiresAt DESC LIMIT ?
+      )
+    `);
+
+    db.transaction(() => {
+      for (const p of postings) {
+        upsert.run(keywordId, p.fileHash, p.publisher, p.infoHash || null, p.filename, p.size, p.mimeType,
+          p.signingKey || null, p.signature || null, expiresAt);
+      }
+      trim.run(keywordId, keywordId, maxPostings);
+    })();
+  },
+
+  get: (keywordId: string, limit = 500): KeywordPosting[] => {
+    const db = getDatabase();
+    const now = Math.floor(Date.now() / 1000);
+    return db.prepare(`
+      SELECT fileHash, infoHash, filename, size, mimeType, publisher, signingKey, signature FROM dht_keywords
+      WHERE keywordId = ? AND expiresAt > ?
+      ORDER BY expiresAt DESC
+      LIMIT ?
+    `).all(keywordId, now, limit) as KeywordPosting[];
+  },
+
+  /**
+   * All live postings with their remaining lifetime, for replication
+   */
+  getAll: (limit = 10000): (KeywordPosting & { keywordId: string; expiresAt: number })[] => {
+    const db = getDatabase();
+    const now = Math.floor(Date.now() / 1000);
+    return db.prepare(`
+      SELECT keywordId, fileHash, infoHash, filename, size, mimeType, publisher, signingKey, signature, expiresAt FROM dht_keywords
+      WHERE expiresAt > ?
+      ORDER BY keywordId
+      LIMIT ?
+    `).all(now, limit) as (KeywordPosting & { keywordId: string; expiresAt: number })[];
+  },
+
+  cleanup: () => {
+    const db = getDatabase();
+    const now = Math.floor(Date.now() / 1000);
+    return db.prepare('DELETE FROM dht_keywords WHERE expiresAt <= ?').run(now);
+  }
+};
+
 // Routing table operations
 export const RoutingOps = {
   upsert: (nodeId: string, destination: string, bucketIndex: number) => {
@@ -593,6 +1333,11 @@ export const RoutingOps = {
     return db.prepare('UPDATE routing_table SET failCount = failCount + 1 WHERE nodeId = ?').run(nodeId);
   },
 
+  remove: (nodeId: string) => {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM routing_table WHERE nodeId = ?').run(nodeId);
+  },
+
   cleanup: () => {
     const db = getDatabase();
     // Remove nodes with too many failures
@@ -710,6 +1455,10 @@ export interface TorrentRow {
   state: string;
   downloadedBytes: number;
   uploadedBytes: number;
+  queuePosition: number;
+  priority: number;
+  uploadLimit: number;
+  downloadLimit: number;
   createdAt: number;
 }
 
@@ -753,8 +1502,8 @@ export const TorrentOps = {
   }): number => {
     const db = getDatabase();
     const stmt = db.prepare(`
-      INSERT INTO torrents (infoHash, name, totalSize, pieceLength, pieceCount, pieces, magnetUri, torrentData, savePath, isSeeding, state)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'stopped')
+      INSERT INTO torrents (infoHash, name, totalSize, pieceLength, pieceCount, pieces, magnetUri, torrentData, savePath, isSeeding, state, queuePosition)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'stopped', (SELECT COALESCE(MAX(queuePosition), 0) + 1 FROM torrents))
     `);
     const result = stmt.run(
       torrent.infoHash,
@@ -854,6 +1603,36 @@ export const TorrentOps = {
     }
   },
 
+  /**
+   * Set download priority
+   */
+  setPriority: (infoHash: string, priority: number): void => {
+    const db = getDatabase();
+    db.prepare('UPDATE torrents SET priority = ? WHERE infoHash = ?').run(priority, infoHash);
+  },
+
+  /**
+   * Set bandwidth limits in bytes/s (0 = unlimited)
+   */
+  setBandwidthLimits: (infoHash: string, uploadLimit: number, downloadLimit: number): void => {
+    const db = getDatabase();
+    db.prepare('UPDATE torrents SET uploadLimit = ?, downloadLimit = ? WHERE infoHash = ?').run(uploadLimit, downloadLimit, infoHash);
+  },
+
+  /**
+   * Save queue positions (infoHash -> position)
+   */
+  setQueuePositions: (positions: Map<string, number>): void => {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE torrents SET queuePosition = ? WHERE infoHash = ?');
+    const update = db.transaction(() => {
+      for (const [infoHash, position] of positions) {
+        stmt.run(position, infoHash);
+      }
+    });
+    update();
+  },
+
   /**
    * Update save path
    */
@@ -0,0 +1,315 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import type { KeywordPosting, SearchResult } from '../shared/types.js';
+import { createSignedMessage, generateSigningKeypair, nodeIdFromSigningKey, signMessageEd25519, SigningKeypair } from '../shared/utils.js';
+import { KeywordIndexOps, RoutingOps } from './database.js';
+import { DHTSearchEngine, dhtSearch } from './dht-search.js';
+import { rpc } from './rpc.js';
+
+const K = 20;
+const MAX_ADMISSION_PINGS = 8;
+const RPC_ATTEMPT_TIMEOUT = 60000; // Longer than any attempt to a destination without round trip stats
+
+interface FakeNode {
+  keys: SigningKeypair;
+  nodeId: string;
+  destination: string;
+  alive: boolean;                                      // Answers our requests
+  contacts: { nodeId: string; destination: string }[]; // Returned for FIND_NODE
+  postings: KeywordPosting[];                          // Returned for FIND_VALUE
+}
+
+function randomDestination(): string {
+  return `${crypto.randomBytes(26).toString('hex')}.b32.i2p`;
+}
+
+function createNode(destination: string = randomDestination()): FakeNode {
+  const keys = generateSigningKeypair();
+  return { keys, nodeId: nodeIdFromSigningKey(keys.publicKey), destination, alive: true, contacts: [], postings: [] };
+}
+
+/**
+ * Node whose ID differs from ours in the first bit: they all share the
+ * farthest bucket, so a few dozen of them are enough to fill it
+ */
+function createFarNode(ownId: string): FakeNode {
+  for (;;) {
+    const node = createNode();
+    if ((parseInt(node.nodeId[0], 16) ^ parseInt(ownId[0], 16)) & 8) return node;
+  }
+}
+
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+/**
+ * Datagram network of fake nodes around one engine. Replies are held until
+ * flush(), so a test can look at the routing table while requests are pending.
+ */
+class FakeNetwork {
+  private nodes: Map<string, FakeNode> = new Map();
+  private replies: (() => void)[] = [];
+  requests: { to: string; type: string }[] = [];
+
+  constructor(private engine: DHTSearchEngine) {
+    rpc.setMessageHandler(async (to, message) => {
+      // Replies to the nodes' own requests go nowhere
+      if (typeof message._rpc !== 'string') return true;
+
+      const request = message.data;
+      this.requests.push({ to, type: request.type });
+
+      const node = this.nodes.get(to);
+      if (node?.alive) {
+        const { searchId, keywordId } = request.payload;
+        const payload = request.type === 'FIND_NODE' ? { isResponse: true, nodes: node.contacts }
+          : request.type === 'FIND_VALUE' ? { isResponse: true, searchId, keywordId, results: [], postings: node.postings, closerNodes: [] }
+          : { isResponse: true };
+        const reply = { ...this.sign(node, request.type === 'PING' ? 'PONG' : request.type, payload), _re: message._rpc };
+        this.replies.push(() => this.deliver(node, reply));
+      }
+      return true;
+    });
+  }
+
+  add(node: FakeNode): FakeNode {
+    this.nodes.set(node.destination, node);
+    return node;
+  }
+
+  /**
+   * The node contacts the engine (a PING, as any message it signs would do)
+   */
+  ping(node: FakeNode): void {
+    this.deliver(node, this.sign(node, 'PING', {}));
+  }
+
+  /**
+   * Deliver the oldest reply held back
+   */
+  async flushOne(): Promise<void> {
+    await settle();
+    this.replies.shift()?.();
+    await settle();
+  }
+
+  async flush(): Promise<void> {
+    await settle();
+    while (this.replies.length > 0) {
+      this.replies.splice(0).forEach(deliver => deliver());
+      await settle();
+    }
+  }
+
+  pingsTo(node: FakeNode): number {
+    return this.requests.filter(request => request.type === 'PING' && request.to === node.destination).length;
+  }
+
+  private sign(node: FakeNode, type: string, payload: object): object {
+    const message = { type, payload, timestamp: Date.now(), nodeId: node.nodeId };
+    return createSignedMessage(message, node.keys.privateKey, node.keys.publicKey);
+  }
+
+  private deliver(node: FakeNode, message: any): void {
+    if (!rpc.handleMessage(node.destination, message)) {
+      this.engine.handleMessage(node.destination, message);
+    }
+  }
+}
+
+/**
+ * Posting for `publisher`, signed with `signer`'s key (as dht-search signs them)
+ */
+function createPosting(filename: string, publisher: FakeNode, signer: FakeNode = publisher): KeywordPosting {
+  const posting: KeywordPosting = {
+    fileHash: crypto.createHash('sha256').update(filename).digest('hex'),
+    infoHash: null,
+    filename,
+    size: 1024,
+    mimeType: 'application/pdf',
+    publisher: publisher.destination,
+    signingKey: signer.keys.publicKey
+  };
+  const signed = JSON.stringify([posting.fileHash, null, filename, posting.size, posting.mimeType, posting.publisher, posting.signingKey]);
+  return { ...posting, signature: signMessageEd25519(signed, signer.keys.privateKey) };
+}
+
+function routingTable(engine: DHTSearchEngine): Set<string> {
+  return new Set(engine.getClosestNodes(engine.getNodeId(), Infinity).map(node => node.nodeId));
+}
+
+describe('DHT routing table under a flood of fake nodes', () => {
+  let engine: DHTSearchEngine;
+  let network: FakeNetwork;
+
+  before(() => {
+    // No database in these tests: the routing table is only kept in memory
+    mock.method(RoutingOps, 'upsert', () => undefined);
+    mock.method(RoutingOps, 'remove', () => undefined);
+    mock.method(RoutingOps, 'incrementFail', () => undefined);
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    engine = new DHTSearchEngine();
+    engine.setIdentity(generateSigningKeypair(), randomDestination());
+    network = new FakeNetwork(engine);
+  });
+
+  afterEach(async () => {
+    rpc.cancelAll();
+    await settle();
+    engine.cleanup();
+    mock.timers.reset();
+  });
+
+  after(() => {
+    dhtSearch.cleanup();
+    mock.restoreAll();
+  });
+
+  it('gives one destination a single slot, whatever node IDs it signs with', () => {
+    const destination = randomDestination();
+    const identities = Array.from({ length: 50 }, () => network.add(createNode(destination)));
+
+    identities.forEach(node => network.ping(node));
+
+    assert.deepEqual([...routingTable(engine)], [identities[0].nodeId]);
+  });
+
+  it('pings nodes it hears about and admits only those that answer', async () => {
+    const seed = network.add(createNode());
+    const candidates = Array.from({ length: K }, (_, i) => {
+      const node = network.add(createNode());
+      node.alive = i % 2 === 0;
+      return node;
+    });
+    seed.contacts = candidates.map(({ nodeId, destination }) => ({ nodeId, destination }));
+
+    await engine.bootstrap([{ nodeId: '', destination: seed.destination }]);
+    await settle();
+
+    // The seed's answer lists the candidates: they're pinged, not inserted
+    network.requests.length = 0;
+    await network.flushOne();
+
+    const pinged = candidates.filter(node => network.pingsTo(node) > 0);
+    assert.ok(pinged.length > 0 && pinged.length <= MAX_ADMISSION_PINGS);
+    assert.deepEqual([...routingTable(engine)], [seed.nodeId]);
+
+    await network.flush();
+    mock.timers.tick(RPC_ATTEMPT_TIMEOUT);
+    await settle();
+
+    const admitted = pinged.filter(node => node.alive).map(node => node.nodeId);
+    assert.deepEqual(routingTable(engine), new Set([seed.nodeId, ...admitted]));
+  });
+
+  it('keeps the nodes of a full bucket while they answer', async () => {
+    const members = Array.from({ length: K }, () => network.add(createFarNode(engine.getNodeId())));
+    members.forEach(node => network.ping(node));
+    assert.equal(routingTable(engine).size, K);
+
+    const newcomers = Array.from({ length: 50 }, () => network.add(createFarNode(engine.getNodeId())));
+    newcomers.forEach(node => network.ping(node));
+
+    // One check of the bucket at a time, however many newcomers knock
+    assert.equal(network.requests.filter(request => request.type === 'PING').length, 1);
+    assert.equal(network.pingsTo(members[0]), 1);
+
+    await network.flush();
+    assert.deepEqual(routingTable(engine), new Set(members.map(node => node.nodeId)));
+  });
+
+  it('evicts the oldest node of a full bucket only when it stops answering', async () => {
+    const members = Array.from({ length: K }, () => network.add(createFarNode(engine.getNodeId())));
+    members.forEach(node => network.ping(node));
+
+    members[0].alive = false;
+    const newcomer = network.add(createFarNode(engine.getNodeId()));
+    network.ping(newcomer);
+    assert.equal(network.pingsTo(members[0]), 1);
+
+    // Still there while the PING is being retried
+    mock.timers.tick(RPC_ATTEMPT_TIMEOUT / 4);
+    await settle();
+    assert.ok(routingTable(engine).has(members[0].nodeId));
+    assert.ok(!routingTable(engine).has(newcomer.nodeId));
+
+    for (let i = 0; i < 3; i++) {
+      mock.timers.tick(RPC_ATTEMPT_TIMEOUT);
+      await settle();
+    }
+
+    const expected = new Set([...members.slice(1), newcomer].map(node => node.nodeId));
+    assert.deepEqual(routingTable(engine), expected);
+  });
+});
+
+describe('DHT keyword search attribution', () => {
+  let engine: DHTSearchEngine;
+  let network: FakeNetwork;
+
+  before(() => {
+    mock.method(RoutingOps, 'upsert', () => undefined);
+    mock.method(RoutingOps, 'remove', () => undefined);
+    mock.method(RoutingOps, 'incrementFail', () => undefined);
+    mock.method(KeywordIndexOps, 'get', () => []);
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    engine = new DHTSearchEngine();
+    engine.setIdentity(generateSigningKeypair(), randomDestination());
+    network = new FakeNetwork(engine);
+  });
+
+  afterEach(async () => {
+    rpc.cancelAll();
+    await settle();
+    engine.cleanup();
+    mock.timers.reset();
+  });
+
+  after(() => {
+    dhtSearch.cleanup();
+    mock.restoreAll();
+  });
+
+  it('shows postings only under the key their publisher signs with', async () => {
+    const storer = network.add(createNode());
+    const known = network.add(createNode());      // Has talked to us: its key is known
+    const unknown = network.add(createNode());    // Never did: pinged to learn its key
+    const forger = network.add(createNode());
+    network.ping(storer);
+    network.ping(known);
+
+    const unsigned: KeywordPosting = { ...createPosting('report-unsigned.pdf', known) };
+    delete unsigned.signature;
+    storer.postings = [
+      createPosting('report-known.pdf', known),
+      createPosting('report-unknown.pdf', unknown),
+      createPosting('report-forged.pdf', known, forger),
+      createPosting('report-forged-unknown.pdf', unknown, forger),
+      unsigned
+    ];
+
+    const results: SearchResult[] = [];
+    engine.on('search:result', ({ result }) => results.push(result));
+    const done = new Promise(resolve => engine.startSearch('report', {}, { onComplete: resolve }));
+
+    await network.flush();
+    await done;
+
+    assert.deepEqual(
+      results.map(result => `${result.filename} ${result.peerId === known.destination ? 'known' : 'unknown'}`).sort(),
+      ['report-known.pdf known', 'report-unknown.pdf unknown']
+    );
+    assert.equal(network.pingsTo(unknown), 1);
+    assert.equal(network.pingsTo(known), 0);
+  });
+});
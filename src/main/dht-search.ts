@@ -1,14 +1,52 @@
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import type { DHTMessage, PeerAnnounce, SearchFilters, SearchResult } from '../shared/types.js';
-import { DHTCacheOps, FileOps, PeerOps, RoutingOps } from './database.js';
+import {
+  applySearchFilters,
+  deserializeSearchQuery,
+  extractKeywords,
+  getLookupKeywords,
+  matchesSearchQuery,
+  parseSearchQuery
+} from '../shared/search-query.js';
+import { aggregateSearchResult, rankSearchResults } from '../shared/search-ranking.js';
+import type { DHTMessage, KeywordPosting, PeerAnnounce, SearchFilters, SearchQueryAST, SearchResult } from '../shared/types.js';
+import {
+  createSignedMessage,
+  nodeIdFromSigningKey,
+  signMessageEd25519,
+  SigningKeypair,
+  verifySignatureEd25519,
+  verifySignedMessage
+} from '../shared/utils.js';
+import { DHTCacheOps, FileOps, KeywordIndexOps, PeerOps, RoutingOps } from './database.js';
+import { friendList } from './friends.js';
+import { peerBlocklist } from './peer-blocklist.js';
+import { peerLimiter } from './peer-limiter.js';
+import { RequestOptions, RPCEnvelope, RPCMessage, rpc } from './rpc.js';
 
 const K = 20; // Kademlia bucket size
 const ALPHA = 3; // Parallel lookups
 const ID_BITS = 160; // SHA1 produces 160-bit IDs
 const PEER_EXPIRATION = 30 * 60 * 1000; // 30 minutes
 const TOKEN_SECRET_ROTATION = 5 * 60 * 1000; // 5 minutes
+const MAX_LOCAL_RESULTS = 200; // Max local matches returned to a remote FIND_VALUE
+
+// Keyword index (spec: "Algorithme Kademlia DHT")
+const KEYWORD_TTL = 3600; // Postings expire after 1 hour (seconds)
+const KEYWORD_REPUBLISH_INTERVAL = 30 * 60 * 1000; // Publishers refresh every 30 minutes
+const KEYWORD_REPLICATE_INTERVAL = 20 * 60 * 1000; // Storing nodes re-replicate every 20 minutes
+const MAX_POSTINGS_PER_KEYWORD = 500; // Kept per keyword, and returned per FIND_VALUE
+const MAX_STORE_KEYWORDS = 200; // Keyword entries accepted in one STORE
+const MAX_STORE_BYTES = 24 * 1024; // Split outgoing STOREs to stay under datagram limits
+const NONCE_TTL = 6 * 60 * 1000; // Signed messages expire after 5 minutes, plus 1 minute clock drift
+const MAX_NONCES = 100000;
+const LOOKUP_RETRIES = 1; // Lookups move on to other nodes rather than waiting long
+const MAX_ADMISSION_PINGS = 8; // Nodes heard of from others, pinged at once before admission
+const MAX_BOOTSTRAP_CONTACTS = 50;
+const MAX_PEERS_PER_LOOKUP = 50;
+const MAX_SIGNERS = 10000; // Destinations whose signing node ID we remember
+const MAX_PUBLISHER_PINGS = 16; // Unknown publishers pinged per search to learn their key
 
 interface DHTNode {
   nodeId: string;
@@ -19,14 +57,25 @@ interface DHTNode {
 interface SearchContext {
   id: string;
   query: string;
-  filters: SearchFilters;
-  results: Map<string, SearchResult>;
-  visited: Set<string>;
-  pending: Set<string>;
+  ast: SearchQueryAST;
+  results: Map<string, SearchResult>;               // `${fileHash}:${peerId}` -> result (one per source)
+  keywordIds: string[];                             // Keywords looked up (empty: whole-query lookup)
+  postings: Map<string, Set<string>>;               // keywordId -> fileHashes found under it
+  candidates: Map<string, SearchResult[]>;          // fileHash -> matching postings, until found under every keyword
+  visited: Set<string>;                             // `${targetId}:${nodeId}` lookups sent
+  pending: Set<string>;                             // `${targetId}:${nodeId}` lookups (and publisher pings) awaiting a reply
+  unconfirmed: Map<string, { keywordId: string; posting: KeywordPosting }[]>; // publisher -> postings held until it signs a reply
   callback: (results: SearchResult[]) => void;
   timeout: NodeJS.Timeout;
 }
 
+// Keyword postings sent in one STORE
+interface KeywordStoreEntry {
+  keywordId: string;
+  ttl: number;
+  postings: KeywordPosting[];
+}
+
 // BEP5: Peer info for a torrent
 interface TorrentPeer {
   destination: string;
@@ -39,20 +88,120 @@ interface TokenInfo {
   previousSecret: string;
 }
 
+const SHA1_HEX_REGEX = /^[0-9a-f]{40}$/;
+
+/**
+ * Validate a keyword posting received from the network
+ */
+function sanitizePosting(raw: any): KeywordPosting | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { fileHash, infoHash, filename, size, mimeType, publisher } = raw;
+
+  if (typeof fileHash !== 'string' || !/^[0-9a-f]{64}$/.test(fileHash)) return null;
+  if (infoHash != null && (typeof infoHash !== 'string' || !SHA1_HEX_REGEX.test(infoHash))) return null;
+  if (typeof filename !== 'string' || filename.length === 0 || filename.length > 255) return null;
+  if (typeof size !== 'number' || !Number.isFinite(size) || size < 0) return null;
+  if (typeof mimeType !== 'string' || mimeType.length > 255) return null;
+  if (typeof publisher !== 'string' || publisher.length === 0 || publisher.length > 1024) return null;
+
+  const posting: KeywordPosting = { fileHash, infoHash: infoHash || null, filename, size, mimeType, publisher };
+  if (raw.signature != null) {
+    if (typeof raw.signingKey !== 'string' || raw.signingKey.length > 256) return null;
+    if (typeof raw.signature !== 'string' || raw.signature.length > 256) return null;
+    posting.signingKey = raw.signingKey;
+    posting.signature = raw.signature;
+  }
+  return posting;
+}
+
+/**
+ * What a publisher signs: the posting's fields in a fixed order
+ */
+function postingSignedData(posting: KeywordPosting): string {
+  return JSON.stringify([
+    posting.fileHash,
+    posting.infoHash || null,
+    posting.filename,
+    posting.size,
+    posting.mimeType,
+    posting.publisher,
+    posting.signingKey
+  ]);
+}
+
+/**
+ * Check a posting's signature against the key it carries
+ */
+function hasValidSignature(posting: KeywordPosting): boolean {
+  if (!posting.signingKey || !posting.signature) return false;
+  return verifySignatureEd25519(postingSignedData(posting), posting.signature, posting.signingKey);
+}
+
+/**
+ * Split keyword entries into STORE payloads of about MAX_STORE_BYTES of JSON,
+ * cutting long posting lists across messages
+ */
+function batchStoreEntries(entries: KeywordStoreEntry[]): KeywordStoreEntry[][] {
+  const ENTRY_OVERHEAD = 80; // keywordId, ttl and keys
+  const postingBytes = new Map<KeywordPosting, number>();
+  const batches: KeywordStoreEntry[][] = [];
+  let batch: KeywordStoreEntry[] = [];
+  let batchBytes = 0;
+
+  for (const entry of entries) {
+    let current: KeywordStoreEntry | null = null;
+
+    for (const posting of entry.postings) {
+      let bytes = postingBytes.get(posting);
+      if (bytes === undefined) {
+        bytes = JSON.stringify(posting).length + 1;
+        postingBytes.set(posting, bytes);
+      }
+
+      const cost = bytes + (current ? 0 : ENTRY_OVERHEAD);
+      if (batch.length > 0 && (batchBytes + cost > MAX_STORE_BYTES || (!current && batch.length >= MAX_STORE_KEYWORDS))) {
+        batches.push(batch);
+        batch = [];
+        batchBytes = 0;
+        current = null;
+      }
+
+      if (!current) {
+        current = { keywordId: entry.keywordId, ttl: entry.ttl, postings: [] };
+        batch.push(current);
+        batchBytes += ENTRY_OVERHEAD;
+      }
+      current.postings.push(posting);
+      batchBytes += bytes;
+    }
+  }
+
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
 export class DHTSearchEngine extends EventEmitter {
   private nodeId: string;
   private destination: string;
+  private signingKeys: SigningKeypair | null = null;
+  private usedNonces: Map<string, number> = new Map(); // Replay protection: nonce -> time seen
   private routingTable: Map<number, DHTNode[]> = new Map();
+  private destinations: Map<string, string> = new Map(); // destination -> nodeId (one slot per destination)
+  private signers: Map<string, string> = new Map();      // destination -> nodeId it signs messages with
+  private admissionPings: Set<string> = new Set();      // Destinations of candidates being pinged
+  private bucketChecks: Set<number> = new Set();        // Full buckets whose oldest node is being pinged
   private activeSearches: Map<string, SearchContext> = new Map();
-  private messageHandler: ((from: string, message: any) => void) | null = null;
 
   // BEP5: Peers storage by infoHash
   private torrentPeers: Map<string, Map<string, TorrentPeer>> = new Map();
   // BEP5: Token secret for announce authorization
   private tokenInfo: TokenInfo;
   private tokenRotationTimer: NodeJS.Timeout | null = null;
-  // Cache for tokens received from other nodes: Map<nodeId, token>
-  private tokenCache: Map<string, string> = new Map();
+
+  // Keyword index: files we publish, refreshed before their postings expire
+  private publishedFiles: any[] = [];
+  private keywordRepublishTimer: NodeJS.Timeout | null = null;
+  private keywordReplicationTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     super();
@@ -75,6 +224,11 @@ export class DHTSearchEngine extends EventEmitter {
     this.tokenRotationTimer = setInterval(() => {
       this.rotateTokenSecret();
     }, TOKEN_SECRET_ROTATION);
+
+    // Re-replicate keyword postings we store for others
+    this.keywordReplicationTimer = setInterval(() => {
+      this.replicateKeywords();
+    }, KEYWORD_REPLICATE_INTERVAL);
   }
 
   /**
@@ -112,14 +266,129 @@ export class DHTSearchEngine extends EventEmitter {
     return token === currentToken || token === previousToken;
   }
 
-  setIdentity(publicKey: string, destination: string): void {
-    this.nodeId = crypto.createHash('sha1').update(publicKey).digest('hex');
+  /**
+   * Set our signing keys (the node ID is derived from the public key) and destination
+   */
+  setIdentity(signingKeys: SigningKeypair, destination: string): void {
+    this.signingKeys = signingKeys;
+    this.nodeId = nodeIdFromSigningKey(signingKeys.publicKey);
     this.destination = destination;
     console.log('[DHT] Node ID:', this.nodeId.substring(0, 16) + '...');
   }
 
-  setMessageHandler(handler: (from: string, message: any) => void): void {
-    this.messageHandler = handler;
+  /**
+   * Messages go out through the RPC layer with our node ID added, signed
+   */
+  private wrap = (message: RPCMessage): object => {
+    const dhtMessage = { ...message, nodeId: this.nodeId } as DHTMessage;
+    if (!this.signingKeys) return dhtMessage;
+    return createSignedMessage(dhtMessage, this.signingKeys.privateKey, this.signingKeys.publicKey);
+  };
+
+  /**
+   * Check a signed DHT message: valid signature, unused nonce, and a node ID
+   * derived from the signing key. Returns the message inside, null if rejected.
+   */
+  private verify(from: string, signed: any): DHTMessage | null {
+    const sender = from.substring(0, 30);
+
+    if (!signed || typeof signed.signature !== 'string' || typeof signed.signingKey !== 'string'
+      || typeof signed.nonce !== 'string' || typeof signed.timestamp !== 'number') {
+      console.log(`[DHT] Rejected unsigned message from ${sender}...`);
+      return null;
+    }
+
+    const verification = verifySignedMessage({
+      data: signed.data,
+      nonce: signed.nonce,
+      timestamp: signed.timestamp,
+      signature: signed.signature,
+      signingKey: signed.signingKey
+    });
+
+    if (!verification.valid) {
+      console.log(`[DHT] Rejected message from ${sender}...: ${verification.error}`);
+      // Expired messages may just be late, forged ones count against the sender
+      if (verification.error === 'Invalid signature') {
+        peerLimiter.penalize(from, 'invalid-signature');
+      }
+      return null;
+    }
+
+    const message = verification.data as DHTMessage;
+    if (!message || typeof message.type !== 'string' || typeof message.payload !== 'object' || message.payload === null) {
+      console.log(`[DHT] Rejected malformed message from ${sender}...`);
+      peerLimiter.penalize(from, 'malformed');
+      return null;
+    }
+    if (message.nodeId !== nodeIdFromSigningKey(signed.signingKey)) {
+      console.log(`[DHT] Rejected message from ${sender}...: node ID doesn't match signing key`);
+      peerLimiter.penalize(from, 'invalid-signature');
+      return null;
+    }
+
+    // Check for replay attack
+    if (this.usedNonces.has(signed.nonce)) {
+      console.log(`[DHT] Rejected message from ${sender}...: Nonce reused`);
+      peerLimiter.penalize(from, 'replayed-nonce');
+      return null;
+    }
+    this.usedNonces.set(signed.nonce, Date.now());
+    this.pruneNonces();
+    this.rememberSigner(from, message.nodeId);
+
+    return message;
+  }
+
+  /**
+   * Record the node ID a destination signs with. The datagram's sender is
+   * authenticated by I2P, so this binds the destination to that key.
+   */
+  private rememberSigner(destination: string, nodeId: string): void {
+    this.signers.delete(destination);
+    this.signers.set(destination, nodeId);
+    if (this.signers.size > MAX_SIGNERS) {
+      this.signers.delete(this.signers.keys().next().value!);
+    }
+  }
+
+  private pruneNonces(): void {
+    const cutoff = Date.now() - NONCE_TTL;
+    for (const [nonce, seenAt] of this.usedNonces) {
+      if (seenAt >= cutoff && this.usedNonces.size <= MAX_NONCES) break;
+      this.usedNonces.delete(nonce);
+    }
+  }
+
+  /**
+   * Send a request to a node and verify its signed reply. The responder is
+   * (re)added to the routing table under its verified node ID.
+   */
+  private async request(node: DHTNode, type: DHTMessage['type'], payload: any, options: RequestOptions = {}): Promise<DHTMessage> {
+    const { from, message } = await rpc.request(node.destination, type, payload, { ...options, wrap: this.wrap });
+
+    const reply = this.verify(from, message);
+    if (!reply) {
+      throw new Error(`Rejected ${type} reply`);
+    }
+
+    if (node.nodeId && reply.nodeId !== node.nodeId) {
+      // Stale entry (e.g. a node ID from before signing keys)
+      this.removeNode(node.nodeId);
+    }
+    this.updateNode(reply.nodeId, from);
+
+    return reply;
+  }
+
+  /**
+   * Reply matcher for peers that don't echo RPC request IDs
+   */
+  private isResponse(type: DHTMessage['type'], check: (payload: any) => boolean = () => true): (message: any) => boolean {
+    return (message) => {
+      const inner = message?.data;
+      return inner?.type === type && inner.payload?.isResponse === true && check(inner.payload);
+    };
   }
 
   /**
@@ -161,9 +430,23 @@ export class DHTSearchEngine extends EventEmitter {
     return 0;
   }
 
-  // Add or update a node in the routing table
+  /**
+   * Add or refresh a node we heard from directly (verified signed message).
+   * Nodes we only heard about from others go through addCandidate().
+   *
+   * Admission follows Kademlia: a full bucket keeps its nodes as long as they
+   * answer, and each destination holds a single slot, so one peer can't fill
+   * buckets with node IDs of its own.
+   */
   updateNode(nodeId: string, destination: string): void {
-    if (nodeId === this.nodeId) return;
+    if (nodeId === this.nodeId || !SHA1_HEX_REGEX.test(nodeId) || !destination) return;
+    if (peerBlocklist.isBlocked(destination)) return;
+
+    const holder = this.destinations.get(destination);
+    if (holder && holder !== nodeId) {
+      // Keep the node we've known longer
+      return;
+    }
 
     const bucketIndex = this.getBucketIndex(nodeId);
     let bucket = this.routingTable.get(bucketIndex) || [];
@@ -175,7 +458,10 @@ export class DHTSearchEngine extends EventEmitter {
       // Move to end (most recently seen)
       const [node] = bucket.splice(existingIndex, 1);
       node.lastSeen = Date.now();
-      node.destination = destination;
+      if (node.destination !== destination) {
+        this.destinations.delete(node.destination);
+        node.destination = destination;
+      }
       bucket.push(node);
     } else if (bucket.length < K) {
       // Add new node
@@ -185,16 +471,79 @@ export class DHTSearchEngine extends EventEmitter {
         lastSeen: Date.now()
       });
     } else {
-      // Bucket full - could implement eviction here
-      // For now, just ignore new node
+      // Bucket full - the newcomer only gets in if the oldest node is gone
+      this.checkBucket(bucketIndex, nodeId, destination);
+      return;
     }
 
+    this.destinations.set(destination, nodeId);
     this.routingTable.set(bucketIndex, bucket);
 
     // Persist to database
     RoutingOps.upsert(nodeId, destination, bucketIndex);
   }
 
+  /**
+   * Ping the least recently seen node of a full bucket; replace it with the
+   * newcomer only if it doesn't answer. Responsive nodes are never evicted.
+   */
+  private checkBucket(bucketIndex: number, nodeId: string, destination: string): void {
+    if (this.bucketChecks.has(bucketIndex) || !rpc.isReady()) return;
+
+    const oldest = this.routingTable.get(bucketIndex)?.[0];
+    if (!oldest) return;
+
+    this.bucketChecks.add(bucketIndex);
+    this.request(oldest, 'PING', {}, { match: this.isResponse('PONG') })
+      .catch(() => {
+        console.log(`[DHT] Evicting unresponsive node ${oldest.nodeId.substring(0, 16)}...`);
+        this.removeNode(oldest.nodeId);
+        this.updateNode(nodeId, destination);
+      })
+      .finally(() => {
+        this.bucketChecks.delete(bucketIndex);
+      });
+  }
+
+  /**
+   * Consider a node another node told us about. It enters the routing table
+   * only after answering a PING itself (with a reply signed by its key).
+   */
+  private addCandidate(nodeId: unknown, destination: unknown): void {
+    if (typeof nodeId !== 'string' || typeof destination !== 'string' || !SHA1_HEX_REGEX.test(nodeId)) return;
+    if (nodeId === this.nodeId || destination === this.destination) return;
+    if (peerBlocklist.isBlocked(destination)) return;
+    if (this.destinations.has(destination) || this.admissionPings.has(destination)) return;
+    if (this.admissionPings.size >= MAX_ADMISSION_PINGS || !rpc.isReady()) return;
+
+    // Not worth a PING if it couldn't get into its bucket anyway
+    if ((this.routingTable.get(this.getBucketIndex(nodeId))?.length || 0) >= K) return;
+
+    this.admissionPings.add(destination);
+    this.request({ nodeId, destination, lastSeen: 0 }, 'PING', {}, { retries: 0, match: this.isResponse('PONG') })
+      .catch(() => {
+        // Not reachable, not admitted
+      })
+      .finally(() => {
+        this.admissionPings.delete(destination);
+      });
+  }
+
+  // Remove a node from the routing table
+  private removeNode(nodeId: string): void {
+    if (!SHA1_HEX_REGEX.test(nodeId)) return;
+
+    const bucket = this.routingTable.get(this.getBucketIndex(nodeId));
+    const index = bucket ? bucket.findIndex(n => n.nodeId === nodeId) : -1;
+    if (index >= 0) {
+      const [node] = bucket!.splice(index, 1);
+      if (this.destinations.get(node.destination) === nodeId) {
+        this.destinations.delete(node.destination);
+      }
+    }
+    RoutingOps.remove(nodeId);
+  }
+
   // Get the K closest nodes to a target
   getClosestNodes(targetId: string, count: number = K): DHTNode[] {
     const allNodes: DHTNode[] = [];
@@ -220,211 +569,328 @@ export class DHTSearchEngine extends EventEmitter {
     return crypto.createHash('sha1').update(query.toLowerCase()).digest('hex');
   }
 
+  // Hash a keyword to get its key in the keyword index
+  hashKeyword(keyword: string): string {
+    return crypto.createHash('sha1').update(`kw:${keyword}`).digest('hex');
+  }
+
   // Perform a distributed search
   async search(query: string, filters: SearchFilters = {}, timeout = 10000): Promise<SearchResult[]> {
     return new Promise((resolve) => {
-      const searchId = uuidv4();
-      const targetId = this.hashQuery(query);
-
-      const context: SearchContext = {
-        id: searchId,
-        query,
-        filters,
-        results: new Map(),
-        visited: new Set(),
-        pending: new Set(),
-        callback: resolve,
-        timeout: setTimeout(() => {
-          this.finalizeSearch(searchId);
-        }, timeout)
-      };
+      this.startSearch(query, filters, { timeout, onComplete: resolve });
+    });
+  }
 
-      this.activeSearches.set(searchId, context);
+  /**
+   * Start a distributed search and return its ID right away.
+   * Each query keyword is looked up in the keyword index and the postings are
+   * intersected; queries without an indexable word fall back to a lookup of
+   * the whole query. Each new hit is emitted as 'search:result', then
+   * 'search:complete' once all queried nodes answered, the timeout fired or
+   * cancelSearch() was called.
+   */
+  startSearch(
+    query: string,
+    filters: SearchFilters = {},
+    options: { timeout?: number; searchId?: string; onComplete?: (results: SearchResult[]) => void } = {}
+  ): string {
+    const { timeout = 10000, searchId = uuidv4(), onComplete = () => {} } = options;
+    const ast = applySearchFilters(parseSearchQuery(query).ast, filters);
+    const keywordIds = getLookupKeywords(ast).map(keyword => this.hashKeyword(keyword));
+
+    const context: SearchContext = {
+      id: searchId,
+      query,
+      ast,
+      results: new Map(),
+      keywordIds,
+      postings: new Map(keywordIds.map(id => [id, new Set()])),
+      candidates: new Map(),
+      visited: new Set(),
+      pending: new Set(),
+      unconfirmed: new Map(),
+      callback: onComplete,
+      timeout: setTimeout(() => {
+        this.finalizeSearch(searchId);
+      }, timeout)
+    };
+
+    this.activeSearches.set(searchId, context);
 
-      // Get initial nodes to query
-      const closestNodes = this.getClosestNodes(targetId, ALPHA);
+    // Emit search started event
+    this.emit('search:start', { searchId, query });
 
-      if (closestNodes.length === 0) {
-        // No known nodes, return empty results
-        clearTimeout(context.timeout);
-        this.activeSearches.delete(searchId);
-        resolve([]);
-        return;
+    // Postings we store ourselves count as a first answer (after the caller got the ID)
+    setImmediate(() => {
+      for (const keywordId of keywordIds) {
+        this.addPostings(context, keywordId, KeywordIndexOps.get(keywordId, MAX_POSTINGS_PER_KEYWORD));
       }
+    });
 
-      // Start parallel lookups
-      for (const node of closestNodes) {
-        this.sendFindValue(searchId, node, targetId, query, filters);
+    // Start parallel lookups, one per keyword
+    const targetIds = keywordIds.length > 0 ? keywordIds : [this.hashQuery(query)];
+    let queried = 0;
+    for (const targetId of targetIds) {
+      for (const node of this.getClosestNodes(targetId, ALPHA)) {
+        this.sendFindValue(searchId, node, targetId);
+        queried++;
       }
+    }
 
-      // Emit search started event
-      this.emit('search:start', { searchId, query });
-    });
+    if (queried === 0) {
+      // No known nodes, complete with what we store locally (once its publishers answered)
+      setImmediate(() => {
+        if (context.pending.size === 0) this.finalizeSearch(searchId);
+      });
+    }
+
+    return searchId;
   }
 
-  private async sendFindValue(
-    searchId: string,
-    node: DHTNode,
-    targetId: string,
-    query: string,
-    filters: SearchFilters
-  ): Promise<void> {
+  /**
+   * Stop a running search. Results found so far are still delivered.
+   */
+  cancelSearch(searchId: string): boolean {
+    if (!this.activeSearches.has(searchId)) return false;
+    this.finalizeSearch(searchId, true);
+    return true;
+  }
+
+  private async sendFindValue(searchId: string, node: DHTNode, targetId: string): Promise<void> {
     const context = this.activeSearches.get(searchId);
     if (!context) return;
 
-    if (context.visited.has(node.nodeId)) return;
-    context.visited.add(node.nodeId);
-    context.pending.add(node.nodeId);
-
-    const message: DHTMessage = {
-      type: 'FIND_VALUE',
-      nodeId: this.nodeId,
-      payload: {
-        searchId,
-        targetId,
-        query,
-        filters,
-        origin: this.destination
-      },
-      timestamp: Date.now()
+    const lookupKey = `${targetId}:${node.nodeId}`;
+    if (context.visited.has(lookupKey)) return;
+    context.visited.add(lookupKey);
+    context.pending.add(lookupKey);
+
+    const payload = {
+      searchId, // Echoed by peers without RPC support
+      targetId,
+      keywordId: context.postings.has(targetId) ? targetId : undefined,
+      query: context.query, // Raw text, for peers that don't understand the AST
+      ast: context.ast,
+      origin: this.destination
     };
 
     try {
-      if (this.messageHandler) {
-        this.messageHandler(node.destination, message);
-      }
-      // Note: Do NOT delete from pending here - we need to wait for response
-      // pending will be cleared in handleSearchResponse or by timeout
-    } catch (error) {
-      console.error(`[DHT] Error sending to ${node.nodeId}:`, error);
+      const message = await this.request(node, 'FIND_VALUE', payload, {
+        retries: LOOKUP_RETRIES,
+        match: this.isResponse('FIND_VALUE', (reply) => reply.searchId === searchId
+          && (!reply.keywordId || reply.keywordId === targetId))
+      });
+
+      const { results, postings, closerNodes } = message.payload || {};
+      console.log(`[DHT] Received search response for ${searchId}: ${results?.length || 0} results, ${postings?.length || 0} postings from ${node.nodeId.substring(0, 16)}...`);
+      this.handleSearchResponse(searchId, targetId, node.nodeId, results || [], closerNodes || [], postings);
+    } catch (error: any) {
+      console.log(`[DHT] No search response from ${node.nodeId.substring(0, 16)}...: ${error.message}`);
       RoutingOps.incrementFail(node.nodeId);
-      // Only remove from pending on error
-      context.pending.delete(node.nodeId);
+      this.handleSearchResponse(searchId, targetId, node.nodeId, [], []);
     }
   }
 
   // Handle incoming DHT messages
-  handleMessage(from: string, message: DHTMessage): void {
+  handleMessage(from: string, signed: any): void {
+    if (peerBlocklist.isBlocked(from)) return;
+
+    const verified = this.verify(from, signed);
+    if (!verified) return;
+
+    // The RPC request ID travels outside the signed data
+    const message: DHTMessage & RPCEnvelope = { ...verified, _rpc: signed._rpc };
     this.updateNode(message.nodeId, from);
 
-    // Handle responses
+    // Replies to our requests are consumed by the RPC layer; this one came too late
     if (message.payload && message.payload.isResponse) {
-      this.handleResponse(from, message);
       return;
     }
 
-    switch (message.type) {
-      case 'FIND_VALUE':
-        this.handleFindValue(from, message);
-        break;
-      case 'FIND_NODE':
-        this.handleFindNode(from, message);
-        break;
-      case 'STORE':
-        this.handleStore(from, message);
-        break;
-      case 'PING':
-        this.handlePing(from, message);
-        break;
-      case 'ANNOUNCE':
-        this.handleAnnounce(from, message);
-        break;
-      // BEP5: BitTorrent DHT peer discovery
-      case 'GET_PEERS':
-        this.handleGetPeers(from, message);
-        break;
-      case 'ANNOUNCE_PEER':
-        this.handleAnnouncePeer(from, message);
-        break;
-    }
-  }
-
-  private handleResponse(from: string, message: DHTMessage): void {
-    // Emit response event for anyone waiting (e.g. getPeers, search)
-    this.emit('message:response', message);
-
-    // Handle FIND_VALUE responses (search results)
-    if (message.type === 'FIND_VALUE' && message.payload.searchId) {
-      const { searchId, results, closerNodes } = message.payload;
-      console.log(`[DHT] Received search response for ${searchId}: ${results?.length || 0} results from ${message.nodeId?.substring(0, 16)}...`);
-      this.handleSearchResponse(searchId, results || [], closerNodes || [], message.nodeId);
+    // Searches run on our database: much lower limit than other messages
+    if (message.type === 'FIND_VALUE' && !peerLimiter.allow(from, 'search')) {
+      console.log(`[DHT] Rate limited FIND_VALUE from ${from.substring(0, 30)}...`);
+      return;
     }
 
-    // If it's a GET_PEERS response, cache the token
-    if (message.type === 'GET_PEERS' && message.payload.token) {
-      // Store token associated with the node's ID
-      this.tokenCache.set(message.nodeId, message.payload.token);
-      // Also store by destination just in case
-      this.tokenCache.set(from, message.payload.token);
+    try {
+      switch (message.type) {
+        case 'FIND_VALUE':
+          this.handleFindValue(from, message);
+          break;
+        case 'FIND_NODE':
+          this.handleFindNode(from, message);
+          break;
+        case 'STORE':
+          this.handleStore(from, message);
+          break;
+        case 'PING':
+          this.handlePing(from, message);
+          break;
+        case 'ANNOUNCE':
+          this.handleAnnounce(from, message);
+          break;
+        // BEP5: BitTorrent DHT peer discovery
+        case 'GET_PEERS':
+          this.handleGetPeers(from, message);
+          break;
+        case 'ANNOUNCE_PEER':
+          this.handleAnnouncePeer(from, message);
+          break;
+      }
+    } catch (error: any) {
+      // Handlers trust the payload shape: a throw means it was malformed
+      console.log(`[DHT] Invalid ${message.type} from ${from.substring(0, 30)}...: ${error.message}`);
+      peerLimiter.penalize(from, 'malformed');
     }
   }
 
   private handleFindValue(from: string, message: DHTMessage): void {
-    const { targetId, query, filters, origin, searchId } = message.payload;
+    const { targetId, keywordId, query, filters, ast, searchId } = message.payload;
 
-    // Search local files
-    const localResults = this.searchLocalFiles(query, filters);
+    let localResults: SearchResult[] = [];
+    let postings: KeywordPosting[] | undefined;
+
+    if (typeof keywordId === 'string' && SHA1_HEX_REGEX.test(keywordId)) {
+      // Keyword lookup: answer with the postings stored here
+      postings = KeywordIndexOps.get(keywordId, MAX_POSTINGS_PER_KEYWORD);
+    } else {
+      // Whole-query lookup: evaluate the sender's parsed query on our own files,
+      // falling back to parsing the raw text (older peers)
+      const searchQuery = deserializeSearchQuery(ast)
+        ?? applySearchFilters(parseSearchQuery(typeof query === 'string' ? query : '').ast, filters || {});
+      localResults = this.searchLocalFiles(searchQuery, from);
+    }
 
     // Get closest nodes we know
     const closerNodes = this.getClosestNodes(targetId, K)
       .filter(n => n.nodeId !== message.nodeId)
       .map(n => ({ nodeId: n.nodeId, destination: n.destination }));
 
-    // Send response
-    const response: DHTMessage = {
-      type: 'FIND_VALUE',
-      nodeId: this.nodeId,
-      payload: {
-        searchId,
-        results: localResults,
-        closerNodes,
-        isResponse: true
-      },
-      timestamp: Date.now()
-    };
-
-    if (this.messageHandler) {
-      this.messageHandler(origin, response);
-    }
+    // Reply to the authenticated sender, never to a destination named in the payload
+    rpc.reply(from, message as RPCEnvelope, 'FIND_VALUE', {
+      searchId,
+      keywordId: postings ? keywordId : undefined,
+      results: localResults,
+      postings,
+      closerNodes,
+      isResponse: true
+    }, { wrap: this.wrap });
   }
 
   private handleFindNode(from: string, message: DHTMessage): void {
     const { targetId } = message.payload;
     const closestNodes = this.getClosestNodes(targetId, K);
 
-    const response: DHTMessage = {
-      type: 'FIND_NODE',
-      nodeId: this.nodeId,
-      payload: {
-        nodes: closestNodes.map(n => ({
-          nodeId: n.nodeId,
-          destination: n.destination
-        }))
-      },
-      timestamp: Date.now()
-    };
-
-    if (this.messageHandler) {
-      this.messageHandler(from, response);
-    }
+    rpc.reply(from, message as RPCEnvelope, 'FIND_NODE', {
+      nodes: closestNodes.map(n => ({
+        nodeId: n.nodeId,
+        destination: n.destination
+      })),
+      isResponse: true
+    }, { wrap: this.wrap });
   }
 
   private handleStore(from: string, message: DHTMessage): void {
-    const { key, value, ttl } = message.payload;
+    const { key, value, ttl, keywords, replicate } = message.payload;
+
+    if (Array.isArray(keywords)) {
+      this.handleKeywordStore(from, message.nodeId, keywords, replicate === true);
+      return;
+    }
+
+    // Peer records can only be stored by the peer itself, signed with its key
+    if (key !== `peer:${message.nodeId}` || !this.isValidPeerAnnounce(message.nodeId, value)) {
+      console.log(`[DHT] Rejected STORE of ${String(key).substring(0, 30)} from ${from.substring(0, 30)}...`);
+      return;
+    }
+
     DHTCacheOps.set(key, JSON.stringify(value), ttl || 3600);
   }
 
-  private handlePing(from: string, message: DHTMessage): void {
-    const response: DHTMessage = {
-      type: 'PONG',
-      nodeId: this.nodeId,
-      payload: {},
-      timestamp: Date.now()
-    };
+  /**
+   * Check a peer record: its userId is the publisher's node ID, and its
+   * signature was made with the key that ID derives from
+   */
+  private isValidPeerAnnounce(nodeId: string, announce: any): announce is PeerAnnounce {
+    if (!announce || typeof announce !== 'object' || announce.type !== 'peer_announce') return false;
+    if (announce.userId !== nodeId || typeof announce.signingKey !== 'string' || typeof announce.signature !== 'string') return false;
+    if (nodeIdFromSigningKey(announce.signingKey) !== nodeId) return false;
 
-    if (this.messageHandler) {
-      this.messageHandler(from, response);
+    const { signature, ...signed } = announce;
+    return verifySignatureEd25519(JSON.stringify(signed), signature, announce.signingKey);
+  }
+
+  /**
+   * Store keyword postings sent by their publisher, or replicated by another
+   * storing node. See checkPosting for who a posting is attributed to.
+   */
+  private handleKeywordStore(from: string, nodeId: string, entries: any[], replicate: boolean): void {
+    let stored = 0;
+    let rejected = 0;
+
+    for (const entry of entries.slice(0, MAX_STORE_KEYWORDS)) {
+      if (!entry || typeof entry.keywordId !== 'string' || !SHA1_HEX_REGEX.test(entry.keywordId)) continue;
+      if (!Array.isArray(entry.postings)) continue;
+
+      const ttl = Math.min(Math.floor(Number(entry.ttl) || 0), KEYWORD_TTL);
+      if (ttl <= 0) continue;
+
+      const postings = entry.postings
+        .slice(0, MAX_POSTINGS_PER_KEYWORD)
+        .map(sanitizePosting)
+        .filter((p: KeywordPosting | null): p is KeywordPosting => p !== null)
+        .map((p: KeywordPosting) => {
+          const checked = this.checkPosting(p, from, nodeId, replicate);
+          if (!checked) rejected++;
+          return checked;
+        })
+        .filter((p: KeywordPosting | null): p is KeywordPosting => p !== null);
+      if (postings.length === 0) continue;
+
+      KeywordIndexOps.store(entry.keywordId, postings, ttl, MAX_POSTINGS_PER_KEYWORD);
+      stored += postings.length;
+    }
+
+    if (stored > 0) {
+      console.log(`[DHT] Stored ${stored} keyword postings from ${from.substring(0, 30)}...`);
     }
+    if (rejected > 0) {
+      // Forged records in a validly signed message count against the sender
+      console.log(`[DHT] Rejected ${rejected} keyword postings from ${from.substring(0, 30)}...`);
+      peerLimiter.penalize(from, 'invalid-signature');
+    }
+  }
+
+  /**
+   * Check a received posting. It must be signed with the publisher's key;
+   * sent directly, that key must be the one that signed the message (as for
+   * peer records). A replica is kept unless we know the publisher signs with
+   * another key: searches confirm the key before showing it.
+   * Returns the posting to store, null if rejected.
+   */
+  private checkPosting(posting: KeywordPosting, from: string, nodeId: string, replicate: boolean): KeywordPosting | null {
+    if (!hasValidSignature(posting)) return null;
+
+    const signingNodeId = nodeIdFromSigningKey(posting.signingKey!);
+    if (!replicate && (posting.publisher !== from || signingNodeId !== nodeId)) return null;
+
+    const signer = this.signers.get(posting.publisher);
+    return !signer || signer === signingNodeId ? posting : null;
+  }
+
+  /**
+   * Whether a posting is signed by the key its publisher's destination signs
+   * its own messages with. Unknown (null) until we heard from that destination.
+   */
+  private isPublisherKey(posting: KeywordPosting): boolean | null {
+    const signer = this.signers.get(posting.publisher);
+    if (!signer) return null;
+    return signer === nodeIdFromSigningKey(posting.signingKey!);
+  }
+
+  private handlePing(from: string, message: DHTMessage): void {
+    rpc.reply(from, message as RPCEnvelope, 'PONG', { isResponse: true }, { wrap: this.wrap });
   }
 
   private handleAnnounce(from: string, message: DHTMessage): void {
@@ -441,35 +907,36 @@ export class DHTSearchEngine extends EventEmitter {
     this.emit('peer:announce', { peerId: from, announce });
   }
 
-  // Handle search response
-  handleSearchResponse(searchId: string, results: SearchResult[], closerNodes: any[], responderNodeId?: string): void {
+  // Handle the answer (or timeout) of one FIND_VALUE lookup
+  private handleSearchResponse(
+    searchId: string,
+    targetId: string,
+    responderNodeId: string,
+    results: SearchResult[],
+    closerNodes: any[],
+    postings?: KeywordPosting[]
+  ): void {
     const context = this.activeSearches.get(searchId);
     if (!context) return;
 
     // Remove responder from pending
-    if (responderNodeId) {
-      context.pending.delete(responderNodeId);
-    }
+    context.pending.delete(`${targetId}:${responderNodeId}`);
 
-    // Add results
+    // Add results the responder matched on its own files
     for (const result of results) {
-      if (!context.results.has(result.fileHash)) {
-        context.results.set(result.fileHash, result);
-        this.emit('search:result', { searchId, result });
-      }
+      this.addResult(context, result);
+    }
+
+    // Add keyword postings
+    if (Array.isArray(postings)) {
+      this.addPostings(context, targetId, postings);
     }
 
-    // Query closer nodes
+    // Query closer nodes (they enter the routing table if they answer)
     for (const node of closerNodes) {
-      if (!context.visited.has(node.nodeId)) {
-        this.updateNode(node.nodeId, node.destination);
-        this.sendFindValue(
-          searchId,
-          node,
-          this.hashQuery(context.query),
-          context.query,
-          context.filters
-        );
+      if (!node || typeof node.nodeId !== 'string' || !SHA1_HEX_REGEX.test(node.nodeId) || typeof node.destination !== 'string') continue;
+      if (node.nodeId !== this.nodeId && !context.visited.has(`${targetId}:${node.nodeId}`)) {
+        this.sendFindValue(searchId, node, targetId);
       }
     }
 
@@ -479,103 +946,192 @@ export class DHTSearchEngine extends EventEmitter {
     }
   }
 
-  private finalizeSearch(searchId: string): void {
+  /**
+   * Record postings found for one keyword of a search. A file becomes a result
+   * once it was found under every keyword looked up and matches the whole query.
+   */
+  private addPostings(context: SearchContext, keywordId: string, postings: KeywordPosting[]): void {
+    const found = context.postings.get(keywordId);
+    if (!found || !this.activeSearches.has(context.id)) return;
+
+    for (const raw of postings.slice(0, MAX_POSTINGS_PER_KEYWORD)) {
+      const posting = sanitizePosting(raw);
+      if (!posting || posting.publisher === this.destination) continue;
+      // Storing nodes can't vouch for a posting: only its publisher's signature counts
+      if (!hasValidSignature(posting)) continue;
+
+      const publisherKey = this.isPublisherKey(posting);
+      if (publisherKey === false) continue;
+      if (publisherKey === null) {
+        this.confirmPublisher(context, keywordId, posting);
+        continue;
+      }
+
+      const result: SearchResult = {
+        filename: posting.filename,
+        fileHash: posting.fileHash,
+        infoHash: posting.infoHash || null,
+        size: posting.size,
+        mimeType: posting.mimeType,
+        peerId: posting.publisher,
+        peerDisplayName: `${posting.publisher.substring(0, 12)}...`,
+        addedAt: Math.floor(Date.now() / 1000)
+      };
+      if (!matchesSearchQuery(context.ast, result)) continue;
+
+      found.add(result.fileHash);
+      const candidates = context.candidates.get(result.fileHash) || [];
+      candidates.push(result);
+      context.candidates.set(result.fileHash, candidates);
+
+      if (context.keywordIds.every(id => context.postings.get(id)?.has(result.fileHash))) {
+        for (const candidate of candidates) {
+          this.addResult(context, candidate);
+        }
+        context.candidates.delete(result.fileHash);
+      }
+    }
+  }
+
+  /**
+   * Hold a posting from a publisher we never heard from, and ping it: its
+   * signed PONG tells which key it uses. The postings count once it answers.
+   */
+  private confirmPublisher(context: SearchContext, keywordId: string, posting: KeywordPosting): void {
+    const held = context.unconfirmed.get(posting.publisher);
+    if (held) {
+      held.push({ keywordId, posting });
+      return;
+    }
+    if (context.unconfirmed.size >= MAX_PUBLISHER_PINGS || !rpc.isReady()) return;
+    if (peerBlocklist.isBlocked(posting.publisher)) return;
+
+    const lookupKey = `publisher:${posting.publisher}`;
+    context.unconfirmed.set(posting.publisher, [{ keywordId, posting }]);
+    context.pending.add(lookupKey);
+
+    this.request({ nodeId: '', destination: posting.publisher, lastSeen: 0 }, 'PING', {}, { retries: 0, match: this.isResponse('PONG') })
+      .then(() => {
+        for (const held of context.unconfirmed.get(posting.publisher) || []) {
+          if (this.isPublisherKey(held.posting)) this.addPostings(context, held.keywordId, [held.posting]);
+        }
+      })
+      .catch(() => {
+        // Not reachable: nobody to download from anyway
+      })
+      .finally(() => {
+        context.pending.delete(lookupKey);
+        if (this.activeSearches.has(context.id) && context.pending.size === 0) {
+          this.finalizeSearch(context.id);
+        }
+      });
+  }
+
+  // Each peer sharing a file is a separate result, aggregated by the caller
+  private addResult(context: SearchContext, result: SearchResult): void {
+    if (peerBlocklist.isBlocked(result.peerId)) return;
+
+    const key = `${result.fileHash}:${result.peerId}`;
+    if (context.results.has(key)) return;
+    context.results.set(key, result);
+    this.emit('search:result', { searchId: context.id, result });
+  }
+
+  private finalizeSearch(searchId: string, cancelled = false): void {
     const context = this.activeSearches.get(searchId);
     if (!context) return;
 
     clearTimeout(context.timeout);
     this.activeSearches.delete(searchId);
 
-    const results = Array.from(context.results.values());
-
-    // Sort by relevance
-    results.sort((a, b) => {
-      // Simple relevance: exact match > partial match
-      const queryLower = context.query.toLowerCase();
-      const aMatch = a.filename.toLowerCase().includes(queryLower) ? 1 : 0;
-      const bMatch = b.filename.toLowerCase().includes(queryLower) ? 1 : 0;
-      return bMatch - aMatch;
-    });
+    // One result per file with all its sources, best first
+    const aggregates = new Map<string, SearchResult>();
+    for (const result of context.results.values()) {
+      aggregateSearchResult(aggregates, result, context.ast);
+    }
+    const results = rankSearchResults([...aggregates.values()]);
 
-    this.emit('search:complete', { searchId, resultsCount: results.length });
+    this.emit('search:complete', { searchId, resultsCount: results.length, cancelled });
     context.callback(results);
   }
 
-  private searchLocalFiles(query: string, filters: SearchFilters): SearchResult[] {
-    // const { FileOps } = require('./database'); // Removed
-    const files = FileOps.search(query);
+  private searchLocalFiles(ast: SearchQueryAST, requester: string): SearchResult[] {
+    // Full-text search filtered by the query operators and friends-only folders,
+    // already ranked by relevance (BM25)
+    const files = FileOps.search(ast, MAX_LOCAL_RESULTS, (file) => friendList.canAccess(requester, file.path));
 
     return files
-      .filter((file: any) => {
-        if (filters.minSize && file.size < filters.minSize) return false;
-        if (filters.maxSize && file.size > filters.maxSize) return false;
-        if (filters.fileType && filters.fileType !== 'all') {
-          const category = this.getFileCategory(file.mimeType);
-          if (category !== filters.fileType) return false;
-        }
-        return true;
-      })
-      .map((file: any) => {
-        // Get full file record to include infoHash for torrent-based downloads
-        const fileWithInfoHash = FileOps.getWithInfoHash(file.hash);
-        return {
-          filename: file.filename,
-          fileHash: file.hash,
-          infoHash: fileWithInfoHash?.infoHash || null, // Include torrent infoHash if available
-          size: file.size,
-          mimeType: file.mimeType,
-          peerId: this.destination,
-          peerDisplayName: 'Me',
-          addedAt: file.sharedAt
-        };
-      });
-  }
-
-  private getFileCategory(mimeType: string): string {
-    if (mimeType.startsWith('video/')) return 'video';
-    if (mimeType.startsWith('audio/')) return 'audio';
-    if (mimeType.startsWith('image/')) return 'image';
-    if (mimeType.startsWith('text/') || mimeType.includes('document') || mimeType.includes('pdf')) return 'document';
-    if (mimeType.includes('zip') || mimeType.includes('tar') || mimeType.includes('rar') || mimeType.includes('7z')) return 'archive';
-    return 'other';
+      .map((file: any) => ({
+        filename: file.filename,
+        fileHash: file.hash,
+        infoHash: file.infoHash || null, // Include torrent infoHash if available
+        size: file.size,
+        mimeType: file.mimeType,
+        peerId: this.destination,
+        peerDisplayName: 'Me',
+        addedAt: file.sharedAt
+      }));
   }
 
-  // Bootstrap from known nodes
+  /**
+   * Bootstrap from known nodes (tracker lists, peers). Their node IDs are not
+   * trusted: each is sent a lookup of our own ID and enters the routing table
+   * once it answers; the nodes it returns are pinged before admission.
+   */
   async bootstrap(bootstrapNodes: { nodeId: string; destination: string }[]): Promise<void> {
-    for (const node of bootstrapNodes) {
-      this.updateNode(node.nodeId, node.destination);
-    }
+    const wasEmpty = this.getStats().nodesCount === 0;
+    let reached = 0;
+
+    const contacts = bootstrapNodes
+      .filter(node => typeof node.destination === 'string' && node.destination !== this.destination)
+      .slice(0, MAX_BOOTSTRAP_CONTACTS);
 
-    // Perform a lookup for our own ID to populate routing table
-    if (bootstrapNodes.length > 0) {
-      const closestNodes = this.getClosestNodes(this.nodeId, ALPHA);
-      for (const node of closestNodes) {
-        const message: DHTMessage = {
-          type: 'FIND_NODE',
-          nodeId: this.nodeId,
-          payload: { targetId: this.nodeId },
-          timestamp: Date.now()
-        };
-
-        if (this.messageHandler) {
-          this.messageHandler(node.destination, message);
+    const lookups = contacts.map(node => {
+      const contact: DHTNode = { nodeId: node.nodeId || '', destination: node.destination, lastSeen: 0 };
+
+      return this.request(contact, 'FIND_NODE', { targetId: this.nodeId }, {
+        retries: LOOKUP_RETRIES,
+        match: this.isResponse('FIND_NODE')
+      }).then((message) => {
+        reached++;
+
+        // Keywords published while we knew no node only reached our own store
+        if (wasEmpty && reached === 1 && this.publishedFiles.length > 0) {
+          this.publishKeywords(this.publishedFiles);
         }
-      }
-    }
 
-    this.emit('bootstrap:complete', { nodesCount: bootstrapNodes.length });
+        if (!Array.isArray(message.payload?.nodes)) return;
+        for (const found of message.payload.nodes.slice(0, K)) {
+          this.addCandidate(found?.nodeId, found?.destination);
+        }
+      }).catch((error) => {
+        console.log(`[DHT] Bootstrap node ${node.destination.substring(0, 30)}... did not answer: ${error.message}`);
+        RoutingOps.incrementFail(contact.nodeId);
+      });
+    });
+
+    // Answers take a while over I2P: don't make the caller wait for them
+    Promise.all(lookups).then(() => {
+      this.emit('bootstrap:complete', { nodesCount: reached });
+    });
   }
 
   // Announce our files to the network
   async announceFiles(files: any[]): Promise<void> {
-    const announce: PeerAnnounce = {
+    if (!this.signingKeys) return;
+
+    const record: Omit<PeerAnnounce, 'signature'> = {
       type: 'peer_announce',
       userId: this.nodeId,
       displayName: 'I2P Share User',
       filesCount: files.length,
       totalSize: files.reduce((sum, f) => sum + f.size, 0),
       timestamp: Date.now(),
-      signature: '' // Would be signed with private key
+      signingKey: this.signingKeys.publicKey
+    };
+    const announce: PeerAnnounce = {
+      ...record,
+      signature: signMessageEd25519(JSON.stringify(record), this.signingKeys.privateKey)
     };
 
     // Store in DHT
@@ -583,19 +1139,122 @@ export class DHTSearchEngine extends EventEmitter {
     const closestNodes = this.getClosestNodes(this.hashQuery(key), K);
 
     for (const node of closestNodes) {
-      const message: DHTMessage = {
-        type: 'STORE',
-        nodeId: this.nodeId,
-        payload: { key, value: announce, ttl: 3600 },
-        timestamp: Date.now()
+      rpc.notify(node.destination, 'STORE', { key, value: announce, ttl: 3600 }, { wrap: this.wrap });
+    }
+
+    this.emit('announce:complete', { filesCount: files.length });
+
+    this.publishKeywords(files);
+  }
+
+  /**
+   * Publish our shared files to the keyword index: one posting per filename
+   * keyword, stored at the K nodes closest to SHA1("kw:" + keyword).
+   * Postings expire after KEYWORD_TTL, so they are republished every 30 minutes.
+   */
+  publishKeywords(files: any[]): void {
+    this.publishedFiles = files;
+    if (!this.keywordRepublishTimer) {
+      this.keywordRepublishTimer = setInterval(() => {
+        this.publishKeywords(this.publishedFiles);
+      }, KEYWORD_REPUBLISH_INTERVAL);
+    }
+
+    if (!this.destination || !this.signingKeys || !rpc.isReady()) return;
+
+    const entries = new Map<string, KeywordStoreEntry>();
+    for (const file of files) {
+      const posting: KeywordPosting = {
+        fileHash: file.hash,
+        infoHash: file.infoHash || null,
+        filename: file.filename,
+        size: file.size,
+        mimeType: file.mimeType || 'application/octet-stream',
+        publisher: this.destination,
+        signingKey: this.signingKeys.publicKey
       };
+      // Storing nodes replicate the posting with our signature, so others can't forge it
+      posting.signature = signMessageEd25519(postingSignedData(posting), this.signingKeys.privateKey);
+
+      for (const keyword of extractKeywords(file.filename)) {
+        const keywordId = this.hashKeyword(keyword);
+        let entry = entries.get(keywordId);
+        if (!entry) {
+          entry = { keywordId, ttl: KEYWORD_TTL, postings: [] };
+          entries.set(keywordId, entry);
+        }
+        entry.postings.push(posting);
+      }
+    }
+
+    const nodesCount = this.storeKeywordEntries([...entries.values()], false);
+    console.log(`[DHT] Published ${entries.size} keywords for ${files.length} files to ${nodesCount} nodes`);
+    this.emit('keywords:published', { keywordsCount: entries.size, nodesCount });
+  }
 
-      if (this.messageHandler) {
-        this.messageHandler(node.destination, message);
+  /**
+   * Re-replicate the postings we store to the K closest nodes we know now,
+   * so they survive node churn. Their remaining lifetime is kept: only
+   * publishers extend it.
+   */
+  private replicateKeywords(): void {
+    if (!rpc.isReady()) return;
+
+    KeywordIndexOps.cleanup();
+
+    const now = Math.floor(Date.now() / 1000);
+    const entries = new Map<string, KeywordStoreEntry>();
+    for (const { keywordId, expiresAt, ...posting } of KeywordIndexOps.getAll()) {
+      // Other nodes only take replicas signed by their publisher
+      if (!posting.signature) continue;
+
+      const ttl = expiresAt - now;
+      let entry = entries.get(keywordId);
+      if (!entry) {
+        entry = { keywordId, ttl, postings: [] };
+        entries.set(keywordId, entry);
       }
+      entry.ttl = Math.min(entry.ttl, ttl);
+      entry.postings.push(posting);
     }
 
-    this.emit('announce:complete', { filesCount: files.length });
+    if (entries.size === 0) return;
+
+    const nodesCount = this.storeKeywordEntries([...entries.values()], true);
+    console.log(`[DHT] Replicated ${entries.size} keywords to ${nodesCount} nodes`);
+  }
+
+  /**
+   * Send keyword entries to the K closest nodes of each keyword, batched per node.
+   * Publishers also keep a copy when they are one of those K nodes.
+   * Returns the number of nodes contacted.
+   */
+  private storeKeywordEntries(entries: KeywordStoreEntry[], replicate: boolean): number {
+    const perNode = new Map<string, KeywordStoreEntry[]>(); // destination -> entries
+
+    for (const entry of entries) {
+      const closest = this.getClosestNodes(entry.keywordId, K);
+      const farthest = closest[closest.length - 1];
+
+      if (!replicate && (closest.length < K
+        || this.xorDistance(entry.keywordId, this.nodeId) < this.xorDistance(entry.keywordId, farthest.nodeId))) {
+        KeywordIndexOps.store(entry.keywordId, entry.postings, entry.ttl, MAX_POSTINGS_PER_KEYWORD);
+      }
+
+      for (const node of closest) {
+        const nodeEntries = perNode.get(node.destination) || [];
+        nodeEntries.push(entry);
+        perNode.set(node.destination, nodeEntries);
+      }
+    }
+
+    for (const [destination, nodeEntries] of perNode) {
+      for (const batch of batchStoreEntries(nodeEntries)) {
+        rpc.notify(destination, 'STORE', { keywords: batch, replicate }, { wrap: this.wrap });
+      }
+    }
+
+    return perNode.size;
   }
 
   // Get network stats
@@ -631,7 +1290,7 @@ export class DHTSearchEngine extends EventEmitter {
    * Returns peers for the requested infoHash, or closer nodes
    */
   private handleGetPeers(from: string, message: DHTMessage): void {
-    const { infoHash, origin } = message.payload;
+    const { infoHash } = message.payload;
     const targetId = infoHash; // infoHash IS the target ID
 
     // Generate token for this requester
@@ -655,22 +1314,13 @@ export class DHTSearchEngine extends EventEmitter {
       .filter(n => n.nodeId !== message.nodeId)
       .map(n => ({ nodeId: n.nodeId, destination: n.destination }));
 
-    // Send response
-    const response: DHTMessage = {
-      type: 'GET_PEERS',
-      nodeId: this.nodeId,
-      payload: {
-        token,
-        peers: activePeers.length > 0 ? activePeers : undefined,
-        nodes: closerNodes,
-        isResponse: true
-      },
-      timestamp: Date.now()
-    };
-
-    if (this.messageHandler) {
-      this.messageHandler(origin || from, response);
-    }
+    // Send response (the token is bound to the sender, so it must go there)
+    rpc.reply(from, message as RPCEnvelope, 'GET_PEERS', {
+      token,
+      peers: activePeers.length > 0 ? activePeers : undefined,
+      nodes: closerNodes,
+      isResponse: true
+    }, { wrap: this.wrap });
 
     console.log(`[DHT] get_peers for ${infoHash.substring(0, 16)}...: ${activePeers.length} peers, ${closerNodes.length} nodes`);
   }
@@ -680,9 +1330,15 @@ export class DHTSearchEngine extends EventEmitter {
    * Stores peer info for the announced infoHash
    */
   private handleAnnouncePeer(from: string, message: DHTMessage): void {
-    const { infoHash, port, token, origin } = message.payload;
+    const { infoHash, port, token } = message.payload;
     const peerDestination = port || from; // In I2P, 'port' is the destination
 
+    // Peers announce themselves; only trackers are announced on behalf of others
+    if (peerDestination !== from && infoHash !== this.getTrackerDiscoveryHash()) {
+      console.log(`[DHT] announce_peer: rejected announce for another destination from ${from.substring(0, 30)}...`);
+      return;
+    }
+
     // Verify token
     if (!this.verifyToken(from, token)) {
       console.log(`[DHT] announce_peer: invalid token from ${from.substring(0, 30)}...`);
@@ -704,18 +1360,7 @@ export class DHTSearchEngine extends EventEmitter {
     console.log(`[DHT] announce_peer: ${infoHash.substring(0, 16)}... from ${peerDestination.substring(0, 30)}...`);
 
     // Send acknowledgment
-    const response: DHTMessage = {
-      type: 'ANNOUNCE_PEER',
-      nodeId: this.nodeId,
-      payload: {
-        isResponse: true
-      },
-      timestamp: Date.now()
-    };
-
-    if (this.messageHandler) {
-      this.messageHandler(origin || from, response);
-    }
+    rpc.reply(from, message as RPCEnvelope, 'ANNOUNCE_PEER', { isResponse: true }, { wrap: this.wrap });
 
     // Emit event
     this.emit('peer:announced', { infoHash, destination: peerDestination });
@@ -725,88 +1370,120 @@ export class DHTSearchEngine extends EventEmitter {
    * BEP5: Query DHT for peers who have a specific torrent
    */
   async getPeers(infoHash: string, timeout = 30000): Promise<string[]> {
-    return new Promise((resolve) => {
-      const searchId = uuidv4();
-      const foundPeers = new Set<string>();
-      const visited = new Set<string>();
-      const pending = new Set<string>();
+    const deadline = Date.now() + timeout;
+    const foundPeers = new Set<string>();
+    const visited = new Set<string>();
+    const queue = this.getClosestNodes(infoHash, ALPHA);
 
-      // Timeout handler
-      const timeoutHandle = setTimeout(() => {
-        resolve(Array.from(foundPeers));
-      }, timeout);
+    if (queue.length === 0) return [];
 
-      // Get initial nodes to query
-      const closestNodes = this.getClosestNodes(infoHash, ALPHA);
+    return new Promise((resolve) => {
+      let inFlight = 0;
+      let done = false;
 
-      if (closestNodes.length === 0) {
+      const finish = () => {
+        if (done) return;
+        done = true;
         clearTimeout(timeoutHandle);
-        resolve([]);
-        return;
-      }
+        resolve(Array.from(foundPeers));
+      };
 
-      // Response handler
-      const handleResponse = (response: any) => {
-        if (response.payload?.isResponse && response.type === 'GET_PEERS') {
-          // Add found peers
-          if (response.payload.peers) {
-            for (const peer of response.payload.peers) {
-              if (peer !== this.destination) {
-                foundPeers.add(peer);
+      // Give up on nodes still being asked when the time is up
+      const timeoutHandle = setTimeout(finish, timeout);
+
+      const queryNext = () => {
+        while (!done && inFlight < ALPHA * 2 && queue.length > 0) {
+          const node = queue.shift()!;
+          if (visited.has(node.nodeId)) continue;
+          visited.add(node.nodeId);
+          inFlight++;
+
+          this.requestPeers(node, infoHash, Math.max(deadline - Date.now(), 1000))
+            .then((payload) => {
+              if (!payload) return;
+
+              // Add found peers
+              if (Array.isArray(payload.peers)) {
+                for (const peer of payload.peers) {
+                  if (typeof peer === 'string' && peer !== this.destination) {
+                    foundPeers.add(peer);
+                  }
+                }
               }
-            }
-          }
-
-          // Query closer nodes
-          if (response.payload.nodes) {
-            for (const node of response.payload.nodes) {
-              if (!visited.has(node.nodeId) && pending.size < ALPHA * 2) {
-                this.updateNode(node.nodeId, node.destination);
-                sendGetPeers(node);
-              }
-            }
-          }
-
-          pending.delete(response.nodeId);
 
-          // Check if we're done
-          if (pending.size === 0 || foundPeers.size >= 50) {
-            clearTimeout(timeoutHandle);
-            this.removeListener('message:response', handleResponse);
-            resolve(Array.from(foundPeers));
-          }
+              // Query closer nodes
+              if (Array.isArray(payload.nodes)) {
+                for (const closer of payload.nodes) {
+                  // They enter the routing table if they answer
+                  if (closer && typeof closer.nodeId === 'string' && SHA1_HEX_REGEX.test(closer.nodeId)
+                    && typeof closer.destination === 'string' && closer.nodeId !== this.nodeId && !visited.has(closer.nodeId)) {
+                    queue.push({ nodeId: closer.nodeId, destination: closer.destination, lastSeen: Date.now() });
+                  }
+                }
+              }
+            })
+            .finally(() => {
+              inFlight--;
+              if (foundPeers.size >= MAX_PEERS_PER_LOOKUP || (inFlight === 0 && queue.length === 0)) {
+                finish();
+              } else {
+                queryNext();
+              }
+            });
         }
       };
 
-      // Listen for responses (temporary)
-      this.on('message:response', handleResponse);
-
-      // Send get_peers to a node
-      const sendGetPeers = (node: DHTNode) => {
-        if (visited.has(node.nodeId)) return;
-        visited.add(node.nodeId);
-        pending.add(node.nodeId);
-
-        const message: DHTMessage = {
-          type: 'GET_PEERS',
-          nodeId: this.nodeId,
-          payload: {
-            infoHash,
-            origin: this.destination
-          },
-          timestamp: Date.now()
-        };
-
-        if (this.messageHandler) {
-          this.messageHandler(node.destination, message);
-        }
-      };
+      queryNext();
+    });
+  }
+
+  /**
+   * Send get_peers to one node. Resolves with its answer (peers, closer nodes
+   * and an announce token), or null if it didn't answer in time.
+   */
+  private async requestPeers(node: DHTNode, infoHash: string, timeout?: number): Promise<any | null> {
+    try {
+      const message = await this.request(node, 'GET_PEERS', { infoHash, origin: this.destination }, {
+        retries: LOOKUP_RETRIES,
+        timeout: timeout !== undefined ? Math.min(timeout, rpc.getTimeout(node.destination)) : undefined,
+        match: this.isResponse('GET_PEERS')
+      });
+      return message.payload;
+    } catch {
+      RoutingOps.incrementFail(node.nodeId);
+      return null;
+    }
+  }
+
+  /**
+   * Announce a destination for an infoHash to the K closest nodes: get_peers
+   * first for each node's token, then announce_peer to every node that gave one.
+   * Returns the number of nodes that acknowledged the announce.
+   */
+  private async announceToClosest(infoHash: string, port: string): Promise<number> {
+    const closestNodes = this.getClosestNodes(infoHash, K);
 
-      // Start querying
-      for (const node of closestNodes) {
-        sendGetPeers(node);
+    const answers = await Promise.all(closestNodes.map(node => this.requestPeers(node, infoHash)));
+
+    const announces = closestNodes.map((node, i) => {
+      const token = answers[i]?.token;
+      if (typeof token !== 'string') {
+        // Skip nodes that didn't give us a token
+        return Promise.reject(new Error('No token'));
       }
+
+      return this.request(node, 'ANNOUNCE_PEER', {
+        infoHash,
+        port, // In I2P we send destination as 'port'
+        token,
+        origin: this.destination
+      }, {
+        match: this.isResponse('ANNOUNCE_PEER')
+      });
     });
+
+    const results = await Promise.allSettled(announces);
+    return results.filter(result => result.status === 'fulfilled').length;
   }
 
   /**
@@ -820,61 +1497,9 @@ export class DHTSearchEngine extends EventEmitter {
 
     console.log(`[DHT] Announcing peer for ${infoHash.substring(0, 16)}...`);
 
-    // First, do get_peers to get tokens
-    const closestNodes = this.getClosestNodes(infoHash, K);
-    
-    // We need to wait for tokens.
-    // Send get_peers to all closest nodes
-    for (const node of closestNodes) {
-      const message: DHTMessage = {
-        type: 'GET_PEERS',
-        nodeId: this.nodeId,
-        payload: {
-          infoHash,
-          origin: this.destination
-        },
-        timestamp: Date.now()
-      };
-
-      if (this.messageHandler) {
-        this.messageHandler(node.destination, message);
-      }
-    }
+    const announcedCount = await this.announceToClosest(infoHash, this.destination);
+    console.log(`[DHT] Announce acknowledged by ${announcedCount} nodes`);
 
-    // Wait for responses to populate tokenCache
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Send announce_peer to nodes we have tokens for
-    let announcedCount = 0;
-    
-    for (const node of closestNodes) {
-      // Try to get token by nodeId or destination
-      const token = this.tokenCache.get(node.nodeId) || this.tokenCache.get(node.destination);
-      
-      if (!token) {
-        // Skip nodes that didn't give us a token
-        continue;
-      }
-
-      const message: DHTMessage = {
-        type: 'ANNOUNCE_PEER',
-        nodeId: this.nodeId,
-        payload: {
-          infoHash,
-          port: this.destination, // In I2P we send destination as 'port'
-          token,
-          origin: this.destination
-        },
-        timestamp: Date.now()
-      };
-
-      if (this.messageHandler) {
-        this.messageHandler(node.destination, message);
-        announcedCount++;
-      }
-    }
-    
-    console.log(`[DHT] Announced to ${announcedCount} nodes (with valid tokens)`);
     // Also store locally
     let peers = this.torrentPeers.get(infoHash);
     if (!peers) {
@@ -962,52 +1587,9 @@ export class DHTSearchEngine extends EventEmitter {
       lastSeen: Date.now()
     });
 
-    // Announce to DHT like a regular peer announcement
-    // First, get tokens from closest nodes
-    const closestNodes = this.getClosestNodes(trackerHash, K);
-
-    for (const node of closestNodes) {
-      const message: DHTMessage = {
-        type: 'GET_PEERS',
-        nodeId: this.nodeId,
-        payload: {
-          infoHash: trackerHash,
-          origin: this.destination
-        },
-        timestamp: Date.now()
-      };
-
-      if (this.messageHandler) {
-        this.messageHandler(node.destination, message);
-      }
-    }
-
-    // Wait for tokens
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Announce with the tracker destination (not our own destination)
-    let announcedCount = 0;
-    for (const node of closestNodes) {
-      const token = this.tokenCache.get(node.nodeId) || this.tokenCache.get(node.destination);
-      if (!token) continue;
-
-      const message: DHTMessage = {
-        type: 'ANNOUNCE_PEER',
-        nodeId: this.nodeId,
-        payload: {
-          infoHash: trackerHash,
-          port: trackerDestination, // The tracker's destination
-          token,
-          origin: this.destination
-        },
-        timestamp: Date.now()
-      };
-
-      if (this.messageHandler) {
-        this.messageHandler(node.destination, message);
-        announcedCount++;
-      }
-    }
+    // Announce to DHT like a regular peer announcement, with the tracker
+    // destination (not our own destination)
+    const announcedCount = await this.announceToClosest(trackerHash, trackerDestination);
 
     console.log(`[DHT] Tracker announced to ${announcedCount} DHT nodes`);
     this.emit('tracker:announced', { destination: trackerDestination });
@@ -1053,6 +1635,14 @@ export class DHTSearchEngine extends EventEmitter {
       clearInterval(this.tokenRotationTimer);
       this.tokenRotationTimer = null;
     }
+    if (this.keywordRepublishTimer) {
+      clearInterval(this.keywordRepublishTimer);
+      this.keywordRepublishTimer = null;
+    }
+    if (this.keywordReplicationTimer) {
+      clearInterval(this.keywordReplicationTimer);
+      this.keywordReplicationTimer = null;
+    }
     this.torrentPeers.clear();
     this.activeSearches.clear();
     this.removeAllListeners();
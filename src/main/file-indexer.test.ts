@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { calculatePieceLength } from '../shared/torrent-types.js';
+import { DEFAULT_SHARE_RULES } from '../shared/share-rules.js';
+import { FileOps, SharedFolderOps } from './database.js';
+import { FileIndexer } from './file-indexer.js';
+import { TorrentFileUtils } from './torrent/torrent-file.js';
+
+const PIECES = Buffer.alloc(20, 7); // One piece, whatever the workers would hash
+
+describe('FileIndexer watcher re-index', () => {
+  let folder: string;
+  let filePath: string;
+  let indexer: FileIndexer;
+  let stale: { infoHash: string; path: string }[];
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-test-'));
+    filePath = path.join(folder, 'notes.txt');
+    fs.writeFileSync(filePath, 'some notes\n'.repeat(200)); // Over the default minimum size
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    indexer = new FileIndexer();
+    stale = [];
+    indexer.on('seed:stale', event => stale.push(event));
+
+    mock.method(SharedFolderOps, 'getRules', () => DEFAULT_SHARE_RULES);
+    mock.method(SharedFolderOps, 'updateStats', () => {});
+    mock.method(FileOps, 'getByFolder', () => []);
+    mock.method(FileOps, 'insert', () => {});
+    mock.method((indexer as any).hashPool, 'hash', async () => ({ hash: 'content-hash', pieces: PIECES }));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  /**
+   * Row of the file as an earlier scan stored it, before its mtime changed
+   */
+  function storedRow(infoHash: string) {
+    const size = fs.statSync(filePath).size;
+    return { id: 1, path: filePath, hash: 'content-hash', size, modifiedAt: 0, infoHash };
+  }
+
+  function currentInfoHash(): string {
+    const size = fs.statSync(filePath).size;
+    return TorrentFileUtils.computeInfoHash(
+      TorrentFileUtils.createInfoDict('notes.txt', size, calculatePieceLength(size), PIECES)
+    );
+  }
+
+  it('keeps seeding a touched file whose torrent is unchanged', async () => {
+    const row = storedRow(currentInfoHash());
+    mock.method(FileOps, 'getByPath', () => row);
+    mock.method(FileOps, 'findByHash', () => row);
+
+    const summary = await indexer.updatePaths(folder, [filePath]);
+    assert.equal(summary.changed, 1);
+    assert.deepEqual(stale, []);
+  });
+
+  it('releases the seed of a file whose torrent changed', async () => {
+    const row = storedRow('0'.repeat(40));
+    mock.method(FileOps, 'getByPath', () => row);
+    mock.method(FileOps, 'findByHash', () => undefined);
+
+    await indexer.updatePaths(folder, [filePath]);
+    assert.deepEqual(stale, [{ infoHash: '0'.repeat(40), path: filePath }]);
+  });
+});
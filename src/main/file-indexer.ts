@@ -1,16 +1,20 @@
-import crypto from 'crypto';
 import { EventEmitter } from 'events';
 import fs from 'fs';
 import mime from 'mime-types';
 import path from 'path';
 import { calculatePieceLength } from '../shared/torrent-types.js';
-import { FileOps, SharedFolderOps, getDatabase } from './database.js';
+import { isPathShared, isSizeShared } from '../shared/share-rules.js';
+import type { ScanSummary, SearchQueryAST, ShareRules } from '../shared/types.js';
+import { FileOps, SharedFolderOps } from './database.js';
+import { friendList } from './friends.js';
+import { HashPool } from './hash-pool.js';
+import { TorrentFileUtils } from './torrent/torrent-file.js';
 
 interface IndexedFile {
   path: string;
   filename: string;
   hash: string;        // SHA256 content hash (legacy)
-  infoHash: string;    // SHA1 of torrent info dict (BitTorrent compatible)
+  infoHash: string;    // SHA1 of the bencoded info dict (BitTorrent compatible)
   size: number;
   mimeType: string;
   modifiedAt: number;
@@ -18,84 +22,444 @@ interface IndexedFile {
   pieces: string;      // Concatenated SHA1 hashes of all pieces (hex)
 }
 
+// local_files row fields used by incremental scans
+interface IndexedRow {
+  id: number;
+  path: string;
+  hash: string;
+  size: number;
+  modifiedAt: number;
+  infoHash: string | null;
+}
+
 interface ScanProgress {
   folder: string;
   scanned: number;
   total: number;
   currentFile: string;
+  status: 'hashing' | 'paused';
+}
+
+interface ActiveScan {
+  controller: AbortController;
+  progress: ScanProgress;
+  done: Promise<void>; // Settles when the scan has stopped
 }
 
 export class FileIndexer extends EventEmitter {
-  private isScanning = false;
-  private scanQueue: string[] = [];
-  private chunkSize = 64 * 1024 * 1024; // 64MB chunks for hashing large files
+  private scans: Map<string, ActiveScan> = new Map(); // folder -> running scan
+  private rules: Map<string, ShareRules> = new Map();  // folder -> share rules (cache)
+  private hashPool = new HashPool();
+  private chunkSize = 8 * 1024 * 1024; // 8MB read chunks per hashing worker
 
   constructor() {
     super();
+
+    // Let the renderer show paused scans
+    this.hashPool.on('paused', () => this.emitScanStatus('paused'));
+    this.hashPool.on('resumed', () => this.emitScanStatus('hashing'));
+  }
+
+  /**
+   * Set the number of hashing workers (0 = default for this machine)
+   */
+  setHashWorkers(count: number): void {
+    this.hashPool.setSize(count);
+  }
+
+  getHashWorkers(): number {
+    return this.hashPool.capacity;
+  }
+
+  /**
+   * Pause hashing: files being hashed finish, queued files wait for resumeScan()
+   */
+  pauseScan(): void {
+    this.hashPool.pause();
+  }
+
+  resumeScan(): void {
+    this.hashPool.resume();
   }
 
-  async scanFolder(folderPath: string): Promise<IndexedFile[]> {
+  /**
+   * Cancel the scan of a folder, or of all folders. Files indexed so far are
+   * kept; rows of files not reached are left for the next scan.
+   */
+  cancelScan(folderPath?: string): boolean {
+    const targets = folderPath ? [folderPath] : [...this.scans.keys()];
+    let cancelled = false;
+    for (const target of targets) {
+      const scan = this.scans.get(target);
+      if (!scan || scan.controller.signal.aborted) continue;
+      scan.controller.abort();
+      cancelled = true;
+    }
+    // Paused files would never start: a cancelled scan must not wait for resume
+    if (cancelled && this.hashPool.isPaused && [...this.scans.values()].every(scan => scan.controller.signal.aborted)) {
+      this.hashPool.resume();
+    }
+    return cancelled;
+  }
+
+  /**
+   * Share rules of a folder (defaults if none were saved)
+   */
+  getRules(folderPath: string): ShareRules {
+    let rules = this.rules.get(folderPath);
+    if (!rules) {
+      rules = SharedFolderOps.getRules(folderPath);
+      this.rules.set(folderPath, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Save a folder's share rules. They apply to indexed files on the next scan.
+   */
+  setRules(folderPath: string, rules: ShareRules): void {
+    SharedFolderOps.setRules(folderPath, rules);
+    this.rules.set(folderPath, rules);
+  }
+
+  async stop(): Promise<void> {
+    this.cancelScan();
+    await this.hashPool.destroy();
+  }
+
+  /**
+   * Scan a shared folder incrementally. Files whose size and mtime match their
+   * local_files row are not hashed again, renamed files (same hash, new path)
+   * keep their row, and rows of files that disappeared (or are no longer
+   * shared by the folder's rules) are removed. A running scan of the same
+   * folder is cancelled first.
+   */
+  async scanFolder(folderPath: string): Promise<ScanSummary> {
     if (!fs.existsSync(folderPath)) {
       throw new Error(`Folder does not exist: ${folderPath}`);
     }
 
-    const files: IndexedFile[] = [];
+    let running: ActiveScan | undefined;
+    while ((running = this.scans.get(folderPath))) {
+      running.controller.abort();
+      await running.done;
+    }
+
+    const rules = this.getRules(folderPath);
     const allFiles = await this.walkDirectory(folderPath);
+    const known = new Map(FileOps.getByFolder(folderPath).map(row => [row.path, row]));
+    const present = new Set<string>(); // Paths that have a row after this scan
+    const summary = this.createSummary(folderPath);
+    let finish!: () => void;
+    const scan: ActiveScan = {
+      controller: new AbortController(),
+      progress: {
+        folder: folderPath,
+        scanned: 0,
+        total: allFiles.length,
+        currentFile: '',
+        status: this.hashPool.isPaused ? 'paused' : 'hashing'
+      },
+      done: new Promise<void>(resolve => { finish = resolve; })
+    };
+    const { signal } = scan.controller;
+    this.scans.set(folderPath, scan);
 
     this.emit('scan:start', { folder: folderPath, total: allFiles.length });
 
-    let scanned = 0;
-    for (const filePath of allFiles) {
+    try {
+      // Back-pressure: never more files in flight than the pool hashes at once
+      const inFlight = new Set<Promise<void>>();
+      for (const filePath of allFiles) {
+        while (inFlight.size >= this.hashPool.capacity) {
+          await Promise.race(inFlight);
+        }
+        if (signal.aborted) break;
+
+        const task: Promise<void> = this.syncFile(filePath, known.get(filePath), known, summary, rules, signal)
+          .then((indexed) => {
+            if (indexed) present.add(filePath);
+          })
+          .catch((error) => {
+            console.error(`Error indexing ${filePath}:`, error);
+          })
+          .finally(() => {
+            inFlight.delete(task);
+            scan.progress.scanned++;
+            scan.progress.currentFile = path.basename(filePath);
+            this.emit('scan:progress', { ...scan.progress });
+          });
+        inFlight.add(task);
+      }
+      await Promise.all(inFlight);
+    } finally {
+      this.scans.delete(folderPath);
+      finish();
+    }
+
+    if (signal.aborted) {
+      // Not every file was visited: keep unvisited rows, take the stats from the index
+      Object.assign(summary, this.updateFolderStats(folderPath));
+      console.log(`[Indexer] Scan of ${folderPath} cancelled after ${scan.progress.scanned}/${allFiles.length} files`);
+      this.emit('scan:cancelled', summary);
+      return summary;
+    }
+
+    // Drop rows of files that were deleted (or are no longer indexable or shared)
+    for (const [filePath, row] of known) {
+      if (!present.has(filePath)) {
+        this.removeRow(row, summary);
+      }
+    }
+
+    // Update folder stats
+    SharedFolderOps.updateStats(folderPath, summary.filesCount, summary.totalSize);
+
+    console.log(`[Indexer] Scanned ${folderPath}: ${summary.added} added, ${summary.changed} changed, ` +
+      `${summary.renamed} renamed, ${summary.removed} removed, ${summary.unchanged} unchanged`);
+    this.emit('scan:complete', summary);
+
+    return summary;
+  }
+
+  /**
+   * Re-index some paths of a shared folder (files or directories), e.g. after
+   * filesystem events. Existing files are synced like in a scan, rows of
+   * missing paths are removed. filesCount/totalSize are the folder totals.
+   */
+  async updatePaths(folderPath: string, paths: string[]): Promise<ScanSummary> {
+    const rules = this.getRules(folderPath);
+    const summary = this.createSummary(folderPath);
+    const files = new Set<string>();
+    const missing: string[] = []; // Gone, or not shared anymore: their rows are removed
+
+    for (const target of paths) {
+      if (this.isIgnoredPath(folderPath, target)) continue;
+
+      let stats: fs.Stats;
       try {
-        const indexed = await this.indexFile(filePath);
-        if (indexed) {
-          files.push(indexed);
-          // Save to database
-          FileOps.insert(indexed);
+        stats = fs.lstatSync(target);
+        if (stats.isSymbolicLink()) {
+          if (!rules.followSymlinks) throw new Error('Symlink not followed');
+          stats = fs.statSync(target);
+        }
+      } catch {
+        missing.push(target);
+        continue;
+      }
+
+      if (stats.isDirectory()) {
+        for (const filePath of await this.walkDirectory(folderPath, target)) files.add(filePath);
+      } else if (stats.isFile() && isPathShared(rules, this.toRelativePath(folderPath, target), false)) {
+        files.add(target);
+      } else {
+        missing.push(target);
+      }
+    }
+
+    const known = new Map<string, IndexedRow>();
+    for (const filePath of files) {
+      const row = FileOps.getByPath(filePath);
+      if (row) known.set(filePath, row);
+    }
+
+    // Existing files first, so a rename moves the row before its old path is handled
+    for (const filePath of files) {
+      try {
+        const row = known.get(filePath);
+        if (!(await this.syncFile(filePath, row, known, summary, rules)) && row) {
+          this.removeRow(row, summary);
         }
       } catch (error) {
         console.error(`Error indexing ${filePath}:`, error);
       }
+    }
 
-      scanned++;
-      this.emit('scan:progress', {
-        folder: folderPath,
-        scanned,
-        total: allFiles.length,
-        currentFile: path.basename(filePath)
-      } as ScanProgress);
+    // Deleted files, or whole deleted directories
+    for (const target of missing) {
+      const row = FileOps.getByPath(target);
+      if (row) this.removeRow(row, summary);
+      for (const child of FileOps.getByFolder(target)) {
+        this.removeRow(child, summary);
+      }
     }
 
-    // Update folder stats
-    const totalSize = files.reduce((sum, f) => sum + f.size, 0);
-    SharedFolderOps.updateStats(folderPath, files.length, totalSize);
+    // Update folder stats from the index
+    Object.assign(summary, this.updateFolderStats(folderPath));
+
+    return summary;
+  }
 
-    this.emit('scan:complete', { folder: folderPath, filesCount: files.length, totalSize });
+  /**
+   * Recompute a folder's file count and size from the index
+   */
+  private updateFolderStats(folderPath: string): { filesCount: number; totalSize: number } {
+    const rows = FileOps.getByFolder(folderPath);
+    const filesCount = rows.length;
+    const totalSize = rows.reduce((sum, r) => sum + r.size, 0);
+    SharedFolderOps.updateStats(folderPath, filesCount, totalSize);
+    return { filesCount, totalSize };
+  }
 
-    return files;
+  private emitScanStatus(status: ScanProgress['status']): void {
+    for (const scan of this.scans.values()) {
+      scan.progress.status = status;
+      this.emit('scan:progress', { ...scan.progress });
+    }
+  }
+
+  /**
+   * True for paths the folder's rules never share, whether file or directory
+   * (hidden or excluded). Include globs and extensions are checked per file.
+   */
+  isIgnoredPath(folderPath: string, targetPath: string): boolean {
+    return !isPathShared(this.getRules(folderPath), this.toRelativePath(folderPath, targetPath), true);
+  }
+
+  private toRelativePath(folderPath: string, targetPath: string): string {
+    return path.relative(folderPath, targetPath).split(path.sep).join('/');
+  }
+
+  private createSummary(folderPath: string): ScanSummary {
+    return {
+      folder: folderPath,
+      filesCount: 0,
+      totalSize: 0,
+      added: 0,
+      changed: 0,
+      renamed: 0,
+      removed: 0,
+      unchanged: 0
+    };
+  }
+
+  /**
+   * Bring one file's row up to date, hashing only if its size or mtime changed.
+   * Returns true if the file has a row afterwards.
+   */
+  private async syncFile(
+    filePath: string,
+    row: IndexedRow | undefined,
+    known: Map<string, IndexedRow>,
+    summary: ScanSummary,
+    rules: ShareRules,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const stats = fs.statSync(filePath);
+
+    // Outside the folder's size limits: not shared (an existing row gets removed)
+    if (!isSizeShared(rules, stats.size)) return false;
+
+    if (row && row.size === stats.size && row.modifiedAt === Math.floor(stats.mtimeMs / 1000)) {
+      // Unchanged since the last scan: keep the row (and its infoHash) without hashing
+      summary.unchanged++;
+      summary.filesCount++;
+      summary.totalSize += row.size;
+      return true;
+    }
+
+    const indexed = await this.indexFile(filePath, signal);
+    if (!indexed || !this.saveIndexedFile(indexed, row, known, summary)) return false;
+
+    summary.filesCount++;
+    summary.totalSize += indexed.size;
+    return true;
+  }
+
+  /**
+   * Store a freshly hashed file. A known hash at a path that no longer exists
+   * is a rename; at a path that still exists, a duplicate (not indexed twice).
+   * Returns false if the file was not stored.
+   */
+  private saveIndexedFile(
+    indexed: IndexedFile,
+    row: IndexedRow | undefined,
+    known: Map<string, IndexedRow>,
+    summary: ScanSummary
+  ): boolean {
+    const previous = FileOps.findByHash(indexed.hash);
+
+    if (previous && previous.path !== indexed.path) {
+      if (fs.existsSync(previous.path)) {
+        console.log(`[Indexer] Skipping duplicate of ${previous.path}: ${indexed.path}`);
+        return false;
+      }
+
+      // The old path is gone: this row moves here (and must not be removed below)
+      known.delete(previous.path);
+      this.releaseSeed(previous, indexed.infoHash);
+      if (!row) {
+        FileOps.rename(previous.id, indexed.path, indexed.filename, indexed.modifiedAt, indexed.infoHash);
+        summary.renamed++;
+        return true;
+      }
+    }
+
+    // Save to database (replaces the row of a changed file)
+    FileOps.insert(indexed);
+    if (row) {
+      this.releaseSeed(row, indexed.infoHash);
+      summary.changed++;
+    } else {
+      summary.added++;
+    }
+    return true;
+  }
+
+  private removeRow(row: IndexedRow, summary: ScanSummary): void {
+    FileOps.deleteById(row.id);
+    this.releaseSeed(row);
+    summary.removed++;
+  }
+
+  /**
+   * The torrent seeded for a row no longer matches a file on disk. A re-hash
+   * that gives the same infoHash keeps the seed (removing it would race with
+   * auto-seeding the file again).
+   */
+  private releaseSeed(row: { path: string; infoHash: string | null }, infoHash: string | null = null): void {
+    if (row.infoHash && row.infoHash !== infoHash) {
+      this.emit('seed:stale', { infoHash: row.infoHash, path: row.path });
+    }
   }
 
-  private async walkDirectory(dir: string): Promise<string[]> {
+  /**
+   * List the files of a shared folder (or of a directory inside it) that its
+   * rules share. Followed symlinks are only visited once (no loops).
+   */
+  private async walkDirectory(folderPath: string, dir: string = folderPath): Promise<string[]> {
+    const rules = this.getRules(folderPath);
     const files: string[] = [];
+    const visited = new Set<string>(); // Real paths of walked directories
 
     const walk = async (currentPath: string) => {
       try {
+        const realPath = fs.realpathSync(currentPath);
+        if (visited.has(realPath)) return;
+        visited.add(realPath);
+
         const entries = fs.readdirSync(currentPath, { withFileTypes: true });
 
         for (const entry of entries) {
           const fullPath = path.join(currentPath, entry.name);
-
-          // Skip hidden files and directories
-          if (entry.name.startsWith('.')) continue;
-
-          // Skip system directories
-          if (['node_modules', '$RECYCLE.BIN', 'System Volume Information'].includes(entry.name)) {
-            continue;
+          const relativePath = this.toRelativePath(folderPath, fullPath);
+
+          let isDirectory = entry.isDirectory();
+          let isFile = entry.isFile();
+          if (entry.isSymbolicLink()) {
+            if (!rules.followSymlinks) continue;
+            try {
+              const target = fs.statSync(fullPath);
+              isDirectory = target.isDirectory();
+              isFile = target.isFile();
+            } catch {
+              continue; // Broken link
+            }
           }
 
-          if (entry.isDirectory()) {
+          if (isDirectory && isPathShared(rules, relativePath, true)) {
             await walk(fullPath);
-          } else if (entry.isFile()) {
+          } else if (isFile && isPathShared(rules, relativePath, false)) {
             files.push(fullPath);
           }
         }
@@ -109,127 +473,42 @@ export class FileIndexer extends EventEmitter {
     return files;
   }
 
-  private async indexFile(filePath: string): Promise<IndexedFile | null> {
+  private async indexFile(filePath: string, signal?: AbortSignal): Promise<IndexedFile | null> {
     try {
       const stats = fs.statSync(filePath);
-
-      // Skip very small files (less than 1KB)
-      if (stats.size < 1024) return null;
-
-      // Skip very large files (more than 100GB)
-      if (stats.size > 100 * 1024 * 1024 * 1024) {
-        console.warn(`Skipping file larger than 100GB: ${filePath}`);
-        return null;
-      }
-
-      const hash = await this.hashFile(filePath);
       const mimeType = mime.lookup(filePath) || 'application/octet-stream';
 
       // Calculate piece length based on file size (BitTorrent standard)
       const pieceLength = calculatePieceLength(stats.size);
 
-      // Compute piece hashes (SHA1 for BitTorrent compatibility)
-      const pieceHashes = await this.computePieceHashes(filePath, pieceLength);
-      const pieces = pieceHashes.join('');
+      // One read of the file for the content hash and the piece hashes, in a worker
+      const { hash, pieces } = await this.hashPool.hash(filePath, pieceLength, this.chunkSize, signal);
 
-      // Compute infoHash (SHA1 of a simplified info dict)
-      // This is a simplified version - for full compatibility, use torrent-file.ts
-      const infoHash = this.computeInfoHash(path.basename(filePath), stats.size, pieceLength, pieces);
+      // infoHash = SHA1 of the bencoded info dict, the same torrent autoSeed seeds
+      const filename = path.basename(filePath);
+      const infoHash = TorrentFileUtils.computeInfoHash(
+        TorrentFileUtils.createInfoDict(filename, stats.size, pieceLength, pieces)
+      );
 
       return {
         path: filePath,
-        filename: path.basename(filePath),
+        filename,
         hash,
         infoHash,
         size: stats.size,
         mimeType,
         modifiedAt: Math.floor(stats.mtimeMs / 1000),
         pieceLength,
-        pieces
+        pieces: pieces.toString('hex')
       };
     } catch (error) {
-      console.error(`Error indexing file ${filePath}:`, error);
+      if (!signal?.aborted) {
+        console.error(`Error indexing file ${filePath}:`, error);
+      }
       return null;
     }
   }
 
-  private hashFile(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = crypto.createHash('sha256');
-      const stream = fs.createReadStream(filePath, { highWaterMark: this.chunkSize });
-
-      stream.on('data', (chunk) => {
-        hash.update(chunk);
-      });
-
-      stream.on('end', () => {
-        resolve(hash.digest('hex'));
-      });
-
-      stream.on('error', (error) => {
-        reject(error);
-      });
-    });
-  }
-
-  /**
-   * Compute SHA1 hashes for each piece of a file (BitTorrent standard)
-   */
-  private computePieceHashes(filePath: string, pieceLength: number): Promise<string[]> {
-    return new Promise((resolve, reject) => {
-      const hashes: string[] = [];
-      const stream = fs.createReadStream(filePath, { highWaterMark: pieceLength });
-
-      let currentPieceData = Buffer.alloc(0);
-
-      stream.on('data', (chunk: string | Buffer) => {
-        const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
-        currentPieceData = Buffer.concat([currentPieceData, data]);
-
-        while (currentPieceData.length >= pieceLength) {
-          const pieceData = currentPieceData.slice(0, pieceLength);
-          currentPieceData = currentPieceData.slice(pieceLength);
-
-          const pieceHash = crypto.createHash('sha1').update(pieceData).digest('hex');
-          hashes.push(pieceHash);
-        }
-      });
-
-      stream.on('end', () => {
-        // Handle last piece (may be smaller)
-        if (currentPieceData.length > 0) {
-          const pieceHash = crypto.createHash('sha1').update(currentPieceData).digest('hex');
-          hashes.push(pieceHash);
-        }
-        resolve(hashes);
-      });
-
-      stream.on('error', (error) => {
-        reject(error);
-      });
-    });
-  }
-
-  /**
-   * Compute a simplified infoHash for the file
-   * This creates a deterministic identifier based on file properties
-   * For full BitTorrent compatibility, use TorrentFileUtils.createFromPath
-   */
-  private computeInfoHash(filename: string, size: number, pieceLength: number, pieces: string): string {
-    // Create a simplified info dict representation
-    // Note: This is NOT a standard torrent info dict, but provides a unique identifier
-    const infoData = {
-      name: filename,
-      length: size,
-      'piece length': pieceLength,
-      pieces: pieces.substring(0, 1000) // Use first 1000 chars of pieces for uniqueness
-    };
-
-    // Hash the JSON representation to get a consistent infoHash
-    const infoJson = JSON.stringify(infoData);
-    return crypto.createHash('sha1').update(infoJson).digest('hex');
-  }
-
   async addFolder(folderPath: string): Promise<void> {
     SharedFolderOps.add(folderPath);
     await this.scanFolder(folderPath);
@@ -237,9 +516,9 @@ export class FileIndexer extends EventEmitter {
 
   async removeFolder(folderPath: string): Promise<void> {
     SharedFolderOps.remove(folderPath);
-    // Remove files from this folder from local_files
-    const db = getDatabase();
-    db.prepare('DELETE FROM local_files WHERE path LIKE ?').run(`${folderPath}%`);
+    this.rules.delete(folderPath);
+    // Remove files from this folder from local_files (and the search index)
+    FileOps.deleteByFolder(folderPath);
   }
 
   getSharedFolders(): any[] {
@@ -250,8 +529,18 @@ export class FileIndexer extends EventEmitter {
     return FileOps.getAll();
   }
 
-  searchFiles(query: string): any[] {
-    return FileOps.search(query);
+  /**
+   * Shared files anyone can find (not in a friends-only folder)
+   */
+  getPublicFiles(): any[] {
+    return FileOps.getAll().filter((file: any) => friendList.isPublic(file.path));
+  }
+
+  /**
+   * Search indexed files (query string or parsed query), ranked by relevance (BM25)
+   */
+  searchFiles(query: string | SearchQueryAST, limit?: number): any[] {
+    return FileOps.search(query, limit);
   }
 
   async rescanAll(): Promise<void> {
@@ -0,0 +1,133 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import type { ScanSummary } from '../shared/types.js';
+import { SharedFolderOps } from './database.js';
+import type { FileIndexer } from './file-indexer.js';
+
+const WATCH_DEBOUNCE = 2000;   // Quiet time before a burst of changes is indexed
+const WATCH_MAX_DELAY = 30000; // Index at least this often during a long burst
+
+interface WatchedFolder {
+  watcher: fs.FSWatcher;
+  pending: Set<string>; // Changed paths (files or directories) not indexed yet
+  timer: NodeJS.Timeout | null;
+  firstEventAt: number;
+  flushing: boolean;
+}
+
+/**
+ * Live watching of shared folders.
+ *
+ * Filesystem events are debounced per folder, then the changed paths are
+ * re-indexed through FileIndexer.updatePaths(). Emits 'update' (ScanSummary)
+ * when files were added, changed, renamed or removed.
+ */
+export class FolderWatcher extends EventEmitter {
+  private folders: Map<string, WatchedFolder> = new Map();
+
+  constructor(private indexer: FileIndexer) {
+    super();
+  }
+
+  /**
+   * Watch every shared folder
+   */
+  start(): void {
+    for (const folder of SharedFolderOps.getAll() as { path: string }[]) {
+      this.watch(folder.path);
+    }
+  }
+
+  watch(folderPath: string): void {
+    if (this.folders.has(folderPath)) return;
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(folderPath, { recursive: true }, (_eventType, filename) => {
+        this.queue(folderPath, filename ? path.join(folderPath, filename.toString()) : folderPath);
+      });
+    } catch (error: any) {
+      console.error(`[Watcher] Cannot watch ${folderPath}:`, error.message);
+      return;
+    }
+
+    watcher.on('error', (error) => {
+      console.error(`[Watcher] Error watching ${folderPath}:`, error.message);
+      this.unwatch(folderPath);
+    });
+
+    this.folders.set(folderPath, {
+      watcher,
+      pending: new Set(),
+      timer: null,
+      firstEventAt: 0,
+      flushing: false
+    });
+    console.log(`[Watcher] Watching ${folderPath}`);
+  }
+
+  unwatch(folderPath: string): void {
+    const folder = this.folders.get(folderPath);
+    if (!folder) return;
+
+    if (folder.timer) clearTimeout(folder.timer);
+    folder.watcher.close();
+    this.folders.delete(folderPath);
+    console.log(`[Watcher] Stopped watching ${folderPath}`);
+  }
+
+  stop(): void {
+    for (const folderPath of [...this.folders.keys()]) {
+      this.unwatch(folderPath);
+    }
+  }
+
+  private queue(folderPath: string, changedPath: string): void {
+    const folder = this.folders.get(folderPath);
+    if (!folder || this.indexer.isIgnoredPath(folderPath, changedPath)) return;
+
+    const now = Date.now();
+    if (folder.pending.size === 0) folder.firstEventAt = now;
+    folder.pending.add(changedPath);
+
+    // Debounce, but don't postpone indexing forever while files keep changing
+    if (folder.timer) clearTimeout(folder.timer);
+    const delay = Math.min(WATCH_DEBOUNCE, Math.max(0, folder.firstEventAt + WATCH_MAX_DELAY - now));
+    folder.timer = setTimeout(() => {
+      folder.timer = null;
+      this.flush(folderPath);
+    }, delay);
+  }
+
+  private async flush(folderPath: string): Promise<void> {
+    const folder = this.folders.get(folderPath);
+    if (!folder || folder.pending.size === 0) return;
+
+    // One batch at a time per folder; try again once the running one is done
+    if (folder.flushing) {
+      folder.timer = setTimeout(() => {
+        folder.timer = null;
+        this.flush(folderPath);
+      }, WATCH_DEBOUNCE);
+      return;
+    }
+
+    const paths = [...folder.pending];
+    folder.pending.clear();
+    folder.flushing = true;
+
+    try {
+      const summary: ScanSummary = await this.indexer.updatePaths(folderPath, paths);
+      if (summary.added + summary.changed + summary.renamed + summary.removed > 0) {
+        console.log(`[Watcher] ${folderPath}: ${summary.added} added, ${summary.changed} changed, ` +
+          `${summary.renamed} renamed, ${summary.removed} removed`);
+        this.emit('update', summary);
+      }
+    } catch (error: any) {
+      console.error(`[Watcher] Failed to index changes in ${folderPath}:`, error.message);
+    } finally {
+      folder.flushing = false;
+    }
+  }
+}
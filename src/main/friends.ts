@@ -0,0 +1,261 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { toB32 } from '@diva.exchange/i2p-sam';
+import type { FolderVisibility, Friend } from '../shared/types.js';
+import {
+  destinationKey,
+  SigningKeypair,
+  signMessageEd25519,
+  validateDisplayName,
+  validateI2PDestination,
+  verifySignatureEd25519
+} from '../shared/utils.js';
+import { FileOps, FriendOps, SharedFolderOps } from './database.js';
+
+const INVITE_PREFIX = 'i2pshare-invite:';
+const INVITE_VERSION = 1;
+const INVITE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_CLOCK_DRIFT = 60 * 1000;
+
+/**
+ * Invitation token: who we are, signed with our Ed25519 key.
+ * Exchanged out of band and imported by the other side.
+ */
+interface Invite {
+  v: number;
+  destination: string;
+  signingKey: string;
+  displayName: string;
+  issuedAt: number;
+  expiresAt: number;
+  signature: string;
+}
+
+interface FolderAccess {
+  prefix: string;
+  visibility: FolderVisibility;
+  allowedFriends: Set<string>; // b32 addresses
+}
+
+/**
+ * Friends (peers we exchanged invitation tokens with) and the visibility of
+ * each shared folder.
+ *
+ * Requests are matched to friends by their authenticated I2P destination, so
+ * only checks made on the sender of a datagram or stream are meaningful.
+ */
+class FriendList extends EventEmitter {
+  private friends: Map<string, Friend> = new Map(); // b32 -> friend
+  private folders: FolderAccess[] = [];             // Longest path first
+
+  /**
+   * Load friends and folder visibility from the database (call once it is initialized)
+   */
+  load(): void {
+    this.friends.clear();
+    for (const row of FriendOps.getAll()) {
+      this.friends.set(row.b32Address, { ...row, displayName: row.displayName || 'Unknown' });
+    }
+    this.loadFolders();
+
+    if (this.friends.size > 0) {
+      console.log(`[Friends] Loaded ${this.friends.size} friends`);
+    }
+  }
+
+  /**
+   * Reload folder visibility (after folders are added or removed)
+   */
+  loadFolders(): void {
+    const folders = SharedFolderOps.getAll() as { path: string }[];
+
+    this.folders = folders
+      .map(folder => {
+        const { visibility, allowedFriends } = SharedFolderOps.getVisibility(folder.path);
+        return {
+          prefix: folder.path.endsWith(path.sep) ? folder.path : folder.path + path.sep,
+          visibility,
+          allowedFriends: new Set(allowedFriends)
+        };
+      })
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  /**
+   * Create an invitation token for our identity
+   */
+  createInvite(destination: string, signingKeys: SigningKeypair, displayName: string): string {
+    const now = Date.now();
+    const record: Omit<Invite, 'signature'> = {
+      v: INVITE_VERSION,
+      destination,
+      signingKey: signingKeys.publicKey,
+      displayName: validateDisplayName(displayName).sanitized,
+      issuedAt: now,
+      expiresAt: now + INVITE_TTL
+    };
+    const invite: Invite = {
+      ...record,
+      signature: signMessageEd25519(JSON.stringify(record), signingKeys.privateKey)
+    };
+
+    return INVITE_PREFIX + Buffer.from(JSON.stringify(invite)).toString('base64url');
+  }
+
+  /**
+   * Verify an invitation token and add its issuer as a friend.
+   * Throws if the token is malformed, expired, forged or our own.
+   */
+  acceptInvite(token: string, ownDestination: string): Friend {
+    const invite = this.decodeInvite(token);
+
+    const b32Address = toB32(invite.destination);
+    if (ownDestination && b32Address === toB32(ownDestination)) {
+      throw new Error('This is your own invitation');
+    }
+
+    FriendOps.add({
+      b32Address,
+      destination: invite.destination,
+      signingKey: invite.signingKey,
+      displayName: invite.displayName
+    });
+
+    const friend: Friend = {
+      b32Address,
+      destination: invite.destination,
+      signingKey: invite.signingKey,
+      displayName: invite.displayName,
+      addedAt: Math.floor(Date.now() / 1000)
+    };
+    this.friends.set(b32Address, friend);
+
+    console.log(`[Friends] Added ${friend.displayName} (${b32Address.substring(0, 16)}...)`);
+    this.emit('friends:updated');
+    return friend;
+  }
+
+  remove(b32Address: string): void {
+    const key = destinationKey(b32Address);
+    FriendOps.remove(key);
+    this.friends.delete(key);
+
+    // Drop them from folders shared with specific friends
+    for (const folder of SharedFolderOps.getAll() as { path: string }[]) {
+      const { visibility, allowedFriends } = SharedFolderOps.getVisibility(folder.path);
+      if (allowedFriends.includes(key)) {
+        SharedFolderOps.setVisibility(folder.path, visibility, allowedFriends.filter(f => f !== key));
+      }
+    }
+    this.loadFolders();
+
+    console.log(`[Friends] Removed ${key.substring(0, 16)}...`);
+    this.emit('friends:updated');
+  }
+
+  list(): Friend[] {
+    return [...this.friends.values()];
+  }
+
+  isFriend(destination: string): boolean {
+    return !!destination && this.friends.has(destinationKey(destination));
+  }
+
+  setFolderVisibility(folderPath: string, visibility: FolderVisibility, allowedFriends: string[] = []): void {
+    const allowed = visibility === 'selected'
+      ? [...new Set(allowedFriends.map(f => destinationKey(f)))].filter(f => this.friends.has(f))
+      : [];
+
+    SharedFolderOps.setVisibility(folderPath, visibility, allowed);
+    this.loadFolders();
+    console.log(`[Friends] ${folderPath} is now ${visibility}${visibility === 'selected' ? ` (${allowed.length} friends)` : ''}`);
+  }
+
+  /**
+   * Whether a file can be found by anyone (published in the DHT, counted in announces)
+   */
+  isPublic(filePath: string): boolean {
+    const folder = this.folderFor(filePath);
+    return !folder || folder.visibility === 'public';
+  }
+
+  /**
+   * Whether a requester (full destination or b32) may see a file
+   */
+  canAccess(requester: string, filePath: string): boolean {
+    const folder = this.folderFor(filePath);
+    if (!folder || folder.visibility === 'public') return true;
+    if (!requester) return false;
+
+    const key = destinationKey(requester);
+    if (!this.friends.has(key)) return false;
+    return folder.visibility === 'friends' || folder.allowedFriends.has(key);
+  }
+
+  /**
+   * Whether a requester may exchange data for a torrent. Torrents of files we
+   * don't share (downloads) are open to anyone.
+   */
+  canAccessTorrent(infoHash: string, requester: string): boolean {
+    if (this.folders.every(folder => folder.visibility === 'public')) return true;
+
+    const file = FileOps.getByInfoHash(infoHash) as { path: string } | undefined;
+    return !file || this.canAccess(requester, file.path);
+  }
+
+  /**
+   * Whether a torrent may be announced publicly: anything but a friends-only file
+   */
+  isPublicTorrent(infoHash: string): boolean {
+    if (this.folders.every(folder => folder.visibility === 'public')) return true;
+
+    const file = FileOps.getByInfoHash(infoHash) as { path: string } | undefined;
+    return !file || this.isPublic(file.path);
+  }
+
+  private folderFor(filePath: string): FolderAccess | undefined {
+    return this.folders.find(folder => filePath.startsWith(folder.prefix));
+  }
+
+  private decodeInvite(token: string): Invite {
+    const encoded = typeof token === 'string' ? token.trim() : '';
+    if (!encoded.startsWith(INVITE_PREFIX)) {
+      throw new Error('Not an invitation token');
+    }
+
+    let invite: Invite;
+    try {
+      invite = JSON.parse(Buffer.from(encoded.slice(INVITE_PREFIX.length), 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invitation token is corrupted');
+    }
+
+    if (!invite || typeof invite !== 'object' || invite.v !== INVITE_VERSION) {
+      throw new Error('Unsupported invitation token');
+    }
+    if (typeof invite.destination !== 'string' || invite.destination.length <= 100 || !validateI2PDestination(invite.destination)) {
+      throw new Error('Invitation has an invalid destination');
+    }
+    if (typeof invite.signingKey !== 'string' || typeof invite.signature !== 'string') {
+      throw new Error('Invitation is not signed');
+    }
+    if (typeof invite.issuedAt !== 'number' || typeof invite.expiresAt !== 'number') {
+      throw new Error('Invitation has no validity period');
+    }
+    if (invite.expiresAt < Date.now()) {
+      throw new Error('Invitation has expired');
+    }
+    if (invite.issuedAt > Date.now() + MAX_CLOCK_DRIFT) {
+      throw new Error('Invitation is issued in the future');
+    }
+
+    const { signature, ...record } = invite;
+    if (!verifySignatureEd25519(JSON.stringify(record), signature, invite.signingKey)) {
+      throw new Error('Invitation signature is invalid');
+    }
+
+    return { ...invite, displayName: validateDisplayName(invite.displayName).sanitized };
+  }
+}
+
+export const friendList = new FriendList();
@@ -0,0 +1,240 @@
+import { EventEmitter } from 'events';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import type { ContentHashes } from './content-hash.js';
+
+const DEFAULT_POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+const WORKER_IDLE_TIMEOUT = 30000; // Idle workers exit after this, a scan starts them again
+
+export type HashWorkerRequest =
+  | { type: 'hash'; id: number; filePath: string; pieceLength: number; chunkSize: number }
+  | { type: 'cancel'; id: number };
+
+export type HashWorkerReply =
+  | { id: number; hash: string; pieces: Uint8Array }
+  | { id: number; error: string; cancelled: boolean };
+
+interface HashJob {
+  id: number;
+  filePath: string;
+  pieceLength: number;
+  chunkSize: number;
+  resolve: (hashes: ContentHashes) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: HashJob | null;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Pool of worker_threads hashing files off the main process event loop.
+ *
+ * hash() queues a file and resolves with its SHA256 and piece hashes. Callers
+ * keep at most `capacity` files in flight for back-pressure. pause() holds
+ * queued files (running ones finish), cancelAll() rejects queued files and
+ * aborts running ones with a "Hashing cancelled" error.
+ */
+export class HashPool extends EventEmitter {
+  private workers: PoolWorker[] = [];
+  private queue: HashJob[] = [];
+  private paused = false;
+  private nextId = 1;
+
+  constructor(private size: number = DEFAULT_POOL_SIZE) {
+    super();
+  }
+
+  /**
+   * Number of files hashed in parallel
+   */
+  get capacity(): number {
+    return this.size;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Change the number of workers (0 = default for this machine).
+   * Extra workers exit once their current file is done.
+   */
+  setSize(size: number): void {
+    this.size = size > 0 ? Math.floor(size) : DEFAULT_POOL_SIZE;
+    console.log(`[HashPool] Using ${this.size} hashing workers`);
+    this.dispatch();
+  }
+
+  /**
+   * Hash a file. Aborting the signal cancels it, queued or running.
+   */
+  hash(filePath: string, pieceLength: number, chunkSize: number, signal?: AbortSignal): Promise<ContentHashes> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Hashing cancelled'));
+        return;
+      }
+
+      const job: HashJob = { id: this.nextId++, filePath, pieceLength, chunkSize, resolve, reject };
+      if (signal) {
+        const onAbort = () => this.cancel(job);
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.resolve = (hashes) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(hashes);
+        };
+        job.reject = (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        };
+      }
+
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.emit('paused');
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.emit('resumed');
+    this.dispatch();
+  }
+
+  cancelAll(): void {
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('Hashing cancelled'));
+    }
+
+    for (const poolWorker of this.workers) {
+      if (poolWorker.job) {
+        poolWorker.worker.postMessage({ type: 'cancel', id: poolWorker.job.id } as HashWorkerRequest);
+      }
+    }
+  }
+
+  async destroy(): Promise<void> {
+    this.cancelAll();
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(poolWorker => {
+      if (poolWorker.idleTimer) clearTimeout(poolWorker.idleTimer);
+      poolWorker.job?.reject(new Error('Hashing cancelled'));
+      return poolWorker.worker.terminate();
+    }));
+  }
+
+  private cancel(job: HashJob): void {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      job.reject(new Error('Hashing cancelled'));
+      return;
+    }
+
+    const running = this.workers.find(poolWorker => poolWorker.job === job);
+    running?.worker.postMessage({ type: 'cancel', id: job.id } as HashWorkerRequest);
+  }
+
+  private dispatch(): void {
+    while (!this.paused && this.queue.length > 0) {
+      const poolWorker = this.getIdleWorker();
+      if (!poolWorker) return;
+
+      const job = this.queue.shift()!;
+      if (poolWorker.idleTimer) {
+        clearTimeout(poolWorker.idleTimer);
+        poolWorker.idleTimer = null;
+      }
+      poolWorker.job = job;
+      poolWorker.worker.postMessage({
+        type: 'hash',
+        id: job.id,
+        filePath: job.filePath,
+        pieceLength: job.pieceLength,
+        chunkSize: job.chunkSize
+      } as HashWorkerRequest);
+    }
+  }
+
+  private getIdleWorker(): PoolWorker | null {
+    const idle = this.workers.find(poolWorker => !poolWorker.job);
+    if (idle) return idle;
+    if (this.workers.length >= this.size) return null;
+
+    return this.spawn();
+  }
+
+  private spawn(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(path.join(__dirname, 'hash-worker.mjs')),
+      job: null,
+      idleTimer: null
+    };
+
+    poolWorker.worker.on('message', (reply: HashWorkerReply) => {
+      this.handleReply(poolWorker, reply);
+    });
+
+    poolWorker.worker.on('error', (error) => {
+      console.error('[HashPool] Worker error:', error.message);
+      this.retire(poolWorker, error);
+    });
+
+    poolWorker.worker.on('exit', (code) => {
+      this.retire(poolWorker, new Error(`Hashing worker exited with code ${code}`));
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private handleReply(poolWorker: PoolWorker, reply: HashWorkerReply): void {
+    const job = poolWorker.job;
+    poolWorker.job = null;
+
+    if (job && job.id === reply.id) {
+      if ('error' in reply) {
+        job.reject(new Error(reply.cancelled ? 'Hashing cancelled' : reply.error));
+      } else {
+        const pieces = Buffer.from(reply.pieces.buffer, reply.pieces.byteOffset, reply.pieces.byteLength);
+        job.resolve({ hash: reply.hash, pieces });
+      }
+    }
+
+    if (this.workers.length > this.size) {
+      this.retire(poolWorker);
+    } else {
+      poolWorker.idleTimer = setTimeout(() => this.retire(poolWorker), WORKER_IDLE_TIMEOUT);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Stop a worker, failing its current file if it had one
+   */
+  private retire(poolWorker: PoolWorker, error?: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    if (poolWorker.idleTimer) clearTimeout(poolWorker.idleTimer);
+    if (poolWorker.job) {
+      poolWorker.job.reject(error || new Error('Hashing worker stopped'));
+      poolWorker.job = null;
+    }
+    poolWorker.worker.terminate();
+
+    // Replace it if files are still waiting
+    this.dispatch();
+  }
+}
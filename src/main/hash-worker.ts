@@ -0,0 +1,32 @@
+/**
+ * Hashing worker (worker_threads entry, built to dist/main/hash-worker.mjs).
+ * Hashes files for HashPool off the main process event loop.
+ */
+
+import { parentPort } from 'worker_threads';
+import { hashContent } from './content-hash.js';
+import type { HashWorkerReply, HashWorkerRequest } from './hash-pool.js';
+
+const running: Map<number, AbortController> = new Map();
+
+parentPort!.on('message', async (message: HashWorkerRequest) => {
+  if (message.type === 'cancel') {
+    running.get(message.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(message.id, controller);
+
+  let reply: HashWorkerReply;
+  try {
+    const { hash, pieces } = await hashContent(message.filePath, message.pieceLength, message.chunkSize, controller.signal);
+    reply = { id: message.id, hash, pieces };
+  } catch (error: any) {
+    reply = { id: message.id, error: error.message, cancelled: controller.signal.aborted };
+  } finally {
+    running.delete(message.id);
+  }
+
+  parentPort!.postMessage(reply);
+});
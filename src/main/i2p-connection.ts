@@ -1,5 +1,9 @@
-import { createLocalDestination, createRaw } from '@diva.exchange/i2p-sam';
+import { createDatagram, createLocalDestination } from '@diva.exchange/i2p-sam';
 import { EventEmitter } from 'events';
+import { encodeFrames, FrameAssembler, isFrame } from '../shared/datagram-framing.js';
+import { parseRepliableDatagram } from '../shared/utils.js';
+import { isWireMessage, WireCodec } from '../shared/wire-codec.js';
+import { peerLimiter } from './peer-limiter.js';
 
 // Get electron from global (set by bootstrap.cjs)
 const electron = (globalThis as any).__electron;
@@ -12,6 +16,12 @@ interface I2PConfig {
   samPortTCP: number;
   samPortUDP: number;
   listenPort: number;
+  /**
+   * Compatibility window for peers still on RAW sessions: accept messages
+   * without a router-provided sender (trusting their `_from`) and keep
+   * sending `_from` so they can reply
+   */
+  acceptLegacySenders: boolean;
 }
 
 interface I2PConnectionState {
@@ -30,6 +40,9 @@ export class I2PConnection extends EventEmitter {
   private privateKey: string = '';
   private isConnectedFlag: boolean = false;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private assembler = new FrameAssembler();
+  private nextMessageId = Math.floor(Math.random() * 0xffffffff);
+  private codec = new WireCodec();
 
   constructor(config: Partial<I2PConfig> = {}) {
     super();
@@ -37,7 +50,8 @@ export class I2PConnection extends EventEmitter {
       samHost: config.samHost || '127.0.0.1',
       samPortTCP: config.samPortTCP || 7656,
       samPortUDP: config.samPortUDP || 7655,
-      listenPort: config.listenPort || 0 // 0 = random port
+      listenPort: config.listenPort || 0, // 0 = random port
+      acceptLegacySenders: config.acceptLegacySenders ?? true
     };
   }
 
@@ -100,9 +114,9 @@ export class I2PConnection extends EventEmitter {
 
       console.log('[I2P] Destination ready:', this.b32Address);
 
-      // Now create the RAW session for datagram communication
-      console.log('[I2P] Creating RAW session...');
-      this.sam = await createRaw({
+      // Now create the repliable DATAGRAM session: the router tells us who sent each message
+      console.log('[I2P] Creating DATAGRAM session...');
+      this.sam = await createDatagram({
         sam: {
           host: this.config.samHost,
           portTCP: this.config.samPortTCP,
@@ -117,8 +131,8 @@ export class I2PConnection extends EventEmitter {
       });
 
       // Set up event handlers for the new API
-      this.sam.on('data', (msg: Buffer) => {
-        this.handleIncomingData(msg);
+      this.sam.on('data', (msg: Buffer, fromDestination: string) => {
+        this.handleIncomingData(msg, fromDestination || '');
       });
 
       this.sam.on('close', () => {
@@ -130,7 +144,7 @@ export class I2PConnection extends EventEmitter {
         console.error('[I2P] Session error:', error.message);
       });
 
-      console.log('[I2P] RAW session created successfully');
+      console.log('[I2P] DATAGRAM session created successfully');
       console.log('[I2P] Your I2P address:', this.b32Address);
 
       this.isConnectedFlag = true;
@@ -183,28 +197,88 @@ export class I2PConnection extends EventEmitter {
     this.scheduleReconnect();
   }
 
-  private handleIncomingData(data: Buffer): void {
+  private handleIncomingData(payload: Buffer, header: string): void {
+    // The sender comes from the router, never from the message body
+    const datagram = parseRepliableDatagram(header, payload);
+    const sender = datagram.from;
+    let data = datagram.data;
+
+    // Banned or flooding senders are dropped before any parsing
+    if (sender && !peerLimiter.allow(sender)) return;
+
+    // Fragment of a large message: wait for the rest
+    if (isFrame(data)) {
+      const message = this.assembler.push(sender, data);
+      if (!message) return;
+      data = message;
+    }
+
+    // Binary encoded message from a peer that supports it
+    if (isWireMessage(data)) {
+      const message = this.codec.decode(sender, data);
+      if (message) {
+        this.emit('message', { from: sender, message });
+        return;
+      }
+    }
+
     try {
-      // The message format from I2P includes the sender
       // Try to parse as JSON message
       const str = data.toString();
 
       // Check if it's a JSON message
       if (str.startsWith('{')) {
-        const message = JSON.parse(str);
-        const from = message._from || 'unknown';
+        let message: any;
+        try {
+          message = JSON.parse(str);
+        } catch {
+          peerLimiter.penalize(sender, 'malformed');
+          return;
+        }
+
+        const from = this.resolveSender(sender, message._from);
+        this.codec.notePeer(sender, message._wire);
         delete message._from;
+        delete message._wire;
+        if (!from) return;
+
+        // Legacy senders are only known once parsed
+        if (!sender && !peerLimiter.allow(from)) return;
         this.emit('message', { from, message });
-      } else {
+      } else if (sender) {
         // Binary data
-        this.emit('data', { from: 'unknown', data });
+        this.emit('data', { from: sender, data });
       }
     } catch (e) {
       // Raw binary data
-      this.emit('data', { from: 'unknown', data });
+      if (sender) {
+        this.emit('data', { from: sender, data });
+      }
     }
   }
 
+  /**
+   * Pick the destination a message is attributed to. The router's sender wins
+   * over a self-declared `_from`; messages with only `_from` (RAW-style) are
+   * accepted during the compatibility window.
+   */
+  private resolveSender(sender: string, declared: unknown): string {
+    const claimed = typeof declared === 'string' ? declared : '';
+
+    if (sender) {
+      if (claimed && claimed !== sender) {
+        console.warn(`[I2P] Sender mismatch: message claims ${claimed.substring(0, 16)}..., router says ${sender.substring(0, 16)}...`);
+      }
+      return sender;
+    }
+
+    if (!this.config.acceptLegacySenders) {
+      console.log('[I2P] Dropped message without authenticated sender');
+      return '';
+    }
+    return claimed;
+  }
+
   async sendMessage(destination: string, message: object): Promise<boolean> {
     if (!this.isConnectedFlag || !this.sam) {
       console.error('[I2P] Cannot send: not connected');
@@ -212,14 +286,23 @@ export class I2PConnection extends EventEmitter {
     }
 
     try {
-      // Add our address to the message so recipient knows who sent it
-      const msgWithSender = {
-        ...message,
-        _from: this.destination
-      };
+      // Binary for peers that told us they speak it, otherwise JSON with a
+      // version hint. Recipients on DATAGRAM sessions get our address from
+      // the router, legacy RAW peers still need it in the message
+      let data = this.codec.encode(destination, message);
+      if (!data) {
+        const msgWithSender = this.config.acceptLegacySenders
+          ? { ...message, _from: this.destination, _wire: this.codec.hint(destination) }
+          : { ...message, _wire: this.codec.hint(destination) };
+        data = Buffer.from(JSON.stringify(msgWithSender));
+      }
 
-      const data = Buffer.from(JSON.stringify(msgWithSender));
-      this.sam.send(destination, data);
+      const frames = encodeFrames(data, this.nextMessageId);
+      this.nextMessageId = (this.nextMessageId + 1) >>> 0;
+
+      for (const frame of frames) {
+        this.sam.send(destination, frame);
+      }
       return true;
     } catch (error: any) {
       console.error('[I2P] Send failed:', error.message);
@@ -280,6 +363,8 @@ export class I2PConnection extends EventEmitter {
     }
 
     this.sam = null;
+    this.assembler.clear();
+    this.codec.clear();
     this.isConnectedFlag = false;
     this.destination = '';
     this.b32Address = '';
@@ -1,7 +1,9 @@
 import type { BrowserWindow as BrowserWindowType } from 'electron';
 import Store from 'electron-store';
 import path from 'path';
-import type { SearchFilters, SearchResult } from '../shared/types.js';
+import type { FolderVisibility, SearchFilters, ShareRules } from '../shared/types.js';
+import type { TorrentInfo } from '../shared/torrent-types.js';
+import { destinationKey, validateShareRules } from '../shared/utils.js';
 import {
     closeDatabase,
     FileOps,
@@ -9,14 +11,23 @@ import {
     PeerOps,
     RemoteFileOps,
     RoutingOps,
+    SharedFolderOps,
     TorrentOps
 } from './database.js';
 import { dhtSearch } from './dht-search.js';
+import { friendList } from './friends.js';
+import { messaging } from './messaging.js';
+import { peerBlocklist } from './peer-blocklist.js';
+import { loadPeerBans } from './peer-limiter.js';
+import { rpc } from './rpc.js';
 import { FileIndexer } from './file-indexer.js';
+import { FolderWatcher } from './folder-watcher.js';
 import { i2pConnection } from './i2p-connection.js';
 import { i2pdManager } from './i2pd-manager.js';
+import { searchSessions } from './search-sessions.js';
 import { EmbeddedTracker, getEmbeddedTracker } from './torrent/embedded-tracker.js';
-import { getTorrentManager, TorrentManager } from './torrent/torrent-manager.js';
+import { getTorrentManager, QueueLimits, TorrentManager } from './torrent/torrent-manager.js';
+import { BandwidthLimits, BandwidthSchedule, closeBandwidthLimiter, getBandwidthLimiter } from './torrent/bandwidth-limiter.js';
 import { trackerClient, DEFAULT_TRACKERS } from './tracker-client.js';
 
 // Get electron from global (set by bootstrap.cjs)
@@ -27,6 +38,19 @@ const { app, BrowserWindow, dialog, ipcMain, shell } = electron;
 const store = new Store({
   defaults: {
     displayName: 'I2P Share User', // User's display name visible to other peers
+    hashWorkers: 0,                // Hashing worker threads (0 = auto)
+    maxActiveDownloads: 3,         // Torrents downloading at once, the rest are queued (0 = unlimited)
+    maxActiveSeeds: 0,             // Torrents seeding at once (0 = unlimited)
+    maxUploadBandwidth: 0,         // Global upload limit in bytes/s (0 = unlimited)
+    maxDownloadBandwidth: 0,       // Global download limit in bytes/s (0 = unlimited)
+    maxUploadSlots: 10,            // Peers each torrent uploads to at once
+    bandwidthSchedule: {           // Other limits during part of the day (minutes after midnight)
+      enabled: false,
+      start: 9 * 60,
+      end: 17 * 60,
+      days: [1, 2, 3, 4, 5],
+      limits: { uploadLimit: 0, downloadLimit: 0 }
+    },
   }
 });
 
@@ -39,6 +63,9 @@ let downloadProgress: number = 0;
 let torrentManager: TorrentManager | null = null;
 let embeddedTracker: EmbeddedTracker | null = null;
 const fileIndexer = new FileIndexer();
+const folderWatcher = new FolderWatcher(fileIndexer);
+let autoSeedRunning = false;
+let autoSeedQueued = false;
 
 function createWindow(): void {
   mainWindow = new BrowserWindow({
@@ -72,8 +99,9 @@ function createWindow(): void {
 
 /**
  * Auto-seed new files as torrents
- * This creates torrents for shared files that don't have an infoHash yet,
- * enabling BitTorrent-based downloads for files found via DHT search.
+ * Indexed files already carry their info dict (infoHash + piece hashes), so
+ * the torrents are added without hashing the files again, enabling
+ * BitTorrent-based downloads for files found via DHT search.
  */
 async function autoSeedNewFiles(): Promise<void> {
   if (!torrentManager) {
@@ -81,8 +109,28 @@ async function autoSeedNewFiles(): Promise<void> {
     return;
   }
 
-  // Get files that need to be seeded (no infoHash yet)
-  const filesToSeed = FileOps.getWithoutInfoHash() as any[];
+  // Shares can change while seeding: run again afterwards instead of in parallel
+  if (autoSeedRunning) {
+    autoSeedQueued = true;
+    return;
+  }
+  autoSeedRunning = true;
+
+  try {
+    await seedIndexedFiles(torrentManager);
+  } finally {
+    autoSeedRunning = false;
+  }
+
+  if (autoSeedQueued) {
+    autoSeedQueued = false;
+    await autoSeedNewFiles();
+  }
+}
+
+async function seedIndexedFiles(torrentManager: TorrentManager): Promise<void> {
+  // Get files that need to be seeded (not in the torrent client yet)
+  const filesToSeed = FileOps.getSeedable().filter(file => !torrentManager.hasTorrent(file.infoHash));
 
   if (filesToSeed.length === 0) {
     console.log('[AutoSeed] All files already seeded');
@@ -103,17 +151,10 @@ async function autoSeedNewFiles(): Promise<void> {
         continue;
       }
 
-      // Create torrent for the file
-      const result = await torrentManager.createTorrent(file.path, {
-        name: file.filename
-      });
-
-      if (result.infoHash) {
-        // Store the infoHash in the database
-        FileOps.setInfoHash(file.hash, result.infoHash);
-        seeded++;
-        console.log(`[AutoSeed] Seeded: ${file.filename} → ${result.infoHash.substring(0, 16)}...`);
-      }
+      // Seed from the indexed info dict (friends-only files are not announced)
+      await torrentManager.seedIndexedFile(file);
+      seeded++;
+      console.log(`[AutoSeed] Seeded: ${file.filename} → ${file.infoHash.substring(0, 16)}...`);
     } catch (error: any) {
       failed++;
       console.error(`[AutoSeed] Failed to seed ${file.filename}:`, error.message);
@@ -123,76 +164,146 @@ async function autoSeedNewFiles(): Promise<void> {
   console.log(`[AutoSeed] Complete: ${seeded} seeded, ${failed} failed`);
 }
 
-function setupIPC(): void {
-  // Search - uses DHT for distributed search
-  ipcMain.handle('search:query', async (_event, query: string, filters: SearchFilters) => {
-    console.log('[IPC] Search:', query, filters);
+/**
+ * Whether a destination may exchange data with us, for any torrent or a given one:
+ * blocked peers never, friends-only files with friends only
+ */
+function isPeerAllowed(destination: string, infoHash?: string): boolean {
+  if (peerBlocklist.isBlocked(destination)) return false;
+  return !infoHash || friendList.canAccessTorrent(infoHash, destination);
+}
 
-    // First search local files (include infoHash for torrent-based downloads)
-    const localResults = fileIndexer.searchFiles(query).map((f: any) => {
-      // Get the full file record to get the infoHash
-      const fileWithInfoHash = FileOps.getWithInfoHash(f.hash);
-      return {
-        filename: f.filename,
-        fileHash: f.hash,
-        infoHash: fileWithInfoHash?.infoHash || null, // Include torrent infoHash if available
-        size: f.size,
-        mimeType: f.mimeType,
-        peerId: 'local',
-        peerDisplayName: 'Me (Local)',
-        addedAt: f.sharedAt
-      };
+/**
+ * Active download and seed limits from the settings
+ */
+function getQueueLimits(): QueueLimits {
+  return {
+    maxActiveDownloads: store.get('maxActiveDownloads', 3) as number,
+    maxActiveSeeds: store.get('maxActiveSeeds', 0) as number
+  };
+}
+
+/**
+ * Bandwidth settings: global limits, upload slots and the schedule
+ */
+interface BandwidthSettings extends BandwidthLimits {
+  maxUploadSlots: number;
+  schedule: BandwidthSchedule;
+}
+
+function getBandwidthSettings(): BandwidthSettings {
+  return {
+    uploadLimit: store.get('maxUploadBandwidth', 0) as number,
+    downloadLimit: store.get('maxDownloadBandwidth', 0) as number,
+    maxUploadSlots: store.get('maxUploadSlots', 10) as number,
+    schedule: store.get('bandwidthSchedule') as BandwidthSchedule
+  };
+}
+
+/**
+ * Hand the saved global limits and schedule to the limiter
+ */
+function applyBandwidthSettings(): void {
+  const settings = getBandwidthSettings();
+  const limiter = getBandwidthLimiter();
+  limiter.setGlobalLimits({ uploadLimit: settings.uploadLimit, downloadLimit: settings.downloadLimit });
+  limiter.setSchedule(settings.schedule);
+}
+
+/**
+ * A torrent as the Downloads page shows it
+ */
+function toDownload(torrent: TorrentInfo) {
+  const status: Record<string, string> = {
+    downloading: 'downloading',
+    checking: 'connecting',
+    metadata: 'connecting',
+    queued: 'queued',
+    paused: 'paused',
+    stopped: 'paused',
+    seeding: 'completed',
+    error: 'failed'
+  };
+
+  return {
+    id: torrent.infoHash,
+    infoHash: torrent.infoHash,
+    filename: torrent.name,
+    fileHash: torrent.infoHash,
+    peerId: '',
+    peerName: `${torrent.peersCount} peer${torrent.peersCount === 1 ? '' : 's'}`,
+    totalSize: torrent.totalSize,
+    downloadedSize: Math.round(torrent.totalSize * torrent.progress / 100),
+    status: status[torrent.state] || 'pending',
+    progress: torrent.progress,
+    speed: torrent.downloadSpeed,
+    priority: torrent.priority,
+    queuePosition: torrent.queuePosition,
+    uploadLimit: torrent.uploadLimit,
+    downloadLimit: torrent.downloadLimit
+  };
+}
+
+/**
+ * Publish the current shares after they changed (scan or watcher update):
+ * DHT keywords, tracker stats, embedded tracker entry, and torrents for new files.
+ */
+function refreshSharedFiles(): void {
+  if (!i2pConnection.isReady()) return;
+
+  // Friends-only files are neither published nor counted
+  const files = fileIndexer.getPublicFiles();
+  dhtSearch.announceFiles(files);
+
+  // Update TrackerClient stats and re-announce to tracker
+  const totalSize = files.reduce((sum, f) => sum + (f.size || 0), 0);
+  trackerClient.updateStats(files.length, totalSize);
+  trackerClient.announce().catch(err => {
+    console.log('[Main] Re-announce after share update:', err.message);
+  });
+  console.log(`[Main] Updated tracker stats: ${files.length} files, ${totalSize} bytes`);
+
+  // Also update embedded tracker's local peer entry
+  if (embeddedTracker) {
+    embeddedTracker.registerLocalPeer({
+      destination: i2pConnection.getDestination(),
+      b32Address: i2pConnection.getB32Address(),
+      displayName: store.get('displayName', 'I2P Share User') as string,
+      filesCount: files.length,
+      totalSize: totalSize,
+      nodeId: dhtSearch.getNodeId()
     });
+  }
 
-    // DHT search for remote peers (only if connected to I2P)
-    let dhtResults: SearchResult[] = [];
-    if (i2pConnection.isReady()) {
-      try {
-        dhtResults = await dhtSearch.search(query, filters, 10000);
-
-        // Save remote results to database for later retrieval
-        for (const result of dhtResults) {
-          if (result.peerId && result.peerId !== 'local') {
-            RemoteFileOps.upsert({
-              peerId: result.peerId,
-              filename: result.filename,
-              hash: result.fileHash,
-              size: result.size,
-              mimeType: result.mimeType
-            });
-          }
-        }
-        console.log(`[IPC] Saved ${dhtResults.length} remote files to database`);
-      } catch (e) {
-        console.log('[IPC] DHT search error:', e);
-      }
-    } else {
-      console.log('[IPC] Skipping DHT search - not connected to I2P');
-    }
+  // Auto-seed files as torrents (in background)
+  if (torrentManager) {
+    autoSeedNewFiles().catch(err => {
+      console.error('[Main] Auto-seed error:', err.message);
+    });
+  }
+}
 
-    // Deduplicate by fileHash (prefer local > DHT)
-    const seen = new Set<string>();
-    const results: SearchResult[] = [];
+function setupIPC(): void {
+  // Search - local FTS + DHT for distributed search, streamed as a session
+  ipcMain.handle('search:start', async (_event, query: string, filters: SearchFilters) => {
+    console.log('[IPC] Search start:', query, filters);
+    return searchSessions.start(query, filters || {});
+  });
 
-    for (const r of localResults) {
-      if (!seen.has(r.fileHash)) {
-        seen.add(r.fileHash);
-        results.push(r);
-      }
-    }
-    for (const r of dhtResults) {
-      if (!seen.has(r.fileHash)) {
-        seen.add(r.fileHash);
-        results.push(r);
-      }
-    }
+  ipcMain.handle('search:cancel', async (_event, searchId: string) => {
+    return searchSessions.cancel(searchId);
+  });
 
-    console.log(`[IPC] Search results: ${localResults.length} local, ${dhtResults.length} DHT`);
+  // Legacy one-shot search: waits for the whole session
+  ipcMain.handle('search:query', async (_event, query: string, filters: SearchFilters) => {
+    console.log('[IPC] Search:', query, filters);
+    const results = await searchSessions.run(query, filters || {});
+    console.log(`[IPC] Search results: ${results.length}`);
     return results;
   });
 
   // Downloads - use TorrentManager for BitTorrent-based transfers
-  ipcMain.handle('download:start', async (_event, fileHash: string, peerId: string, filename: string, size: number, peerName: string, streamingDest?: string, providedInfoHash?: string) => {
+  ipcMain.handle('download:start', async (_event, fileHash: string, peerId: string, filename: string, size: number, peerName: string, streamingDest?: string, providedInfoHash?: string, sources?: string[]) => {
     if (!i2pConnection.isReady()) {
       throw new Error('Not connected to I2P network');
     }
@@ -227,15 +338,6 @@ function setupIPC(): void {
       throw new Error('This file is not available for download. The peer needs to seed it as a torrent first.');
     }
 
-    // Add peer to the torrent swarm
-    const targetDest = streamingDest || peerId;
-    if (targetDest && targetDest !== 'local') {
-      const added = await torrentManager.addPeer(infoHash, targetDest);
-      if (added) {
-        console.log(`[Download] Added peer to torrent swarm: ${targetDest.substring(0, 20)}...`);
-      }
-    }
-
     // Start or resume the torrent download via magnet link
     // First check if torrent already exists
     const existingTorrent = torrentManager.getStatus(infoHash);
@@ -248,6 +350,17 @@ function setupIPC(): void {
       await torrentManager.addMagnet(magnetUri);
     }
 
+    // Add every peer known to have the file to the torrent swarm
+    const destinations = new Set(
+      [streamingDest || peerId, ...(Array.isArray(sources) ? sources : [])]
+        .filter(dest => typeof dest === 'string' && dest.length > 0 && dest !== 'local')
+    );
+    const manager = torrentManager;
+    Promise.allSettled([...destinations].map(dest => manager.addPeer(infoHash!, dest))).then((added) => {
+      const count = added.filter(r => r.status === 'fulfilled' && r.value).length;
+      console.log(`[Download] Added ${count}/${destinations.size} sources to torrent swarm: ${infoHash!.substring(0, 16)}...`);
+    });
+
     return { infoHash, name: filename };
   });
 
@@ -271,7 +384,7 @@ function setupIPC(): void {
 
   ipcMain.handle('download:list', async () => {
     if (!torrentManager) return [];
-    return torrentManager.listTorrents();
+    return torrentManager.listTorrents().map(toDownload);
   });
 
   // Shares
@@ -283,6 +396,8 @@ function setupIPC(): void {
     if (!result.canceled && result.filePaths.length > 0) {
       const folderPath = result.filePaths[0];
       await fileIndexer.addFolder(folderPath);
+      friendList.loadFolders();
+      folderWatcher.watch(folderPath);
       return {
         path: folderPath,
       };
@@ -291,7 +406,10 @@ function setupIPC(): void {
   });
 
   ipcMain.handle('shares:remove-folder', async (_event, folderPath: string) => {
+    folderWatcher.unwatch(folderPath);
+    fileIndexer.cancelScan(folderPath);
     await fileIndexer.removeFolder(folderPath);
+    friendList.loadFolders();
   });
 
   ipcMain.handle('shares:list', async () => {
@@ -306,6 +424,78 @@ function setupIPC(): void {
     await fileIndexer.scanFolder(folderPath);
   });
 
+  // Per-folder share rules
+  ipcMain.handle('shares:get-rules', async (_event, folderPath: string) => {
+    return fileIndexer.getRules(folderPath);
+  });
+
+  ipcMain.handle('shares:set-rules', async (_event, folderPath: string, rules: Partial<ShareRules>) => {
+    // The re-scan below would index (and publish) any folder it is given
+    if (typeof folderPath !== 'string' || !SharedFolderOps.has(folderPath)) {
+      throw new Error('Not a shared folder');
+    }
+
+    const validation = validateShareRules(rules);
+    if (!validation.valid) {
+      throw new Error(validation.error || 'Invalid share rules');
+    }
+
+    fileIndexer.setRules(folderPath, validation.sanitized);
+
+    // Re-scan so the rules apply to files already indexed (in background)
+    fileIndexer.scanFolder(folderPath).catch(err => {
+      console.error('[Main] Re-scan after rules change failed:', err.message);
+    });
+    return validation.sanitized;
+  });
+
+  // Per-folder visibility (public, all friends, selected friends)
+  ipcMain.handle('shares:get-visibility', async (_event, folderPath: string) => {
+    return SharedFolderOps.getVisibility(folderPath);
+  });
+
+  ipcMain.handle('shares:set-visibility', async (_event, folderPath: string, visibility: FolderVisibility, allowedFriends?: string[]) => {
+    if (!['public', 'friends', 'selected'].includes(visibility)) {
+      throw new Error('Invalid visibility');
+    }
+    if (allowedFriends !== undefined && (!Array.isArray(allowedFriends) || allowedFriends.some(f => typeof f !== 'string'))) {
+      throw new Error('Invalid friends list');
+    }
+
+    friendList.setFolderVisibility(folderPath, visibility, allowedFriends);
+
+    // Publish (or stop counting) the folder's files
+    refreshSharedFiles();
+    return SharedFolderOps.getVisibility(folderPath);
+  });
+
+  ipcMain.handle('shares:scan-pause', async () => {
+    fileIndexer.pauseScan();
+  });
+
+  ipcMain.handle('shares:scan-resume', async () => {
+    fileIndexer.resumeScan();
+  });
+
+  ipcMain.handle('shares:scan-cancel', async (_event, folderPath?: string) => {
+    return fileIndexer.cancelScan(folderPath);
+  });
+
+  // Indexer settings
+  ipcMain.handle('indexer:get-hash-workers', async () => {
+    return {
+      configured: store.get('hashWorkers', 0) as number,
+      active: fileIndexer.getHashWorkers()
+    };
+  });
+
+  ipcMain.handle('indexer:set-hash-workers', async (_event, count: number) => {
+    const workers = Math.max(0, Math.min(16, Math.floor(count) || 0));
+    store.set('hashWorkers', workers);
+    fileIndexer.setHashWorkers(workers);
+    return { success: true, active: fileIndexer.getHashWorkers() };
+  });
+
   // Torrent operations
   ipcMain.handle('torrent:add', async (_event, torrentData: Buffer) => {
     if (!torrentManager) {
@@ -362,6 +552,91 @@ function setupIPC(): void {
     return { success: true };
   });
 
+  // Download queue
+  ipcMain.handle('torrent:moveInQueue', async (_event, infoHash: string, move: 'up' | 'down' | 'top' | 'bottom') => {
+    if (!torrentManager) {
+      throw new Error('Torrent manager not initialized');
+    }
+    if (!['up', 'down', 'top', 'bottom'].includes(move)) {
+      throw new Error(`Invalid queue move: ${move}`);
+    }
+    torrentManager.moveInQueue(infoHash, move);
+    return { success: true };
+  });
+
+  ipcMain.handle('torrent:setPriority', async (_event, infoHash: string, priority: number) => {
+    if (!torrentManager) {
+      throw new Error('Torrent manager not initialized');
+    }
+    torrentManager.setPriority(infoHash, priority);
+    return { success: true };
+  });
+
+  ipcMain.handle('torrent:getQueueLimits', async () => {
+    return getQueueLimits();
+  });
+
+  ipcMain.handle('torrent:setQueueLimits', async (_event, limits: Partial<QueueLimits>) => {
+    const clamp = (value: unknown) => Math.max(0, Math.min(100, Math.floor(Number(value)) || 0));
+    if (limits.maxActiveDownloads !== undefined) {
+      store.set('maxActiveDownloads', clamp(limits.maxActiveDownloads));
+    }
+    if (limits.maxActiveSeeds !== undefined) {
+      store.set('maxActiveSeeds', clamp(limits.maxActiveSeeds));
+    }
+    torrentManager?.setQueueLimits(getQueueLimits());
+    return { success: true, ...getQueueLimits() };
+  });
+
+  // Bandwidth limits (bytes/s, 0 = unlimited)
+  ipcMain.handle('torrent:setBandwidthLimits', async (_event, infoHash: string, limits: BandwidthLimits) => {
+    if (!torrentManager) {
+      throw new Error('Torrent manager not initialized');
+    }
+    torrentManager.setBandwidthLimits(infoHash, {
+      uploadLimit: Number(limits.uploadLimit) || 0,
+      downloadLimit: Number(limits.downloadLimit) || 0
+    });
+    return { success: true };
+  });
+
+  ipcMain.handle('bandwidth:get-settings', async () => {
+    return { ...getBandwidthSettings(), scheduleActive: getBandwidthLimiter().getStatus().scheduleActive };
+  });
+
+  ipcMain.handle('bandwidth:set-settings', async (_event, settings: Partial<BandwidthSettings>) => {
+    const rate = (value: unknown) => Math.max(0, Math.floor(Number(value)) || 0);
+    const minutes = (value: unknown) => Math.max(0, Math.min(24 * 60 - 1, Math.floor(Number(value)) || 0));
+
+    if (settings.uploadLimit !== undefined) {
+      store.set('maxUploadBandwidth', rate(settings.uploadLimit));
+    }
+    if (settings.downloadLimit !== undefined) {
+      store.set('maxDownloadBandwidth', rate(settings.downloadLimit));
+    }
+    if (settings.maxUploadSlots !== undefined) {
+      const slots = Math.max(1, Math.min(100, Math.floor(Number(settings.maxUploadSlots)) || 1));
+      store.set('maxUploadSlots', slots);
+      torrentManager?.setUploadSlots(slots);
+    }
+    if (settings.schedule !== undefined) {
+      const { schedule } = settings;
+      store.set('bandwidthSchedule', {
+        enabled: !!schedule.enabled,
+        start: minutes(schedule.start),
+        end: minutes(schedule.end),
+        days: [...new Set((schedule.days || []).map(Number))].filter(day => Number.isInteger(day) && day >= 0 && day <= 6),
+        limits: {
+          uploadLimit: rate(schedule.limits?.uploadLimit),
+          downloadLimit: rate(schedule.limits?.downloadLimit)
+        }
+      });
+    }
+
+    applyBandwidthSettings();
+    return { success: true, ...getBandwidthSettings(), scheduleActive: getBandwidthLimiter().getStatus().scheduleActive };
+  });
+
   ipcMain.handle('torrent:addPeer', async (_event, infoHash: string, destination: string) => {
     if (!torrentManager) return false;
     return torrentManager.addPeer(infoHash, destination);
@@ -472,22 +747,28 @@ function setupIPC(): void {
         connectionStatus = 'connected';
 
         // Set up DHT with our I2P identity
-        dhtSearch.setIdentity(result.destination, result.destination);
+        dhtSearch.setIdentity(trackerClient.getSigningKeys(), result.destination);
+        messaging.setIdentity(trackerClient.getSigningKeys(), result.destination);
 
-        // Set up message handler for DHT
-        dhtSearch.setMessageHandler(async (dest, message) => {
-          await i2pConnection.sendMessage(dest, message);
+        // Requests of the DHT and the tracker client go out over our connection
+        rpc.setMessageHandler(async (dest, message) => {
+          return i2pConnection.sendMessage(dest, message);
         });
 
         // Initialize TorrentManager for BitTorrent transfers
         console.log('[Main] Initializing TorrentManager...');
         try {
           torrentManager = getTorrentManager();
+          torrentManager.setQueueLimits(getQueueLimits());
+          torrentManager.setUploadSlots(getBandwidthSettings().maxUploadSlots);
+          torrentManager.setAnnounceFilter(infoHash => friendList.isPublicTorrent(infoHash));
           await torrentManager.initialize();
 
           // Configure with our destination and DHT
           torrentManager.setLocalDestination(result.destination);
           torrentManager.setDHTEngine(dhtSearch);
+          torrentManager.setPeerFilter(isPeerAllowed);
+          searchSessions.setTorrentManager(torrentManager);
 
           console.log('[Main] TorrentManager initialized');
 
@@ -544,6 +825,7 @@ function setupIPC(): void {
 
   ipcMain.handle('network:disconnect', async () => {
     await i2pConnection.disconnect();
+    rpc.cancelAll();
     connectionStatus = 'disconnected';
     connectionError = '';
     mainWindow?.webContents.send('network:disconnected');
@@ -583,10 +865,6 @@ function setupIPC(): void {
   ipcMain.handle('profile:set-display-name', async (_event, name: string) => {
     const displayName = name.trim() || 'I2P Share User';
     store.set('displayName', displayName);
-    // Update DHT with new display name
-    if (i2pConnection.isReady()) {
-      dhtSearch.setIdentity(i2pConnection.getState().destination, displayName);
-    }
     return { success: true };
   });
 
@@ -596,9 +874,10 @@ function setupIPC(): void {
     const now = Math.floor(Date.now() / 1000);
     const onlineThreshold = 120; // 2 minutes (aligned with tracker's 90s timeout + buffer)
 
-    // Add isOnline status based on lastSeen
+    // Add isOnline status based on lastSeen, and the b32 address conversations are keyed by
     return peers.map(peer => ({
       ...peer,
+      b32Address: destinationKey(peer.peerId),
       isOnline: peer.lastSeen && (now - peer.lastSeen) < onlineThreshold
     }));
   });
@@ -622,6 +901,87 @@ function setupIPC(): void {
     }
   });
 
+  ipcMain.handle('peers:block', async (_event, peerId: string) => {
+    if (!peerId || typeof peerId !== 'string') {
+      return { success: false, error: 'Invalid peer' };
+    }
+    peerBlocklist.block(peerId);
+    torrentManager?.dropPeer(peerId);
+    return { success: true };
+  });
+
+  ipcMain.handle('peers:unblock', async (_event, peerId: string) => {
+    if (!peerId || typeof peerId !== 'string') {
+      return { success: false, error: 'Invalid peer' };
+    }
+    peerBlocklist.unblock(peerId);
+    return { success: true };
+  });
+
+  ipcMain.handle('peers:list-blocked', async () => {
+    return peerBlocklist.list();
+  });
+
+  // ==================== FRIENDS ====================
+  ipcMain.handle('friends:list', async () => {
+    return friendList.list();
+  });
+
+  ipcMain.handle('friends:create-invite', async () => {
+    const destination = i2pConnection.getDestination();
+    if (!destination) {
+      return { success: false, error: 'Connect to I2P to create an invitation' };
+    }
+    const displayName = store.get('displayName', 'I2P Share User') as string;
+    return { success: true, token: friendList.createInvite(destination, trackerClient.getSigningKeys(), displayName) };
+  });
+
+  ipcMain.handle('friends:accept-invite', async (_event, token: string) => {
+    try {
+      const friend = friendList.acceptInvite(token, i2pConnection.getDestination());
+      return { success: true, friend };
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('friends:remove', async (_event, b32Address: string) => {
+    if (!b32Address || typeof b32Address !== 'string') {
+      return { success: false, error: 'Invalid friend' };
+    }
+    friendList.remove(b32Address);
+    return { success: true };
+  });
+
+  // ==================== MESSAGES ====================
+  ipcMain.handle('messages:send', async (_event, peerId: string, body: string) => {
+    try {
+      return { success: true, message: messaging.send(peerId, body) };
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('messages:list', async (_event, peerId: string) => {
+    if (!peerId || typeof peerId !== 'string') return [];
+    return messaging.getConversation(peerId);
+  });
+
+  ipcMain.handle('messages:conversations', async () => {
+    return messaging.getConversations();
+  });
+
+  ipcMain.handle('messages:mark-read', async (_event, peerId: string) => {
+    if (!peerId || typeof peerId !== 'string') return { success: false };
+    messaging.markRead(peerId);
+    return { success: true };
+  });
+
+  ipcMain.handle('messages:retry', async (_event, id: string) => {
+    if (!id || typeof id !== 'string') return { success: false, error: 'Invalid message' };
+    return messaging.retry(id) ? { success: true } : { success: false, error: 'Message is not failed' };
+  });
+
   ipcMain.handle('remote-files:all', async () => {
     // Get all files from all known remote peers from database
     return RemoteFileOps.getAll();
@@ -790,6 +1150,15 @@ function setupIPC(): void {
 function setupTorrentEvents(): void {
   if (!torrentManager) return;
 
+  // Peers reach our seeds at the destination we accept connections on
+  const seedingDestination = torrentManager.getSeedingDestination();
+  if (seedingDestination) {
+    trackerClient.setStreamingDestination(seedingDestination);
+  }
+  torrentManager.on('seeding-destination', (destination) => {
+    trackerClient.setStreamingDestination(destination);
+  });
+
   torrentManager.on('torrent-added', (infoHash, name) => {
     console.log(`[Main] Torrent added: ${name} (${infoHash.substring(0, 16)}...)`);
     mainWindow?.webContents.send('torrent:added', { infoHash, name });
@@ -808,6 +1177,14 @@ function setupTorrentEvents(): void {
     mainWindow?.webContents.send('torrent:stopped', { infoHash });
   });
 
+  torrentManager.on('torrent-queued', (infoHash) => {
+    mainWindow?.webContents.send('download:queued', { infoHash });
+  });
+
+  torrentManager.on('queue-changed', () => {
+    mainWindow?.webContents.send('download:queue-changed');
+  });
+
   torrentManager.on('torrent-complete', (infoHash) => {
     console.log(`[Main] Torrent complete: ${infoHash.substring(0, 16)}...`);
     mainWindow?.webContents.send('torrent:complete', { infoHash });
@@ -845,46 +1222,43 @@ function setupEventForwarding(): void {
     mainWindow?.webContents.send('scan:complete', data);
 
     // Re-announce files when scan completes
-    if (i2pConnection.isReady()) {
-      const files = fileIndexer.getAllFiles();
-      dhtSearch.announceFiles(files);
-
-      // Update TrackerClient stats and re-announce to tracker
-      const totalSize = files.reduce((sum, f) => sum + (f.size || 0), 0);
-      trackerClient.updateStats(files.length, totalSize);
-      trackerClient.announce().catch(err => {
-        console.log('[Main] Re-announce after scan:', err.message);
-      });
-      console.log(`[Main] Updated tracker stats: ${files.length} files, ${totalSize} bytes`);
-
-      // Also update embedded tracker's local peer entry
-      if (embeddedTracker) {
-        embeddedTracker.registerLocalPeer({
-          destination: i2pConnection.getDestination(),
-          b32Address: i2pConnection.getB32Address(),
-          displayName: store.get('displayName', 'I2P Share User') as string,
-          filesCount: files.length,
-          totalSize: totalSize,
-          nodeId: dhtSearch.getNodeId()
-        });
-      }
+    refreshSharedFiles();
+  });
 
-      // Auto-seed files as torrents (in background)
-      if (torrentManager) {
-        autoSeedNewFiles().catch(err => {
-          console.error('[Main] Auto-seed error:', err.message);
-        });
-      }
-    }
+  // Files indexed before the cancel are kept: publish them too
+  fileIndexer.on('scan:cancelled', (data) => {
+    mainWindow?.webContents.send('scan:cancelled', data);
+    refreshSharedFiles();
+  });
+
+  // Files changed on disk: the watcher re-indexed them, publish the new state
+  folderWatcher.on('update', (data) => {
+    mainWindow?.webContents.send('shares:updated', data);
+    refreshSharedFiles();
+  });
+
+  // A changed, renamed or deleted file's torrent no longer matches the disk
+  fileIndexer.on('seed:stale', ({ infoHash, path: filePath }: { infoHash: string; path: string }) => {
+    if (!torrentManager) return;
+    console.log(`[Main] Removing stale torrent for ${filePath}`);
+    torrentManager.removeTorrent(infoHash, false).catch(err => {
+      console.log('[Main] Failed to remove stale torrent:', err.message);
+    });
   });
 
   // Note: Torrent events are set up in setupTorrentEvents() after TorrentManager initialization
 
-  // Forward DHT events
-  dhtSearch.on('search:result', (data) => {
+  // Forward search session events
+  searchSessions.on('result', (data) => {
     mainWindow?.webContents.send('search:result', data);
   });
 
+  searchSessions.on('complete', (data) => {
+    mainWindow?.webContents.send('search:complete', data);
+  });
+
+  // Forward DHT events
+
   dhtSearch.on('peer:announce', (data) => {
     mainWindow?.webContents.send('peer:announce', data);
     // Update peer in database
@@ -896,6 +1270,15 @@ function setupEventForwarding(): void {
     });
   });
 
+  // Forward direct messages
+  messaging.on('message', (message) => {
+    mainWindow?.webContents.send('messages:received', message);
+  });
+
+  messaging.on('message:status', (data) => {
+    mainWindow?.webContents.send('messages:status', data);
+  });
+
   // Forward I2P connection events
   i2pConnection.on('connected', (data) => {
     console.log('[Main] I2P connected:', data.b32Address);
@@ -917,11 +1300,20 @@ function setupEventForwarding(): void {
   });
 
   i2pConnection.on('message', ({ from, message }) => {
-    // Log ALL incoming messages for debugging
-    // Route to DHT handler
-    if (dhtSearch) {
-        dhtSearch.handleMessage(from, message);
+    // Replies to our requests (and retried requests) are handled by the RPC layer
+    if (rpc.handleMessage(from, message)) {
+      return;
     }
+    // Then TrackerClient (pushes from our trackers)
+    if (trackerClient.handleMessage(from, message)) {
+      return;
+    }
+    // Then direct messages between peers
+    if (messaging.handleMessage(from, message)) {
+      return;
+    }
+    // Otherwise it's a DHT message
+    dhtSearch.handleMessage(from, message);
   });
 
   // Forward i2pd manager events
@@ -965,9 +1357,6 @@ async function bootstrapDHTViaTracker(destination: string, displayName: string):
   // Configure TrackerClient
   trackerClient.setIdentity(destination, displayName);
   trackerClient.setNodeId(dhtSearch.getNodeId());
-  trackerClient.setMessageHandler(async (dest, msg) => {
-    return i2pConnection.sendMessage(dest, msg);
-  });
 
   // Listen for DHT nodes from tracker
   trackerClient.on('dht:nodes', async (nodes: { nodeId: string; destination: string }[]) => {
@@ -1067,22 +1456,13 @@ async function bootstrapDHTViaTracker(destination: string, displayName: string):
     });
   });
 
-  // Handle incoming messages for TrackerClient
-  i2pConnection.on('message', ({ from, message }: { from: string; message: any }) => {
-    // Try TrackerClient first
-    if (trackerClient.handleMessage(from, message)) {
-      return; // Handled by TrackerClient
-    }
-    // Otherwise it's a DHT message (already handled by DHT)
-  });
-
   // Connect to configured trackers (user-configured = priority)
   if (allTrackers.length > 0) {
     console.log(`[Main] Bootstrapping DHT via ${allTrackers.length} tracker(s)...`);
     trackerClient.setTrackerAddresses(allTrackers, true); // true = user-configured, has priority
 
     // Update stats with existing files BEFORE connecting to tracker
-    const existingFiles = fileIndexer.getAllFiles();
+    const existingFiles = fileIndexer.getPublicFiles();
     const existingTotalSize = existingFiles.reduce((sum, f) => sum + (f.size || 0), 0);
     trackerClient.updateStats(existingFiles.length, existingTotalSize);
     console.log(`[Main] Updated TrackerClient stats: ${existingFiles.length} files, ${existingTotalSize} bytes`);
@@ -1225,9 +1605,10 @@ async function startI2PAndConnect(): Promise<void> {
 
       // Initialize DHT
       const storedDisplayName = store.get('displayName', 'I2P Share User') as string;
-      dhtSearch.setIdentity(result.destination, storedDisplayName);
-      dhtSearch.setMessageHandler(async (dest, message) => {
-        await i2pConnection.sendMessage(dest, message);
+      dhtSearch.setIdentity(trackerClient.getSigningKeys(), result.destination);
+      messaging.setIdentity(trackerClient.getSigningKeys(), result.destination);
+      rpc.setMessageHandler(async (dest, message) => {
+        return i2pConnection.sendMessage(dest, message);
       });
 
       // Bootstrap DHT via tracker if we have few nodes
@@ -1237,11 +1618,16 @@ async function startI2PAndConnect(): Promise<void> {
       console.log('[Main] Initializing TorrentManager...');
       try {
         torrentManager = getTorrentManager();
+        torrentManager.setQueueLimits(getQueueLimits());
+        torrentManager.setUploadSlots(getBandwidthSettings().maxUploadSlots);
+        torrentManager.setAnnounceFilter(infoHash => friendList.isPublicTorrent(infoHash));
         await torrentManager.initialize();
 
         // Configure multi-tracker with our destination and DHT
         torrentManager.setLocalDestination(result.destination);
         torrentManager.setDHTEngine(dhtSearch);
+        torrentManager.setPeerFilter(isPeerAllowed);
+        searchSessions.setTorrentManager(torrentManager);
 
         console.log('[Main] TorrentManager initialized');
 
@@ -1273,7 +1659,7 @@ async function startI2PAndConnect(): Promise<void> {
           // Register ourselves as a peer in our own tracker
           // This way when other peers connect, they can discover us
           const storedDisplayName = store.get('displayName', 'I2P Share User') as string;
-          const localFiles = fileIndexer.getAllFiles();
+          const localFiles = fileIndexer.getPublicFiles();
           const localTotalSize = localFiles.reduce((sum, f) => sum + (f.size || 0), 0);
           embeddedTracker.registerLocalPeer({
             destination: result.destination,
@@ -1374,7 +1760,7 @@ async function startI2PAndConnect(): Promise<void> {
         const refreshLocalPeer = () => {
           if (!embeddedTracker || !i2pConnection.isReady()) return;
 
-          const files = fileIndexer.getAllFiles();
+          const files = fileIndexer.getPublicFiles();
           const totalSize = files.reduce((sum, f) => sum + (f.size || 0), 0);
           const storedDisplayName = store.get('displayName', 'I2P Share User') as string;
 
@@ -1450,12 +1836,24 @@ app.whenReady().then(async () => {
 
   // Load saved data
   dhtSearch.loadFromDatabase();
+  loadPeerBans();
+  peerBlocklist.load();
+  friendList.load();
+  messaging.start();
   // Note: TorrentManager.initialize() loads torrents from database when I2P connects
 
   // Setup IPC handlers
   setupIPC();
   setupEventForwarding();
 
+  // Hash files in worker threads, watch shared folders for changes
+  fileIndexer.setHashWorkers(store.get('hashWorkers', 0) as number);
+  applyBandwidthSettings();
+  getBandwidthLimiter().on('limits-changed', ({ scheduleActive }) => {
+    mainWindow?.webContents.send('bandwidth:schedule-change', { scheduleActive });
+  });
+  folderWatcher.start();
+
   // Create window
   createWindow();
 
@@ -1480,6 +1878,14 @@ app.on('window-all-closed', () => {
 app.on('before-quit', async () => {
   console.log('[Main] Shutting down...');
 
+  // Stop running searches
+  searchSessions.cancelAll();
+
+  // Stop watching shared folders and hashing
+  folderWatcher.stop();
+  messaging.stop();
+  await fileIndexer.stop();
+
   // Stop tracker discovery
   if (trackerDiscoveryInterval) {
     clearInterval(trackerDiscoveryInterval);
@@ -1493,6 +1899,7 @@ app.on('before-quit', async () => {
   if (torrentManager) {
     await torrentManager.shutdown();
   }
+  closeBandwidthLimiter();
 
   // Shutdown EmbeddedTracker
   if (embeddedTracker) {
@@ -1501,6 +1908,7 @@ app.on('before-quit', async () => {
 
   // Disconnect from I2P (but keep i2pd running)
   await i2pConnection.disconnect();
+  rpc.cancelAll();
 
   // Don't stop i2pd - keep it running so tracker can continue working
   // If you want to stop i2pd, run: i2pdManager.stop() manually
@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { toB32 } from '@diva.exchange/i2p-sam';
+import type { DirectMessage } from '../shared/types.js';
+import {
+  calculateBackoff,
+  createSignedMessage,
+  destinationKey,
+  SigningKeypair,
+  signMessageEd25519,
+  verifySignatureEd25519,
+  verifySignedMessage
+} from '../shared/utils.js';
+import { MessageOps } from './database.js';
+import { friendList } from './friends.js';
+import { peerBlocklist } from './peer-blocklist.js';
+import { peerLimiter } from './peer-limiter.js';
+import { RPCEnvelope, RPCMessage, rpc } from './rpc.js';
+import { trackerClient } from './tracker-client.js';
+
+const MAX_MESSAGE_LENGTH = 4000;
+const MESSAGE_TTL = 7 * 24 * 60 * 60;  // Seconds an undelivered message is retried
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+const QUEUE_INTERVAL = 30 * 1000;
+const KEY_TTL = 60 * 60 * 1000;        // Re-fetch a peer's encryption key after this
+const MESSAGE_TYPES = new Set(['DM', 'DM_KEY', 'DM_ACK']);
+
+// PKCS#8 header of a raw 32-byte X25519 private key
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+interface PeerKeys {
+  signingKey: string;  // Ed25519 (base64 DER)
+  dhKey: string;       // X25519 (base64 DER), signed with signingKey
+  fetchedAt: number;
+}
+
+/**
+ * X25519 keypair derived from our Ed25519 identity, so it never has to be
+ * stored: the public key is published signed with the identity key.
+ */
+function deriveDHKeys(signingKeys: SigningKeypair): { privateKey: crypto.KeyObject; publicKey: string } {
+  const seed = Buffer.from(crypto.hkdfSync(
+    'sha256',
+    Buffer.from(signingKeys.privateKey, 'base64'),
+    Buffer.alloc(0),
+    'i2pshare-dm-x25519',
+    32
+  ));
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const publicKey = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'der' }).toString('base64');
+  return { privateKey, publicKey };
+}
+
+/**
+ * AES-256-GCM key for one message, from the static X25519 shared secret
+ */
+function messageKey(privateKey: crypto.KeyObject, peerDHKey: string, messageId: string): Buffer {
+  const publicKey = crypto.createPublicKey({ key: Buffer.from(peerDHKey, 'base64'), format: 'der', type: 'spki' });
+  const shared = crypto.diffieHellman({ privateKey, publicKey });
+  return Buffer.from(crypto.hkdfSync('sha256', shared, Buffer.from(messageId), 'i2pshare-dm-v1', 32));
+}
+
+/**
+ * End-to-end encrypted messages between peers, over the I2P datagram connection.
+ *
+ * Every message is encrypted with a key agreed between the sender's and the
+ * recipient's X25519 keys and signed with the sender's Ed25519 identity key.
+ * Outgoing messages are stored first and retried with backoff until the
+ * recipient acknowledges them, so peers that are offline get them later.
+ *
+ * A peer's identity key is pinned to its destination on first contact (or
+ * taken from its friend invitation); messages signed with another key are dropped.
+ */
+class MessagingService extends EventEmitter {
+  private signingKeys: SigningKeypair | null = null;
+  private ownAddress = ''; // Our b32, bound into every message we encrypt
+  private dhPrivateKey: crypto.KeyObject | null = null;
+  private dhPublicKey = '';
+  private dhKeySignature = '';
+  private peerKeys: Map<string, PeerKeys> = new Map(); // b32 -> keys
+  private inFlight: Set<string> = new Set();              // Message IDs being delivered
+  private queueTimer: NodeJS.Timeout | null = null;
+  private flushing = false;
+
+  setIdentity(signingKeys: SigningKeypair, destination: string): void {
+    const { privateKey, publicKey } = deriveDHKeys(signingKeys);
+    this.signingKeys = signingKeys;
+    this.ownAddress = toB32(destination);
+    this.dhPrivateKey = privateKey;
+    this.dhPublicKey = publicKey;
+    this.dhKeySignature = signMessageEd25519(`x25519:${publicKey}`, signingKeys.privateKey);
+  }
+
+  /**
+   * Start retrying queued messages (they wait while we are offline)
+   */
+  start(): void {
+    if (this.queueTimer) return;
+    this.queueTimer = setInterval(() => this.flushQueue(), QUEUE_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.queueTimer) {
+      clearInterval(this.queueTimer);
+      this.queueTimer = null;
+    }
+  }
+
+  /**
+   * Queue a message for a peer (b32 address or full destination) and try to deliver it
+   */
+  send(peer: string, body: string): DirectMessage {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) throw new Error('Message is empty');
+    if (text.length > MAX_MESSAGE_LENGTH) throw new Error(`Message is too long (max ${MAX_MESSAGE_LENGTH} characters)`);
+    if (!peer || typeof peer !== 'string') throw new Error('Invalid peer');
+
+    const peerId = destinationKey(peer);
+    if (peerBlocklist.isBlocked(peer)) throw new Error('This peer is blocked');
+
+    const id = uuidv4();
+    MessageOps.add({
+      id,
+      peerId,
+      destination: peer.length > 100 ? peer : null,
+      direction: 'out',
+      body: text,
+      status: 'queued'
+    });
+
+    const message = MessageOps.get(id)!;
+    this.deliver(message);
+    return message;
+  }
+
+  getConversation(peer: string): DirectMessage[] {
+    return MessageOps.getConversation(destinationKey(peer));
+  }
+
+  getConversations() {
+    return MessageOps.getConversations();
+  }
+
+  markRead(peer: string): void {
+    MessageOps.markRead(destinationKey(peer));
+  }
+
+  /**
+   * Queue a failed message again
+   */
+  retry(id: string): boolean {
+    if (MessageOps.requeue(id).changes === 0) return false;
+    const message = MessageOps.get(id);
+    if (message) this.deliver(message);
+    return true;
+  }
+
+  /**
+   * Route an incoming message. Returns true if it was a direct message
+   * (handled or dropped here), false if the caller should handle it.
+   */
+  handleMessage(from: string, signed: any): boolean {
+    const data = signed?.data;
+    if (!data || typeof data !== 'object' || !MESSAGE_TYPES.has(data.type)) return false;
+    if (!this.signingKeys || peerBlocklist.isBlocked(from)) return true;
+
+    if (typeof signed.signingKey !== 'string' || typeof signed.signature !== 'string') return true;
+    const verification = verifySignedMessage(signed);
+    if (!verification.valid) {
+      console.log(`[Messaging] Dropped ${data.type} from ${from.substring(0, 30)}...: ${verification.error}`);
+      if (verification.error === 'Invalid signature') {
+        peerLimiter.penalize(from, 'invalid-signature');
+      }
+      return true;
+    }
+
+    // Replies to our requests are consumed by the RPC layer; this one came too late
+    if (data.payload?.isResponse) return true;
+
+    try {
+      switch (data.type) {
+        case 'DM_KEY':
+          this.handleKeyRequest(from, signed);
+          break;
+        case 'DM':
+          this.handleDirectMessage(from, signed);
+          break;
+      }
+    } catch (error: any) {
+      console.log(`[Messaging] Invalid ${data.type} from ${from.substring(0, 30)}...: ${error.message}`);
+      peerLimiter.penalize(from, 'malformed');
+    }
+    return true;
+  }
+
+  private handleKeyRequest(from: string, signed: any): void {
+    rpc.reply(from, signed as RPCEnvelope, 'DM_KEY', {
+      dhKey: this.dhPublicKey,
+      dhKeySignature: this.dhKeySignature,
+      isResponse: true
+    }, { wrap: this.sign });
+  }
+
+  private handleDirectMessage(from: string, signed: any): void {
+    const { id, iv, ciphertext, tag, dhKey, dhKeySignature } = signed.data.payload;
+    if (typeof id !== 'string' || id.length > 64) throw new Error('Invalid message ID');
+
+    const peerId = toB32(from);
+    const keys = this.acceptKeys(peerId, signed.signingKey, dhKey, dhKeySignature);
+    if (!keys) return;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', messageKey(this.dhPrivateKey!, keys.dhKey, id), Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(`${id}:${peerId}`));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const body = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+
+    if (!body || body.length > MAX_MESSAGE_LENGTH) throw new Error('Invalid message body');
+
+    // A retried message is stored once but acknowledged every time
+    const isNew = MessageOps.add({ id, peerId, destination: from, direction: 'in', body, status: 'received' });
+    if (isNew) {
+      console.log(`[Messaging] Message from ${peerId.substring(0, 16)}...`);
+      this.emit('message', MessageOps.get(id));
+    }
+
+    rpc.reply(from, signed as RPCEnvelope, 'DM_ACK', { id, isResponse: true }, { wrap: this.sign });
+  }
+
+  /**
+   * Check a peer's keys against its pinned identity and cache them.
+   * Returns null if they don't belong to the peer.
+   */
+  private acceptKeys(peerId: string, signingKey: string, dhKey: unknown, dhKeySignature: unknown): PeerKeys | null {
+    if (typeof dhKey !== 'string' || typeof dhKeySignature !== 'string') return null;
+    if (!verifySignatureEd25519(`x25519:${dhKey}`, dhKeySignature, signingKey)) {
+      console.log(`[Messaging] Key of ${peerId.substring(0, 16)}... is not signed by its identity`);
+      return null;
+    }
+
+    const pinned = friendList.list().find(f => f.b32Address === peerId)?.signingKey
+      || this.peerKeys.get(peerId)?.signingKey;
+    if (pinned && pinned !== signingKey) {
+      console.log(`[Messaging] ${peerId.substring(0, 16)}... signed with a different identity key, dropped`);
+      return null;
+    }
+
+    const keys: PeerKeys = { signingKey, dhKey, fetchedAt: Date.now() };
+    this.peerKeys.set(peerId, keys);
+    return keys;
+  }
+
+  private async getPeerKeys(peerId: string, destination: string): Promise<PeerKeys> {
+    const cached = this.peerKeys.get(peerId);
+    if (cached && Date.now() - cached.fetchedAt < KEY_TTL) return cached;
+
+    const { message } = await rpc.request(destination, 'DM_KEY', {}, {
+      wrap: this.sign,
+      match: (reply) => reply?.data?.type === 'DM_KEY' && reply.data.payload?.isResponse === true
+    });
+
+    const verification = verifySignedMessage({
+      data: message.data,
+      nonce: message.nonce,
+      timestamp: message.timestamp,
+      signature: message.signature,
+      signingKey: message.signingKey
+    });
+    if (!verification.valid) {
+      throw new Error('Invalid key reply');
+    }
+    const keys = this.acceptKeys(peerId, message.signingKey, message.data.payload?.dhKey, message.data.payload?.dhKeySignature);
+    if (!keys) {
+      throw new Error('Peer key does not match its identity');
+    }
+    return keys;
+  }
+
+  /**
+   * One delivery attempt; reschedules the message with backoff if it fails
+   */
+  private async deliver(message: DirectMessage): Promise<void> {
+    if (!this.signingKeys || !rpc.isReady() || this.inFlight.has(message.id)) return;
+    this.inFlight.add(message.id);
+
+    try {
+      await this.attemptDelivery(message);
+    } finally {
+      this.inFlight.delete(message.id);
+    }
+  }
+
+  private async attemptDelivery(message: DirectMessage): Promise<void> {
+    const destination = message.destination || this.resolveDestination(message.peerId);
+    if (!destination) {
+      this.reschedule(message, 'no known destination');
+      return;
+    }
+    if (!message.destination) {
+      MessageOps.setDestination(message.id, destination);
+    }
+
+    try {
+      const keys = await this.getPeerKeys(message.peerId, destination);
+
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', messageKey(this.dhPrivateKey!, keys.dhKey, message.id), iv);
+      // Bound to the sender: the recipient checks it against our destination
+      cipher.setAAD(Buffer.from(`${message.id}:${this.ownAddress}`));
+      const ciphertext = Buffer.concat([cipher.update(message.body, 'utf8'), cipher.final()]);
+
+      await rpc.request(destination, 'DM', {
+        id: message.id,
+        iv: iv.toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        dhKey: this.dhPublicKey,
+        dhKeySignature: this.dhKeySignature
+      }, {
+        wrap: this.sign,
+        match: (reply) => reply?.data?.type === 'DM_ACK' && reply.data.payload?.id === message.id
+      });
+
+      MessageOps.markDelivered(message.id);
+      this.emit('message:status', { id: message.id, peerId: message.peerId, status: 'delivered' });
+    } catch (error: any) {
+      this.reschedule(message, error.message);
+    }
+  }
+
+  private reschedule(message: DirectMessage, reason: string): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (now - message.createdAt > MESSAGE_TTL) {
+      MessageOps.markFailed(message.id);
+      console.log(`[Messaging] Giving up on message to ${message.peerId.substring(0, 16)}...: ${reason}`);
+      this.emit('message:status', { id: message.id, peerId: message.peerId, status: 'failed' });
+      return;
+    }
+
+    const delay = calculateBackoff(message.attempts, RETRY_BASE_DELAY, RETRY_MAX_DELAY);
+    MessageOps.reschedule(message.id, now + Math.ceil(delay / 1000));
+    console.log(`[Messaging] Message to ${message.peerId.substring(0, 16)}... queued (${reason})`);
+  }
+
+  private async flushQueue(): Promise<void> {
+    if (this.flushing || !this.signingKeys || !rpc.isReady()) return;
+    this.flushing = true;
+
+    try {
+      // One at a time: a peer that's offline costs a few timeouts each
+      for (const message of MessageOps.getDue()) {
+        await this.deliver(message);
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Full destination of a peer known by its b32 address
+   */
+  private resolveDestination(peerId: string): string | null {
+    const friend = friendList.list().find(f => f.b32Address === peerId);
+    if (friend) return friend.destination;
+
+    const peer = trackerClient.getPeers().find(p => p.destination && destinationKey(p.b32Address || p.destination) === peerId);
+    if (peer) return peer.destination;
+
+    return MessageOps.getLastDestination(peerId);
+  }
+
+  private sign = (message: RPCMessage): object => {
+    return createSignedMessage(message, this.signingKeys!.privateKey, this.signingKeys!.publicKey);
+  };
+}
+
+export const messaging = new MessagingService();
@@ -0,0 +1,77 @@
+import { EventEmitter } from 'events';
+import { destinationKey } from '../shared/utils.js';
+import { PeerOps } from './database.js';
+import { peerLimiter } from './peer-limiter.js';
+
+export interface BlockedPeer {
+  peerId: string;
+  displayName: string | null;
+  blockedUntil: number | null; // Unix seconds, null = until unblocked
+  blockReason: string | null;
+}
+
+/**
+ * Peers blocked by the user. Blocked destinations are dropped by the DHT,
+ * left out of search results and refused as BitTorrent peers.
+ *
+ * Blocks are stored in the peers table with the rate limiter's temporary bans
+ * (blockedUntil NULL for manual blocks, which bans leave alone); isBlocked()
+ * covers both.
+ */
+class PeerBlocklist extends EventEmitter {
+  private blocked: Map<string, string> = new Map(); // b32 -> peerId as stored
+
+  /**
+   * Load manual blocks from the database (call once it is initialized)
+   */
+  load(): void {
+    this.blocked.clear();
+    for (const peer of PeerOps.getBlocked()) {
+      if (peer.blockedUntil === null) {
+        this.blocked.set(destinationKey(peer.peerId), peer.peerId);
+      }
+    }
+
+    if (this.blocked.size > 0) {
+      console.log(`[Blocklist] Loaded ${this.blocked.size} blocked peers`);
+    }
+  }
+
+  block(peerId: string, reason: string = 'manual'): void {
+    PeerOps.block(peerId, reason);
+    this.blocked.set(destinationKey(peerId), peerId);
+    console.log(`[Blocklist] Blocked ${peerId.substring(0, 16)}...`);
+    this.emit('blocked', peerId);
+  }
+
+  /**
+   * Lift a manual block or a temporary ban
+   */
+  unblock(peerId: string): void {
+    this.blocked.delete(destinationKey(peerId));
+    peerLimiter.unban(peerId);
+    PeerOps.unblock(peerId);
+    console.log(`[Blocklist] Unblocked ${peerId.substring(0, 16)}...`);
+    this.emit('unblocked', peerId);
+  }
+
+  /**
+   * Destination (full base64 or b32) blocked by the user or banned by the limiter
+   */
+  isBlocked(destination: string): boolean {
+    if (!destination) return false;
+    if (peerLimiter.isBanned(destination)) return true;
+    return this.blocked.size > 0 && this.blocked.has(destinationKey(destination));
+  }
+
+  list(): BlockedPeer[] {
+    return PeerOps.getBlocked().map((peer: any) => ({
+      peerId: peer.peerId,
+      displayName: peer.displayName || null,
+      blockedUntil: peer.blockedUntil,
+      blockReason: peer.blockReason
+    }));
+  }
+}
+
+export const peerBlocklist = new PeerBlocklist();
@@ -0,0 +1,35 @@
+import { PeerLimiter } from '../shared/peer-limiter.js';
+import { PeerOps } from './database.js';
+
+/**
+ * Inbound limits shared by the I2P connection, the DHT and the tracker client.
+ * Bans are stored in the peers table (isBlocked, blockedUntil) so they
+ * survive restarts; they never replace or lift a manual block.
+ */
+export const peerLimiter = new PeerLimiter({
+  onBan: (peer, until, reason) => {
+    PeerOps.ban(peer, Math.floor(until / 1000), reason);
+  },
+  onUnban: (peer) => {
+    PeerOps.unban(peer);
+  }
+});
+
+/**
+ * Restore temporary bans from the database (call once it is initialized)
+ */
+export function loadPeerBans(): void {
+  PeerOps.unblockExpired();
+
+  let count = 0;
+  for (const peer of PeerOps.getBlocked()) {
+    if (peer.blockedUntil) {
+      peerLimiter.setBan(peer.peerId, peer.blockedUntil * 1000);
+      count++;
+    }
+  }
+
+  if (count > 0) {
+    console.log(`[Limiter] Restored ${count} temporary bans`);
+  }
+}
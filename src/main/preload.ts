@@ -15,16 +15,82 @@ interface CreateTorrentResult {
   infoHash: string;
 }
 
+interface ShareRules {
+  include: string[];
+  exclude: string[];
+  extensions: string[];
+  minSize: number;
+  maxSize: number;
+  includeHidden: boolean;
+  followSymlinks: boolean;
+}
+
+type FolderVisibility = 'public' | 'friends' | 'selected';
+
+interface Friend {
+  b32Address: string;
+  destination: string;
+  signingKey: string;
+  displayName: string;
+  addedAt: number;
+}
+
+interface DirectMessage {
+  id: string;
+  peerId: string;
+  destination: string | null;
+  direction: 'in' | 'out';
+  body: string;
+  status: 'queued' | 'delivered' | 'failed' | 'received' | 'read';
+  attempts: number;
+  nextAttemptAt: number | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+interface QueueLimits {
+  maxActiveDownloads: number;
+  maxActiveSeeds: number;
+}
+
+interface BandwidthLimits {
+  uploadLimit: number;
+  downloadLimit: number;
+}
+
+interface BandwidthSchedule {
+  enabled: boolean;
+  start: number;
+  end: number;
+  days: number[];
+  limits: BandwidthLimits;
+}
+
+interface BandwidthSettings extends BandwidthLimits {
+  maxUploadSlots: number;
+  schedule: BandwidthSchedule;
+  scheduleActive: boolean;
+}
+
 interface ElectronAPI {
   // Search
   search: (query: string, filters: any) => Promise<any[]>;
+  startSearch: (query: string, filters: any) => Promise<{ searchId: string; results: any[] }>;
+  cancelSearch: (searchId: string) => Promise<boolean>;
 
   // Downloads (delegates to torrent system)
-  startDownload: (fileHash: string, peerId: string, filename: string, size: number, peerName: string, streamingDest?: string, infoHash?: string) => Promise<{ infoHash: string; name: string }>;
-  pauseDownload: (downloadId: number) => Promise<void>;
-  resumeDownload: (downloadId: number) => Promise<void>;
-  cancelDownload: (downloadId: number) => Promise<void>;
+  startDownload: (fileHash: string, peerId: string, filename: string, size: number, peerName: string, streamingDest?: string, infoHash?: string, sources?: string[]) => Promise<{ infoHash: string; name: string }>;
+  pauseDownload: (downloadId: string) => Promise<void>;
+  resumeDownload: (downloadId: string) => Promise<void>;
+  cancelDownload: (downloadId: string) => Promise<void>;
   getDownloads: () => Promise<any[]>;
+  moveDownload: (downloadId: string, move: 'up' | 'down' | 'top' | 'bottom') => Promise<{ success: boolean }>;
+  setDownloadPriority: (downloadId: string, priority: number) => Promise<{ success: boolean }>;
+  getQueueLimits: () => Promise<QueueLimits>;
+  setQueueLimits: (limits: Partial<QueueLimits>) => Promise<{ success: boolean } & QueueLimits>;
+  setDownloadBandwidth: (downloadId: string, limits: BandwidthLimits) => Promise<{ success: boolean }>;
+  getBandwidthSettings: () => Promise<BandwidthSettings>;
+  setBandwidthSettings: (settings: Partial<Omit<BandwidthSettings, 'scheduleActive'>>) => Promise<{ success: boolean } & BandwidthSettings>;
   getActiveUploads: () => Promise<any[]>;
 
   // Torrents
@@ -46,6 +112,15 @@ interface ElectronAPI {
   getSharedFolders: () => Promise<any[]>;
   getSharedFiles: () => Promise<any[]>;
   scanFolder: (path: string) => Promise<void>;
+  getShareRules: (path: string) => Promise<ShareRules>;
+  setShareRules: (path: string, rules: Partial<ShareRules>) => Promise<ShareRules>;
+  getFolderVisibility: (path: string) => Promise<{ visibility: FolderVisibility; allowedFriends: string[] }>;
+  setFolderVisibility: (path: string, visibility: FolderVisibility, allowedFriends?: string[]) => Promise<{ visibility: FolderVisibility; allowedFriends: string[] }>;
+  pauseScan: () => Promise<void>;
+  resumeScan: () => Promise<void>;
+  cancelScan: (path?: string) => Promise<boolean>;
+  getHashWorkers: () => Promise<{ configured: number; active: number }>;
+  setHashWorkers: (count: number) => Promise<{ success: boolean; active: number }>;
 
   // Network
   getNetworkStatus: () => Promise<any>;
@@ -56,8 +131,24 @@ interface ElectronAPI {
   getPeers: () => Promise<any[]>;
   getPeerFiles: (peerId: string) => Promise<any[]>;
   requestPeerFiles: (peerId: string) => Promise<{ success: boolean }>;
+  blockPeer: (peerId: string) => Promise<{ success: boolean; error?: string }>;
+  unblockPeer: (peerId: string) => Promise<{ success: boolean; error?: string }>;
+  getBlockedPeers: () => Promise<any[]>;
   getAllRemoteFiles: () => Promise<any[]>;
 
+  // Friends
+  getFriends: () => Promise<Friend[]>;
+  createInvite: () => Promise<{ success: boolean; token?: string; error?: string }>;
+  acceptInvite: (token: string) => Promise<{ success: boolean; friend?: Friend; error?: string }>;
+  removeFriend: (b32Address: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Messages
+  sendMessage: (peerId: string, body: string) => Promise<{ success: boolean; message?: DirectMessage; error?: string }>;
+  getMessages: (peerId: string) => Promise<DirectMessage[]>;
+  getConversations: () => Promise<{ peerId: string; lastMessage: string; lastDirection: 'in' | 'out'; lastAt: number; unread: number }[]>;
+  markMessagesRead: (peerId: string) => Promise<{ success: boolean }>;
+  retryMessage: (id: string) => Promise<{ success: boolean; error?: string }>;
+
   // Tracker
   getTrackerAddresses: () => Promise<string[]>;
   setTrackerAddresses: (addresses: string[]) => Promise<{ success: boolean }>;
@@ -109,18 +200,36 @@ const api: ElectronAPI = {
   // Search
   search: (query: string, filters: any) =>
     ipcRenderer.invoke('search:query', query, filters),
+  startSearch: (query: string, filters: any) =>
+    ipcRenderer.invoke('search:start', query, filters),
+  cancelSearch: (searchId: string) =>
+    ipcRenderer.invoke('search:cancel', searchId),
 
   // Downloads
-  startDownload: (fileHash: string, peerId: string, filename: string, size: number, peerName: string, streamingDest?: string, infoHash?: string) =>
-    ipcRenderer.invoke('download:start', fileHash, peerId, filename, size, peerName, streamingDest, infoHash),
-  pauseDownload: (downloadId: number) =>
+  startDownload: (fileHash: string, peerId: string, filename: string, size: number, peerName: string, streamingDest?: string, infoHash?: string, sources?: string[]) =>
+    ipcRenderer.invoke('download:start', fileHash, peerId, filename, size, peerName, streamingDest, infoHash, sources),
+  pauseDownload: (downloadId: string) =>
     ipcRenderer.invoke('download:pause', downloadId),
-  resumeDownload: (downloadId: number) =>
+  resumeDownload: (downloadId: string) =>
     ipcRenderer.invoke('download:resume', downloadId),
-  cancelDownload: (downloadId: number) =>
+  cancelDownload: (downloadId: string) =>
     ipcRenderer.invoke('download:cancel', downloadId),
   getDownloads: () =>
     ipcRenderer.invoke('download:list'),
+  moveDownload: (downloadId: string, move: 'up' | 'down' | 'top' | 'bottom') =>
+    ipcRenderer.invoke('torrent:moveInQueue', downloadId, move),
+  setDownloadPriority: (downloadId: string, priority: number) =>
+    ipcRenderer.invoke('torrent:setPriority', downloadId, priority),
+  getQueueLimits: () =>
+    ipcRenderer.invoke('torrent:getQueueLimits'),
+  setQueueLimits: (limits: Partial<QueueLimits>) =>
+    ipcRenderer.invoke('torrent:setQueueLimits', limits),
+  setDownloadBandwidth: (downloadId: string, limits: BandwidthLimits) =>
+    ipcRenderer.invoke('torrent:setBandwidthLimits', downloadId, limits),
+  getBandwidthSettings: () =>
+    ipcRenderer.invoke('bandwidth:get-settings'),
+  setBandwidthSettings: (settings: Partial<Omit<BandwidthSettings, 'scheduleActive'>>) =>
+    ipcRenderer.invoke('bandwidth:set-settings', settings),
   getActiveUploads: () =>
     ipcRenderer.invoke('uploads:active'),
 
@@ -159,6 +268,24 @@ const api: ElectronAPI = {
     ipcRenderer.invoke('shares:get-files'),
   scanFolder: (path: string) =>
     ipcRenderer.invoke('shares:scan', path),
+  getShareRules: (path: string) =>
+    ipcRenderer.invoke('shares:get-rules', path),
+  setShareRules: (path: string, rules: Partial<ShareRules>) =>
+    ipcRenderer.invoke('shares:set-rules', path, rules),
+  getFolderVisibility: (path: string) =>
+    ipcRenderer.invoke('shares:get-visibility', path),
+  setFolderVisibility: (path: string, visibility: FolderVisibility, allowedFriends?: string[]) =>
+    ipcRenderer.invoke('shares:set-visibility', path, visibility, allowedFriends),
+  pauseScan: () =>
+    ipcRenderer.invoke('shares:scan-pause'),
+  resumeScan: () =>
+    ipcRenderer.invoke('shares:scan-resume'),
+  cancelScan: (path?: string) =>
+    ipcRenderer.invoke('shares:scan-cancel', path),
+  getHashWorkers: () =>
+    ipcRenderer.invoke('indexer:get-hash-workers'),
+  setHashWorkers: (count: number) =>
+    ipcRenderer.invoke('indexer:set-hash-workers', count),
 
   // Network
   getNetworkStatus: () =>
@@ -175,9 +302,37 @@ const api: ElectronAPI = {
     ipcRenderer.invoke('peers:get-files', peerId),
   requestPeerFiles: (peerId: string) =>
     ipcRenderer.invoke('peers:request-files', peerId),
+  blockPeer: (peerId: string) =>
+    ipcRenderer.invoke('peers:block', peerId),
+  unblockPeer: (peerId: string) =>
+    ipcRenderer.invoke('peers:unblock', peerId),
+  getBlockedPeers: () =>
+    ipcRenderer.invoke('peers:list-blocked'),
   getAllRemoteFiles: () =>
     ipcRenderer.invoke('remote-files:all'),
 
+  // Friends
+  getFriends: () =>
+    ipcRenderer.invoke('friends:list'),
+  createInvite: () =>
+    ipcRenderer.invoke('friends:create-invite'),
+  acceptInvite: (token: string) =>
+    ipcRenderer.invoke('friends:accept-invite', token),
+  removeFriend: (b32Address: string) =>
+    ipcRenderer.invoke('friends:remove', b32Address),
+
+  // Messages
+  sendMessage: (peerId: string, body: string) =>
+    ipcRenderer.invoke('messages:send', peerId, body),
+  getMessages: (peerId: string) =>
+    ipcRenderer.invoke('messages:list', peerId),
+  getConversations: () =>
+    ipcRenderer.invoke('messages:conversations'),
+  markMessagesRead: (peerId: string) =>
+    ipcRenderer.invoke('messages:mark-read', peerId),
+  retryMessage: (id: string) =>
+    ipcRenderer.invoke('messages:retry', id),
+
   // Tracker
   getTrackerAddresses: () =>
     ipcRenderer.invoke('tracker:get-addresses'),
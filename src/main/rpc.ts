@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import { destinationKey } from '../shared/utils.js';
+
+const DEFAULT_TIMEOUT = 15000;  // First request to a destination (I2P round trips take seconds)
+const MIN_TIMEOUT = 5000;
+const MAX_TIMEOUT = 60000;
+const DEFAULT_RETRIES = 2;
+const RECENT_TTL = 2 * 60 * 1000; // Remember requests and completed IDs this long
+const MAX_RECENT = 4096;
+const MAX_RTT_ENTRIES = 2048;
+
+/**
+ * Correlation fields added next to a message (outside any signed data).
+ * Peers without RPC support ignore them.
+ */
+export interface RPCEnvelope {
+  _rpc?: string; // Request ID
+  _re?: string;  // ID of the request this answers
+}
+
+export interface RPCMessage {
+  type: string;
+  payload: any;
+  timestamp: number;
+}
+
+export interface RequestOptions {
+  /** Per-attempt timeout in ms (default: from the destination's RTT) */
+  timeout?: number;
+  /** Attempts after the first one; each waits twice as long */
+  retries?: number;
+  /** Turn the message into what goes on the wire (add node ID, sign...). Called per attempt */
+  wrap?: (message: RPCMessage) => object;
+  /** Recognizes a reply from peers that don't echo the request ID */
+  match?: (message: any) => boolean;
+}
+
+export interface RPCResponse {
+  from: string;
+  message: any;
+  rtt: number;
+}
+
+export interface RTTStats {
+  srtt: number;    // Smoothed round trip time (ms)
+  rttvar: number;  // Round trip time variation (ms)
+  samples: number;
+}
+
+interface PendingRequest {
+  id: string;
+  destination: string;
+  type: string;
+  payload: any;
+  options: RequestOptions;
+  attempt: number;
+  sentAt: number;
+  timer: NodeJS.Timeout | null;
+  resolve: (response: RPCResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface RecentRequest {
+  at: number;
+  reply: object | null; // Sent again when the request is retried
+}
+
+/**
+ * Request/response layer over the I2P datagram connection, shared by the DHT
+ * and the tracker client.
+ *
+ * request() sends a message with a correlation ID and resolves with the reply,
+ * retrying lost datagrams; timeouts adapt to each destination's round trip
+ * time. handleMessage() must see every incoming message first: it consumes
+ * replies to pending requests and duplicate (retried) requests, answering the
+ * latter with the reply already sent.
+ */
+export class RPCClient {
+  private sendMessage: ((dest: string, msg: any) => Promise<boolean>) | null = null;
+  private pending: Map<string, PendingRequest> = new Map();
+  private completed: Map<string, number> = new Map();             // Request ID -> time answered
+  private recentRequests: Map<string, RecentRequest> = new Map(); // `${from}:${id}` -> request we received
+  private rtt: Map<string, RTTStats> = new Map();                 // b32 -> stats
+
+  setMessageHandler(handler: (dest: string, msg: any) => Promise<boolean>): void {
+    this.sendMessage = handler;
+  }
+
+  isReady(): boolean {
+    return !!this.sendMessage;
+  }
+
+  /**
+   * Send a request and wait for its reply. Rejects once every attempt timed out.
+   */
+  request(destination: string, type: string, payload: any, options: RequestOptions = {}): Promise<RPCResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.sendMessage) {
+        reject(new Error('RPC not connected'));
+        return;
+      }
+
+      const request: PendingRequest = {
+        id: crypto.randomBytes(8).toString('hex'),
+        destination,
+        type,
+        payload,
+        options,
+        attempt: 0,
+        sentAt: 0,
+        timer: null,
+        resolve,
+        reject
+      };
+
+      this.pending.set(request.id, request);
+      this.sendAttempt(request);
+    });
+  }
+
+  /**
+   * Send a message that expects no reply
+   */
+  async notify(destination: string, type: string, payload: any, options: Pick<RequestOptions, 'wrap'> = {}): Promise<boolean> {
+    if (!this.sendMessage) return false;
+    return this.sendMessage(destination, this.buildMessage(type, payload, options.wrap));
+  }
+
+  /**
+   * Answer a request. The reply is kept for a while and sent again if the
+   * request is retried.
+   */
+  async reply(to: string, request: RPCEnvelope, type: string, payload: any, options: Pick<RequestOptions, 'wrap'> = {}): Promise<boolean> {
+    if (!this.sendMessage) return false;
+
+    const message: object & RPCEnvelope = this.buildMessage(type, payload, options.wrap);
+    if (request._rpc) {
+      message._re = request._rpc;
+      const recent = this.recentRequests.get(`${to}:${request._rpc}`);
+      if (recent) recent.reply = message;
+    }
+
+    return this.sendMessage(to, message);
+  }
+
+  /**
+   * Route an incoming message. Returns true if it was consumed here (reply to
+   * a pending request, duplicate of a request or reply), false if the caller
+   * should handle it.
+   */
+  handleMessage(from: string, message: any): boolean {
+    if (!message || typeof message !== 'object') return false;
+
+    const replyTo = typeof message._re === 'string' ? message._re : null;
+    if (replyTo) {
+      const request = this.pending.get(replyTo);
+      if (request && this.isSameDestination(request.destination, from)) {
+        this.complete(request, from, message);
+        return true;
+      }
+      // Reply to a retried request that was already answered
+      if (this.completed.has(replyTo)) return true;
+    } else {
+      // Peers without RPC support: the oldest matching request to that destination
+      for (const request of this.pending.values()) {
+        if (request.options.match && this.isSameDestination(request.destination, from) && request.options.match(message)) {
+          this.complete(request, from, message);
+          return true;
+        }
+      }
+    }
+
+    const requestId = typeof message._rpc === 'string' ? message._rpc : null;
+    if (requestId) {
+      const key = `${from}:${requestId}`;
+      const recent = this.recentRequests.get(key);
+      if (recent) {
+        // Retry of a request we already handled
+        if (recent.reply && this.sendMessage) {
+          this.sendMessage(from, recent.reply);
+        }
+        return true;
+      }
+
+      this.recentRequests.set(key, { at: Date.now(), reply: null });
+      this.pruneRecent();
+    }
+
+    return false;
+  }
+
+  /**
+   * Round trip statistics for a destination, null before its first reply
+   */
+  getRtt(destination: string): RTTStats | null {
+    return this.rtt.get(destinationKey(destination)) || null;
+  }
+
+  /**
+   * Per-attempt timeout for a destination: srtt + 4 * rttvar, within bounds
+   */
+  getTimeout(destination: string): number {
+    const stats = this.getRtt(destination);
+    if (!stats) return DEFAULT_TIMEOUT;
+    return Math.min(MAX_TIMEOUT, Math.max(MIN_TIMEOUT, Math.round(stats.srtt + 4 * stats.rttvar)));
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Fail all pending requests (disconnect, shutdown)
+   */
+  cancelAll(): void {
+    for (const request of [...this.pending.values()]) {
+      if (request.timer) clearTimeout(request.timer);
+      this.pending.delete(request.id);
+      request.reject(new Error('Request cancelled'));
+    }
+    this.recentRequests.clear();
+  }
+
+  private buildMessage(type: string, payload: any, wrap?: (message: RPCMessage) => object): object {
+    const message: RPCMessage = { type, payload, timestamp: Date.now() };
+    return wrap ? wrap(message) : message;
+  }
+
+  private sendAttempt(request: PendingRequest): void {
+    const { options } = request;
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    const timeout = (options.timeout ?? this.getTimeout(request.destination)) * 2 ** request.attempt;
+
+    // Wrapped again on every attempt: signed messages need a fresh nonce
+    const message: object & RPCEnvelope = this.buildMessage(request.type, request.payload, options.wrap);
+    message._rpc = request.id;
+
+    request.attempt++;
+    request.sentAt = Date.now();
+    request.timer = setTimeout(() => {
+      request.timer = null;
+      if (request.attempt <= retries) {
+        console.log(`[RPC] ${request.type} to ${destinationKey(request.destination).substring(0, 16)}... timed out, retrying (${request.attempt}/${retries})`);
+        this.sendAttempt(request);
+      } else {
+        this.pending.delete(request.id);
+        request.reject(new Error(`${request.type} timed out`));
+      }
+    }, Math.min(timeout, MAX_TIMEOUT * 2));
+
+    this.sendMessage!(request.destination, message).catch((error: Error) => {
+      console.log(`[RPC] Sending ${request.type} failed: ${error.message}`);
+      return false;
+    }).then((sent) => {
+      if (!sent && this.pending.has(request.id)) {
+        if (request.timer) clearTimeout(request.timer);
+        this.pending.delete(request.id);
+        request.reject(new Error(`${request.type} could not be sent`));
+      }
+    });
+  }
+
+  private complete(request: PendingRequest, from: string, message: any): void {
+    if (request.timer) clearTimeout(request.timer);
+    this.pending.delete(request.id);
+    this.completed.set(request.id, Date.now());
+    this.pruneRecent();
+
+    const rtt = Date.now() - request.sentAt;
+    // Karn's algorithm: a reply after a retry can't tell which attempt it answers
+    if (request.attempt === 1) {
+      this.updateRtt(request.destination, rtt);
+    }
+
+    request.resolve({ from, message, rtt });
+  }
+
+  private updateRtt(destination: string, sample: number): void {
+    const key = destinationKey(destination);
+    const stats = this.rtt.get(key);
+
+    if (!stats) {
+      this.rtt.set(key, { srtt: sample, rttvar: sample / 2, samples: 1 });
+      if (this.rtt.size > MAX_RTT_ENTRIES) {
+        this.rtt.delete(this.rtt.keys().next().value!);
+      }
+      return;
+    }
+
+    stats.rttvar = 0.75 * stats.rttvar + 0.25 * Math.abs(stats.srtt - sample);
+    stats.srtt = 0.875 * stats.srtt + 0.125 * sample;
+    stats.samples++;
+  }
+
+  private pruneRecent(): void {
+    const cutoff = Date.now() - RECENT_TTL;
+
+    for (const [key, recent] of this.recentRequests) {
+      if (recent.at >= cutoff && this.recentRequests.size <= MAX_RECENT) break;
+      this.recentRequests.delete(key);
+    }
+    for (const [id, at] of this.completed) {
+      if (at >= cutoff && this.completed.size <= MAX_RECENT) break;
+      this.completed.delete(id);
+    }
+  }
+
+  private isSameDestination(a: string, b: string): boolean {
+    return a === b || destinationKey(a) === destinationKey(b);
+  }
+}
+
+export const rpc = new RPCClient();
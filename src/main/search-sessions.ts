@@ -0,0 +1,263 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { applySearchFilters } from '../shared/search-query.js';
+import { aggregateSearchResult, rankSearchResults, scoreSearchResult } from '../shared/search-ranking.js';
+import type { SearchFilters, SearchQueryAST, SearchResult } from '../shared/types.js';
+import { validateSearchQuery } from '../shared/utils.js';
+import { FileOps, RemoteFileOps } from './database.js';
+import { dhtSearch } from './dht-search.js';
+import { i2pConnection } from './i2p-connection.js';
+import type { TorrentManager } from './torrent/torrent-manager.js';
+
+const DEFAULT_SEARCH_TIMEOUT = 10000;
+const SCRAPE_DELAY = 1000;        // Batch infoHashes arriving together into one scrape
+const SCRAPE_BATCH_SIZE = 50;     // infoHashes per scrape request
+const SCRAPE_WAIT_TIMEOUT = 5000; // Max wait for a running scrape when the search ends
+
+interface SearchSession {
+  id: string;
+  query: string;
+  ast: SearchQueryAST;
+  results: Map<string, SearchResult>; // fileHash -> aggregated result
+  scrapeQueue: Set<string>;           // infoHashes waiting for a seeder count
+  scraped: Set<string>;
+  scrapeTimer: NodeJS.Timeout | null;
+  scraping: Promise<void> | null;
+  completing: boolean;
+  startedAt: number;
+}
+
+/**
+ * Search sessions for the renderer.
+ *
+ * start() answers immediately with local results and a searchId, then remote
+ * hits are emitted as 'result' ({ searchId, results }) while the DHT lookup runs,
+ * and 'complete' ({ searchId, resultsCount, cancelled }) when it ends.
+ * Results are aggregated per fileHash: a file found on another peer, or a new
+ * seeder count from the trackers, re-emits the updated result.
+ */
+export class SearchSessionManager extends EventEmitter {
+  private sessions: Map<string, SearchSession> = new Map();
+  private torrentManager: TorrentManager | null = null;
+
+  constructor() {
+    super();
+
+    dhtSearch.on('search:result', ({ searchId, result }: { searchId: string; result: SearchResult }) => {
+      this.handleRemoteResult(searchId, result);
+    });
+
+    dhtSearch.on('search:complete', ({ searchId, cancelled }: { searchId: string; cancelled?: boolean }) => {
+      this.completeSession(searchId, !!cancelled);
+    });
+  }
+
+  /**
+   * Set the torrent manager used to scrape seeder counts
+   */
+  setTorrentManager(torrentManager: TorrentManager): void {
+    this.torrentManager = torrentManager;
+  }
+
+  /**
+   * Start a search session. Throws if the query is invalid.
+   */
+  start(query: string, filters: SearchFilters = {}, timeout = DEFAULT_SEARCH_TIMEOUT): { searchId: string; results: SearchResult[] } {
+    const validation = validateSearchQuery(query);
+    if (!validation.valid || !validation.ast) {
+      throw new Error(validation.error || 'Invalid search query');
+    }
+
+    const searchQuery = applySearchFilters(validation.ast, filters);
+    const session: SearchSession = {
+      id: uuidv4(),
+      query: validation.sanitized,
+      ast: searchQuery,
+      results: new Map(),
+      scrapeQueue: new Set(),
+      scraped: new Set(),
+      scrapeTimer: null,
+      scraping: null,
+      completing: false,
+      startedAt: Date.now()
+    };
+    this.sessions.set(session.id, session);
+
+    // Local files first (FTS5; rows include infoHash for torrent-based downloads)
+    const localFiles: SearchResult[] = FileOps.search(searchQuery).map((f: any) => ({
+      filename: f.filename,
+      fileHash: f.hash,
+      infoHash: f.infoHash || null, // Include torrent infoHash if available
+      size: f.size,
+      mimeType: f.mimeType,
+      peerId: 'local',
+      peerDisplayName: 'Me (Local)',
+      addedAt: f.sharedAt
+    }));
+
+    for (const file of localFiles) {
+      const result = aggregateSearchResult(session.results, file, session.ast);
+      if (result) this.queueScrape(session, result);
+    }
+    const localResults = rankSearchResults([...session.results.values()]);
+
+    // DHT search for remote peers (only if connected to I2P)
+    if (i2pConnection.isReady()) {
+      dhtSearch.startSearch(session.query, filters, { timeout, searchId: session.id });
+    } else {
+      console.log('[Search] Skipping DHT search - not connected to I2P');
+      setImmediate(() => this.completeSession(session.id, false));
+    }
+
+    console.log(`[Search] Session ${session.id.substring(0, 8)} started: "${session.query}" (${localResults.length} local)`);
+    return { searchId: session.id, results: localResults };
+  }
+
+  /**
+   * Start a session and wait for it to finish (legacy one-shot search)
+   */
+  async run(query: string, filters: SearchFilters = {}, timeout = DEFAULT_SEARCH_TIMEOUT): Promise<SearchResult[]> {
+    const { searchId, results } = this.start(query, filters, timeout);
+    const collected = new Map(results.map(r => [r.fileHash, r]));
+
+    return new Promise((resolve) => {
+      const onResult = (data: { searchId: string; results: SearchResult[] }) => {
+        if (data.searchId !== searchId) return;
+        for (const result of data.results) collected.set(result.fileHash, result);
+      };
+      const onComplete = (data: { searchId: string }) => {
+        if (data.searchId !== searchId) return;
+        this.off('result', onResult);
+        this.off('complete', onComplete);
+        resolve(rankSearchResults([...collected.values()]));
+      };
+      this.on('result', onResult);
+      this.on('complete', onComplete);
+    });
+  }
+
+  /**
+   * Cancel a running session. Returns false if it already finished.
+   */
+  cancel(searchId: string): boolean {
+    if (!this.sessions.has(searchId)) return false;
+    if (!dhtSearch.cancelSearch(searchId)) {
+      this.completeSession(searchId, true);
+    }
+    return true;
+  }
+
+  /**
+   * Cancel all running sessions
+   */
+  cancelAll(): void {
+    for (const searchId of [...this.sessions.keys()]) {
+      this.cancel(searchId);
+    }
+  }
+
+  private handleRemoteResult(searchId: string, result: SearchResult): void {
+    const session = this.sessions.get(searchId);
+    if (!session || session.completing) return;
+
+    const aggregate = aggregateSearchResult(session.results, result, session.ast);
+    if (!aggregate) return;
+
+    // Save remote results to database for later retrieval
+    if (result.peerId && result.peerId !== 'local') {
+      RemoteFileOps.upsert({
+        peerId: result.peerId,
+        filename: result.filename,
+        hash: result.fileHash,
+        size: result.size,
+        mimeType: result.mimeType
+      });
+    }
+
+    this.queueScrape(session, aggregate);
+    this.emit('result', { searchId, results: [aggregate] });
+  }
+
+  /**
+   * Queue a result's infoHash for a tracker scrape (seeder count)
+   */
+  private queueScrape(session: SearchSession, result: SearchResult): void {
+    if (!this.torrentManager || !result.infoHash || session.scraped.has(result.infoHash)) return;
+
+    session.scraped.add(result.infoHash);
+    session.scrapeQueue.add(result.infoHash);
+    if (!session.scrapeTimer) {
+      session.scrapeTimer = setTimeout(() => {
+        session.scrapeTimer = null;
+        this.runScrape(session);
+      }, SCRAPE_DELAY);
+    }
+  }
+
+  /**
+   * Scrape queued infoHashes one batch at a time, re-emitting updated results
+   */
+  private runScrape(session: SearchSession): Promise<void> {
+    if (session.scraping || !this.torrentManager || session.scrapeQueue.size === 0) {
+      return session.scraping || Promise.resolve();
+    }
+
+    const batch = [...session.scrapeQueue].slice(0, SCRAPE_BATCH_SIZE);
+    batch.forEach(infoHash => session.scrapeQueue.delete(infoHash));
+
+    session.scraping = this.torrentManager.scrape(batch)
+      .then((scrapes) => {
+        const updated: SearchResult[] = [];
+        for (const result of session.results.values()) {
+          const scrape = result.infoHash ? scrapes.get(result.infoHash) : undefined;
+          if (!scrape?.success) continue;
+
+          result.seeders = scrape.complete;
+          result.leechers = scrape.incomplete;
+          result.score = scoreSearchResult(result);
+          updated.push(result);
+        }
+
+        if (updated.length > 0 && this.sessions.has(session.id)) {
+          this.emit('result', { searchId: session.id, results: updated });
+        }
+      })
+      .catch((err: any) => {
+        console.log(`[Search] Scrape failed: ${err.message}`);
+      })
+      .finally(() => {
+        session.scraping = null;
+        if (session.scrapeQueue.size > 0) this.runScrape(session);
+      });
+
+    return session.scraping;
+  }
+
+  private async completeSession(searchId: string, cancelled: boolean): Promise<void> {
+    const session = this.sessions.get(searchId);
+    if (!session || session.completing) return;
+    session.completing = true;
+
+    if (session.scrapeTimer) {
+      clearTimeout(session.scrapeTimer);
+      session.scrapeTimer = null;
+    }
+
+    // Let seeder counts for the last results come in before closing the session
+    if (!cancelled && (session.scraping || session.scrapeQueue.size > 0)) {
+      await Promise.race([
+        this.runScrape(session),
+        new Promise(resolve => setTimeout(resolve, SCRAPE_WAIT_TIMEOUT))
+      ]);
+    }
+
+    this.sessions.delete(searchId);
+    const resultsCount = session.results.size;
+    const elapsed = Date.now() - session.startedAt;
+    console.log(`[Search] Session ${searchId.substring(0, 8)} ${cancelled ? 'cancelled' : 'complete'}: ${resultsCount} results in ${elapsed}ms`);
+
+    this.emit('complete', { searchId, resultsCount, cancelled });
+  }
+}
+
+export const searchSessions = new SearchSessionManager();
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { BandwidthLimiter, BandwidthSchedule, BandwidthStatus, isScheduleActive } from './bandwidth-limiter.js';
+
+const MIN_BURST = 16 * 1024;
+
+/**
+ * Local time in the week of Sunday 4 January 2026 (day 0 = Sunday)
+ */
+function at(day: number, hours: number, minutes: number = 0): Date {
+  return new Date(2026, 0, 4 + day, hours, minutes);
+}
+
+function schedule(start: number, end: number, days: number[]): BandwidthSchedule {
+  return { enabled: true, start: start * 60, end: end * 60, days, limits: { uploadLimit: 1000, downloadLimit: 0 } };
+}
+
+describe('BandwidthLimiter', () => {
+  let limiter: BandwidthLimiter;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval'], now: at(1, 8, 59).getTime() });
+    limiter = new BandwidthLimiter();
+  });
+
+  afterEach(() => {
+    limiter.close();
+    mock.timers.reset();
+  });
+
+  it('never waits without limits', () => {
+    assert.equal(limiter.request('upload', 10 * 1024 * 1024), 0);
+    assert.equal(limiter.request('download', 10 * 1024 * 1024, 'torrent'), 0);
+  });
+
+  it('waits until the debt of a burst is paid back', () => {
+    limiter.setGlobalLimits({ uploadLimit: 100000, downloadLimit: 0 });
+
+    // A newly limited bucket holds one second of traffic
+    assert.equal(limiter.request('upload', 100000), 0);
+    assert.equal(limiter.request('upload', 50000), 500);
+    assert.equal(limiter.request('download', 50000), 0);
+
+    mock.timers.tick(1500);
+    assert.equal(limiter.request('upload', 100000), 0);
+  });
+
+  it('keeps no more than one second of tokens while idle', () => {
+    limiter.setGlobalLimits({ uploadLimit: 100000, downloadLimit: 0 });
+    mock.timers.tick(10000);
+    assert.equal(limiter.request('upload', 150000), 500);
+  });
+
+  it('lets a slow bucket send at least one block at once', () => {
+    limiter.setGlobalLimits({ uploadLimit: 1000, downloadLimit: 0 });
+    assert.equal(limiter.request('upload', MIN_BURST), 0);
+    assert.equal(limiter.request('upload', 1000), 1000);
+  });
+
+  it('applies the longer of the global and torrent waits', () => {
+    limiter.setGlobalLimits({ uploadLimit: 100000, downloadLimit: 0 });
+    limiter.setTorrentLimits('torrent', { uploadLimit: 10000, downloadLimit: 0 });
+
+    assert.equal(limiter.request('upload', 20000, 'torrent'), Math.ceil((20000 - MIN_BURST) / 10000 * 1000));
+    assert.equal(limiter.request('upload', 20000, 'other'), 0);
+
+    limiter.setTorrentLimits('torrent', { uploadLimit: 0, downloadLimit: 0 });
+    assert.deepEqual(limiter.getTorrentLimits('torrent'), { uploadLimit: 0, downloadLimit: 0 });
+  });
+
+  it('switches to the scheduled limits when the period starts', () => {
+    const changes: BandwidthStatus[] = [];
+    limiter.on('limits-changed', status => changes.push(status));
+    limiter.setSchedule(schedule(9, 17, [1, 2, 3, 4, 5]));
+    assert.equal(limiter.getStatus().scheduleActive, false);
+
+    mock.timers.tick(60000);
+    assert.deepEqual(changes, [{ limits: { uploadLimit: 1000, downloadLimit: 0 }, scheduleActive: true }]);
+    assert.equal(limiter.request('upload', MIN_BURST), 0);
+    assert.equal(limiter.request('upload', 1000), 1000);
+  });
+});
+
+describe('isScheduleActive', () => {
+  it('covers the period on its days only', () => {
+    const workHours = schedule(9, 17, [1, 2, 3, 4, 5]);
+    assert.ok(isScheduleActive(workHours, at(1, 9)));
+    assert.ok(isScheduleActive(workHours, at(5, 16, 59)));
+    assert.ok(!isScheduleActive(workHours, at(1, 8, 59)));
+    assert.ok(!isScheduleActive(workHours, at(1, 17)));
+    assert.ok(!isScheduleActive(workHours, at(6, 12)));
+  });
+
+  it('gives the hours after midnight to the day the period started', () => {
+    const fridayNight = schedule(22, 6, [5]);
+    assert.ok(isScheduleActive(fridayNight, at(5, 22)));
+    assert.ok(isScheduleActive(fridayNight, at(6, 3)));
+    assert.ok(!isScheduleActive(fridayNight, at(5, 3)));
+    assert.ok(!isScheduleActive(fridayNight, at(6, 6)));
+    assert.ok(!isScheduleActive(fridayNight, at(6, 22)));
+
+    // Saturday night ends on Sunday morning
+    assert.ok(isScheduleActive(schedule(22, 6, [6]), at(0, 2)));
+  });
+
+  it('is never active when disabled', () => {
+    assert.ok(!isScheduleActive({ ...schedule(0, 24, [0, 1, 2, 3, 4, 5, 6]), enabled: false }, at(3, 12)));
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Bandwidth Limiter
+ *
+ * Token buckets for upload and download, shared by every I2P socket: one
+ * global pair, plus a pair per torrent that has its own limits. A schedule
+ * can switch the global limits to other values during part of the day
+ * (e.g. limited during work hours, full speed at night).
+ */
+
+import { EventEmitter } from 'events';
+
+export type BandwidthDirection = 'upload' | 'download';
+
+/**
+ * Rate limits in bytes per second (0 = unlimited)
+ */
+export interface BandwidthLimits {
+  uploadLimit: number;
+  downloadLimit: number;
+}
+
+/**
+ * Time of day during which the scheduled limits replace the global ones
+ */
+export interface BandwidthSchedule {
+  enabled: boolean;
+  /** Start of the period, in minutes after midnight */
+  start: number;
+  /** End of the period, in minutes after midnight (before start = overnight) */
+  end: number;
+  /** Days of the week the period starts on (0 = Sunday) */
+  days: number[];
+  /** Limits during the period */
+  limits: BandwidthLimits;
+}
+
+/**
+ * Limiter state
+ */
+export interface BandwidthStatus {
+  /** Limits in effect right now */
+  limits: BandwidthLimits;
+  /** Whether the scheduled limits are the ones in effect */
+  scheduleActive: boolean;
+}
+
+const UNLIMITED: BandwidthLimits = { uploadLimit: 0, downloadLimit: 0 };
+
+const DEFAULT_SCHEDULE: BandwidthSchedule = {
+  enabled: false,
+  start: 9 * 60,
+  end: 17 * 60,
+  days: [1, 2, 3, 4, 5],
+  limits: UNLIMITED
+};
+
+const MIN_BURST = 16 * 1024;       // One BitTorrent block
+const SCHEDULE_INTERVAL = 60000;   // How often the schedule is checked
+
+/**
+ * Token bucket holding up to one second of traffic. Taking more than is
+ * left puts the bucket in debt; the caller waits until it is paid back.
+ */
+class TokenBucket {
+  private rate: number = 0;
+  private tokens: number = 0;
+  private updatedAt: number = Date.now();
+
+  get limit(): number {
+    return this.rate;
+  }
+
+  setRate(rate: number): void {
+    this.refill();
+    const wasUnlimited = this.rate === 0;
+    this.rate = Math.max(0, rate);
+    // A newly limited bucket starts full
+    this.tokens = wasUnlimited ? this.capacity : Math.min(this.tokens, this.capacity);
+  }
+
+  /**
+   * Take tokens for a number of bytes
+   * @returns ms to wait before sending (or reading more)
+   */
+  take(bytes: number): number {
+    if (this.rate === 0) return 0;
+
+    this.refill();
+    this.tokens -= bytes;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.rate * 1000);
+  }
+
+  private get capacity(): number {
+    return Math.max(this.rate, MIN_BURST);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.rate);
+    this.updatedAt = now;
+  }
+}
+
+interface BucketPair {
+  upload: TokenBucket;
+  download: TokenBucket;
+}
+
+function createBuckets(limits: BandwidthLimits): BucketPair {
+  const buckets = { upload: new TokenBucket(), download: new TokenBucket() };
+  buckets.upload.setRate(limits.uploadLimit);
+  buckets.download.setRate(limits.downloadLimit);
+  return buckets;
+}
+
+/**
+ * Whether a time falls in the scheduled period
+ */
+export function isScheduleActive(schedule: BandwidthSchedule, date: Date = new Date()): boolean {
+  if (!schedule.enabled) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+
+  if (schedule.start <= schedule.end) {
+    return schedule.days.includes(day) && minutes >= schedule.start && minutes < schedule.end;
+  }
+
+  // Overnight: the part after midnight belongs to the previous day's period
+  if (minutes >= schedule.start) return schedule.days.includes(day);
+  return minutes < schedule.end && schedule.days.includes((day + 6) % 7);
+}
+
+/**
+ * BandwidthLimiter - global and per-torrent rate limits
+ */
+export class BandwidthLimiter extends EventEmitter {
+  private globalLimits: BandwidthLimits = { ...UNLIMITED };
+  private schedule: BandwidthSchedule = { ...DEFAULT_SCHEDULE };
+  private scheduleActive: boolean = false;
+  private global: BucketPair = createBuckets(UNLIMITED);
+  private torrents: Map<string, BucketPair> = new Map();
+  private scheduleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Take tokens for traffic on a connection. Global and torrent limits
+   * both apply; the longer wait wins.
+   * @returns ms to wait before moving more data
+   */
+  request(direction: BandwidthDirection, bytes: number, infoHash?: string): number {
+    const globalWait = this.global[direction].take(bytes);
+    const torrent = infoHash ? this.torrents.get(infoHash) : undefined;
+    return Math.max(globalWait, torrent ? torrent[direction].take(bytes) : 0);
+  }
+
+  setGlobalLimits(limits: BandwidthLimits): void {
+    this.globalLimits = { ...limits };
+    this.applyLimits();
+  }
+
+  getGlobalLimits(): BandwidthLimits {
+    return { ...this.globalLimits };
+  }
+
+  /**
+   * Set a torrent's own limits (both 0 removes them)
+   */
+  setTorrentLimits(infoHash: string, limits: BandwidthLimits): void {
+    if (limits.uploadLimit <= 0 && limits.downloadLimit <= 0) {
+      this.torrents.delete(infoHash);
+      return;
+    }
+
+    const buckets = this.torrents.get(infoHash);
+    if (buckets) {
+      buckets.upload.setRate(limits.uploadLimit);
+      buckets.download.setRate(limits.downloadLimit);
+    } else {
+      this.torrents.set(infoHash, createBuckets(limits));
+    }
+  }
+
+  getTorrentLimits(infoHash: string): BandwidthLimits {
+    const buckets = this.torrents.get(infoHash);
+    if (!buckets) return { ...UNLIMITED };
+    return { uploadLimit: buckets.upload.limit, downloadLimit: buckets.download.limit };
+  }
+
+  removeTorrent(infoHash: string): void {
+    this.torrents.delete(infoHash);
+  }
+
+  /**
+   * Set the time-of-day schedule and start checking it
+   */
+  setSchedule(schedule: BandwidthSchedule): void {
+    this.schedule = { ...schedule, days: [...schedule.days], limits: { ...schedule.limits } };
+    this.applyLimits();
+
+    if (this.schedule.enabled && !this.scheduleTimer) {
+      this.scheduleTimer = setInterval(() => this.applyLimits(), SCHEDULE_INTERVAL);
+    } else if (!this.schedule.enabled && this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  getSchedule(): BandwidthSchedule {
+    return { ...this.schedule, days: [...this.schedule.days], limits: { ...this.schedule.limits } };
+  }
+
+  getStatus(): BandwidthStatus {
+    return {
+      limits: this.scheduleActive ? { ...this.schedule.limits } : { ...this.globalLimits },
+      scheduleActive: this.scheduleActive
+    };
+  }
+
+  /**
+   * Stop the schedule timer
+   */
+  close(): void {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  /**
+   * Set the global buckets to the global or scheduled limits
+   */
+  private applyLimits(): void {
+    const wasActive = this.scheduleActive;
+    this.scheduleActive = isScheduleActive(this.schedule);
+
+    const limits = this.scheduleActive ? this.schedule.limits : this.globalLimits;
+    this.global.upload.setRate(limits.uploadLimit);
+    this.global.download.setRate(limits.downloadLimit);
+
+    if (wasActive !== this.scheduleActive) {
+      console.log(`[Bandwidth] ${this.scheduleActive ? 'Scheduled' : 'Normal'} limits in effect`);
+      this.emit('limits-changed', this.getStatus());
+    }
+  }
+}
+
+/**
+ * Global limiter instance
+ */
+let globalLimiter: BandwidthLimiter | null = null;
+
+/**
+ * Get or create the global limiter
+ */
+export function getBandwidthLimiter(): BandwidthLimiter {
+  if (!globalLimiter) {
+    globalLimiter = new BandwidthLimiter();
+  }
+  return globalLimiter;
+}
+
+/**
+ * Close the global limiter
+ */
+export function closeBandwidthLimiter(): void {
+  if (globalLimiter) {
+    globalLimiter.close();
+    globalLimiter = null;
+  }
+}
@@ -5,7 +5,9 @@
  * Handles announce and scrape requests.
  */
 
-import { createStream, I2pSamStream, toB32 } from '@diva.exchange/i2p-sam';
+import { Socket } from 'net';
+import { toB32 } from '@diva.exchange/i2p-sam';
+import { getSAMSessionManager } from './sam-session-manager.js';
 import bencode from 'bencode';
 import { EventEmitter } from 'events';
 import {
@@ -196,26 +198,22 @@ export class BTTrackerClient extends EventEmitter {
     request: AnnounceRequest
   ): Promise<AnnounceResponse | null> {
     return new Promise(async (resolve, reject) => {
-      let stream: I2pSamStream | null = null;
+      let stream: Socket | null = null;
       let timeout: NodeJS.Timeout | null = null;
 
       try {
-        // Create streaming connection
-        stream = await createStream({
-          sam: {
-            host: this.config.samHost,
-            portTCP: this.config.samPortTCP,
-            timeout: this.config.timeout
-          },
-          stream: {
-            destination: trackerDest
-          }
-        });
+        // Open a stream over the shared SAM session
+        const opened = await getSAMSessionManager({
+          samHost: this.config.samHost,
+          samPortTCP: this.config.samPortTCP,
+          timeout: this.config.timeout
+        }).connect(trackerDest);
+        stream = opened.socket;
 
         // Set request timeout
         timeout = setTimeout(() => {
           if (stream) {
-            stream.close();
+            stream.destroy();
           }
           reject(new Error('Request timeout'));
         }, this.config.requestTimeout);
@@ -242,7 +240,7 @@ export class BTTrackerClient extends EventEmitter {
           `\r\n`;
 
         // Collect response
-        let responseBuffer = Buffer.alloc(0);
+        let responseBuffer = opened.head;
 
         stream.on('data', (data: Buffer) => {
           responseBuffer = Buffer.concat([responseBuffer, data]);
@@ -265,12 +263,13 @@ export class BTTrackerClient extends EventEmitter {
         });
 
         // Send request
-        stream.stream(Buffer.from(httpRequest, 'utf8'));
+        stream.write(httpRequest);
+        stream.resume();
 
       } catch (error) {
         if (timeout) clearTimeout(timeout);
         if (stream) {
-          try { stream.close(); } catch {}
+          stream.destroy();
         }
         reject(error);
       }
@@ -374,23 +373,19 @@ export class BTTrackerClient extends EventEmitter {
     infoHashes: string[]
   ): Promise<Map<string, ScrapeInfo> | null> {
     return new Promise(async (resolve, reject) => {
-      let stream: I2pSamStream | null = null;
+      let stream: Socket | null = null;
       let timeout: NodeJS.Timeout | null = null;
 
       try {
-        stream = await createStream({
-          sam: {
-            host: this.config.samHost,
-            portTCP: this.config.samPortTCP,
-            timeout: this.config.timeout
-          },
-          stream: {
-            destination: trackerDest
-          }
-        });
+        const opened = await getSAMSessionManager({
+          samHost: this.config.samHost,
+          samPortTCP: this.config.samPortTCP,
+          timeout: this.config.timeout
+        }).connect(trackerDest);
+        stream = opened.socket;
 
         timeout = setTimeout(() => {
-          if (stream) stream.close();
+          if (stream) stream.destroy();
           reject(new Error('Request timeout'));
         }, this.config.requestTimeout);
 
@@ -405,7 +400,7 @@ export class BTTrackerClient extends EventEmitter {
           `Connection: close\r\n` +
           `\r\n`;
 
-        let responseBuffer = Buffer.alloc(0);
+        let responseBuffer = opened.head;
 
         stream.on('data', (data: Buffer) => {
           responseBuffer = Buffer.concat([responseBuffer, data]);
@@ -427,12 +422,13 @@ export class BTTrackerClient extends EventEmitter {
           }
         });
 
-        stream.stream(Buffer.from(httpRequest, 'utf8'));
+        stream.write(httpRequest);
+        stream.resume();
 
       } catch (error) {
         if (timeout) clearTimeout(timeout);
         if (stream) {
-          try { stream.close(); } catch {}
+          stream.destroy();
         }
         reject(error);
       }
@@ -0,0 +1,189 @@
+/**
+ * Fake SAM Bridge (tests only)
+ *
+ * Speaks just enough SAM 3.1 on a local port for the stream code: HELLO,
+ * DEST GENERATE, SESSION CREATE, NAMING LOOKUP NAME=ME, STREAM CONNECT and
+ * STREAM FORWARD. Streams opened with STREAM CONNECT are handed to the test
+ * as the far end's socket; forwarded streams are opened with forwardFrom().
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+
+const MAX_LINE_LENGTH = 4096;
+
+/**
+ * Random destination in I2P's base64 alphabet (same length as a real one)
+ */
+export function randomDestination(): string {
+  return crypto.randomBytes(387).toString('base64').replace(/\+/g, '-').replace(/\//g, '~');
+}
+
+/**
+ * Local server streams are forwarded to (STREAM FORWARD)
+ */
+export interface FakeSamForward {
+  sessionId: string;
+  host: string;
+  port: number;
+}
+
+function parseCommand(line: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of line.split(' ')) {
+    const index = part.indexOf('=');
+    if (index > 0) values[part.substring(0, index)] = part.substring(index + 1);
+  }
+  return values;
+}
+
+export class FakeSamBridge {
+  private server: net.Server | null = null;
+  private sockets: Set<net.Socket> = new Set();
+  private keys: Map<string, string> = new Map(); // private key -> destination (DEST GENERATE)
+  private sessions: Map<string, string> = new Map(); // session ID -> destination
+
+  /** Every command received, in order */
+  commands: string[] = [];
+  forwards: FakeSamForward[] = [];
+  /** Destinations STREAM CONNECT fails for */
+  unreachable: Set<string> = new Set();
+  /** Called with the far end of each stream opened with STREAM CONNECT */
+  onConnect: ((destination: string, socket: net.Socket, head: Buffer) => void) | null = null;
+
+  get port(): number {
+    return (this.server?.address() as net.AddressInfo | null)?.port || 0;
+  }
+
+  async start(): Promise<number> {
+    this.server = net.createServer((socket) => this.handleSocket(socket));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(0, '127.0.0.1', () => resolve());
+    });
+    return this.port;
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * A peer opening a stream to a forwarded session: connect to the local
+   * server and send the destination line, then the peer's data
+   */
+  forwardFrom(destination: string, data?: Buffer, forward: FakeSamForward | undefined = this.forwards[0]): Promise<net.Socket> {
+    if (!forward) return Promise.reject(new Error('No forward'));
+
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: forward.host, port: forward.port }, () => {
+        socket.removeListener('error', reject);
+        socket.write(`${destination} FROM_PORT=0 TO_PORT=0\n`);
+        if (data) socket.write(data);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+      this.track(socket);
+    });
+  }
+
+  private track(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('error', () => {});
+    socket.once('close', () => this.sockets.delete(socket));
+  }
+
+  private handleSocket(socket: net.Socket): void {
+    this.track(socket);
+    let buffer = Buffer.alloc(0);
+
+    const onData = (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+
+      let newline: number;
+      while ((newline = buffer.indexOf(0x0a)) !== -1) {
+        const line = buffer.subarray(0, newline).toString('utf8').trim();
+        buffer = buffer.subarray(newline + 1);
+
+        if (this.handleCommand(socket, line, buffer)) {
+          // The connection now carries a stream
+          socket.removeListener('data', onData);
+          return;
+        }
+      }
+
+      if (buffer.length > MAX_LINE_LENGTH) socket.destroy();
+    };
+
+    socket.on('data', onData);
+  }
+
+  /**
+   * Answer one command. Returns true once the connection became a stream.
+   */
+  private handleCommand(socket: net.Socket, line: string, rest: Buffer): boolean {
+    this.commands.push(line);
+    const [command, action] = line.split(' ');
+    const args = parseCommand(line);
+
+    switch (`${command} ${action}`) {
+      case 'HELLO VERSION':
+        socket.write('HELLO REPLY RESULT=OK VERSION=3.1\n');
+        return false;
+
+      case 'DEST GENERATE': {
+        const destination = randomDestination();
+        const privateKey = destination + randomDestination();
+        this.keys.set(privateKey, destination);
+        socket.write(`DEST REPLY PUB=${destination} PRIV=${privateKey}\n`);
+        return false;
+      }
+
+      case 'SESSION CREATE': {
+        const destination = this.keys.get(args.DESTINATION) || randomDestination();
+        this.sessions.set(args.ID, destination);
+        socket.write(`SESSION STATUS RESULT=OK DESTINATION=${args.DESTINATION === 'TRANSIENT' ? destination : args.DESTINATION}\n`);
+        return false;
+      }
+
+      case 'NAMING LOOKUP': {
+        const destination = args.NAME === 'ME' ? [...this.sessions.values()].pop() : undefined;
+        socket.write(destination
+          ? `NAMING REPLY RESULT=OK NAME=ME VALUE=${destination}\n`
+          : `NAMING REPLY RESULT=KEY_NOT_FOUND NAME=${args.NAME}\n`);
+        return false;
+      }
+
+      case 'STREAM CONNECT':
+        if (!this.sessions.has(args.ID)) {
+          socket.write('STREAM STATUS RESULT=INVALID_ID\n');
+          return false;
+        }
+        if (this.unreachable.has(args.DESTINATION)) {
+          socket.write('STREAM STATUS RESULT=CANT_REACH_PEER\n');
+          return false;
+        }
+        socket.write('STREAM STATUS RESULT=OK\n');
+        this.onConnect?.(args.DESTINATION, socket, rest);
+        return true;
+
+      case 'STREAM FORWARD':
+        this.forwards.push({ sessionId: args.ID, host: args.HOST || '127.0.0.1', port: parseInt(args.PORT, 10) });
+        socket.write('STREAM STATUS RESULT=OK\n');
+        return false;
+
+      default:
+        socket.write(`${command} REPLY RESULT=I2P_ERROR MESSAGE="unknown command"\n`);
+        return false;
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import net from 'net';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { FakeSamBridge, randomDestination } from './fake-sam-bridge.js';
+import { I2PSocketAdapter } from './i2p-socket-adapter.js';
+import { I2PTransport } from './i2p-transport.js';
+import { closeSAMSessionManager, SAMSessionManager } from './sam-session-manager.js';
+
+// Bytes streamed per test; run with e.g. STRESS_BYTES=4294967296 for gigabytes
+const STRESS_BYTES = Number(process.env.STRESS_BYTES) || 64 * 1024 * 1024;
+const CHUNK = Buffer.alloc(64 * 1024, 0x5a);
+const SLOW_READ_EVERY = 128 * 1024;       // The slow side stops for 1ms after this many bytes
+const MAX_IN_FLIGHT = 32 * 1024 * 1024;   // Our buffers plus the kernel's on both ends
+const MAX_RSS_GROWTH = 64 * 1024 * 1024;
+const RSS_WARMUP = 8 * 1024 * 1024;
+
+/**
+ * Byte counts on both ends of a stream, and the process memory while it runs
+ */
+class Transfer {
+  sent: number = 0;
+  received: number = 0;
+  maxInFlight: number = 0;
+  private rssBaseline: number = 0;
+  maxRssGrowth: number = 0;
+
+  sample(): void {
+    this.maxInFlight = Math.max(this.maxInFlight, this.sent - this.received);
+
+    if (this.received < RSS_WARMUP) return;
+    const rss = process.memoryUsage.rss();
+    this.rssBaseline = this.rssBaseline || rss;
+    this.maxRssGrowth = Math.max(this.maxRssGrowth, rss - this.rssBaseline);
+  }
+
+  check(): void {
+    assert.equal(this.received, STRESS_BYTES);
+    assert.ok(this.maxInFlight <= MAX_IN_FLIGHT, `${this.maxInFlight} bytes in flight`);
+    assert.ok(this.maxRssGrowth <= MAX_RSS_GROWTH, `RSS grew by ${this.maxRssGrowth} bytes`);
+  }
+}
+
+/**
+ * Write as fast as the stream lets us, honoring its backpressure
+ */
+async function send(stream: NodeJS.WritableStream, transfer: Transfer): Promise<void> {
+  while (transfer.sent < STRESS_BYTES) {
+    const chunk = CHUNK.subarray(0, Math.min(CHUNK.length, STRESS_BYTES - transfer.sent));
+    transfer.sent += chunk.length;
+    transfer.sample();
+
+    if (!stream.write(chunk)) {
+      await new Promise(resolve => stream.once('drain', resolve));
+    }
+  }
+}
+
+/**
+ * Read everything, stopping now and then so the sender outpaces us
+ */
+function receive(stream: NodeJS.ReadableStream, transfer: Transfer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let sinceStop = 0;
+
+    stream.on('data', (data: Buffer) => {
+      transfer.received += data.length;
+      transfer.sample();
+
+      if (transfer.received >= STRESS_BYTES) {
+        resolve();
+        return;
+      }
+
+      sinceStop += data.length;
+      if (sinceStop >= SLOW_READ_EVERY) {
+        sinceStop = 0;
+        stream.pause();
+        setTimeout(() => stream.resume(), 1);
+      }
+    });
+    stream.once('error', reject);
+    stream.once('close', () => reject(new Error(`Stream closed after ${transfer.received} bytes`)));
+  });
+}
+
+describe('I2P streams under a fast sender and a slow reader', () => {
+  let bridge: FakeSamBridge;
+  let peers: net.Socket[];
+
+  /**
+   * Far end of the next stream opened through the bridge
+   */
+  function nextPeer(): Promise<net.Socket> {
+    return new Promise((resolve) => {
+      bridge.onConnect = (_destination, socket, head) => {
+        assert.equal(head.length, 0);
+        peers.push(socket);
+        resolve(socket);
+      };
+    });
+  }
+
+  before(async () => {
+    bridge = new FakeSamBridge();
+    await bridge.start();
+    peers = [];
+  });
+
+  afterEach(() => {
+    peers.splice(0).forEach(peer => peer.destroy());
+  });
+
+  after(async () => {
+    await bridge.stop();
+  });
+
+  describe('I2PSocketAdapter', () => {
+    let socket: I2PSocketAdapter;
+
+    async function connect(): Promise<net.Socket> {
+      const peer = nextPeer();
+      socket = new I2PSocketAdapter({ samHost: '127.0.0.1', samPortTCP: bridge.port, timeout: 2 });
+      socket.on('error', () => {});
+      await socket.connect(randomDestination());
+      return peer;
+    }
+
+    afterEach(() => {
+      socket.destroy();
+    });
+
+    after(() => {
+      closeSAMSessionManager();
+    });
+
+    it('stops reading from the bridge while the consumer is behind', async () => {
+      const peer = await connect();
+      const transfer = new Transfer();
+
+      await Promise.all([send(peer, transfer), receive(socket, transfer)]);
+      transfer.check();
+    });
+
+    it('holds the writer while the bridge is behind', async () => {
+      const peer = await connect();
+      const transfer = new Transfer();
+
+      await Promise.all([send(socket, transfer), receive(peer, transfer)]);
+      transfer.check();
+    });
+  });
+
+  describe('I2PTransport', () => {
+    let sessions: SAMSessionManager;
+    let transport: I2PTransport;
+
+    async function connect(): Promise<net.Socket> {
+      const peer = nextPeer();
+      transport = new I2PTransport({}, sessions);
+      transport.on('error', () => {});
+      await transport.connect(randomDestination());
+      return peer;
+    }
+
+    before(() => {
+      sessions = new SAMSessionManager({ samHost: '127.0.0.1', samPortTCP: bridge.port, timeout: 2 });
+    });
+
+    afterEach(() => {
+      transport.destroy();
+    });
+
+    after(() => {
+      sessions.close();
+    });
+
+    it('stops reading from the bridge while the consumer is behind', async () => {
+      const peer = await connect();
+      const transfer = new Transfer();
+
+      await Promise.all([send(peer, transfer), receive(transport, transfer)]);
+      transfer.check();
+    });
+
+    it('holds the writer while the bridge is behind', async () => {
+      const peer = await connect();
+      const transfer = new Transfer();
+
+      await Promise.all([send(transport, transfer), receive(peer, transfer)]);
+      transfer.check();
+    });
+  });
+});
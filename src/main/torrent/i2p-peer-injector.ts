@@ -58,6 +58,12 @@ export class I2PPeerInjector extends EventEmitter {
   /** Our local I2P destination (to filter out self) */
   private localDestination: string = '';
 
+  /** Destination we accept BitTorrent connections on (also self) */
+  private seedingDestination: string = '';
+
+  /** Check deciding which torrents we announce (null: all) */
+  private announceFilter: ((infoHash: string) => boolean) | null = null;
+
   /** Track which peers we've tried for each torrent */
   private triedPeers: Map<string, Set<string>> = new Map();
 
@@ -95,6 +101,21 @@ export class I2PPeerInjector extends EventEmitter {
     this.localDestination = destination;
   }
 
+  /**
+   * Set the destination we accept connections on (filtered like the local one)
+   */
+  setSeedingDestination(destination: string): void {
+    this.seedingDestination = destination;
+  }
+
+  /**
+   * Set the check deciding which torrents are announced to trackers and the
+   * DHT. Others are still looked up on the DHT, which doesn't announce us.
+   */
+  setAnnounceFilter(filter: (infoHash: string) => boolean): void {
+    this.announceFilter = filter;
+  }
+
   /**
    * Set DHT engine for peer discovery
    */
@@ -180,7 +201,7 @@ export class I2PPeerInjector extends EventEmitter {
     const discoveries: Promise<void>[] = [];
 
     // Announce to I2P trackers
-    if (this.localDestination) {
+    if (this.localDestination && this._mayAnnounce(infoHash)) {
       discoveries.push(
         this.multiTracker.announceAll(infoHash, 'started', {
           uploaded: 0,
@@ -226,7 +247,10 @@ export class I2PPeerInjector extends EventEmitter {
    */
   private _queuePeer(infoHash: string, destination: string, source: 'tracker' | 'dht'): void {
     // Skip self
-    if (destination === this.localDestination) return;
+    if (destination === this.localDestination || destination === this.seedingDestination) return;
+
+    // Skip blocked peers (and non-friends for friends-only files)
+    if (!this.client.isPeerAllowed(destination, infoHash)) return;
 
     // Skip if not tracking this torrent
     if (!this.activeTorrents.has(infoHash)) return;
@@ -261,6 +285,9 @@ export class I2PPeerInjector extends EventEmitter {
       // Skip if torrent no longer active
       if (!this.activeTorrents.has(infoHash)) continue;
 
+      // Skip if blocked while queued
+      if (!this.client.isPeerAllowed(destination, infoHash)) continue;
+
       // Skip if already tried
       const tried = this.triedPeers.get(infoHash);
       if (tried?.has(destination)) continue;
@@ -306,7 +333,7 @@ export class I2PPeerInjector extends EventEmitter {
    * Announce ourselves for a specific torrent
    */
   async announceSelf(infoHash: string): Promise<void> {
-    if (!this.localDestination) return;
+    if (!this.localDestination || !this._mayAnnounce(infoHash)) return;
 
     console.log(`[PeerInjector] Announcing self for ${infoHash.substring(0, 16)}...`);
 
@@ -327,6 +354,10 @@ export class I2PPeerInjector extends EventEmitter {
     }
   }
 
+  private _mayAnnounce(infoHash: string): boolean {
+    return !this.announceFilter || this.announceFilter(infoHash);
+  }
+
   /**
    * Start periodic re-announce timer
    */
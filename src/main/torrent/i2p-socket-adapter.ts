@@ -5,8 +5,11 @@
  * to WebTorrent. It extends Duplex and implements the Socket interface.
  */
 
+import { Socket } from 'net';
 import { Duplex } from 'stream';
-import { createStream, I2pSamStream, toB32 } from '@diva.exchange/i2p-sam';
+import { toB32 } from '@diva.exchange/i2p-sam';
+import { getSAMSessionManager } from './sam-session-manager.js';
+import { getBandwidthLimiter } from './bandwidth-limiter.js';
 
 /**
  * Configuration for I2P socket adapter
@@ -26,6 +29,9 @@ const DEFAULT_CONFIG: I2PSocketConfig = {
   timeout: 120
 };
 
+/** Most unsent data a socket may hold before writes fail */
+const MAX_BUFFERED_WRITES = 4 * 1024 * 1024;
+
 /**
  * Socket state enum
  */
@@ -47,13 +53,18 @@ export enum SocketState {
  * - Error events
  */
 export class I2PSocketAdapter extends Duplex {
-  private samStream: I2pSamStream | null = null;
+  private samStream: Socket | null = null;
+  private _inbound: boolean = false;
   private config: I2PSocketConfig;
   private _destination: string = '';
   private _b32Address: string = '';
   private _state: SocketState = SocketState.CLOSED;
   private _destroyed: boolean = false;
   private pendingWrites: Array<{ chunk: Buffer; callback: (error?: Error | null) => void }> = [];
+  private drainCallback: ((error?: Error | null) => void) | null = null;
+  private writeTimer: NodeJS.Timeout | null = null;
+  private readTimer: NodeJS.Timeout | null = null;
+  private _infoHash: string = '';
   private connectPromise: Promise<void> | null = null;
 
   constructor(config: Partial<I2PSocketConfig> = {}) {
@@ -127,6 +138,27 @@ export class I2PSocketAdapter extends Duplex {
     return this._state;
   }
 
+  /**
+   * Whether the remote peer connected to us
+   */
+  get inbound(): boolean {
+    return this._inbound;
+  }
+
+  /**
+   * Torrent the connection carries (empty until known)
+   */
+  get infoHash(): string {
+    return this._infoHash;
+  }
+
+  /**
+   * Set the torrent the connection carries, so its bandwidth limits apply
+   */
+  setInfoHash(infoHash: string): void {
+    this._infoHash = infoHash;
+  }
+
   // ============================================================================
   // Connection methods
   // ============================================================================
@@ -175,43 +207,21 @@ export class I2PSocketAdapter extends Duplex {
     });
 
     try {
-      // Race between connection and timeout
-      this.samStream = await Promise.race([
-        createStream({
-          sam: {
-            host: this.config.samHost,
-            portTCP: this.config.samPortTCP,
-            timeout: this.config.timeout
-          },
-          stream: { destination }
-        }),
-        timeoutPromise
-      ]);
-
-      // Set up event handlers
-      this.samStream.on('data', (data: Buffer) => {
-        if (!this.push(data)) {
-          // Backpressure - SAM stream doesn't support pause
-        }
+      // Race between connection and timeout. Streams share the SAM sessions
+      // (and their tunnels) of the session manager.
+      const sessions = getSAMSessionManager({
+        samHost: this.config.samHost,
+        samPortTCP: this.config.samPortTCP,
+        timeout: this.config.timeout
       });
-
-      this.samStream.on('error', (error: Error) => {
-        console.error(`[I2PSocket] Stream error:`, error.message);
-        this._state = SocketState.CLOSED;
-        this.emit('error', error);
-        this.destroy(error);
-      });
-
-      this.samStream.on('close', () => {
-        console.log(`[I2PSocket] Stream closed`);
-        if (this._state !== SocketState.CLOSED) {
-          this._state = SocketState.CLOSED;
-          this.push(null);
-          this.emit('close');
-        }
+      const connecting = sessions.connect(destination);
+      const { socket, head } = await Promise.race([connecting, timeoutPromise]).catch((error) => {
+        // A stream that opens after the timeout is closed right away
+        connecting.then(({ socket }) => socket.destroy(), () => {});
+        throw error;
       });
 
-      this._state = SocketState.CONNECTED;
+      this._attach(socket, head);
       console.log(`[I2PSocket] Connected to ${this._b32Address.substring(0, 16)}...`);
 
       // Emit connect event for WebTorrent
@@ -228,6 +238,60 @@ export class I2PSocketAdapter extends Duplex {
     }
   }
 
+  /**
+   * Take over a connection the SAM bridge forwarded to us (STREAM FORWARD).
+   * `head` is whatever the peer sent after the destination line.
+   */
+  attachInbound(socket: Socket, destination: string, head?: Buffer): this {
+    this._destination = destination;
+    this._b32Address = toB32(destination);
+    this._inbound = true;
+
+    this._attach(socket, head);
+    return this;
+  }
+
+  private _attach(socket: Socket, head?: Buffer): void {
+    this.samStream = socket;
+
+    // Stop reading from the SAM bridge whenever our readable buffer is full;
+    // _read() resumes once the consumer has caught up
+    const flowing = !head || head.length === 0 || this.push(head);
+
+    this.samStream.on('data', (data: Buffer) => {
+      const more = this.push(data);
+      const wait = getBandwidthLimiter().request('download', data.length, this._infoHash);
+      if (wait > 0) {
+        this._throttleRead(socket, wait);
+      } else if (!more) {
+        socket.pause();
+      }
+    });
+
+    this.samStream.on('error', (error: Error) => {
+      console.error(`[I2PSocket] Stream error:`, error.message);
+      this._state = SocketState.CLOSED;
+      this.emit('error', error);
+      this.destroy(error);
+    });
+
+    this.samStream.on('close', () => {
+      console.log(`[I2PSocket] Stream closed`);
+      this._releaseDrain(new Error('Stream closed'));
+      this._clearReadTimer();
+      if (this._state !== SocketState.CLOSED) {
+        this._state = SocketState.CLOSED;
+        this.push(null);
+        this.emit('close');
+      }
+    });
+
+    this._state = SocketState.CONNECTED;
+    if (flowing) {
+      socket.resume();
+    }
+  }
+
   /**
    * Close the connection gracefully
    */
@@ -244,11 +308,13 @@ export class I2PSocketAdapter extends Duplex {
       pending.callback(new Error('Socket closing'));
     }
     this.pendingWrites = [];
+    this._releaseDrain(new Error('Socket closing'));
+    this._clearReadTimer();
 
     // Close SAM stream
     if (this.samStream) {
       try {
-        this.samStream.close();
+        this.samStream.destroy();
       } catch (e) {
         // Ignore close errors
       }
@@ -274,7 +340,11 @@ export class I2PSocketAdapter extends Duplex {
   // ============================================================================
 
   _read(_size: number): void {
-    // Data is pushed when received from SAM stream
+    // Data is pushed when received from SAM stream, this only lifts backpressure
+    // (a download limit keeps the stream paused until its timer runs out)
+    if (!this.readTimer && this.samStream?.isPaused()) {
+      this.samStream.resume();
+    }
   }
 
   _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
@@ -296,20 +366,80 @@ export class I2PSocketAdapter extends Duplex {
     this._writeToStream(chunk, callback);
   }
 
+  /**
+   * Stop reading until the download limit allows more
+   */
+  private _throttleRead(socket: Socket, wait: number): void {
+    socket.pause();
+    this._clearReadTimer();
+    this.readTimer = setTimeout(() => {
+      this.readTimer = null;
+      // Stay paused if the consumer hasn't caught up; _read() resumes then
+      if (this.samStream === socket && this.readableLength < this.readableHighWaterMark) {
+        socket.resume();
+      }
+    }, wait);
+  }
+
+  private _clearReadTimer(): void {
+    if (this.readTimer) {
+      clearTimeout(this.readTimer);
+      this.readTimer = null;
+    }
+  }
+
   private _writeToStream(chunk: Buffer, callback: (error?: Error | null) => void): void {
     if (!this.samStream) {
       callback(new Error('No SAM stream'));
       return;
     }
 
+    const wait = getBandwidthLimiter().request('upload', chunk.length, this._infoHash);
+    if (wait > 0) {
+      // Over the upload limit: hold the chunk, and the writer with it
+      this.drainCallback = callback;
+      this.writeTimer = setTimeout(() => {
+        this.writeTimer = null;
+        this.drainCallback = null;
+        this._sendToStream(chunk, callback);
+      }, wait);
+      return;
+    }
+
+    this._sendToStream(chunk, callback);
+  }
+
+  private _sendToStream(chunk: Buffer, callback: (error?: Error | null) => void): void {
+    if (!this.samStream) {
+      callback(new Error('No SAM stream'));
+      return;
+    }
+
     try {
-      this.samStream.stream(chunk);
-      callback();
+      if (this.samStream.write(chunk)) {
+        callback();
+        return;
+      }
+
+      // The SAM socket's buffer is full: hold the callback until it drains,
+      // so further writes queue up against our own highWaterMark
+      this.drainCallback = callback;
+      this.samStream.once('drain', () => this._releaseDrain());
     } catch (error: any) {
       callback(error);
     }
   }
 
+  private _releaseDrain(error?: Error): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    const callback = this.drainCallback;
+    this.drainCallback = null;
+    callback?.(error);
+  }
+
   private _flushPendingWrites(): void {
     const pending = this.pendingWrites;
     this.pendingWrites = [];
@@ -382,6 +512,20 @@ export class I2PSocketAdapter extends Duplex {
     };
   }
 
+  /**
+   * Write data. A writer that keeps writing after write() returned false
+   * gets the socket destroyed once too much is buffered.
+   */
+  write(chunk: any, cb?: (error?: Error | null) => void): boolean;
+  write(chunk: any, encoding?: BufferEncoding, cb?: (error?: Error | null) => void): boolean;
+  write(chunk: any, encodingOrCb?: BufferEncoding | ((error?: Error | null) => void), cb?: (error?: Error | null) => void): boolean {
+    if (this.writableLength > MAX_BUFFERED_WRITES) {
+      this.destroy(new Error(`Write buffer full (${MAX_BUFFERED_WRITES / 1024 / 1024}MB)`));
+      return false;
+    }
+    return super.write(chunk, encodingOrCb as BufferEncoding, cb);
+  }
+
   /**
    * End the writable side
    */
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { FakeSamBridge, randomDestination } from './fake-sam-bridge.js';
+import { I2PSocketAdapter } from './i2p-socket-adapter.js';
+import { I2PStreamListener, I2PStreamListenerConfig } from './i2p-stream-listener.js';
+
+/**
+ * Read exactly `length` bytes from a stream
+ */
+function readBytes(stream: NodeJS.ReadableStream, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let received = Buffer.alloc(0);
+    const onData = (data: Buffer) => {
+      received = Buffer.concat([received, data]);
+      if (received.length < length) return;
+      stream.removeListener('data', onData);
+      stream.removeListener('error', reject);
+      stream.pause();
+      resolve(received);
+    };
+    stream.on('data', onData);
+    stream.once('error', reject);
+  });
+}
+
+describe('I2PStreamListener over a fake SAM bridge', () => {
+  let bridge: FakeSamBridge;
+  let dir: string;
+  let listeners: I2PStreamListener[];
+
+  function createListener(config: Partial<I2PStreamListenerConfig> = {}): I2PStreamListener {
+    const listener = new I2PStreamListener({
+      samHost: '127.0.0.1',
+      samPortTCP: bridge.port,
+      timeout: 5,
+      keysPath: path.join(dir, 'seeding-keys.json'),
+      ...config
+    });
+    listeners.push(listener);
+    return listener;
+  }
+
+  async function nextRejection(listener: I2PStreamListener): Promise<string> {
+    const [, reason] = await once(listener, 'rejected');
+    return reason;
+  }
+
+  beforeEach(async () => {
+    bridge = new FakeSamBridge();
+    await bridge.start();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'i2p-listener-'));
+    listeners = [];
+  });
+
+  afterEach(async () => {
+    for (const listener of listeners) {
+      await listener.stop();
+    }
+    await bridge.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates the seeding destination once and keeps its keys private', async () => {
+    const keysPath = path.join(dir, 'seeding-keys.json');
+    const destination = await createListener().start();
+
+    assert.equal(fs.statSync(keysPath).mode & 0o777, 0o600);
+    assert.equal(JSON.parse(fs.readFileSync(keysPath, 'utf-8')).public, destination);
+
+    // A restart reuses the saved keys
+    await listeners[0].stop();
+    assert.equal(await createListener().start(), destination);
+    assert.equal(bridge.commands.filter(command => command.startsWith('DEST GENERATE')).length, 1);
+  });
+
+  it('hands each forwarded stream over as a socket from the peer destination', async () => {
+    const listener = createListener();
+    await listener.start();
+
+    const peer = randomDestination();
+    const connection = once(listener, 'connection');
+    const remote = await bridge.forwardFrom(peer, Buffer.from('hello'));
+    const [socket] = await connection as [I2PSocketAdapter];
+
+    assert.equal(socket.destination, peer);
+    assert.ok(socket.inbound);
+    assert.equal((await readBytes(socket, 5)).toString(), 'hello');
+
+    socket.write('world');
+    assert.equal((await readBytes(remote, 5)).toString(), 'world');
+    assert.equal(listener.getStats().accepted, 1);
+  });
+
+  it('refuses invalid destinations, peers over the limit and filtered peers', async () => {
+    const refused = new Set<string>();
+    const listener = createListener({ maxConnections: 1 });
+    listener.setAcceptFilter(destination => !refused.has(destination));
+    await listener.start();
+
+    let rejection = nextRejection(listener);
+    await bridge.forwardFrom('not-a-destination');
+    assert.equal(await rejection, 'invalid destination');
+
+    const connection = once(listener, 'connection');
+    await bridge.forwardFrom(randomDestination());
+    const [socket] = await connection as [I2PSocketAdapter];
+
+    rejection = nextRejection(listener);
+    await bridge.forwardFrom(randomDestination());
+    assert.equal(await rejection, 'connection limit');
+
+    // A free slot doesn't let a refused peer in
+    socket.destroy();
+    await once(socket, 'close');
+    assert.equal(listener.connectionCount, 0);
+
+    const peer = randomDestination();
+    refused.add(peer);
+    rejection = nextRejection(listener);
+    await bridge.forwardFrom(peer);
+    assert.equal(await rejection, 'refused');
+    assert.deepEqual(
+      { accepted: listener.getStats().accepted, rejected: listener.getStats().rejected },
+      { accepted: 1, rejected: 3 }
+    );
+  });
+});
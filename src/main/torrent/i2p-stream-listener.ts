@@ -0,0 +1,350 @@
+/**
+ * I2P Stream Listener
+ *
+ * Accepts incoming BitTorrent connections on a long-lived seeding destination.
+ * The SAM bridge forwards every stream opened to that destination to a local
+ * TCP server (STREAM FORWARD); each connection starts with the peer's
+ * destination on one line, then carries the peer's data.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import net from 'net';
+import { createForward, createLocalDestination, I2pSamStream } from '@diva.exchange/i2p-sam';
+import { I2PSocketAdapter } from './i2p-socket-adapter.js';
+import { isValidDestination } from './sam-session-manager.js';
+
+/**
+ * Configuration for the stream listener
+ */
+export interface I2PStreamListenerConfig {
+  /** SAM bridge host */
+  samHost: string;
+  /** SAM bridge TCP port */
+  samPortTCP: number;
+  /** Session setup timeout in seconds */
+  timeout: number;
+  /** Maximum simultaneous incoming connections */
+  maxConnections: number;
+  /** Where the seeding destination's keys are kept (created on first start) */
+  keysPath: string;
+  /** Delay before re-creating the session after the SAM bridge dropped it (ms) */
+  restartDelay: number;
+}
+
+const DEFAULT_CONFIG: I2PStreamListenerConfig = {
+  samHost: '127.0.0.1',
+  samPortTCP: 7656,
+  timeout: 120,
+  maxConnections: 50,
+  keysPath: '',
+  restartDelay: 30000
+};
+
+const MAX_HEADER_LENGTH = 1024;  // Destination line sent by the SAM bridge
+const HEADER_TIMEOUT = 30000;
+
+/**
+ * Listener events
+ */
+export interface I2PStreamListenerEvents {
+  'listening': (destination: string) => void;
+  'connection': (socket: I2PSocketAdapter) => void;
+  'rejected': (destination: string, reason: string) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Listener statistics
+ */
+export interface I2PStreamListenerStats {
+  listening: boolean;
+  destination: string;
+  activeConnections: number;
+  maxConnections: number;
+  accepted: number;
+  rejected: number;
+}
+
+/**
+ * I2PStreamListener - accepts peers connecting to our seeding destination
+ */
+export class I2PStreamListener extends EventEmitter {
+  private config: I2PStreamListenerConfig;
+  private server: net.Server | null = null;
+  private forward: I2pSamStream | null = null;
+  private keys: { public: string; private: string } | null = null;
+  private connections: Set<I2PSocketAdapter> = new Set();
+  private acceptFilter: ((destination: string) => boolean) | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stopped: boolean = true;
+  private accepted: number = 0;
+  private rejected: number = 0;
+
+  constructor(config: Partial<I2PStreamListenerConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Our seeding destination (empty until started)
+   */
+  get destination(): string {
+    return this.keys?.public || '';
+  }
+
+  get listening(): boolean {
+    return this.forward !== null;
+  }
+
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Set the check deciding which destinations may connect
+   */
+  setAcceptFilter(filter: (destination: string) => boolean): void {
+    this.acceptFilter = filter;
+  }
+
+  /**
+   * Start accepting connections. Resolves with the seeding destination.
+   */
+  async start(): Promise<string> {
+    this.stopped = false;
+    this.keys = this.keys || await this.loadKeys();
+
+    if (!this.server) {
+      this.server = net.createServer((conn) => this.handleConnection(conn));
+      await new Promise<void>((resolve, reject) => {
+        this.server!.once('error', reject);
+        // Only the SAM bridge connects here
+        this.server!.listen(0, '127.0.0.1', () => {
+          this.server!.removeListener('error', reject);
+          resolve();
+        });
+      });
+    }
+
+    await this.openForward();
+    return this.keys.public;
+  }
+
+  /**
+   * Stop accepting and close every incoming connection
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    if (this.forward) {
+      const forward = this.forward;
+      this.forward = null;
+      forward.close();
+    }
+
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    this.connections.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  getStats(): I2PStreamListenerStats {
+    return {
+      listening: this.listening,
+      destination: this.destination,
+      activeConnections: this.connections.size,
+      maxConnections: this.config.maxConnections,
+      accepted: this.accepted,
+      rejected: this.rejected
+    };
+  }
+
+  /**
+   * Ask the SAM bridge to forward streams for our destination to the local server
+   */
+  private async openForward(): Promise<void> {
+    const address = this.server!.address() as net.AddressInfo;
+
+    const forward = await createForward({
+      sam: {
+        host: this.config.samHost,
+        portTCP: this.config.samPortTCP,
+        timeout: this.config.timeout,
+        publicKey: this.keys!.public,
+        privateKey: this.keys!.private
+      },
+      forward: {
+        host: '127.0.0.1',
+        port: address.port,
+        silent: false // We need the destination line to know who connected
+      }
+    });
+
+    if (this.stopped) {
+      forward.close();
+      return;
+    }
+
+    // The session lives as long as the SAM control connection
+    forward.on('close', () => this.handleForwardClosed(forward));
+    forward.on('error', (error: Error) => {
+      console.error('[I2PListener] SAM session error:', error.message);
+      this.handleForwardClosed(forward);
+    });
+
+    this.forward = forward;
+    console.log(`[I2PListener] Accepting connections on ${forward.getB32Address().substring(0, 16)}... (max ${this.config.maxConnections})`);
+    this.emit('listening', this.keys!.public);
+  }
+
+  private handleForwardClosed(forward: I2pSamStream): void {
+    if (this.forward !== forward) return;
+    this.forward = null;
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart(): void {
+    if (this.stopped || this.restartTimer) return;
+
+    console.warn(`[I2PListener] SAM session closed, reopening in ${this.config.restartDelay / 1000}s`);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.stopped) return;
+      this.openForward().catch((error: Error) => {
+        console.error('[I2PListener] Failed to reopen SAM session:', error.message);
+        this.emit('error', error);
+        this.scheduleRestart();
+      });
+    }, this.config.restartDelay);
+  }
+
+  /**
+   * A connection forwarded by the SAM bridge: read the peer's destination,
+   * then hand the rest of the stream over as a socket
+   */
+  private handleConnection(conn: net.Socket): void {
+    let header = Buffer.alloc(0);
+
+    const timer = setTimeout(() => {
+      conn.destroy();
+    }, HEADER_TIMEOUT);
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      conn.removeListener('data', onData);
+      conn.removeListener('error', onError);
+    };
+
+    const onError = () => {
+      cleanup();
+      conn.destroy();
+    };
+
+    const onData = (data: Buffer) => {
+      header = Buffer.concat([header, data]);
+      const newline = header.indexOf(0x0a);
+
+      if (newline === -1) {
+        if (header.length > MAX_HEADER_LENGTH) onError();
+        return;
+      }
+
+      cleanup();
+      conn.pause();
+
+      // "<destination> FROM_PORT=n TO_PORT=n"
+      const destination = header.subarray(0, newline).toString('utf8').trim().split(' ')[0];
+      this.accept(conn, destination, header.subarray(newline + 1));
+    };
+
+    conn.on('data', onData);
+    conn.on('error', onError);
+  }
+
+  private accept(conn: net.Socket, destination: string, head: Buffer): void {
+    const reject = (reason: string) => {
+      this.rejected++;
+      conn.destroy();
+      this.emit('rejected', destination, reason);
+    };
+
+    if (!isValidDestination(destination)) {
+      reject('invalid destination');
+      return;
+    }
+    if (this.connections.size >= this.config.maxConnections) {
+      console.log(`[I2PListener] Connection limit reached (${this.config.maxConnections}), refusing peer`);
+      reject('connection limit');
+      return;
+    }
+    if (this.acceptFilter && !this.acceptFilter(destination)) {
+      reject('refused');
+      return;
+    }
+
+    const socket = new I2PSocketAdapter({
+      samHost: this.config.samHost,
+      samPortTCP: this.config.samPortTCP,
+      timeout: this.config.timeout
+    }).attachInbound(conn, destination, head);
+
+    this.connections.add(socket);
+    socket.once('close', () => this.connections.delete(socket));
+    socket.on('error', () => this.connections.delete(socket));
+
+    this.accepted++;
+    console.log(`[I2PListener] Incoming peer ${socket.b32Address.substring(0, 16)}... (${this.connections.size}/${this.config.maxConnections})`);
+    this.emit('connection', socket);
+  }
+
+  /**
+   * Load the seeding destination's keys, or create and save them
+   */
+  private async loadKeys(): Promise<{ public: string; private: string }> {
+    if (this.config.keysPath && fs.existsSync(this.config.keysPath)) {
+      try {
+        const saved = JSON.parse(fs.readFileSync(this.config.keysPath, 'utf-8'));
+        if (saved.public && saved.private) {
+          return { public: saved.public, private: saved.private };
+        }
+      } catch (e: any) {
+        console.error('[I2PListener] Failed to load seeding keys:', e.message);
+      }
+    }
+
+    console.log('[I2PListener] Creating seeding destination...');
+    const created = await createLocalDestination({
+      sam: {
+        host: this.config.samHost,
+        portTCP: this.config.samPortTCP,
+        timeout: this.config.timeout
+      }
+    });
+
+    if (this.config.keysPath) {
+      try {
+        fs.writeFileSync(this.config.keysPath, JSON.stringify({
+          public: created.public,
+          private: created.private,
+          address: created.address
+        }, null, 2), { mode: 0o600 }); // The private key is the destination's identity
+      } catch (e: any) {
+        console.error('[I2PListener] Failed to save seeding keys:', e.message);
+      }
+    }
+
+    return { public: created.public, private: created.private };
+  }
+}
@@ -1,13 +1,15 @@
 /**
  * I2P Transport Adapter
  *
- * Wraps i2p-sam's createStream() as a Node.js Duplex stream
- * compatible with bittorrent-protocol Wire.
+ * Wraps a stream opened over a shared SAM session as a Node.js Duplex
+ * stream compatible with bittorrent-protocol Wire.
  */
 
+import { Socket } from 'net';
 import { Duplex } from 'stream';
 import { EventEmitter } from 'events';
-import { createStream, I2pSamStream, toB32 } from '@diva.exchange/i2p-sam';
+import { toB32 } from '@diva.exchange/i2p-sam';
+import { getSAMSessionManager, SAMSessionManager, SAMTunnelStats } from './sam-session-manager.js';
 
 /**
  * Configuration for I2P transport
@@ -30,6 +32,11 @@ const DEFAULT_CONFIG: I2PTransportConfig = {
   timeout: 120 // 2 minutes for I2P
 };
 
+/**
+ * Unsent data allowed per transport before writes fail
+ */
+const MAX_BUFFERED_WRITES = 4 * 1024 * 1024;
+
 /**
  * Connection state
  */
@@ -48,15 +55,20 @@ export enum TransportState {
  */
 export class I2PTransport extends Duplex {
   private config: I2PTransportConfig;
-  private samStream: I2pSamStream | null = null;
+  private sessions: SAMSessionManager;
+  private samStream: Socket | null = null;
   private _destination: string = '';
   private _localDestination: string = '';
   private _state: TransportState = TransportState.DISCONNECTED;
   private _b32Address: string = '';
   private pendingWrites: Array<{ chunk: Buffer; callback: (error?: Error | null) => void }> = [];
+  private drainCallback: ((error?: Error | null) => void) | null = null;
   private connectPromise: Promise<void> | null = null;
 
-  constructor(config: Partial<I2PTransportConfig> = {}) {
+  /**
+   * @param sessions - Session manager to open the stream with (default: the global one)
+   */
+  constructor(config: Partial<I2PTransportConfig> = {}, sessions?: SAMSessionManager) {
     super({
       allowHalfOpen: false,
       readableHighWaterMark: 64 * 1024, // 64KB
@@ -64,6 +76,7 @@ export class I2PTransport extends Duplex {
     });
 
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.sessions = sessions || getSAMSessionManager(this.config);
   }
 
   /**
@@ -164,19 +177,11 @@ export class I2PTransport extends Duplex {
     console.log(`[I2PTransport] Connecting to ${this._b32Address.substring(0, 16)}...`);
 
     try {
-      this.samStream = await createStream({
-        sam: {
-          host: this.config.samHost,
-          portTCP: this.config.samPortTCP,
-          timeout: this.config.timeout
-        },
-        stream: {
-          destination
-        }
-      });
+      const { socket, head, localDestination } = await this.sessions.connect(destination);
+      this.samStream = socket;
 
-      // Get local destination from the stream
-      this._localDestination = this.samStream.getPublicKey();
+      // Our side of the stream is the session's destination
+      this._localDestination = localDestination;
 
       // Set up event handlers
       this.samStream.on('data', (data: Buffer) => {
@@ -191,6 +196,10 @@ export class I2PTransport extends Duplex {
         this.handleClose();
       });
 
+      if (head.length === 0 || this.push(head)) {
+        socket.resume();
+      }
+
       this._state = TransportState.CONNECTED;
       this.emit('connect');
       console.log(`[I2PTransport] Connected to ${this._b32Address.substring(0, 16)}...`);
@@ -218,7 +227,7 @@ export class I2PTransport extends Duplex {
 
     if (this.samStream) {
       try {
-        this.samStream.close();
+        this.samStream.destroy();
       } catch (e) {
         // Ignore close errors
       }
@@ -234,6 +243,7 @@ export class I2PTransport extends Duplex {
       pending.callback(new Error('Transport disconnected'));
     }
     this.pendingWrites = [];
+    this.releaseDrain(new Error('Transport disconnected'));
 
     this.emit('close');
   }
@@ -249,9 +259,10 @@ export class I2PTransport extends Duplex {
    * Handle incoming data from SAM stream
    */
   private handleData(data: Buffer): void {
-    // Push data to readable side
-    // Note: i2p-sam doesn't support pause, so we rely on Node.js stream internal buffering
-    this.push(data);
+    // Push data to readable side, pausing the socket while our buffer is full
+    if (!this.push(data)) {
+      this.samStream?.pause();
+    }
   }
 
   /**
@@ -269,6 +280,7 @@ export class I2PTransport extends Duplex {
    */
   private handleClose(): void {
     console.log(`[I2PTransport] Stream closed`);
+    this.releaseDrain(new Error('Stream closed'));
     if (this._state !== TransportState.DISCONNECTED) {
       this._state = TransportState.DISCONNECTED;
       this.emit('close');
@@ -298,23 +310,55 @@ export class I2PTransport extends Duplex {
     }
 
     try {
-      this.samStream.stream(chunk);
-      callback();
+      if (this.samStream.write(chunk)) {
+        callback();
+        return;
+      }
+
+      // Complete the write once the socket drains; until then Writable
+      // buffers further chunks and reports our highWaterMark to the writer
+      this.drainCallback = callback;
+      this.samStream.once('drain', () => this.releaseDrain());
     } catch (error: any) {
       callback(error);
     }
   }
 
+  /**
+   * Complete the write waiting for the socket to drain
+   */
+  private releaseDrain(error?: Error): void {
+    const callback = this.drainCallback;
+    this.drainCallback = null;
+    callback?.(error);
+  }
+
   // ============================================================================
   // Duplex Stream Implementation
   // ============================================================================
 
   /**
    * Readable stream _read implementation
-   * Data is pushed directly from SAM stream via handleData()
+   * Data is pushed directly from SAM stream via handleData(); a read only
+   * resumes the socket if it was paused for backpressure
    */
   _read(_size: number): void {
-    // No-op: Data is pushed from SAM stream events, not pulled
+    if (this.samStream?.isPaused()) {
+      this.samStream.resume();
+    }
+  }
+
+  /**
+   * Writable stream write, refusing to buffer without bound
+   */
+  write(chunk: any, cb?: (error?: Error | null) => void): boolean;
+  write(chunk: any, encoding?: BufferEncoding, cb?: (error?: Error | null) => void): boolean;
+  write(chunk: any, encodingOrCb?: BufferEncoding | ((error?: Error | null) => void), cb?: (error?: Error | null) => void): boolean {
+    if (this.writableLength > MAX_BUFFERED_WRITES) {
+      this.destroy(new Error('Write buffer full'));
+      return false;
+    }
+    return super.write(chunk, encodingOrCb as BufferEncoding, cb);
   }
 
   /**
@@ -371,17 +415,21 @@ export async function connectI2P(
 /**
  * I2P Transport Pool
  *
- * Manages multiple I2P transport connections with reuse and cleanup.
+ * Manages multiple I2P transport connections with reuse and cleanup. All
+ * transports are streams over the sessions of one session manager, so a
+ * new connection doesn't build new tunnels.
  */
 export class I2PTransportPool extends EventEmitter {
   private config: I2PTransportConfig;
+  private sessions: SAMSessionManager;
   private transports: Map<string, I2PTransport> = new Map();
   private maxConnections: number;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(config: Partial<I2PTransportConfig> = {}, maxConnections: number = 50) {
+  constructor(config: Partial<I2PTransportConfig> = {}, maxConnections: number = 50, sessions?: SAMSessionManager) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.sessions = sessions || getSAMSessionManager(this.config);
     this.maxConnections = maxConnections;
 
     // Start cleanup timer
@@ -414,7 +462,7 @@ export class I2PTransportPool extends EventEmitter {
     }
 
     // Create new transport
-    transport = new I2PTransport(this.config);
+    transport = new I2PTransport(this.config, this.sessions);
 
     transport.on('close', () => {
       this.transports.delete(b32);
@@ -459,6 +507,16 @@ export class I2PTransportPool extends EventEmitter {
     return this.transports.size;
   }
 
+  /**
+   * Session, tunnel and connect time stats of the pool's streams
+   */
+  getTunnelStats(): SAMTunnelStats & { pooledTransports: number } {
+    return {
+      ...this.sessions.getTunnelStats(),
+      pooledTransports: this.transports.size
+    };
+  }
+
   /**
    * Get all connected destinations
    */
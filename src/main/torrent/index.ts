@@ -8,10 +8,22 @@
 export { I2PTransport, I2PTransportPool, TransportState, closeTransportPool, connectI2P, createI2PTransport, getTransportPool } from './i2p-transport.js';
 export type { I2PTransportConfig } from './i2p-transport.js';
 
+// Shared SAM sessions for outbound streams
+export { SAMSessionManager, closeSAMSessionManager, getSAMSessionManager } from './sam-session-manager.js';
+export type { SAMSessionConfig, SAMStream, SAMTunnelStats } from './sam-session-manager.js';
+
+// Upload and download rate limits
+export { BandwidthLimiter, closeBandwidthLimiter, getBandwidthLimiter, isScheduleActive } from './bandwidth-limiter.js';
+export type { BandwidthDirection, BandwidthLimits, BandwidthSchedule, BandwidthStatus } from './bandwidth-limiter.js';
+
 // I2P Socket Adapter for WebTorrent
 export { I2PSocketAdapter, createI2PSocket, createI2PSocketSync, SocketState } from './i2p-socket-adapter.js';
 export type { I2PSocketConfig } from './i2p-socket-adapter.js';
 
+// Incoming connections on our seeding destination
+export { I2PStreamListener } from './i2p-stream-listener.js';
+export type { I2PStreamListenerConfig, I2PStreamListenerEvents, I2PStreamListenerStats } from './i2p-stream-listener.js';
+
 // WebTorrent I2P Client
 export { WebTorrentI2PClient } from './webtorrent-i2p-client.js';
 export type { I2PClientConfig, I2PTorrentOptions, WebTorrentI2PClientEvents } from './webtorrent-i2p-client.js';
@@ -0,0 +1,375 @@
+/**
+ * SAM Session Manager
+ *
+ * Keeps a few long-lived STREAM sessions open on the SAM bridge and opens
+ * outbound streams over them (STREAM CONNECT), instead of creating a new
+ * session - and a new destination with its own tunnels - for every peer.
+ * Building tunnels takes tens of seconds; connecting over an existing
+ * session only costs the round trip to the peer.
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import net from 'net';
+import { toB32 } from '@diva.exchange/i2p-sam';
+
+/**
+ * Configuration for the session manager
+ */
+export interface SAMSessionConfig {
+  /** SAM bridge host */
+  samHost: string;
+  /** SAM bridge TCP port */
+  samPortTCP: number;
+  /** Session setup and connect timeout in seconds */
+  timeout: number;
+  /** Number of sessions to spread streams over */
+  sessionCount: number;
+  /** Inbound and outbound tunnels per session */
+  tunnelQuantity: number;
+}
+
+const DEFAULT_CONFIG: SAMSessionConfig = {
+  samHost: '127.0.0.1',
+  samPortTCP: 7656,
+  timeout: 120,
+  sessionCount: 1,
+  tunnelQuantity: 3
+};
+
+const SAM_VERSION = '3.1';
+const MAX_REPLY_LENGTH = 4096;
+const CONNECT_SAMPLES = 50;  // Connect times kept for the average
+
+/**
+ * An open stream. The socket carries the peer's data; it is paused so
+ * nothing is lost before the caller's listeners are attached.
+ */
+export interface SAMStream {
+  socket: net.Socket;
+  /** Data the peer sent along with the connect reply */
+  head: Buffer;
+  /** Our (session) destination */
+  localDestination: string;
+}
+
+/**
+ * Tunnel and connection statistics
+ */
+export interface SAMTunnelStats {
+  sessions: number;
+  /** Tunnels requested by our sessions (inbound + outbound) */
+  tunnels: number;
+  activeStreams: number;
+  connects: number;
+  failedConnects: number;
+  /** Average time to open a stream over a ready session (ms) */
+  avgConnectTime: number;
+  lastConnectTime: number;
+  /** Average time to set up a session and its tunnels (ms) */
+  avgSessionSetupTime: number;
+}
+
+interface Session {
+  id: string;
+  control: net.Socket;
+  destination: string;  // Public destination (base64)
+  streams: number;
+}
+
+/**
+ * Read one reply line from the SAM bridge. Resolves with the line and
+ * whatever came after it.
+ */
+function readReply(socket: net.Socket, timeoutMs: number): Promise<{ line: string; rest: Buffer }> {
+  return new Promise((resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+
+    const timer = setTimeout(() => {
+      finish(new Error(`SAM reply timeout (${timeoutMs / 1000}s)`));
+    }, timeoutMs);
+
+    const finish = (error: Error | null, result?: { line: string; rest: Buffer }) => {
+      clearTimeout(timer);
+      socket.removeListener('data', onData);
+      socket.removeListener('error', onError);
+      socket.removeListener('close', onClose);
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    const onData = (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+      const newline = buffer.indexOf(0x0a);
+      if (newline === -1) {
+        if (buffer.length > MAX_REPLY_LENGTH) finish(new Error('SAM reply too long'));
+        return;
+      }
+      // Hold further data until the caller takes over the socket
+      socket.pause();
+      finish(null, { line: buffer.subarray(0, newline).toString('utf8').trim(), rest: buffer.subarray(newline + 1) });
+    };
+    const onError = (error: Error) => finish(error);
+    const onClose = () => finish(new Error('SAM bridge closed the connection'));
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+    socket.resume();
+  });
+}
+
+/**
+ * Key/value pairs of a SAM reply ("STREAM STATUS RESULT=OK ...")
+ */
+function parseReply(line: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of line.split(' ')) {
+    const index = part.indexOf('=');
+    if (index > 0) values[part.substring(0, index)] = part.substring(index + 1);
+  }
+  return values;
+}
+
+/**
+ * Whether a string looks like a full base64 destination. Anything else
+ * (spaces, newlines) would end up inside a SAM command line.
+ */
+export function isValidDestination(destination: string): boolean {
+  return destination.length > 100 && /^[A-Za-z0-9~=-]+$/.test(destination);
+}
+
+/**
+ * SAMSessionManager - shared STREAM sessions for outbound connections
+ */
+export class SAMSessionManager extends EventEmitter {
+  private config: SAMSessionConfig;
+  private sessions: Session[] = [];
+  private pendingSessions: Set<Promise<Session>> = new Set();
+  private connectTimes: number[] = [];
+  private sessionSetupTimes: number[] = [];
+  private connects: number = 0;
+  private failedConnects: number = 0;
+  private lastConnectTime: number = 0;
+  private closed: boolean = false;
+
+  constructor(config: Partial<SAMSessionConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.sessionCount = Math.max(1, this.config.sessionCount);
+  }
+
+  /**
+   * Open a stream to a destination over one of the shared sessions
+   */
+  async connect(destination: string): Promise<SAMStream> {
+    if (this.closed) throw new Error('SAM session manager closed');
+    if (!isValidDestination(destination)) throw new Error('Invalid destination');
+
+    const session = await this.getSession();
+    const startedAt = Date.now();
+    const socket = await this.openSocket();
+
+    try {
+      socket.write(`STREAM CONNECT ID=${session.id} DESTINATION=${destination} SILENT=false\n`);
+      const { line, rest } = await readReply(socket, this.config.timeout * 1000);
+      const reply = parseReply(line);
+
+      if (!line.startsWith('STREAM STATUS') || reply.RESULT !== 'OK') {
+        throw new Error(`STREAM CONNECT failed: ${reply.RESULT || line}${reply.MESSAGE ? ` (${reply.MESSAGE})` : ''}`);
+      }
+
+      const connectTime = Date.now() - startedAt;
+      this.recordConnect(connectTime);
+
+      session.streams++;
+      socket.once('close', () => { session.streams--; });
+
+      return { socket, head: rest, localDestination: session.destination };
+    } catch (error) {
+      this.failedConnects++;
+      socket.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Destination of the first session (creating it if needed)
+   */
+  async getLocalDestination(): Promise<string> {
+    return (await this.getSession()).destination;
+  }
+
+  /**
+   * Tunnel counts and connect timings
+   */
+  getTunnelStats(): SAMTunnelStats {
+    return {
+      sessions: this.sessions.length,
+      tunnels: this.sessions.length * this.config.tunnelQuantity * 2,
+      activeStreams: this.sessions.reduce((sum, s) => sum + s.streams, 0),
+      connects: this.connects,
+      failedConnects: this.failedConnects,
+      avgConnectTime: average(this.connectTimes),
+      lastConnectTime: this.lastConnectTime,
+      avgSessionSetupTime: average(this.sessionSetupTimes)
+    };
+  }
+
+  /**
+   * Close all sessions (their streams close with them)
+   */
+  close(): void {
+    this.closed = true;
+    for (const session of this.sessions) {
+      session.control.destroy();
+    }
+    this.sessions = [];
+  }
+
+  /**
+   * The session with the fewest streams. Sessions are created lazily while
+   * fewer than configured are open.
+   */
+  private async getSession(): Promise<Session> {
+    while (this.sessions.length + this.pendingSessions.size < this.config.sessionCount) {
+      const pending: Promise<Session> = this.createSession().finally(() => this.pendingSessions.delete(pending));
+      pending.catch((error: Error) => {
+        console.warn(`[SAMSessions] Session setup failed: ${error.message}`);
+      });
+      this.pendingSessions.add(pending);
+    }
+
+    if (this.sessions.length === 0) {
+      // Wait for the first session (the others keep building in the background)
+      return Promise.any(this.pendingSessions).catch((error: AggregateError) => {
+        throw error.errors[0] || new Error('No SAM session');
+      });
+    }
+
+    return this.sessions.reduce((best, s) => s.streams < best.streams ? s : best);
+  }
+
+  private async createSession(): Promise<Session> {
+    const startedAt = Date.now();
+    const id = `i2pshare-${crypto.randomBytes(6).toString('hex')}`;
+    const control = await this.openSocket();
+
+    try {
+      control.write(
+        `SESSION CREATE STYLE=STREAM ID=${id} DESTINATION=TRANSIENT SIGNATURE_TYPE=EdDSA_SHA512_Ed25519 ` +
+        `inbound.quantity=${this.config.tunnelQuantity} outbound.quantity=${this.config.tunnelQuantity}\n`
+      );
+      const created = await readReply(control, this.config.timeout * 1000);
+      if (parseReply(created.line).RESULT !== 'OK') {
+        throw new Error(`SESSION CREATE failed: ${created.line}`);
+      }
+
+      control.write('NAMING LOOKUP NAME=ME\n');
+      const naming = await readReply(control, this.config.timeout * 1000);
+      const destination = parseReply(naming.line).VALUE;
+      if (!destination) {
+        throw new Error(`Session destination lookup failed: ${naming.line}`);
+      }
+
+      const session: Session = { id, control, destination, streams: 0 };
+
+      // The session ends when its control connection does
+      control.on('error', () => {});
+      control.once('close', () => {
+        this.sessions = this.sessions.filter(s => s !== session);
+        if (!this.closed) {
+          console.warn(`[SAMSessions] Session ${toB32(destination).substring(0, 16)}... closed`);
+          this.emit('session-closed', destination);
+        }
+      });
+      control.resume();
+
+      if (this.closed) {
+        control.destroy();
+        throw new Error('SAM session manager closed');
+      }
+
+      this.sessions.push(session);
+      const setupTime = Date.now() - startedAt;
+      pushSample(this.sessionSetupTimes, setupTime);
+      console.log(`[SAMSessions] Session ${toB32(destination).substring(0, 16)}... ready in ${(setupTime / 1000).toFixed(1)}s`);
+      this.emit('session-ready', destination);
+
+      return session;
+    } catch (error) {
+      control.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Connect to the SAM bridge and say hello
+   */
+  private openSocket(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: this.config.samHost, port: this.config.samPortTCP });
+
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+      socket.once('error', onError);
+
+      socket.once('connect', () => {
+        socket.removeListener('error', onError);
+        socket.write(`HELLO VERSION MIN=${SAM_VERSION} MAX=${SAM_VERSION}\n`);
+
+        readReply(socket, this.config.timeout * 1000).then(({ line }) => {
+          if (!line.startsWith('HELLO REPLY') || parseReply(line).RESULT !== 'OK') {
+            throw new Error(`HELLO failed: ${line}`);
+          }
+          resolve(socket);
+        }).catch((error: Error) => {
+          socket.destroy();
+          reject(error);
+        });
+      });
+    });
+  }
+
+  private recordConnect(connectTime: number): void {
+    this.connects++;
+    this.lastConnectTime = connectTime;
+    pushSample(this.connectTimes, connectTime);
+  }
+}
+
+function pushSample(samples: number[], value: number): void {
+  samples.push(value);
+  if (samples.length > CONNECT_SAMPLES) samples.shift();
+}
+
+function average(samples: number[]): number {
+  return samples.length === 0 ? 0 : Math.round(samples.reduce((sum, v) => sum + v, 0) / samples.length);
+}
+
+/**
+ * Global session manager instance
+ */
+let globalManager: SAMSessionManager | null = null;
+
+/**
+ * Get or create the global session manager
+ */
+export function getSAMSessionManager(config?: Partial<SAMSessionConfig>): SAMSessionManager {
+  if (!globalManager) {
+    globalManager = new SAMSessionManager(config);
+  }
+  return globalManager;
+}
+
+/**
+ * Close the global session manager
+ */
+export function closeSAMSessionManager(): void {
+  if (globalManager) {
+    globalManager.close();
+    globalManager = null;
+  }
+}
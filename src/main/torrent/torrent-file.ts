@@ -55,6 +55,17 @@ export interface CreateTorrentOptions {
   urlList?: string[];
 }
 
+/**
+ * Single-file info dictionary (BEP 3)
+ */
+export interface SingleFileInfoDict {
+  length: number;
+  name: string;
+  'piece length': number;
+  /** Concatenated 20-byte SHA1 piece hashes */
+  pieces: Buffer;
+}
+
 /**
  * Convert parsed torrent to our TorrentMetadata format
  */
@@ -223,6 +234,47 @@ export class TorrentFileUtils {
     return uri;
   }
 
+  /**
+   * Build a single-file info dictionary from precomputed piece hashes
+   */
+  static createInfoDict(
+    name: string,
+    length: number,
+    pieceLength: number,
+    pieces: Buffer | string
+  ): SingleFileInfoDict {
+    return {
+      length,
+      name,
+      'piece length': pieceLength,
+      pieces: Buffer.isBuffer(pieces) ? pieces : Buffer.from(pieces, 'hex')
+    };
+  }
+
+  /**
+   * Build .torrent file data around an existing info dictionary
+   */
+  static createTorrentData(
+    info: SingleFileInfoDict,
+    options: Pick<CreateTorrentOptions, 'announce' | 'comment' | 'createdBy'> = {}
+  ): Buffer {
+    const torrent: Record<string, unknown> = {
+      info,
+      'created by': options.createdBy || 'I2P Share',
+      'creation date': Math.floor(Date.now() / 1000)
+    };
+
+    if (options.announce && options.announce.length > 0) {
+      torrent.announce = options.announce[0];
+      torrent['announce-list'] = [options.announce];
+    }
+    if (options.comment) {
+      torrent.comment = options.comment;
+    }
+
+    return Buffer.from(bencode.encode(torrent));
+  }
+
   /**
    * Generate info hash from info dictionary
    */
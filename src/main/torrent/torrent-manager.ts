@@ -16,8 +16,10 @@ import type { Torrent } from 'webtorrent';
 import {
     AddTorrentResult,
     CreateTorrentResult,
+    QueueMove,
     TorrentFile,
     TorrentInfo,
+    TorrentPriority,
     TorrentState,
     TorrentStatus
 } from '../../shared/torrent-types.js';
@@ -26,10 +28,13 @@ import {
     TorrentOps,
     TorrentPieceOps
 } from '../database.js';
-import { MultiTrackerManager, createMultiTrackerManager } from './multi-tracker-manager.js';
+import { MultiScrapeResult, MultiTrackerManager, createMultiTrackerManager } from './multi-tracker-manager.js';
 import { TorrentFileUtils } from './torrent-file.js';
 import { WebTorrentI2PClient } from './webtorrent-i2p-client.js';
 import { I2PPeerInjector, createPeerInjector } from './i2p-peer-injector.js';
+import { I2PStreamListener, I2PStreamListenerStats } from './i2p-stream-listener.js';
+import { SAMTunnelStats, closeSAMSessionManager, getSAMSessionManager } from './sam-session-manager.js';
+import { BandwidthLimits, getBandwidthLimiter } from './bandwidth-limiter.js';
 
 /**
  * Torrent Manager Events
@@ -39,10 +44,13 @@ export interface TorrentManagerEvents {
   'torrent-removed': (infoHash: string) => void;
   'torrent-started': (infoHash: string) => void;
   'torrent-stopped': (infoHash: string) => void;
+  'torrent-queued': (infoHash: string) => void;
+  'queue-changed': () => void;
   'torrent-complete': (infoHash: string) => void;
   'torrent-error': (infoHash: string, error: Error) => void;
   'progress': (infoHash: string, progress: number) => void;
   'stats': (stats: GlobalStats) => void;
+  'seeding-destination': (destination: string) => void;
 }
 
 /**
@@ -55,14 +63,34 @@ export interface GlobalStats {
   totalPeers: number;
 }
 
+/**
+ * Active torrent limits (0 = unlimited)
+ */
+export interface QueueLimits {
+  maxActiveDownloads: number;
+  maxActiveSeeds: number;
+}
+
+/**
+ * Position and priority of a torrent in the queue
+ */
+interface QueueEntry {
+  position: number;
+  priority: TorrentPriority;
+}
+
 /**
  * Manager configuration
  */
 export interface TorrentManagerConfig {
   /** Default download path */
   downloadPath: string;
-  /** Maximum concurrent active torrents */
+  /** Maximum torrents downloading at once, the rest wait in the queue (0 = unlimited) */
   maxActiveTorrents: number;
+  /** Maximum torrents seeding at once (0 = unlimited) */
+  maxActiveSeeds: number;
+  /** Peers each torrent uploads to at once */
+  maxUploadSlots: number;
   /** Auto-start torrents on load */
   autoStart: boolean;
   /** Tracker addresses (I2P destinations) */
@@ -73,16 +101,27 @@ export interface TorrentManagerConfig {
   samHost?: string;
   /** SAM TCP port */
   samPortTCP?: number;
+  /** SAM sessions shared by outbound peer and tracker streams */
+  samSessionCount: number;
+  /** Accept incoming BitTorrent connections on a seeding destination */
+  acceptIncoming: boolean;
+  /** Maximum simultaneous incoming connections */
+  maxIncomingConns: number;
 }
 
 const DEFAULT_MANAGER_CONFIG: TorrentManagerConfig = {
   downloadPath: '',
-  maxActiveTorrents: 10,
+  maxActiveTorrents: 3, // CONSTANTS.MAX_PARALLEL_DOWNLOADS
+  maxActiveSeeds: 0,
+  maxUploadSlots: 10,
   autoStart: true,
   trackers: [],
   localDestination: '',
   samHost: '127.0.0.1',
-  samPortTCP: 7656
+  samPortTCP: 7656,
+  samSessionCount: 1,
+  acceptIncoming: true,
+  maxIncomingConns: 50
 };
 
 /**
@@ -94,8 +133,11 @@ export class TorrentManager extends EventEmitter {
   private config: TorrentManagerConfig;
   private client: WebTorrentI2PClient | null = null;
   private peerInjector: I2PPeerInjector | null = null;
+  private streamListener: I2PStreamListener | null = null;
+  private seedingDestination: string = '';
   private multiTracker: MultiTrackerManager;
   private dhtEngine: any = null;
+  private announceFilter: ((infoHash: string) => boolean) | null = null;
   private isInitialized: boolean = false;
   private statsTimer: NodeJS.Timeout | null = null;
 
@@ -105,6 +147,17 @@ export class TorrentManager extends EventEmitter {
   /** Track torrent metadata for magnet links */
   private pendingMetadata: Set<string> = new Set();
 
+  /** Queue position and priority per infoHash */
+  private queueEntries: Map<string, QueueEntry> = new Map();
+  /** Torrents waiting for an active slot */
+  private queued: Set<string> = new Set();
+  /** Torrents paused by the user (the queue leaves them alone) */
+  private pausedByUser: Set<string> = new Set();
+  /** Torrents we have complete (they count against the seeding limit) */
+  private seeds: Set<string> = new Set();
+  /** Peers added while a torrent was paused, connected when it starts */
+  private waitingPeers: Map<string, Set<string>> = new Map();
+
   private constructor(config: Partial<TorrentManagerConfig> = {}) {
     super();
 
@@ -121,6 +174,13 @@ export class TorrentManager extends EventEmitter {
       fs.mkdirSync(this.config.downloadPath, { recursive: true });
     }
 
+    // Outbound streams share these sessions, so configure them before anything connects
+    getSAMSessionManager({
+      samHost: this.config.samHost,
+      samPortTCP: this.config.samPortTCP,
+      sessionCount: this.config.samSessionCount
+    });
+
     // Initialize multi-tracker manager
     this.multiTracker = createMultiTrackerManager({
       samHost: this.config.samHost,
@@ -151,15 +211,22 @@ export class TorrentManager extends EventEmitter {
       downloadPath: this.config.downloadPath,
       samHost: this.config.samHost,
       samPortTCP: this.config.samPortTCP,
-      maxConns: 50
+      maxConns: 50,
+      uploadSlots: this.config.maxUploadSlots
     });
 
     // Create peer injector
     this.peerInjector = createPeerInjector(this.client, this.multiTracker);
+    if (this.announceFilter) this.peerInjector.setAnnounceFilter(this.announceFilter);
 
     // Set up WebTorrent event forwarding
     this._setupClientEvents();
 
+    // Accept peers connecting to us (opening the session can take a while)
+    if (this.config.acceptIncoming) {
+      this._startListener();
+    }
+
     // Load existing torrents from database
     await this._loadFromDatabase();
 
@@ -181,15 +248,18 @@ export class TorrentManager extends EventEmitter {
     this.client.on('torrent-ready', (torrent: Torrent) => {
       console.log(`[TorrentManager] Ready: ${torrent.name}`);
 
-      // Start peer injection
-      this.peerInjector?.startTorrent(torrent.infoHash);
-
       // If this was a magnet link, update database with full metadata
       if (this.pendingMetadata.has(torrent.infoHash)) {
         this._updateMetadataFromTorrent(torrent);
         this.pendingMetadata.delete(torrent.infoHash);
       }
 
+      // Torrents waiting in the queue (or paused) get their peers when they start
+      if (torrent.paused) return;
+
+      // Start peer injection
+      this.peerInjector?.startTorrent(torrent.infoHash);
+
       this.emit('torrent-started', torrent.infoHash);
     });
 
@@ -197,7 +267,11 @@ export class TorrentManager extends EventEmitter {
       console.log(`[TorrentManager] Complete: ${torrent.name}`);
       TorrentOps.setSeeding(torrent.infoHash, true);
       TorrentOps.setState(torrent.infoHash, TorrentState.SEEDING);
+      this.seeds.add(torrent.infoHash);
       this.emit('torrent-complete', torrent.infoHash);
+
+      // Its download slot is free now
+      this._processQueue();
     });
 
     this.client.on('torrent-error', (torrent: Torrent, error: Error) => {
@@ -206,6 +280,40 @@ export class TorrentManager extends EventEmitter {
     });
   }
 
+  /**
+   * Listen for incoming connections on our seeding destination, and announce
+   * that destination instead of the datagram one
+   */
+  private _startListener(): void {
+    const listener = new I2PStreamListener({
+      samHost: this.config.samHost,
+      samPortTCP: this.config.samPortTCP,
+      maxConnections: this.config.maxIncomingConns,
+      keysPath: path.join(app?.getPath('userData') || process.cwd(), 'i2p-seed-keys.json')
+    });
+    this.streamListener = listener;
+
+    listener.setAcceptFilter((destination) => !!this.client && this.client.isPeerAllowed(destination));
+
+    listener.on('connection', (socket) => {
+      this.client?.addIncomingConnection(socket);
+    });
+
+    listener.on('error', (error: Error) => {
+      console.warn(`[TorrentManager] Stream listener error: ${error.message}`);
+    });
+
+    listener.start().then((destination) => {
+      if (this.streamListener !== listener) return;
+      this.seedingDestination = destination;
+      this.multiTracker.setLocalDestination(destination);
+      this.peerInjector?.setSeedingDestination(destination);
+      this.emit('seeding-destination', destination);
+    }).catch((error: Error) => {
+      console.error(`[TorrentManager] Not accepting incoming connections: ${error.message}`);
+    });
+  }
+
   /**
    * Load torrents from database
    */
@@ -216,6 +324,17 @@ export class TorrentManager extends EventEmitter {
       try {
         // Store database ID mapping
         this.torrentDbIds.set(row.infoHash, row.id);
+        this.queueEntries.set(row.infoHash, {
+          position: row.queuePosition ?? row.id,
+          priority: row.priority ?? TorrentPriority.NORMAL
+        });
+        getBandwidthLimiter().setTorrentLimits(row.infoHash, {
+          uploadLimit: row.uploadLimit ?? 0,
+          downloadLimit: row.downloadLimit ?? 0
+        });
+        if (row.isSeeding) {
+          this.seeds.add(row.infoHash);
+        }
 
         // Skip if we don't have enough metadata
         if (!row.torrentData && !row.magnetUri) {
@@ -225,15 +344,18 @@ export class TorrentManager extends EventEmitter {
 
         let torrent: Torrent;
 
+        // Everything is added paused, the queue starts what fits
         if (row.torrentData) {
           // Add from .torrent data
           torrent = this.client!.add(row.torrentData, {
-            path: row.savePath || this.config.downloadPath
+            path: row.savePath || this.config.downloadPath,
+            paused: true
           });
         } else if (row.magnetUri) {
           // Add from magnet URI
           torrent = this.client!.add(row.magnetUri, {
-            path: row.savePath || this.config.downloadPath
+            path: row.savePath || this.config.downloadPath,
+            paused: true
           });
 
           // Mark as pending metadata if we don't have full info
@@ -246,15 +368,17 @@ export class TorrentManager extends EventEmitter {
 
         this._setupTorrentEvents(torrent);
 
-        // Auto-start if configured and was seeding
-        if (this.config.autoStart && row.isSeeding) {
-          this.peerInjector?.startTorrent(row.infoHash);
+        // Torrents the user paused stay paused, as does everything without auto-start
+        if (row.state === TorrentState.PAUSED || !this.config.autoStart) {
+          this.pausedByUser.add(row.infoHash);
         }
 
       } catch (error: any) {
         console.error(`[TorrentManager] Failed to load ${row.infoHash}:`, error.message);
       }
     }
+
+    this._processQueue();
   }
 
   /**
@@ -348,6 +472,7 @@ export class TorrentManager extends EventEmitter {
     });
 
     this.torrentDbIds.set(metadata.infoHash, torrentId);
+    this._trackQueueEntry(metadata.infoHash, torrentId);
 
     // Add files to database
     if (metadata.files.length > 0) {
@@ -357,20 +482,19 @@ export class TorrentManager extends EventEmitter {
     // Initialize pieces tracking
     TorrentPieceOps.initPieces(torrentId, metadata.pieceCount);
 
-    // Add to WebTorrent
+    // Add to WebTorrent (started by the queue if a slot is free)
     const torrent = this.client.add(torrentData, {
-      path: this.config.downloadPath
+      path: this.config.downloadPath,
+      paused: true
     });
 
     this._setupTorrentEvents(torrent);
 
     this.emit('torrent-added', metadata.infoHash, metadata.name);
-
-    // Start peer discovery
-    this.peerInjector?.startTorrent(metadata.infoHash);
+    this._processQueue();
 
     // Announce to trackers and DHT
-    if (this.config.localDestination) {
+    if (this.config.localDestination && !this.queued.has(metadata.infoHash)) {
       this._announceToNetwork(metadata.infoHash);
     }
 
@@ -410,22 +534,22 @@ export class TorrentManager extends EventEmitter {
     });
 
     this.torrentDbIds.set(partialMetadata.infoHash, torrentId);
+    this._trackQueueEntry(partialMetadata.infoHash, torrentId);
     this.pendingMetadata.add(partialMetadata.infoHash);
 
-    // Add to WebTorrent (will fetch metadata via ut_metadata)
+    // Add to WebTorrent (will fetch metadata via ut_metadata once the queue starts it)
     const torrent = this.client.add(magnetUri, {
-      path: this.config.downloadPath
+      path: this.config.downloadPath,
+      paused: true
     });
 
     this._setupTorrentEvents(torrent);
 
     this.emit('torrent-added', partialMetadata.infoHash, partialMetadata.name || 'Magnet Link');
-
-    // Start peer discovery (important for magnet links to fetch metadata)
-    this.peerInjector?.startTorrent(partialMetadata.infoHash);
+    this._processQueue();
 
     // Announce to trackers and DHT
-    if (this.config.localDestination) {
+    if (this.config.localDestination && !this.queued.has(partialMetadata.infoHash)) {
       this._announceToNetwork(partialMetadata.infoHash);
     }
 
@@ -451,52 +575,116 @@ export class TorrentManager extends EventEmitter {
 
     return new Promise((resolve, reject) => {
       torrent.on('ready', () => {
-        const magnetUri = torrent.magnetURI;
-
-        // Save to database
-        const torrentId = TorrentOps.create({
-          infoHash: torrent.infoHash,
-          name: torrent.name,
-          totalSize: torrent.length,
-          pieceLength: torrent.pieceLength,
-          pieceCount: torrent.pieces?.length || 0,
-          pieces: '',
-          magnetUri: magnetUri,
-          savePath: path.dirname(filePath),
-          isSeeding: true
-        });
+        resolve(this._registerSeed(torrent, path.dirname(filePath)));
+      });
 
-        this.torrentDbIds.set(torrent.infoHash, torrentId);
+      torrent.on('error', reject);
+    });
+  }
 
-        // Add files to database
-        if (torrent.files && torrent.files.length > 0) {
-          const files: TorrentFile[] = torrent.files.map((f: any) => ({
-            path: f.path,
-            size: f.length,
-            offset: f.offset || 0
-          }));
-          TorrentFileOps.addFiles(torrentId, files);
-        }
+  /**
+   * Seed a file indexed by FileIndexer from its stored info dict.
+   * The pieces were hashed while indexing, so the data is not verified again.
+   */
+  async seedIndexedFile(file: {
+    path: string;
+    filename: string;
+    size: number;
+    infoHash: string;
+    pieceLength: number;
+    pieces: string;
+  }): Promise<CreateTorrentResult> {
+    if (!this.client) throw new Error('Client not initialized');
 
-        this._setupTorrentEvents(torrent);
+    const info = TorrentFileUtils.createInfoDict(file.filename, file.size, file.pieceLength, file.pieces);
+    if (TorrentFileUtils.computeInfoHash(info) !== file.infoHash) {
+      throw new Error(`Info dict does not match infoHash ${file.infoHash}`);
+    }
 
-        // Start peer injection and announcing
-        this.peerInjector?.startTorrent(torrent.infoHash);
-        this.peerInjector?.announceSelf(torrent.infoHash);
+    const existing = this.client.get(file.infoHash);
+    if (existing) {
+      return { magnetUri: existing.magnetURI, torrentData: existing.torrentFile, infoHash: existing.infoHash };
+    }
 
-        this.emit('torrent-added', torrent.infoHash, torrent.name);
+    console.log(`[TorrentManager] Seeding indexed file: ${file.path}`);
 
-        resolve({
-          magnetUri,
-          torrentData: torrent.torrentFile,
-          infoHash: torrent.infoHash
-        });
+    const torrentData = TorrentFileUtils.createTorrentData(info);
+    const torrent = this.client.add(torrentData, {
+      path: path.dirname(file.path),
+      skipVerify: true
+    });
+
+    return new Promise((resolve, reject) => {
+      torrent.on('ready', () => {
+        resolve(this._registerSeed(torrent, path.dirname(file.path), torrentData));
       });
 
       torrent.on('error', reject);
     });
   }
 
+  /**
+   * Check if a torrent is loaded in the client
+   */
+  hasTorrent(infoHash: string): boolean {
+    return !!this.client?.has(infoHash);
+  }
+
+  /**
+   * Save a torrent we seed to the database and start announcing it
+   */
+  private _registerSeed(torrent: Torrent, savePath: string, torrentData?: Buffer): CreateTorrentResult {
+    const magnetUri = torrent.magnetURI;
+
+    // Save to database (replacing a row left over from an earlier session)
+    if (TorrentOps.getByInfoHash(torrent.infoHash)) {
+      TorrentOps.delete(torrent.infoHash);
+    }
+    const torrentId = TorrentOps.create({
+      infoHash: torrent.infoHash,
+      name: torrent.name,
+      totalSize: torrent.length,
+      pieceLength: torrent.pieceLength,
+      pieceCount: torrent.pieces?.length || 0,
+      pieces: '',
+      magnetUri: magnetUri,
+      torrentData,
+      savePath,
+      isSeeding: true
+    });
+
+    this.torrentDbIds.set(torrent.infoHash, torrentId);
+    this._trackQueueEntry(torrent.infoHash, torrentId);
+    this.seeds.add(torrent.infoHash);
+
+    // Add files to database
+    if (torrent.files && torrent.files.length > 0) {
+      const files: TorrentFile[] = torrent.files.map((f: any) => ({
+        path: f.path,
+        size: f.length,
+        offset: f.offset || 0
+      }));
+      TorrentFileOps.addFiles(torrentId, files);
+    }
+
+    this._setupTorrentEvents(torrent);
+
+    // Start peer injection and announcing
+    this.peerInjector?.startTorrent(torrent.infoHash);
+    this.peerInjector?.announceSelf(torrent.infoHash);
+
+    this.emit('torrent-added', torrent.infoHash, torrent.name);
+
+    // Waits in the queue if we already seed as many torrents as allowed
+    this._processQueue();
+
+    return {
+      magnetUri,
+      torrentData: torrent.torrentFile,
+      infoHash: torrent.infoHash
+    };
+  }
+
   /**
    * Remove a torrent
    */
@@ -519,11 +707,20 @@ export class TorrentManager extends EventEmitter {
     // Remove from tracking
     this.torrentDbIds.delete(infoHash);
     this.pendingMetadata.delete(infoHash);
+    this.queueEntries.delete(infoHash);
+    this.queued.delete(infoHash);
+    this.pausedByUser.delete(infoHash);
+    this.seeds.delete(infoHash);
+    this.waitingPeers.delete(infoHash);
+    getBandwidthLimiter().removeTorrent(infoHash);
 
     // Remove from database
     TorrentOps.delete(infoHash);
 
     this.emit('torrent-removed', infoHash);
+
+    // Start the next queued torrent
+    this._processQueue();
   }
 
   /**
@@ -533,23 +730,29 @@ export class TorrentManager extends EventEmitter {
     const torrent = this.client?.get(infoHash);
     if (!torrent) throw new Error(`Torrent not found: ${infoHash}`);
 
+    this.pausedByUser.add(infoHash);
+    this.queued.delete(infoHash);
+
     torrent.pause();
+    this.client!.disconnectTorrent(infoHash);
     this.peerInjector?.stopTorrent(infoHash);
     TorrentOps.setState(infoHash, TorrentState.PAUSED);
     this.emit('torrent-stopped', infoHash);
+
+    // Its slot goes to the next queued torrent
+    this._processQueue();
   }
 
   /**
-   * Resume a torrent
+   * Resume a torrent. It starts if there is a free slot and waits in the
+   * queue otherwise.
    */
   async resumeTorrent(infoHash: string): Promise<void> {
     const torrent = this.client?.get(infoHash);
     if (!torrent) throw new Error(`Torrent not found: ${infoHash}`);
 
-    torrent.resume();
-    this.peerInjector?.startTorrent(infoHash);
-    TorrentOps.setState(infoHash, TorrentState.DOWNLOADING);
-    this.emit('torrent-started', infoHash);
+    this.pausedByUser.delete(infoHash);
+    this._processQueue();
   }
 
   /**
@@ -585,6 +788,9 @@ export class TorrentManager extends EventEmitter {
    * Get torrent state from WebTorrent torrent
    */
   private _getTorrentState(torrent: Torrent): TorrentState {
+    if (this.queued.has(torrent.infoHash)) {
+      return TorrentState.QUEUED;
+    }
     if (torrent.done) {
       return TorrentState.SEEDING;
     }
@@ -612,6 +818,10 @@ export class TorrentManager extends EventEmitter {
   listTorrents(): TorrentInfo[] {
     if (!this.client) return [];
 
+    const ranks = this._queueRanks();
+
+    const limiter = getBandwidthLimiter();
+
     return this.client.torrents.map(torrent => ({
       infoHash: torrent.infoHash,
       name: torrent.name,
@@ -623,7 +833,10 @@ export class TorrentManager extends EventEmitter {
       peersCount: torrent.numPeers,
       seedersCount: 0,
       leechersCount: 0,
-      createdAt: 0
+      createdAt: 0,
+      priority: this._queueEntry(torrent.infoHash).priority,
+      queuePosition: ranks.get(torrent.infoHash) || 0,
+      ...limiter.getTorrentLimits(torrent.infoHash)
     }));
   }
 
@@ -631,9 +844,249 @@ export class TorrentManager extends EventEmitter {
    * Add peer to a torrent
    */
   async addPeer(infoHash: string, destination: string): Promise<boolean> {
+    // Paused torrents refuse peers: keep them until the torrent starts
+    if (this.queued.has(infoHash) || this.pausedByUser.has(infoHash)) {
+      let peers = this.waitingPeers.get(infoHash);
+      if (!peers) {
+        peers = new Set();
+        this.waitingPeers.set(infoHash, peers);
+      }
+      peers.add(destination);
+      return true;
+    }
+
     return this.client?.addI2PPeer(infoHash, destination) ?? false;
   }
 
+  /**
+   * Move a torrent within the queue. Torrents move among those of the same
+   * priority, downloads and seeds each in their own queue.
+   */
+  moveInQueue(infoHash: string, move: QueueMove): void {
+    const torrent = this.client?.get(infoHash);
+    if (!torrent) throw new Error(`Torrent not found: ${infoHash}`);
+
+    const entry = this._queueEntry(infoHash);
+    const seed = this._isSeed(torrent);
+    const band = this._queueOrder().filter(t =>
+      this._isSeed(t) === seed && this._queueEntry(t.infoHash).priority === entry.priority
+    );
+
+    // The band keeps its positions, handed out in the new order
+    const positions = band.map(t => this._queueEntry(t.infoHash).position);
+    const index = band.indexOf(torrent);
+    const order = band.filter(t => t !== torrent);
+    const target = move === 'top' ? 0
+      : move === 'bottom' ? order.length
+      : move === 'up' ? Math.max(0, index - 1)
+      : Math.min(order.length, index + 1);
+    order.splice(target, 0, torrent);
+
+    const changed = new Map<string, number>();
+    order.forEach((t, i) => {
+      const tEntry = this._queueEntry(t.infoHash);
+      if (tEntry.position !== positions[i]) {
+        tEntry.position = positions[i];
+        this.queueEntries.set(t.infoHash, tEntry);
+        changed.set(t.infoHash, positions[i]);
+      }
+    });
+
+    if (changed.size === 0) return;
+    TorrentOps.setQueuePositions(changed);
+
+    this._processQueue();
+    this.emit('queue-changed');
+  }
+
+  /**
+   * Set a torrent's priority: higher priority torrents start first
+   */
+  setPriority(infoHash: string, priority: TorrentPriority): void {
+    if (!this.client?.has(infoHash)) throw new Error(`Torrent not found: ${infoHash}`);
+    if (TorrentPriority[priority] === undefined) throw new Error(`Invalid priority: ${priority}`);
+
+    this.queueEntries.set(infoHash, { ...this._queueEntry(infoHash), priority });
+    TorrentOps.setPriority(infoHash, priority);
+
+    this._processQueue();
+    this.emit('queue-changed');
+  }
+
+  /**
+   * Set a torrent's own upload and download limits in bytes/s (0 = only
+   * the global limit applies)
+   */
+  setBandwidthLimits(infoHash: string, limits: BandwidthLimits): void {
+    if (!this.client?.has(infoHash)) throw new Error(`Torrent not found: ${infoHash}`);
+
+    const uploadLimit = Math.max(0, Math.floor(limits.uploadLimit));
+    const downloadLimit = Math.max(0, Math.floor(limits.downloadLimit));
+
+    getBandwidthLimiter().setTorrentLimits(infoHash, { uploadLimit, downloadLimit });
+    TorrentOps.setBandwidthLimits(infoHash, uploadLimit, downloadLimit);
+  }
+
+  /**
+   * Change how many peers each torrent uploads to at once
+   */
+  setUploadSlots(slots: number): void {
+    this.config.maxUploadSlots = Math.max(1, Math.floor(slots));
+    this.client?.setUploadSlots(this.config.maxUploadSlots);
+  }
+
+  /**
+   * Active download and seed limits
+   */
+  getQueueLimits(): QueueLimits {
+    return {
+      maxActiveDownloads: this.config.maxActiveTorrents,
+      maxActiveSeeds: this.config.maxActiveSeeds
+    };
+  }
+
+  /**
+   * Change the active download and seed limits, starting or queueing
+   * torrents to match
+   */
+  setQueueLimits(limits: Partial<QueueLimits>): void {
+    if (limits.maxActiveDownloads !== undefined) {
+      this.config.maxActiveTorrents = Math.max(0, Math.floor(limits.maxActiveDownloads));
+    }
+    if (limits.maxActiveSeeds !== undefined) {
+      this.config.maxActiveSeeds = Math.max(0, Math.floor(limits.maxActiveSeeds));
+    }
+
+    this._processQueue();
+    this.emit('queue-changed');
+  }
+
+  /**
+   * Give the active slots to the first torrents in queue order (downloads and
+   * seeds separately) and queue the rest. Torrents paused by the user don't
+   * take a slot.
+   */
+  private _processQueue(): void {
+    if (!this.client) return;
+
+    const downloads: Torrent[] = [];
+    const seeds: Torrent[] = [];
+
+    for (const torrent of this._queueOrder()) {
+      if (this.pausedByUser.has(torrent.infoHash)) continue;
+      (this._isSeed(torrent) ? seeds : downloads).push(torrent);
+    }
+
+    for (const [torrents, limit] of [[downloads, this.config.maxActiveTorrents], [seeds, this.config.maxActiveSeeds]] as const) {
+      // Queue first, so the number of active torrents never goes over the limit
+      torrents.forEach((torrent, index) => {
+        if (limit > 0 && index >= limit) this._queueTorrent(torrent);
+      });
+      torrents.forEach((torrent, index) => {
+        if (limit <= 0 || index < limit) this._startTorrent(torrent);
+      });
+    }
+  }
+
+  /**
+   * Start a torrent that was waiting in the queue (or added paused)
+   */
+  private _startTorrent(torrent: Torrent): void {
+    const infoHash = torrent.infoHash;
+    const wasQueued = this.queued.delete(infoHash);
+    if (!wasQueued && !torrent.paused) return;
+
+    torrent.resume();
+    this.peerInjector?.startTorrent(infoHash);
+    TorrentOps.setState(infoHash, this._isSeed(torrent) ? TorrentState.SEEDING : TorrentState.DOWNLOADING);
+
+    // Connect the peers we were given while it waited
+    const peers = this.waitingPeers.get(infoHash);
+    if (peers) {
+      this.waitingPeers.delete(infoHash);
+      for (const destination of peers) {
+        this.client?.addI2PPeer(infoHash, destination).catch(() => {});
+      }
+    }
+
+    if (wasQueued) {
+      console.log(`[TorrentManager] Starting queued torrent: ${torrent.name || infoHash.substring(0, 16)}`);
+
+      // Skipped when it was added (or loaded) into the queue
+      if (this.config.localDestination) {
+        this._announceToNetwork(infoHash);
+      }
+    }
+    this.emit('torrent-started', infoHash);
+  }
+
+  /**
+   * Put a torrent in the queue, disconnecting it if it was running
+   */
+  private _queueTorrent(torrent: Torrent): void {
+    const infoHash = torrent.infoHash;
+    if (this.queued.has(infoHash)) return;
+
+    const wasRunning = !torrent.paused;
+    this.queued.add(infoHash);
+
+    torrent.pause();
+    if (wasRunning) {
+      this.client?.disconnectTorrent(infoHash);
+      console.log(`[TorrentManager] Queued: ${torrent.name || infoHash.substring(0, 16)}`);
+    }
+    this.peerInjector?.stopTorrent(infoHash);
+    TorrentOps.setState(infoHash, TorrentState.QUEUED);
+    this.emit('torrent-queued', infoHash);
+  }
+
+  /**
+   * Torrents in queue order: by priority, then position
+   */
+  private _queueOrder(): Torrent[] {
+    if (!this.client) return [];
+
+    return [...this.client.torrents].sort((a, b) => {
+      const entryA = this._queueEntry(a.infoHash);
+      const entryB = this._queueEntry(b.infoHash);
+      return entryB.priority - entryA.priority || entryA.position - entryB.position;
+    });
+  }
+
+  /**
+   * Place of each torrent in its queue (downloads and seeds counted separately)
+   */
+  private _queueRanks(): Map<string, number> {
+    const ranks = new Map<string, number>();
+    let downloads = 0;
+    let seeds = 0;
+
+    for (const torrent of this._queueOrder()) {
+      if (this.pausedByUser.has(torrent.infoHash)) continue;
+      ranks.set(torrent.infoHash, this._isSeed(torrent) ? ++seeds : ++downloads);
+    }
+    return ranks;
+  }
+
+  private _queueEntry(infoHash: string): QueueEntry {
+    return this.queueEntries.get(infoHash) || { position: Number.MAX_SAFE_INTEGER, priority: TorrentPriority.NORMAL };
+  }
+
+  /**
+   * Remember the queue position the database gave a new torrent
+   */
+  private _trackQueueEntry(infoHash: string, torrentId: number): void {
+    const row = TorrentOps.getById(torrentId);
+    this.queueEntries.set(infoHash, {
+      position: row?.queuePosition ?? torrentId,
+      priority: row?.priority ?? TorrentPriority.NORMAL
+    });
+  }
+
+  private _isSeed(torrent: Torrent): boolean {
+    return torrent.done || this.seeds.has(torrent.infoHash);
+  }
+
   /**
    * Get global statistics
    */
@@ -677,6 +1130,8 @@ export class TorrentManager extends EventEmitter {
    * Announce torrent to I2P network (trackers + DHT)
    */
   private _announceToNetwork(infoHash: string): void {
+    if (!this.mayAnnounce(infoHash)) return;
+
     // Announce to trackers
     this.multiTracker.announceAll(infoHash, 'started').catch(err => {
       console.warn(`[TorrentManager] Tracker announce failed: ${err.message}`);
@@ -695,10 +1150,32 @@ export class TorrentManager extends EventEmitter {
    */
   setLocalDestination(destination: string): void {
     this.config.localDestination = destination;
-    this.multiTracker.setLocalDestination(destination);
+    // Trackers get the destination peers can connect to
+    this.multiTracker.setLocalDestination(this.seedingDestination || destination);
     this.peerInjector?.setLocalDestination(destination);
   }
 
+  /**
+   * Destination we accept BitTorrent connections on (empty until listening)
+   */
+  getSeedingDestination(): string {
+    return this.seedingDestination;
+  }
+
+  /**
+   * Incoming connection stats, null if we don't accept connections
+   */
+  getListenerStats(): I2PStreamListenerStats | null {
+    return this.streamListener?.getStats() || null;
+  }
+
+  /**
+   * Shared SAM session stats: tunnel counts and outbound connect times
+   */
+  getTunnelStats(): SAMTunnelStats {
+    return getSAMSessionManager().getTunnelStats();
+  }
+
   /**
    * Set DHT engine for peer discovery
    */
@@ -707,6 +1184,36 @@ export class TorrentManager extends EventEmitter {
     this.peerInjector?.setDHTEngine(dhtEngine);
   }
 
+  /**
+   * Set the check deciding which destinations we connect to and accept
+   */
+  setPeerFilter(filter: (destination: string, infoHash?: string) => boolean): void {
+    this.client?.setPeerFilter(filter);
+  }
+
+  /**
+   * Set the check deciding which torrents are announced to trackers and the
+   * DHT (e.g. not friends-only files)
+   */
+  setAnnounceFilter(filter: (infoHash: string) => boolean): void {
+    this.announceFilter = filter;
+    this.peerInjector?.setAnnounceFilter(filter);
+  }
+
+  /**
+   * Whether a torrent passes the announce filter
+   */
+  mayAnnounce(infoHash: string): boolean {
+    return !this.announceFilter || this.announceFilter(infoHash);
+  }
+
+  /**
+   * Disconnect a peer from all torrents
+   */
+  dropPeer(destination: string): void {
+    this.client?.dropPeer(destination);
+  }
+
   /**
    * Set tracker addresses
    */
@@ -741,7 +1248,7 @@ export class TorrentManager extends EventEmitter {
     event?: 'started' | 'completed' | 'stopped'
   ): Promise<void> {
     const torrent = this.client?.get(infoHash);
-    if (!torrent) return;
+    if (!torrent || !this.mayAnnounce(infoHash)) return;
 
     const stats = {
       uploaded: torrent.uploaded,
@@ -783,7 +1290,7 @@ export class TorrentManager extends EventEmitter {
    * Announce a torrent to DHT
    */
   async announceToDHT(infoHash: string): Promise<void> {
-    if (!this.dhtEngine) return;
+    if (!this.dhtEngine || !this.mayAnnounce(infoHash)) return;
 
     console.log(`[TorrentManager] Announcing to DHT: ${infoHash.substring(0, 16)}...`);
 
@@ -802,6 +1309,13 @@ export class TorrentManager extends EventEmitter {
     return this.multiTracker.discoverTrackers(this.dhtEngine);
   }
 
+  /**
+   * Scrape all online trackers for seeders/leechers of the given torrents
+   */
+  async scrape(infoHashes: string[]): Promise<Map<string, MultiScrapeResult>> {
+    return this.multiTracker.scrapeAll(infoHashes);
+  }
+
   /**
    * Get multi-tracker stats
    */
@@ -827,20 +1341,34 @@ export class TorrentManager extends EventEmitter {
 
     // Send stopped event to all trackers
     for (const infoHash of this.torrentDbIds.keys()) {
+      if (!this.mayAnnounce(infoHash)) continue;
       await this.multiTracker.stopAnnounce(infoHash).catch(() => {});
     }
 
     // Stop peer injector
     this.peerInjector?.cleanup();
 
+    // Stop accepting connections
+    await this.streamListener?.stop();
+    this.streamListener = null;
+    this.seedingDestination = '';
+
     // Cleanup multi-tracker
     this.multiTracker.cleanup();
 
     // Destroy WebTorrent client
     await this.client?.destroy();
 
+    // Close the shared SAM sessions
+    closeSAMSessionManager();
+
     this.torrentDbIds.clear();
     this.pendingMetadata.clear();
+    this.queueEntries.clear();
+    this.queued.clear();
+    this.pausedByUser.clear();
+    this.seeds.clear();
+    this.waitingPeers.clear();
     this.isInitialized = false;
 
     console.log('[TorrentManager] Shutdown complete');
@@ -5,8 +5,9 @@
  * All network activity is routed through I2P only.
  */
 
-import type { Torrent, TorrentOptions, Instance as WebTorrentInstance, Options as WebTorrentOptions } from 'webtorrent';
+import type { Torrent, TorrentOptions, Wire, Instance as WebTorrentInstance, Options as WebTorrentOptions } from 'webtorrent';
 import { EventEmitter } from 'events';
+import { destinationKey } from '../../shared/utils.js';
 import { I2PSocketAdapter, createI2PSocketSync } from './i2p-socket-adapter.js';
 
 // Dynamically loaded WebTorrent module
@@ -35,6 +36,27 @@ const I2P_STRICT_CONFIG: Partial<WebTorrentOptions> = {
   utp: false,           // Disable uTP (UDP, not supported over I2P)
 };
 
+/**
+ * Torrent internals this client relies on (webtorrent 2.x): its wires, the
+ * peer (with its connection) behind each wire, and the unchoke slot count
+ */
+interface TorrentInternals {
+  wires: Wire[];
+  _peers?: Map<string, { wire: Wire | null; conn: any }>;
+  _rechokeNumSlots: number;
+}
+
+/**
+ * Client connection pool (webtorrent 2.x): takes connections accepted
+ * elsewhere and hands each to the torrent its handshake names
+ */
+interface ConnPoolInternals {
+  _onConnection(conn: I2PSocketAdapter, type: 'tcp' | 'utp'): void;
+}
+
+// Major version whose internals the accessors above were written against
+const SUPPORTED_WEBTORRENT_MAJOR = 2;
+
 /**
  * Client configuration
  */
@@ -49,6 +71,8 @@ export interface I2PClientConfig {
   downloadPath: string;
   /** Maximum peer connections per torrent */
   maxConns?: number;
+  /** Peers each torrent uploads to at once (unchoke slots) */
+  uploadSlots?: number;
 }
 
 /**
@@ -61,6 +85,8 @@ export interface I2PTorrentOptions {
   announce?: string[];
   /** Skip hash check */
   skipVerify?: boolean;
+  /** Add without connecting to peers (until resumed) */
+  paused?: boolean;
 }
 
 /**
@@ -82,6 +108,8 @@ export class WebTorrentI2PClient extends EventEmitter {
   private client!: WebTorrentInstance;
   private config: Required<I2PClientConfig>;
   private sockets: Map<string, I2PSocketAdapter> = new Map();
+  private inboundSockets: Set<I2PSocketAdapter> = new Set();
+  private peerFilter: ((destination: string, infoHash?: string) => boolean) | null = null;
   private _destroyed: boolean = false;
   private _initialized: boolean = false;
 
@@ -93,7 +121,8 @@ export class WebTorrentI2PClient extends EventEmitter {
       samPortTCP: config.samPortTCP || 7656,
       timeout: config.timeout || 120,
       downloadPath: config.downloadPath,
-      maxConns: config.maxConns || 50
+      maxConns: config.maxConns || 50,
+      uploadSlots: config.uploadSlots || 10
     };
   }
 
@@ -113,6 +142,10 @@ export class WebTorrentI2PClient extends EventEmitter {
       uploadLimit: -1,
     } as WebTorrentOptions);
 
+    if (!this._isSupportedWebTorrent()) {
+      console.warn(`[WebTorrent-I2P] WebTorrent ${WT.VERSION} is not ${SUPPORTED_WEBTORRENT_MAJOR}.x, incoming I2P peers are disabled`);
+    }
+
     this._setupClientEvents();
     this._initialized = true;
 
@@ -160,6 +193,18 @@ export class WebTorrentI2PClient extends EventEmitter {
     });
 
     torrent.on('wire', (wire: any) => {
+      const conn = this._wireConnection(torrent, wire);
+      // Incoming connections only learn their torrent from the handshake
+      if (conn instanceof I2PSocketAdapter) {
+        conn.setInfoHash(torrent.infoHash);
+      }
+
+      const address = wire.remoteAddress || conn?.remoteAddress || '';
+      if (!this.isPeerAllowed(address, torrent.infoHash)) {
+        console.log(`[WebTorrent-I2P] Refused wire from ${address ? `${address.substring(0, 16)}...` : 'unknown peer'} on ${torrent.infoHash.substring(0, 16)}...`);
+        wire.destroy();
+        return;
+      }
       this.emit('wire', torrent, wire);
     });
 
@@ -169,6 +214,45 @@ export class WebTorrentI2PClient extends EventEmitter {
     });
   }
 
+  /**
+   * b32 address of a wire's peer. I2P sockets report port 0, so WebTorrent
+   * doesn't copy their address to the wire: look it up on the connection.
+   */
+  private _wireAddress(torrent: Torrent, wire: any): string {
+    return wire.remoteAddress || this._wireConnection(torrent, wire)?.remoteAddress || '';
+  }
+
+  /**
+   * Connection (socket) under a wire
+   */
+  private _wireConnection(torrent: Torrent, wire: any): any {
+    for (const peer of this._internals(torrent)._peers?.values() || []) {
+      if (peer.wire === wire) return peer.conn || null;
+    }
+    return null;
+  }
+
+  /**
+   * WebTorrent internals of a torrent
+   */
+  private _internals(torrent: Torrent): TorrentInternals {
+    return torrent as unknown as TorrentInternals;
+  }
+
+  /**
+   * WebTorrent's connection pool, or null when the loaded version may not
+   * have the one we know (or the client has none yet)
+   */
+  private _connectionPool(): ConnPoolInternals | null {
+    if (!this._isSupportedWebTorrent()) return null;
+    const connPool = (this.client as unknown as { _connPool?: ConnPoolInternals | null })._connPool;
+    return typeof connPool?._onConnection === 'function' ? connPool : null;
+  }
+
+  private _isSupportedWebTorrent(): boolean {
+    return parseInt(WebTorrent?.VERSION || '', 10) === SUPPORTED_WEBTORRENT_MAJOR;
+  }
+
   /**
    * Add a torrent from .torrent file, magnet URI, or infoHash
    */
@@ -180,6 +264,8 @@ export class WebTorrentI2PClient extends EventEmitter {
       path: options?.path || this.config.downloadPath,
       announce: [], // We inject peers manually
       skipVerify: options?.skipVerify || false,
+      paused: options?.paused || false,
+      uploads: this.config.uploadSlots,
     } as TorrentOptions);
 
     this._setupTorrentEvents(torrent);
@@ -203,6 +289,76 @@ export class WebTorrentI2PClient extends EventEmitter {
     return torrent;
   }
 
+  /**
+   * Set the check deciding which destinations we exchange data with, for
+   * any torrent or a given one (e.g. the user's blocklist, friends-only files).
+   * Wires whose address is unknown are checked with an empty destination.
+   */
+  setPeerFilter(filter: (destination: string, infoHash?: string) => boolean): void {
+    this.peerFilter = filter;
+  }
+
+  /**
+   * Whether a destination (full base64 or b32) passes the peer filter
+   */
+  isPeerAllowed(destination: string, infoHash?: string): boolean {
+    return !this.peerFilter || this.peerFilter(destination, infoHash);
+  }
+
+  /**
+   * Disconnect a peer from every torrent (e.g. after blocking it)
+   */
+  dropPeer(destination: string): void {
+    const b32 = destinationKey(destination);
+
+    for (const [key, socket] of this.sockets) {
+      if (socket.b32Address === b32) {
+        socket.close().catch(() => {});
+        this.sockets.delete(key);
+      }
+    }
+
+    for (const socket of this.inboundSockets) {
+      if (socket.b32Address === b32) socket.destroy();
+    }
+
+    for (const torrent of this.client.torrents) {
+      for (const wire of [...this._internals(torrent).wires]) {
+        if (this._wireAddress(torrent, wire) === b32) wire.destroy();
+      }
+    }
+  }
+
+  /**
+   * Change how many peers each torrent uploads to at once. Running torrents
+   * pick it up at their next rechoke.
+   */
+  setUploadSlots(slots: number): void {
+    this.config.uploadSlots = Math.max(1, Math.floor(slots));
+    for (const torrent of this.client.torrents) {
+      this._internals(torrent)._rechokeNumSlots = this.config.uploadSlots;
+    }
+  }
+
+  /**
+   * Disconnect every peer of a torrent (e.g. when it goes back to the queue)
+   */
+  disconnectTorrent(infoHash: string): void {
+    for (const [key, socket] of this.sockets) {
+      if (key.startsWith(`${infoHash}:`)) {
+        socket.close().catch(() => {});
+        this.sockets.delete(key);
+      }
+    }
+
+    const torrent = this.get(infoHash);
+    if (torrent) {
+      for (const wire of [...this._internals(torrent).wires]) {
+        wire.destroy();
+      }
+    }
+  }
+
   /**
    * Add an I2P peer to a torrent
    * This is the primary way to connect to peers over I2P
@@ -212,12 +368,17 @@ export class WebTorrentI2PClient extends EventEmitter {
    * @returns true if peer was added successfully
    */
   async addI2PPeer(infoHash: string, destination: string): Promise<boolean> {
-    const torrent = this.client.get(infoHash);
+    const torrent = this.get(infoHash);
     if (!torrent) {
       console.warn(`[WebTorrent-I2P] Torrent not found: ${infoHash.substring(0, 16)}...`);
       return false;
     }
 
+    if (!this.isPeerAllowed(destination, infoHash)) {
+      console.log(`[WebTorrent-I2P] Not connecting to refused peer`);
+      return false;
+    }
+
     // Create unique key for this socket
     const socketKey = `${infoHash}:${destination.substring(0, 32)}`;
 
@@ -238,6 +399,7 @@ export class WebTorrentI2PClient extends EventEmitter {
         samPortTCP: this.config.samPortTCP,
         timeout: this.config.timeout
       });
+      socket.setInfoHash(infoHash);
 
       // Connect to I2P destination
       await socket.connect(destination);
@@ -273,18 +435,46 @@ export class WebTorrentI2PClient extends EventEmitter {
     }
   }
 
+  /**
+   * Take an incoming I2P connection. WebTorrent routes it to a torrent once
+   * the peer's handshake names one; the peer filter is checked again then.
+   *
+   * @returns true if the connection was accepted
+   */
+  addIncomingConnection(socket: I2PSocketAdapter): boolean {
+    const connPool = this._connectionPool();
+
+    if (this._destroyed || !connPool) {
+      socket.destroy();
+      return false;
+    }
+
+    if (!this.isPeerAllowed(socket.destination)) {
+      console.log(`[WebTorrent-I2P] Refused incoming peer ${socket.b32Address.substring(0, 16)}...`);
+      socket.destroy();
+      return false;
+    }
+
+    this.inboundSockets.add(socket);
+    socket.once('close', () => this.inboundSockets.delete(socket));
+
+    connPool._onConnection(socket, 'tcp');
+    return true;
+  }
+
   /**
    * Get a torrent by infoHash
    */
   get(infoHash: string): Torrent | null {
-    return this.client.get(infoHash) || null;
+    // WebTorrent's own get() is async (it parses any torrent identifier)
+    return this.client.torrents.find(t => t.infoHash === infoHash) || null;
   }
 
   /**
    * Check if a torrent exists
    */
   has(infoHash: string): boolean {
-    return this.client.get(infoHash) !== null;
+    return this.get(infoHash) !== null;
   }
 
   /**
@@ -292,7 +482,7 @@ export class WebTorrentI2PClient extends EventEmitter {
    */
   async remove(infoHash: string, removeData: boolean = false): Promise<void> {
     return new Promise((resolve, reject) => {
-      const torrent = this.client.get(infoHash);
+      const torrent = this.get(infoHash);
       if (!torrent) {
         resolve();
         return;
@@ -361,7 +551,7 @@ export class WebTorrentI2PClient extends EventEmitter {
    */
   get connectionCount(): number {
     let count = 0;
-    for (const socket of this.sockets.values()) {
+    for (const socket of [...this.sockets.values(), ...this.inboundSockets]) {
       if (socket.isConnected()) count++;
     }
     return count;
@@ -390,6 +580,11 @@ export class WebTorrentI2PClient extends EventEmitter {
     await Promise.all(closePromises);
     this.sockets.clear();
 
+    for (const socket of this.inboundSockets) {
+      socket.destroy();
+    }
+    this.inboundSockets.clear();
+
     // Destroy WebTorrent client
     return new Promise((resolve, reject) => {
       this.client.destroy((err?: Error) => {
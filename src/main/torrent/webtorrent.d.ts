@@ -105,6 +105,7 @@ declare module 'webtorrent' {
   }
 
   class WebTorrent extends EventEmitter implements Instance {
+    static VERSION: string;
     constructor(opts?: Options);
     torrents: Torrent[];
     downloadSpeed: number;
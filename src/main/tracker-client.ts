@@ -12,6 +12,8 @@ import {
     SigningKeypair,
     verifySignedMessage
 } from '../shared/utils.js';
+import { peerLimiter } from './peer-limiter.js';
+import { RPCMessage, rpc } from './rpc.js';
 
 interface TrackerPeer {
   destination: string;
@@ -41,6 +43,7 @@ interface TrackerClientConfig {
   refreshInterval: number;
   connectionTimeout: number;
   heartbeatInterval: number; // Interval for sending PING to tracker (heartbeat)
+  maxFailures: number; // Unanswered requests in a row before switching trackers
 }
 
 // Default community trackers (can be overridden by user)
@@ -52,7 +55,6 @@ export const DEFAULT_TRACKERS: string[] = [
 
 export class TrackerClient extends EventEmitter {
   private config: TrackerClientConfig;
-  private sendMessage: ((dest: string, msg: any) => Promise<boolean>) | null = null;
   private myDestination: string = '';
   private streamingDestination: string = ''; // Destination for streaming file server
   private displayName: string = 'I2P Share User';
@@ -65,7 +67,7 @@ export class TrackerClient extends EventEmitter {
   private isConnected: boolean = false;
   private activeTrackerIndex: number = -1;
   private failedTrackers: Set<number> = new Set();
-  private lastResponseTime: Map<string, number> = new Map();
+  private trackerFailures: number = 0;
   private signingKeys: SigningKeypair | null = null;
   private usedNonces: Set<string> = new Set(); // Replay attack protection
   private nodeId: string = ''; // DHT node ID for bootstrap
@@ -78,7 +80,8 @@ export class TrackerClient extends EventEmitter {
       announceInterval: config.announceInterval || 2 * 60 * 1000,
       refreshInterval: config.refreshInterval || 60 * 1000,
       connectionTimeout: config.connectionTimeout || 30 * 1000,
-      heartbeatInterval: config.heartbeatInterval || 60 * 1000 // 60 seconds heartbeat
+      heartbeatInterval: config.heartbeatInterval || 60 * 1000, // 60 seconds heartbeat
+      maxFailures: config.maxFailures || 2
     };
 
     // Load or generate signing keys
@@ -127,6 +130,13 @@ export class TrackerClient extends EventEmitter {
     return this.signingKeys?.publicKey || null;
   }
 
+  /**
+   * Signing keys shared with the DHT, whose node ID derives from the public key
+   */
+  getSigningKeys(): SigningKeypair {
+    return this.signingKeys!;
+  }
+
   // Set tracker addresses (replaces the list) - these are user-configured and have priority
   setTrackerAddresses(addresses: string[], isUserConfigured: boolean = true): void {
     const filtered = addresses.filter(a => a && a.trim().length > 0);
@@ -192,10 +202,6 @@ export class TrackerClient extends EventEmitter {
     return null;
   }
 
-  setMessageHandler(handler: (dest: string, msg: any) => Promise<boolean>): void {
-    this.sendMessage = handler;
-  }
-
   setIdentity(destination: string, displayName: string = 'I2P Share User'): void {
     this.myDestination = destination;
     this.displayName = displayName;
@@ -268,7 +274,7 @@ export class TrackerClient extends EventEmitter {
       return false;
     }
 
-    if (!this.sendMessage) {
+    if (!rpc.isReady()) {
       console.error('[TrackerClient] No message handler set');
       return false;
     }
@@ -289,12 +295,10 @@ export class TrackerClient extends EventEmitter {
     const tracker = this.config.trackerAddresses[this.activeTrackerIndex];
     console.log(`[TrackerClient] Connecting to tracker ${this.activeTrackerIndex + 1}/${this.config.trackerAddresses.length}: ${tracker.substring(0, 20)}...`);
 
-    // Send initial announce with exponential backoff retry
-    // Only retry if we don't get a response (tracked by lastResponseTime)
-    await this.announce();
+    this.trackerFailures = 0;
 
-    // Wait for I2P network latency (I2P has high latency due to tunnel encryption)
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // Send initial announce (retried by the RPC layer until the tracker answers)
+    await this.announce();
 
     // Request peer list - the response also confirms announce was received
     await this.requestPeers();
@@ -321,8 +325,8 @@ export class TrackerClient extends EventEmitter {
     };
 
     // Announce periodically with jitter
-    // Single announce is sufficient - if tracker doesn't respond,
-    // health check will trigger a re-announce or tracker switch
+    // Single announce is sufficient - unanswered requests are retried,
+    // and repeated failures switch trackers
     this.announceTimer = setInterval(async () => {
       await this.announce();
     }, addJitter(this.config.announceInterval));
@@ -330,7 +334,6 @@ export class TrackerClient extends EventEmitter {
     // Refresh peer list periodically with jitter
     this.refreshTimer = setInterval(() => {
       this.requestPeers();
-      this.checkTrackerHealth();
     }, addJitter(this.config.refreshInterval));
 
     // Heartbeat (PING) every 60 seconds to maintain presence
@@ -354,28 +357,6 @@ export class TrackerClient extends EventEmitter {
     }
   }
 
-  // Check if current tracker is responding
-  private async checkTrackerHealth(): Promise<void> {
-    const tracker = this.getActiveTracker();
-    if (!tracker) return;
-
-    const lastResponse = this.lastResponseTime.get(tracker) || 0;
-    const timeSinceResponse = Date.now() - lastResponse;
-
-    // If no response in 2x refresh interval, try re-announcing first
-    if (lastResponse > 0 && timeSinceResponse > this.config.refreshInterval * 2) {
-      console.log(`[TrackerClient] Tracker not responding, attempting re-announce...`);
-      await this.announce();
-
-      // If still no response after 3x refresh interval, switch trackers
-      if (timeSinceResponse > this.config.refreshInterval * 3) {
-        console.log(`[TrackerClient] Tracker still not responding, switching...`);
-        this.failedTrackers.add(this.activeTrackerIndex);
-        await this.switchTracker();
-      }
-    }
-  }
-
   // Switch to a different tracker
   private async switchTracker(): Promise<void> {
     const oldTracker = this.activeTrackerIndex;
@@ -395,36 +376,61 @@ export class TrackerClient extends EventEmitter {
     const tracker = this.config.trackerAddresses[this.activeTrackerIndex];
     console.log(`[TrackerClient] Switched to tracker ${this.activeTrackerIndex + 1}: ${tracker.substring(0, 20)}...`);
 
-    // Announce to new tracker with small delay for I2P latency
+    this.trackerFailures = 0;
     await this.announce();
-    await new Promise(resolve => setTimeout(resolve, 1500));
     await this.requestPeers();
   }
 
   /**
-   * Send a signed message to the tracker
+   * Sign outgoing tracker messages (fresh nonce for every attempt)
    */
-  private async sendSignedMessage(destination: string, message: TrackerMessage): Promise<boolean> {
-    if (!this.sendMessage) return false;
-
+  private sign = (message: RPCMessage): object => {
     if (this.signingKeys) {
-      // Create signed message
-      const signedMsg = createSignedMessage(
-        message,
-        this.signingKeys.privateKey,
-        this.signingKeys.publicKey
-      );
-      return this.sendMessage(destination, signedMsg);
-    } else {
-      // Fallback to unsigned (legacy)
-      return this.sendMessage(destination, message);
+      return createSignedMessage(message, this.signingKeys.privateKey, this.signingKeys.publicKey);
+    }
+    // Fallback to unsigned (legacy)
+    return message;
+  };
+
+  /**
+   * Send a request to the active tracker and handle its reply. Trackers that
+   * stop answering are switched after maxFailures unanswered requests in a row.
+   * Returns false if the request failed.
+   */
+  private async requestTracker(tracker: string, type: TrackerMessage['type'], payload: any, responseType: TrackerMessage['type']): Promise<boolean> {
+    try {
+      const response = await rpc.request(tracker, type, payload, {
+        wrap: this.sign,
+        match: (message) => (message.data?.type ?? message.type) === responseType
+      });
+
+      this.trackerFailures = 0;
+      this.handleMessage(response.from, response.message);
+      return true;
+    } catch (error: any) {
+      console.error(`[TrackerClient] ${type} failed: ${error.message}`);
+
+      // The tracker may have changed while we waited
+      if (tracker !== this.getActiveTracker()) return false;
+
+      this.trackerFailures++;
+      if (this.trackerFailures >= this.config.maxFailures) {
+        console.log(`[TrackerClient] Tracker not responding (${this.trackerFailures} failed requests), switching...`);
+        this.failedTrackers.add(this.activeTrackerIndex);
+        this.trackerFailures = 0;
+        // Not awaited: the caller (e.g. connect) shouldn't wait for the next tracker
+        this.switchTracker().catch((error: Error) => {
+          console.error('[TrackerClient] Switching tracker failed:', error.message);
+        });
+      }
+      return false;
     }
   }
 
   async announce(): Promise<void> {
     const tracker = this.getActiveTracker();
-    if (!this.sendMessage || !tracker) {
-      console.log(`[TrackerClient] Cannot announce: sendMessage=${!!this.sendMessage}, tracker=${!!tracker}`);
+    if (!rpc.isReady() || !tracker) {
+      console.log(`[TrackerClient] Cannot announce: sendMessage=${rpc.isReady()}, tracker=${!!tracker}`);
       return;
     }
 
@@ -451,36 +457,19 @@ export class TrackerClient extends EventEmitter {
       payload.nodeId = this.nodeId;
     }
 
-    const message: TrackerMessage = {
-      type: 'ANNOUNCE',
-      payload,
-      timestamp: Date.now()
-    };
-
-    try {
-      await this.sendSignedMessage(tracker, message);
+    // The tracker answers with the peer list
+    if (await this.requestTracker(tracker, 'ANNOUNCE', payload, 'PEERS_LIST')) {
       console.log('[TrackerClient] Announced to tracker:', tracker.substring(0, 20) + '...');
-    } catch (error: any) {
-      console.error('[TrackerClient] Announce failed:', error.message);
     }
   }
 
   async requestPeers(): Promise<void> {
     const tracker = this.getActiveTracker();
-    if (!this.sendMessage || !tracker) return;
+    if (!rpc.isReady() || !tracker) return;
 
     // Use the tracker address directly - it should be a full I2P destination
-    const message: TrackerMessage = {
-      type: 'GET_PEERS',
-      payload: {},
-      timestamp: Date.now()
-    };
-
-    try {
-      await this.sendSignedMessage(tracker, message);
-      console.log('[TrackerClient] Requested peer list from tracker');
-    } catch (error: any) {
-      console.error('[TrackerClient] Request peers failed:', error.message);
+    if (await this.requestTracker(tracker, 'GET_PEERS', {}, 'PEERS_LIST')) {
+      console.log('[TrackerClient] Received peer list from tracker');
     }
   }
 
@@ -489,19 +478,9 @@ export class TrackerClient extends EventEmitter {
    */
   async sendPing(): Promise<void> {
     const tracker = this.getActiveTracker();
-    if (!this.sendMessage || !tracker) return;
-
-    const message: TrackerMessage = {
-      type: 'PING',
-      payload: {},
-      timestamp: Date.now()
-    };
+    if (!rpc.isReady() || !tracker) return;
 
-    try {
-      await this.sendSignedMessage(tracker, message);
-    } catch (error: any) {
-      console.error('[TrackerClient] Ping failed:', error.message);
-    }
+    await this.requestTracker(tracker, 'PING', {}, 'PONG');
   }
 
   handleMessage(from: string, message: any): boolean {
@@ -557,12 +536,16 @@ export class TrackerClient extends EventEmitter {
 
       if (!verification.valid) {
         console.log(`[TrackerClient] Rejected tracker message: ${verification.error}`);
+        if (verification.error === 'Invalid signature') {
+          peerLimiter.penalize(from, 'invalid-signature');
+        }
         return true; // Handled (rejected)
       }
 
       // Check for replay attack
       if (this.usedNonces.has(message.nonce)) {
         console.log('[TrackerClient] Rejected tracker message: Nonce reused');
+        peerLimiter.penalize(from, 'replayed-nonce');
         return true;
       }
       this.usedNonces.add(message.nonce);
@@ -576,9 +559,6 @@ export class TrackerClient extends EventEmitter {
       console.log(`[TrackerClient] Received message from tracker: ${actualMessage.type} (unsigned)`);
     }
 
-    // Update last response time
-    this.lastResponseTime.set(from, Date.now());
-
     switch (actualMessage.type) {
       case 'PEERS_LIST':
         this.handlePeersList(actualMessage.payload, signingKey);
@@ -714,19 +694,10 @@ export class TrackerClient extends EventEmitter {
    */
   async requestDHTNodes(): Promise<void> {
     const tracker = this.getActiveTracker();
-    if (!this.sendMessage || !tracker) return;
-
-    const message: TrackerMessage = {
-      type: 'GET_DHT_NODES',
-      payload: {},
-      timestamp: Date.now()
-    };
+    if (!rpc.isReady() || !tracker) return;
 
-    try {
-      await this.sendSignedMessage(tracker, message);
-      console.log('[TrackerClient] Requested DHT nodes from tracker');
-    } catch (error: any) {
-      console.error('[TrackerClient] Request DHT nodes failed:', error.message);
+    if (await this.requestTracker(tracker, 'GET_DHT_NODES', {}, 'DHT_NODES_LIST')) {
+      console.log('[TrackerClient] Received DHT nodes from tracker');
     }
   }
 
@@ -740,17 +711,12 @@ export class TrackerClient extends EventEmitter {
 
   async disconnect(): Promise<void> {
     // Send DISCONNECT message to tracker before disconnecting
-    if (this.isConnected && this.sendMessage && this.activeTrackerIndex >= 0) {
+    if (this.isConnected && rpc.isReady() && this.activeTrackerIndex >= 0) {
       const trackerAddr = this.config.trackerAddresses[this.activeTrackerIndex];
       if (trackerAddr) {
         console.log('[TrackerClient] Sending DISCONNECT to tracker...');
-        const message: TrackerMessage = {
-          type: 'DISCONNECT',
-          payload: {},
-          timestamp: Date.now()
-        };
         try {
-          await this.sendSignedMessage(trackerAddr, message);
+          await rpc.notify(trackerAddr, 'DISCONNECT', {}, { wrap: this.sign });
         } catch (e) {
           // Ignore errors when disconnecting
         }
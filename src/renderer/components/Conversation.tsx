@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DirectMessage, useStore } from '../store';
+
+const MAX_MESSAGE_LENGTH = 4000;
+
+interface ConversationProps {
+  onBack: () => void;
+}
+
+export function Conversation({ onBack }: ConversationProps) {
+  const { activeConversation, messages, sendMessage, retryMessage } = useStore();
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  if (!activeConversation) return null;
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    setSending(true);
+    if (await sendMessage(body)) {
+      setDraft('');
+    }
+    setSending(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-dark-950">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b border-dark-800">
+        <button onClick={onBack} className="btn btn-ghost p-2" title="Back to peers">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div className="min-w-0">
+          <h2 className="font-semibold text-white truncate">{activeConversation.displayName}</h2>
+          <div className="text-xs text-dark-500 flex items-center gap-1">
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+            End-to-end encrypted
+          </div>
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {messages.length === 0 && (
+          <div className="text-center py-12 text-dark-500 text-sm">
+            No messages yet. Messages to peers that are offline are sent when they come back.
+          </div>
+        )}
+        {messages.map(message => (
+          <MessageBubble key={message.id} message={message} onRetry={() => retryMessage(message.id)} />
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Composer */}
+      <div className="p-4 border-t border-dark-800">
+        <div className="flex items-end gap-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Write a message..."
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={2}
+            className="flex-1 text-sm resize-none"
+          />
+          <button onClick={handleSend} disabled={!draft.trim() || sending} className="btn btn-primary">
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function MessageBubble({ message, onRetry }: { message: DirectMessage; onRetry: () => void }) {
+  const outgoing = message.direction === 'out';
+
+  const statusLabel: Record<DirectMessage['status'], string> = {
+    queued: 'Sending...',
+    delivered: 'Delivered',
+    failed: 'Not delivered',
+    received: '',
+    read: ''
+  };
+
+  return (
+    <div className={`flex ${outgoing ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[70%] rounded-xl px-3 py-2 ${outgoing ? 'bg-primary-600 text-white' : 'bg-dark-800 text-dark-100'}`}>
+        <div className="text-sm whitespace-pre-wrap break-words">{message.body}</div>
+        <div className={`text-xs mt-1 flex items-center gap-2 ${outgoing ? 'text-primary-200 justify-end' : 'text-dark-500'}`}>
+          <span>{new Date(message.createdAt * 1000).toLocaleString()}</span>
+          {outgoing && <span className={message.status === 'failed' ? 'text-red-300' : ''}>{statusLabel[message.status]}</span>}
+          {outgoing && message.status === 'failed' && (
+            <button onClick={onRetry} className="underline hover:text-white">Retry</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
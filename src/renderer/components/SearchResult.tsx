@@ -9,6 +9,8 @@ interface SearchResultProps {
     peerId: string;
     peerDisplayName: string;
     addedAt: number;
+    sources?: { peerId: string; peerDisplayName: string }[];
+    seeders?: number;
   };
   onDownload: () => void;
 }
@@ -16,6 +18,7 @@ interface SearchResultProps {
 export function SearchResult({ result, onDownload }: SearchResultProps) {
   const fileCategory = getFileCategory(result.mimeType);
   const icon = getFileIcon(fileCategory);
+  const sourcesCount = result.sources?.length ?? 1;
 
   return (
     <div className="card card-hover p-4 slide-in">
@@ -35,8 +38,22 @@ export function SearchResult({ result, onDownload }: SearchResultProps) {
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
               </svg>
-              {result.peerDisplayName}
+              {sourcesCount > 1 ? (
+                <span title={result.sources!.map(s => s.peerDisplayName).join(', ')}>
+                  {sourcesCount} sources
+                </span>
+              ) : (
+                result.peerDisplayName
+              )}
             </span>
+            {result.seeders !== undefined && (
+              <span className="flex items-center gap-1" title="Seeders reported by trackers">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                </svg>
+                {result.seeders} {result.seeders === 1 ? 'seeder' : 'seeders'}
+              </span>
+            )}
             <span className="flex items-center gap-1">
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2 1 3 3 3h10c2 0 3-1 3-3V7c0-2-1-3-3-3H7C5 4 4 5 4 7z" />
@@ -57,6 +74,7 @@ export function SearchResult({ result, onDownload }: SearchResultProps) {
           <button
             onClick={onDownload}
             className="btn btn-primary flex items-center gap-2"
+            title={sourcesCount > 1 ? `Download from all ${sourcesCount} sources` : undefined}
           >
             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -17,7 +17,7 @@ interface NavItem {
 }
 
 export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
-  const { downloads, networkStatus, indexingProgress, connectionError } = useStore();
+  const { downloads, networkStatus, indexingProgress, connectionError, pauseIndexing, resumeIndexing, cancelIndexing } = useStore();
 
   const activeDownloads = downloads.filter(d =>
     ['pending', 'connecting', 'downloading'].includes(d.status)
@@ -132,7 +132,23 @@ export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
               </svg>
-              <span className="text-sm font-medium text-blue-400">Indexing files...</span>
+              <span className="text-sm font-medium text-blue-400 flex-1">
+                {indexingProgress.status === 'paused' ? 'Indexing paused' : 'Indexing files...'}
+              </span>
+              <button
+                onClick={indexingProgress.status === 'paused' ? resumeIndexing : pauseIndexing}
+                className="text-xs text-dark-400 hover:text-white"
+                title={indexingProgress.status === 'paused' ? 'Resume indexing' : 'Pause indexing'}
+              >
+                {indexingProgress.status === 'paused' ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={cancelIndexing}
+                className="text-xs text-dark-400 hover:text-red-400"
+                title="Cancel indexing"
+              >
+                Cancel
+              </button>
             </div>
             <div className="text-xs text-dark-400 truncate mb-1">
               {indexingProgress.currentFile || indexingProgress.folder}
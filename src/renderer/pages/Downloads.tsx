@@ -1,9 +1,9 @@
 import React, { useEffect, useState } from 'react';
-import { useStore } from '../store';
+import { Download, QueueMove, useStore } from '../store';
 import { formatBytes, formatSpeed, formatETA } from '../utils/format';
 
 export function DownloadsPage() {
-  const { downloads, fetchDownloads, pauseDownload, resumeDownload, cancelDownload } = useStore();
+  const { downloads, fetchDownloads, pauseDownload, resumeDownload, cancelDownload, moveDownload, setDownloadPriority, setDownloadBandwidth } = useStore();
 
   useEffect(() => {
     fetchDownloads();
@@ -21,7 +21,9 @@ export function DownloadsPage() {
     return () => clearInterval(interval);
   }, [downloads.length]);
 
-  const activeDownloads = downloads.filter(d => ['pending', 'connecting', 'downloading'].includes(d.status));
+  const byQueuePosition = (a: Download, b: Download) => a.queuePosition - b.queuePosition;
+  const activeDownloads = downloads.filter(d => ['pending', 'connecting', 'downloading'].includes(d.status)).sort(byQueuePosition);
+  const queuedDownloads = downloads.filter(d => d.status === 'queued').sort(byQueuePosition);
   const pausedDownloads = downloads.filter(d => d.status === 'paused');
   const completedDownloads = downloads.filter(d => d.status === 'completed');
   const failedDownloads = downloads.filter(d => d.status === 'failed');
@@ -33,7 +35,7 @@ export function DownloadsPage() {
         <div className="mb-8">
           <h1 className="text-2xl font-bold text-white mb-2">Downloads</h1>
           <p className="text-dark-400">
-            {activeDownloads.length} active, {completedDownloads.length} completed
+            {activeDownloads.length} active, {queuedDownloads.length} queued, {completedDownloads.length} completed
           </p>
         </div>
 
@@ -52,9 +54,37 @@ export function DownloadsPage() {
                 <DownloadItem
                   key={download.id}
                   download={download}
+                  onLimits={(uploadLimit, downloadLimit) => setDownloadBandwidth(download.id, uploadLimit, downloadLimit)}
                   onPause={() => pauseDownload(download.id)}
                   onResume={() => resumeDownload(download.id)}
                   onCancel={() => cancelDownload(download.id)}
+                  onMove={(move) => moveDownload(download.id, move)}
+                  onPriority={(priority) => setDownloadPriority(download.id, priority)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Queued Downloads */}
+        {queuedDownloads.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+              <svg className="w-5 h-5 text-dark-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+              </svg>
+              Queued
+            </h2>
+            <div className="space-y-3">
+              {queuedDownloads.map(download => (
+                <DownloadItem
+                  key={download.id}
+                  download={download}
+                  onLimits={(uploadLimit, downloadLimit) => setDownloadBandwidth(download.id, uploadLimit, downloadLimit)}
+                  onPause={() => pauseDownload(download.id)}
+                  onCancel={() => cancelDownload(download.id)}
+                  onMove={(move) => moveDownload(download.id, move)}
+                  onPriority={(priority) => setDownloadPriority(download.id, priority)}
                 />
               ))}
             </div>
@@ -75,6 +105,7 @@ export function DownloadsPage() {
                 <DownloadItem
                   key={download.id}
                   download={download}
+                  onLimits={(uploadLimit, downloadLimit) => setDownloadBandwidth(download.id, uploadLimit, downloadLimit)}
                   onResume={() => resumeDownload(download.id)}
                   onCancel={() => cancelDownload(download.id)}
                 />
@@ -97,6 +128,7 @@ export function DownloadsPage() {
                 <DownloadItem
                   key={download.id}
                   download={download}
+                  onLimits={(uploadLimit, downloadLimit) => setDownloadBandwidth(download.id, uploadLimit, downloadLimit)}
                   onCancel={() => cancelDownload(download.id)}
                 />
               ))}
@@ -118,6 +150,7 @@ export function DownloadsPage() {
                 <DownloadItem
                   key={download.id}
                   download={download}
+                  onLimits={(uploadLimit, downloadLimit) => setDownloadBandwidth(download.id, uploadLimit, downloadLimit)}
                   onResume={() => resumeDownload(download.id)}
                   onCancel={() => cancelDownload(download.id)}
                 />
@@ -146,27 +179,25 @@ export function DownloadsPage() {
 }
 
 interface DownloadItemProps {
-  download: {
-    id: number;
-    filename: string;
-    totalSize: number;
-    downloadedSize: number;
-    status: string;
-    progress: number;
-    speed: number;
-    peerName: string;
-    error?: string;
-  };
+  download: Download;
   onPause?: () => void;
   onResume?: () => void;
   onCancel: () => void;
+  onMove?: (move: QueueMove) => void;
+  onPriority?: (priority: number) => void;
+  onLimits?: (uploadLimit: number, downloadLimit: number) => Promise<boolean>;
 }
 
-function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemProps) {
+const PRIORITY_LABELS = ['Low', 'Normal', 'High'];
+
+function DownloadItem({ download, onPause, onResume, onCancel, onMove, onPriority, onLimits }: DownloadItemProps) {
   const [showConfirm, setShowConfirm] = useState(false);
+  const [showLimits, setShowLimits] = useState(false);
+  const [limits, setLimits] = useState({ upload: 0, download: 0 });
 
   const isConnecting = download.status === 'connecting';
   const isPending = download.status === 'pending';
+  const isQueued = download.status === 'queued';
   const isActive = download.status === 'downloading';
   const isPaused = download.status === 'paused';
   const isCompleted = download.status === 'completed';
@@ -189,6 +220,20 @@ function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemPro
     onCancel();
   };
 
+  // Limits are edited in KB/s (0 = only the global limit)
+  const openLimits = () => {
+    setLimits({ upload: Math.round(download.uploadLimit / 1024), download: Math.round(download.downloadLimit / 1024) });
+    setShowLimits(!showLimits);
+  };
+
+  const saveLimits = async () => {
+    if (await onLimits!(limits.upload * 1024, limits.download * 1024)) {
+      setShowLimits(false);
+    }
+  };
+
+  const isLimited = download.uploadLimit > 0 || download.downloadLimit > 0;
+
   const remainingBytes = download.totalSize - download.downloadedSize;
   const eta = isActive && download.speed > 0
     ? formatETA(remainingBytes, download.speed)
@@ -203,7 +248,7 @@ function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemPro
           ${isCompleted ? 'bg-green-500/20 text-green-400' : ''}
           ${isActive ? 'bg-primary-500/20 text-primary-400' : ''}
           ${isConnecting ? 'bg-blue-500/20 text-blue-400' : ''}
-          ${isPending ? 'bg-dark-700 text-dark-400' : ''}
+          ${isPending || isQueued ? 'bg-dark-700 text-dark-400' : ''}
           ${isPaused ? 'bg-yellow-500/20 text-yellow-400' : ''}
           ${isFailed ? 'bg-red-500/20 text-red-400' : ''}
         `}>
@@ -228,7 +273,7 @@ function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemPro
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
           )}
-          {isPending && (
+          {(isPending || isQueued) && (
             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
@@ -253,12 +298,28 @@ function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemPro
             {isPending && (
               <span className="text-dark-500">Waiting in queue...</span>
             )}
+            {isQueued && (
+              <span className="text-dark-500">Queued #{download.queuePosition}</span>
+            )}
+            {download.priority !== 1 && !isCompleted && (
+              <span className={download.priority > 1 ? 'text-primary-400' : 'text-dark-500'}>
+                {PRIORITY_LABELS[download.priority]} priority
+              </span>
+            )}
             {isActive && download.speed > 0 && (
               <>
                 <span className="text-primary-400">{formatSpeed(download.speed)}</span>
                 {eta && <span className="text-dark-500">ETA: {eta}</span>}
               </>
             )}
+            {isLimited && (
+              <span className="text-yellow-400" title="Speed limit">
+                {[
+                  download.downloadLimit > 0 && `↓ ${formatSpeed(download.downloadLimit)}`,
+                  download.uploadLimit > 0 && `↑ ${formatSpeed(download.uploadLimit)}`
+                ].filter(Boolean).join(' ')}
+              </span>
+            )}
             {isFailed && download.error && (
               <span className="text-red-400">{download.error}</span>
             )}
@@ -281,7 +342,54 @@ function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemPro
 
         {/* Actions */}
         <div className="flex items-center gap-2 flex-shrink-0">
-          {isActive && onPause && (
+          {onPriority && (
+            <select
+              value={download.priority}
+              onChange={(e) => onPriority(Number(e.target.value))}
+              className="text-sm py-1"
+              title="Priority"
+            >
+              {PRIORITY_LABELS.map((label, priority) => (
+                <option key={priority} value={priority}>{label}</option>
+              ))}
+            </select>
+          )}
+          {onMove && (
+            <div className="flex flex-col">
+              <button onClick={() => onMove('top')} className="btn btn-ghost px-1 py-0" title="Move to top">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 11l7-7 7 7M5 19l7-7 7 7" />
+                </svg>
+              </button>
+              <button onClick={() => onMove('up')} className="btn btn-ghost px-1 py-0" title="Move up">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
+              <button onClick={() => onMove('down')} className="btn btn-ghost px-1 py-0" title="Move down">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              <button onClick={() => onMove('bottom')} className="btn btn-ghost px-1 py-0" title="Move to bottom">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 13l-7 7-7-7m14-8l-7 7-7-7" />
+                </svg>
+              </button>
+            </div>
+          )}
+          {onLimits && (
+            <button
+              onClick={openLimits}
+              className={`btn btn-ghost p-2 ${isLimited ? 'text-yellow-400' : ''}`}
+              title="Speed limits"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+            </button>
+          )}
+          {(isActive || isQueued) && onPause && (
             <button
               onClick={onPause}
               className="btn btn-ghost p-2"
@@ -327,6 +435,41 @@ function DownloadItem({ download, onPause, onResume, onCancel }: DownloadItemPro
         </div>
       </div>
 
+      {/* Speed limits */}
+      {showLimits && (
+        <div className="mt-4 p-3 bg-dark-800/50 border border-dark-700 rounded-lg">
+          <div className="flex items-end gap-4 flex-wrap">
+            <div>
+              <label className="block text-xs text-dark-400 mb-1">Download limit (KB/s)</label>
+              <input
+                type="number"
+                value={limits.download}
+                onChange={(e) => setLimits({ ...limits, download: Math.max(0, Number(e.target.value)) })}
+                className="w-32 text-sm"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-dark-400 mb-1">Upload limit (KB/s)</label>
+              <input
+                type="number"
+                value={limits.upload}
+                onChange={(e) => setLimits({ ...limits, upload: Math.max(0, Number(e.target.value)) })}
+                className="w-32 text-sm"
+                min="0"
+              />
+            </div>
+            <button onClick={saveLimits} className="btn btn-sm btn-primary">
+              Save
+            </button>
+            <button onClick={() => setShowLimits(false)} className="btn btn-sm btn-ghost">
+              Cancel
+            </button>
+          </div>
+          <p className="text-xs text-dark-500 mt-2">0 = only the global limit from Settings applies</p>
+        </div>
+      )}
+
       {/* Confirmation modal */}
       {showConfirm && (
         <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useStore } from '../store';
+import { FolderVisibility, ShareRules, useStore } from '../store';
 
 interface ScanProgress {
   folder: string;
@@ -22,6 +22,8 @@ export function MySharesPage() {
   const { sharedFolders, sharedFiles, fetchSharedFolders, fetchSharedFiles, addSharedFolder, removeSharedFolder } = useStore();
   const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
   const [activeUploads, setActiveUploads] = useState<ActiveUpload[]>([]);
+  const [editingRules, setEditingRules] = useState<string | null>(null); // Folder whose rules are open
+  const [editingVisibility, setEditingVisibility] = useState<string | null>(null); // Folder whose visibility is open
 
   useEffect(() => {
     fetchSharedFolders();
@@ -59,10 +61,15 @@ export function MySharesPage() {
       fetchSharedFiles();
     });
 
+    const unsubCancelled = window.electron.on('scan:cancelled', () => {
+      setScanProgress(null);
+    });
+
     return () => {
       unsubStart();
       unsubProgress();
       unsubComplete();
+      unsubCancelled();
       clearInterval(uploadInterval);
     };
   }, []);
@@ -216,6 +223,11 @@ export function MySharesPage() {
                       </h3>
                       <p className="text-sm text-dark-400">
                         {folder.filesCount?.toLocaleString() || 0} files ({formatBytes(folder.totalSize || 0)})
+                        {folder.visibility && folder.visibility !== 'public' && (
+                          <span className="ml-2 text-xs text-primary-400">
+                            {folder.visibility === 'friends' ? 'Friends only' : 'Selected friends'}
+                          </span>
+                        )}
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
@@ -228,6 +240,24 @@ export function MySharesPage() {
                           Scanning...
                         </span>
                       )}
+                      <button
+                        onClick={() => setEditingVisibility(editingVisibility === folder.path ? null : folder.path)}
+                        className={`btn btn-ghost p-2 ${editingVisibility === folder.path ? 'text-primary-400' : 'text-dark-400 hover:text-white'}`}
+                        title="Visibility"
+                      >
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => setEditingRules(editingRules === folder.path ? null : folder.path)}
+                        className={`btn btn-ghost p-2 ${editingRules === folder.path ? 'text-primary-400' : 'text-dark-400 hover:text-white'}`}
+                        title="Share rules"
+                      >
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+                        </svg>
+                      </button>
                       <button
                         onClick={() => handleRemoveFolder(folder.path)}
                         className="btn btn-ghost p-2 text-red-400 hover:text-red-300"
@@ -239,6 +269,18 @@ export function MySharesPage() {
                       </button>
                     </div>
                   </div>
+                  {editingRules === folder.path && (
+                    <ShareRulesEditor folderPath={folder.path} onClose={() => setEditingRules(null)} />
+                  )}
+                  {editingVisibility === folder.path && (
+                    <FolderVisibilityEditor
+                      folderPath={folder.path}
+                      onClose={() => {
+                        setEditingVisibility(null);
+                        fetchSharedFolders();
+                      }}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -286,6 +328,257 @@ export function MySharesPage() {
   );
 }
 
+interface ShareRulesEditorProps {
+  folderPath: string;
+  onClose: () => void;
+}
+
+// Sizes are edited in KB (minimum) and MB (maximum)
+const KB = 1024;
+const MB = 1024 * 1024;
+
+function ShareRulesEditor({ folderPath, onClose }: ShareRulesEditorProps) {
+  const { fetchShareRules, saveShareRules } = useStore();
+  const [form, setForm] = useState({
+    include: '',
+    exclude: '',
+    extensions: '',
+    minSizeKB: 1,
+    maxSizeMB: 0,
+    includeHidden: false,
+    followSymlinks: false
+  });
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchShareRules(folderPath).then((rules) => {
+      if (!rules) return;
+      setForm({
+        include: rules.include.join('\n'),
+        exclude: rules.exclude.join('\n'),
+        extensions: rules.extensions.join(', '),
+        minSizeKB: Math.round(rules.minSize / KB),
+        maxSizeMB: Math.round(rules.maxSize / MB),
+        includeHidden: rules.includeHidden,
+        followSymlinks: rules.followSymlinks
+      });
+      setLoaded(true);
+    });
+  }, [folderPath]);
+
+  const toList = (text: string, separator: RegExp) =>
+    text.split(separator).map(item => item.trim()).filter(item => item.length > 0);
+
+  const handleSave = async () => {
+    const rules: ShareRules = {
+      include: toList(form.include, /\n/),
+      exclude: toList(form.exclude, /\n/),
+      extensions: toList(form.extensions, /[,\s]+/),
+      minSize: Math.max(0, form.minSizeKB) * KB,
+      maxSize: Math.max(0, form.maxSizeMB) * MB,
+      includeHidden: form.includeHidden,
+      followSymlinks: form.followSymlinks
+    };
+
+    setSaving(true);
+    try {
+      if (await saveShareRules(folderPath, rules)) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!loaded) {
+    return <div className="mt-4 pt-4 border-t border-dark-700 text-sm text-dark-400">Loading rules...</div>;
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-dark-700 space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-dark-300 mb-2">Include</label>
+          <textarea
+            value={form.include}
+            onChange={(e) => setForm({ ...form, include: e.target.value })}
+            placeholder={'Movies/**\n*.mkv'}
+            rows={4}
+            className="w-full font-mono text-sm"
+          />
+          <p className="text-xs text-dark-500 mt-1">One glob per line. Empty = all files</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-dark-300 mb-2">Exclude</label>
+          <textarea
+            value={form.exclude}
+            onChange={(e) => setForm({ ...form, exclude: e.target.value })}
+            placeholder={'*.part\nThumbs.db'}
+            rows={4}
+            className="w-full font-mono text-sm"
+          />
+          <p className="text-xs text-dark-500 mt-1">Matching files and folders are never shared</p>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-dark-300 mb-2">Extensions</label>
+          <input
+            type="text"
+            value={form.extensions}
+            onChange={(e) => setForm({ ...form, extensions: e.target.value })}
+            placeholder="mkv, mp3, pdf"
+            className="w-full"
+          />
+          <p className="text-xs text-dark-500 mt-1">Empty = all extensions</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-dark-300 mb-2">Min Size (KB)</label>
+          <input
+            type="number"
+            value={form.minSizeKB}
+            onChange={(e) => setForm({ ...form, minSizeKB: Number(e.target.value) })}
+            min="0"
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-dark-300 mb-2">Max Size (MB)</label>
+          <input
+            type="number"
+            value={form.maxSizeMB}
+            onChange={(e) => setForm({ ...form, maxSizeMB: Number(e.target.value) })}
+            min="0"
+            className="w-full"
+          />
+          <p className="text-xs text-dark-500 mt-1">0 = No limit</p>
+        </div>
+      </div>
+      <div className="flex items-center gap-6">
+        <label className="flex items-center gap-2 text-sm text-dark-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={form.includeHidden}
+            onChange={(e) => setForm({ ...form, includeHidden: e.target.checked })}
+          />
+          Share hidden files
+        </label>
+        <label className="flex items-center gap-2 text-sm text-dark-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={form.followSymlinks}
+            onChange={(e) => setForm({ ...form, followSymlinks: e.target.checked })}
+          />
+          Follow symlinks
+        </label>
+        <div className="flex-1" />
+        <button onClick={onClose} className="btn btn-secondary">Cancel</button>
+        <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+          {saving ? 'Saving...' : 'Save & Rescan'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface FolderVisibilityEditorProps {
+  folderPath: string;
+  onClose: () => void;
+}
+
+const VISIBILITY_OPTIONS: { value: FolderVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Everyone', description: 'Anyone on the network can find and download these files' },
+  { value: 'friends', label: 'Friends', description: 'Only your friends can find and download these files' },
+  { value: 'selected', label: 'Selected friends', description: 'Only the friends checked below' }
+];
+
+function FolderVisibilityEditor({ folderPath, onClose }: FolderVisibilityEditorProps) {
+  const { friends, fetchFriends, fetchFolderVisibility, saveFolderVisibility } = useStore();
+  const [visibility, setVisibility] = useState<FolderVisibility>('public');
+  const [allowedFriends, setAllowedFriends] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchFriends();
+    fetchFolderVisibility(folderPath).then((current) => {
+      if (!current) return;
+      setVisibility(current.visibility);
+      setAllowedFriends(current.allowedFriends);
+      setLoaded(true);
+    });
+  }, [folderPath]);
+
+  const toggleFriend = (b32Address: string) => {
+    setAllowedFriends(allowedFriends.includes(b32Address)
+      ? allowedFriends.filter(f => f !== b32Address)
+      : [...allowedFriends, b32Address]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (await saveFolderVisibility(folderPath, visibility, allowedFriends)) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!loaded) {
+    return <div className="mt-4 pt-4 border-t border-dark-700 text-sm text-dark-400">Loading visibility...</div>;
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-dark-700 space-y-4">
+      <div className="space-y-2">
+        {VISIBILITY_OPTIONS.map(option => (
+          <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+            <input
+              type="radio"
+              name={`visibility-${folderPath}`}
+              checked={visibility === option.value}
+              onChange={() => setVisibility(option.value)}
+              className="mt-1"
+            />
+            <span>
+              <span className="text-dark-200">{option.label}</span>
+              <span className="block text-xs text-dark-500">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      {visibility === 'selected' && (
+        friends.length === 0 ? (
+          <p className="text-sm text-dark-500">No friends yet. Exchange invitations on the Peers page.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {friends.map(friend => (
+              <label key={friend.b32Address} className="flex items-center gap-2 text-sm text-dark-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allowedFriends.includes(friend.b32Address)}
+                  onChange={() => toggleFriend(friend.b32Address)}
+                />
+                <span className="truncate">{friend.displayName}</span>
+              </label>
+            ))}
+          </div>
+        )
+      )}
+      {visibility !== 'public' && (
+        <p className="text-xs text-dark-500">
+          Files already published to the network stay findable by name until their DHT entries expire.
+        </p>
+      )}
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={onClose} className="btn btn-secondary">Cancel</button>
+        <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
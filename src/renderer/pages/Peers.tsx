@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { useStore } from '../store';
+import { Peer, useStore } from '../store';
+import { Conversation } from '../components/Conversation';
 
 interface PeerFile {
   filename: string;
@@ -9,13 +10,18 @@ interface PeerFile {
 }
 
 export function PeersPage() {
-  const { peers, fetchPeers, networkStatus } = useStore();
+  const {
+    peers, fetchPeers, blockedPeers, fetchBlockedPeers, blockPeer, unblockPeer, networkStatus,
+    conversations, fetchConversations, activeConversation, openConversation, closeConversation
+  } = useStore();
   const [selectedPeer, setSelectedPeer] = useState<string | null>(null);
   const [peerFiles, setPeerFiles] = useState<PeerFile[]>([]);
   const [loadingFiles, setLoadingFiles] = useState(false);
 
   useEffect(() => {
     fetchPeers();
+    fetchBlockedPeers();
+    fetchConversations();
     const interval = setInterval(fetchPeers, 5000);
     return () => clearInterval(interval);
   }, []);
@@ -57,6 +63,22 @@ export function PeersPage() {
     }
   };
 
+  const handleBlock = async (peerId: string, displayName: string) => {
+    if (!confirm(`Block ${displayName}? You won't see their files or exchange data with them.`)) return;
+    if (selectedPeer === peerId) {
+      setSelectedPeer(null);
+      setPeerFiles([]);
+    }
+    await blockPeer(peerId);
+  };
+
+  const unreadFrom = (peer: Peer) =>
+    conversations.find(c => c.peerId === peer.b32Address)?.unread || 0;
+
+  if (activeConversation) {
+    return <Conversation onBack={() => { closeConversation(); fetchConversations(); }} />;
+  }
+
   return (
     <div className="h-full overflow-y-auto bg-dark-950 p-6">
       <div className="max-w-4xl mx-auto">
@@ -95,6 +117,9 @@ export function PeersPage() {
           </div>
         </div>
 
+        {/* Friends */}
+        <FriendsSection onMessage={openConversation} />
+
         {/* Online peers */}
         {onlinePeers.length > 0 && (
           <section className="mb-8">
@@ -109,6 +134,9 @@ export function PeersPage() {
                     peer={peer}
                     isExpanded={selectedPeer === peer.peerId}
                     onViewFiles={() => handleViewFiles(peer.peerId)}
+                    onBlock={() => handleBlock(peer.peerId, peer.displayName)}
+                    onMessage={() => openConversation(peer.peerId, peer.displayName)}
+                    unread={unreadFrom(peer)}
                   />
                   {selectedPeer === peer.peerId && (
                     <PeerFilesPanel
@@ -116,7 +144,7 @@ export function PeersPage() {
                       loading={loadingFiles}
                       peerName={peer.displayName}
                       peerId={peer.peerId}
-                      streamingDestination={(peer as any).streamingDestination}
+                      streamingDestination={peer.streamingDestination}
                     />
                   )}
                 </div>
@@ -139,6 +167,9 @@ export function PeersPage() {
                     peer={peer}
                     isExpanded={selectedPeer === peer.peerId}
                     onViewFiles={() => handleViewFiles(peer.peerId)}
+                    onBlock={() => handleBlock(peer.peerId, peer.displayName)}
+                    onMessage={() => openConversation(peer.peerId, peer.displayName)}
+                    unread={unreadFrom(peer)}
                   />
                   {selectedPeer === peer.peerId && (
                     <PeerFilesPanel
@@ -146,7 +177,7 @@ export function PeersPage() {
                       loading={loadingFiles}
                       peerName={peer.displayName}
                       peerId={peer.peerId}
-                      streamingDestination={(peer as any).streamingDestination}
+                      streamingDestination={peer.streamingDestination}
                     />
                   )}
                 </div>
@@ -155,6 +186,37 @@ export function PeersPage() {
           </section>
         )}
 
+        {/* Blocked peers */}
+        {blockedPeers.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold text-dark-400 mb-4 flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-red-500" />
+              Blocked Peers ({blockedPeers.length})
+            </h2>
+            <div className="card divide-y divide-dark-800">
+              {blockedPeers.map(peer => (
+                <div key={peer.peerId} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-white truncate">{peer.displayName || 'Unknown'}</div>
+                    <div className="text-xs text-dark-500 font-mono truncate">{peer.peerId.substring(0, 32)}...</div>
+                    <div className="text-xs text-dark-500 mt-1">
+                      {peer.blockedUntil
+                        ? `Banned until ${new Date(peer.blockedUntil * 1000).toLocaleString()} (${peer.blockReason || 'misbehavior'})`
+                        : 'Blocked'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => unblockPeer(peer.peerId)}
+                    className="btn btn-ghost text-sm"
+                  >
+                    Unblock
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Empty state */}
         {peers.length === 0 && (
           <div className="flex flex-col items-center justify-center py-20">
@@ -176,6 +238,119 @@ export function PeersPage() {
   );
 }
 
+function FriendsSection({ onMessage }: { onMessage: (peerId: string, displayName: string) => void }) {
+  const { friends, fetchFriends, createInvite, acceptInvite, removeFriend, conversations } = useStore();
+  const [invite, setInvite] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [token, setToken] = useState('');
+
+  useEffect(() => {
+    fetchFriends();
+  }, []);
+
+  const handleCreateInvite = async () => {
+    setInvite(await createInvite());
+    setCopied(false);
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+    await navigator.clipboard.writeText(invite);
+    setCopied(true);
+  };
+
+  const handleAccept = async () => {
+    if (await acceptInvite(token.trim())) {
+      setToken('');
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (b32Address: string, displayName: string) => {
+    if (!confirm(`Remove ${displayName} from your friends? They lose access to your friends-only folders.`)) return;
+    await removeFriend(b32Address);
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-primary-500" />
+          Friends ({friends.length})
+        </h2>
+        <div className="flex items-center gap-2">
+          <button onClick={handleCreateInvite} className="btn btn-secondary text-sm">
+            Create Invitation
+          </button>
+          <button onClick={() => setAdding(!adding)} className={`btn ${adding ? 'btn-primary' : 'btn-secondary'} text-sm`}>
+            Add Friend
+          </button>
+        </div>
+      </div>
+
+      {invite && (
+        <div className="card p-4 mb-4 space-y-2">
+          <p className="text-sm text-dark-300">
+            Send this invitation to your friend. Once they add it, and you add theirs, you can share friends-only folders.
+          </p>
+          <textarea value={invite} readOnly rows={3} className="w-full font-mono text-xs" />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setInvite(null)} className="btn btn-ghost text-sm">Close</button>
+            <button onClick={handleCopy} className="btn btn-primary text-sm">{copied ? 'Copied' : 'Copy'}</button>
+          </div>
+        </div>
+      )}
+
+      {adding && (
+        <div className="card p-4 mb-4 space-y-2">
+          <p className="text-sm text-dark-300">Paste the invitation your friend sent you.</p>
+          <textarea
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="i2pshare-invite:..."
+            rows={3}
+            className="w-full font-mono text-xs"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setAdding(false)} className="btn btn-ghost text-sm">Cancel</button>
+            <button onClick={handleAccept} disabled={!token.trim()} className="btn btn-primary text-sm">Add</button>
+          </div>
+        </div>
+      )}
+
+      {friends.length === 0 ? (
+        <p className="text-sm text-dark-500">
+          No friends yet. Exchange invitations to share folders only among yourselves.
+        </p>
+      ) : (
+        <div className="card divide-y divide-dark-800">
+          {friends.map(friend => (
+            <div key={friend.b32Address} className="flex items-center justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <div className="text-sm text-white truncate">{friend.displayName}</div>
+                <div className="text-xs text-dark-500 font-mono truncate">{friend.b32Address.substring(0, 24)}...</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => onMessage(friend.b32Address, friend.displayName)} className="btn btn-ghost text-sm">
+                  Message
+                  <UnreadBadge count={conversations.find(c => c.peerId === friend.b32Address)?.unread || 0} />
+                </button>
+                <button
+                  onClick={() => handleRemove(friend.b32Address, friend.displayName)}
+                  className="btn btn-ghost text-sm text-dark-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
 interface PeerCardProps {
   peer: {
     peerId: string;
@@ -188,9 +363,12 @@ interface PeerCardProps {
   };
   isExpanded: boolean;
   onViewFiles: () => void;
+  onBlock: () => void;
+  onMessage: () => void;
+  unread: number;
 }
 
-function PeerCard({ peer, isExpanded, onViewFiles }: PeerCardProps) {
+function PeerCard({ peer, isExpanded, onViewFiles, onBlock, onMessage, unread }: PeerCardProps) {
   // Generate a consistent color based on peer ID
   const colors = [
     'from-blue-500 to-purple-500',
@@ -250,11 +428,43 @@ function PeerCard({ peer, isExpanded, onViewFiles }: PeerCardProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 19a2 2 0 01-2-2V7a2 2 0 012-2h4l2 2h4a2 2 0 012 2v1M5 19h14a2 2 0 002-2v-5a2 2 0 00-2-2H9a2 2 0 00-2 2v5a2 2 0 01-2 2z" />
           </svg>
         </button>
+        <button
+          onClick={onMessage}
+          className="btn btn-ghost p-2 relative"
+          title="Send a message"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+          </svg>
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1">
+              <UnreadBadge count={unread} />
+            </span>
+          )}
+        </button>
+        <button
+          onClick={onBlock}
+          className="btn btn-ghost p-2 text-dark-400 hover:text-red-400"
+          title="Block peer"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+          </svg>
+        </button>
       </div>
     </div>
   );
 }
 
+function UnreadBadge({ count }: { count: number }) {
+  if (count === 0) return null;
+  return (
+    <span className="ml-1 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-500 text-white text-xs font-bold">
+      {count}
+    </span>
+  );
+}
+
 interface PeerFilesPanelProps {
   files: PeerFile[];
   loading: boolean;
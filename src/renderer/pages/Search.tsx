@@ -3,7 +3,7 @@ import { useStore } from '../store';
 import { SearchResult } from '../components/SearchResult';
 
 export function SearchPage() {
-  const { searchQuery, searchResults, isSearching, search, clearSearch, startDownload } = useStore();
+  const { searchQuery, searchResults, isSearching, search, cancelSearch, clearSearch, startDownload } = useStore();
   const [inputValue, setInputValue] = useState(searchQuery);
   const [selectedType, setSelectedType] = useState<string>('all');
 
@@ -53,6 +53,7 @@ export function SearchPage() {
               onKeyDown={handleKeyDown}
               placeholder="Search for files across the network..."
               className="w-full h-14 pl-14 pr-32 text-lg rounded-2xl"
+              title='Supports "exact phrase", -exclude, type:audio, ext:flac, size:>100MB'
             />
             <div className="absolute left-5 top-1/2 -translate-y-1/2">
               <svg className="w-5 h-5 text-dark-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -70,23 +71,34 @@ export function SearchPage() {
                   </svg>
                 </button>
               )}
-              <button
-                onClick={handleSearch}
-                disabled={!inputValue.trim() || isSearching}
-                className="btn btn-primary h-10 px-6"
-              >
-                {isSearching ? (
+              {isSearching ? (
+                <button
+                  onClick={cancelSearch}
+                  className="btn btn-secondary h-10 px-6 flex items-center gap-2"
+                  title="Stop searching"
+                >
                   <svg className="w-5 h-5 animate-spin" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                   </svg>
-                ) : (
-                  'Search'
-                )}
-              </button>
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleSearch}
+                  disabled={!inputValue.trim()}
+                  className="btn btn-primary h-10 px-6"
+                >
+                  Search
+                </button>
+              )}
             </div>
           </div>
 
+          <p className="mt-2 text-xs text-dark-500">
+            Tip: <code>"exact phrase"</code> <code>-exclude</code> <code>type:audio</code> <code>ext:flac,mp3</code> <code>size:&gt;100MB</code> <code>size:1GB..4GB</code>
+          </p>
+
           {/* File type filters */}
           <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
             {fileTypes.map(type => (
@@ -119,6 +131,12 @@ export function SearchPage() {
                 Found <span className="text-white font-semibold">{filteredResults.length}</span> results
                 {selectedType !== 'all' && ` in ${selectedType}`}
               </p>
+              {isSearching && (
+                <p className="text-sm text-dark-400 flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full bg-primary-500 animate-pulse" />
+                  Still querying peers...
+                </p>
+              )}
             </div>
           )}
 
@@ -138,8 +156,8 @@ export function SearchPage() {
             </div>
           )}
 
-          {/* Loading state */}
-          {isSearching && (
+          {/* Loading state (until the first results arrive) */}
+          {isSearching && searchResults.length === 0 && (
             <div className="flex flex-col items-center justify-center py-20">
               <div className="relative w-20 h-20 mb-6">
                 <div className="absolute inset-0 rounded-full border-4 border-dark-700" />
@@ -151,11 +169,11 @@ export function SearchPage() {
           )}
 
           {/* Results list */}
-          {!isSearching && filteredResults.length > 0 && (
+          {filteredResults.length > 0 && (
             <div className="space-y-3">
-              {filteredResults.map((result, index) => (
+              {filteredResults.map((result) => (
                 <SearchResult
-                  key={`${result.fileHash}-${index}`}
+                  key={result.fileHash}
                   result={result}
                   onDownload={() => startDownload(result)}
                 />
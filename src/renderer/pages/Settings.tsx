@@ -11,6 +11,33 @@ interface EmbeddedTrackerStatus {
   uptime: number;
 }
 
+interface BandwidthSettings {
+  uploadLimit: number;
+  downloadLimit: number;
+  maxUploadSlots: number;
+  schedule: {
+    enabled: boolean;
+    start: number;
+    end: number;
+    days: number[];
+    limits: { uploadLimit: number; downloadLimit: number };
+  };
+  scheduleActive: boolean;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Minutes after midnight as HH:MM */
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** HH:MM as minutes after midnight */
+function fromTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
 interface TrackerStatus {
   address: string | null;
   isConnected: boolean;
@@ -34,11 +61,32 @@ export function SettingsPage() {
   const [embeddedTrackerStatus, setEmbeddedTrackerStatus] = useState<EmbeddedTrackerStatus | null>(null);
   const [embeddedTrackerSaving, setEmbeddedTrackerSaving] = useState(false);
 
+  // Indexer state
+  const [hashWorkers, setHashWorkers] = useState(0);
+  const [activeHashWorkers, setActiveHashWorkers] = useState(0);
+  const [hashWorkersSaving, setHashWorkersSaving] = useState(false);
+  const [hashWorkersSaved, setHashWorkersSaved] = useState(false);
+
+  // Download queue state
+  const [queueLimits, setQueueLimits] = useState({ maxActiveDownloads: 3, maxActiveSeeds: 0 });
+  const [queueLimitsSaving, setQueueLimitsSaving] = useState(false);
+  const [queueLimitsSaved, setQueueLimitsSaved] = useState(false);
+
+  // Bandwidth state (limits in KB/s)
+  const [bandwidth, setBandwidth] = useState({ uploadLimit: 0, downloadLimit: 0, maxUploadSlots: 10 });
+  const [schedule, setSchedule] = useState({
+    enabled: false,
+    start: '09:00',
+    end: '17:00',
+    days: [1, 2, 3, 4, 5],
+    uploadLimit: 0,
+    downloadLimit: 0
+  });
+  const [scheduleActive, setScheduleActive] = useState(false);
+  const [bandwidthSaving, setBandwidthSaving] = useState(false);
+  const [bandwidthSaved, setBandwidthSaved] = useState(false);
+
   const [settings, setSettings] = useState({
-    maxUploadSpeed: 5,
-    maxDownloadSpeed: 10,
-    uploadSlots: 10,
-    downloadSlots: 4,
     downloadPath: 'C:\\Users\\Downloads',
     theme: 'dark',
     notifications: true,
@@ -57,6 +105,23 @@ export function SettingsPage() {
     // Load embedded tracker settings
     window.electron.getEmbeddedTrackerEnabled().then(setEmbeddedTrackerEnabled);
     window.electron.getEmbeddedTrackerStatus().then(setEmbeddedTrackerStatus);
+
+    // Load indexer settings
+    window.electron.getHashWorkers().then(({ configured, active }: { configured: number; active: number }) => {
+      setHashWorkers(configured);
+      setActiveHashWorkers(active);
+    });
+
+    // Load download queue limits
+    window.electron.getQueueLimits().then(setQueueLimits);
+
+    // Load bandwidth limits and schedule
+    window.electron.getBandwidthSettings().then(showBandwidthSettings);
+
+    // The schedule switches limits while the page is open
+    return window.electron.on('bandwidth:schedule-change', ({ scheduleActive }: { scheduleActive: boolean }) => {
+      setScheduleActive(scheduleActive);
+    });
   }, []);
 
   // Refresh tracker statuses periodically
@@ -118,6 +183,80 @@ export function SettingsPage() {
     }
   };
 
+  const handleSaveQueueLimits = async () => {
+    setQueueLimitsSaving(true);
+    try {
+      const { maxActiveDownloads, maxActiveSeeds } = await window.electron.setQueueLimits(queueLimits);
+      setQueueLimits({ maxActiveDownloads, maxActiveSeeds });
+      setQueueLimitsSaved(true);
+      setTimeout(() => setQueueLimitsSaved(false), 2000);
+    } finally {
+      setQueueLimitsSaving(false);
+    }
+  };
+
+  const showBandwidthSettings = (saved: BandwidthSettings) => {
+    setBandwidth({
+      uploadLimit: Math.round(saved.uploadLimit / 1024),
+      downloadLimit: Math.round(saved.downloadLimit / 1024),
+      maxUploadSlots: saved.maxUploadSlots
+    });
+    setSchedule({
+      enabled: saved.schedule.enabled,
+      start: toTime(saved.schedule.start),
+      end: toTime(saved.schedule.end),
+      days: saved.schedule.days,
+      uploadLimit: Math.round(saved.schedule.limits.uploadLimit / 1024),
+      downloadLimit: Math.round(saved.schedule.limits.downloadLimit / 1024)
+    });
+    setScheduleActive(saved.scheduleActive);
+  };
+
+  const toggleScheduleDay = (day: number) => {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter(d => d !== day)
+      : [...schedule.days, day].sort();
+    setSchedule({ ...schedule, days });
+  };
+
+  const handleSaveBandwidth = async () => {
+    setBandwidthSaving(true);
+    try {
+      const saved = await window.electron.setBandwidthSettings({
+        uploadLimit: bandwidth.uploadLimit * 1024,
+        downloadLimit: bandwidth.downloadLimit * 1024,
+        maxUploadSlots: bandwidth.maxUploadSlots,
+        schedule: {
+          enabled: schedule.enabled,
+          start: fromTime(schedule.start),
+          end: fromTime(schedule.end),
+          days: schedule.days,
+          limits: {
+            uploadLimit: schedule.uploadLimit * 1024,
+            downloadLimit: schedule.downloadLimit * 1024
+          }
+        }
+      });
+      showBandwidthSettings(saved);
+      setBandwidthSaved(true);
+      setTimeout(() => setBandwidthSaved(false), 2000);
+    } finally {
+      setBandwidthSaving(false);
+    }
+  };
+
+  const handleSaveHashWorkers = async () => {
+    setHashWorkersSaving(true);
+    try {
+      const result = await window.electron.setHashWorkers(hashWorkers);
+      setActiveHashWorkers(result.active);
+      setHashWorkersSaved(true);
+      setTimeout(() => setHashWorkersSaved(false), 2000);
+    } finally {
+      setHashWorkersSaving(false);
+    }
+  };
+
   const formatUptime = (ms: number): string => {
     if (ms < 1000) return '0s';
     const seconds = Math.floor(ms / 1000);
@@ -409,28 +548,26 @@ export function SettingsPage() {
             <div className="grid grid-cols-2 gap-6">
               <div>
                 <label className="block text-sm font-medium text-dark-300 mb-2">
-                  Max Upload Speed (MB/s)
+                  Max Upload Speed (KB/s)
                 </label>
                 <input
                   type="number"
-                  value={settings.maxUploadSpeed}
-                  onChange={(e) => setSettings({ ...settings, maxUploadSpeed: Number(e.target.value) })}
+                  value={bandwidth.uploadLimit}
+                  onChange={(e) => setBandwidth({ ...bandwidth, uploadLimit: Number(e.target.value) })}
                   min="0"
-                  max="100"
                   className="w-full"
                 />
                 <p className="text-xs text-dark-500 mt-1">0 = Unlimited</p>
               </div>
               <div>
                 <label className="block text-sm font-medium text-dark-300 mb-2">
-                  Max Download Speed (MB/s)
+                  Max Download Speed (KB/s)
                 </label>
                 <input
                   type="number"
-                  value={settings.maxDownloadSpeed}
-                  onChange={(e) => setSettings({ ...settings, maxDownloadSpeed: Number(e.target.value) })}
+                  value={bandwidth.downloadLimit}
+                  onChange={(e) => setBandwidth({ ...bandwidth, downloadLimit: Number(e.target.value) })}
                   min="0"
-                  max="100"
                   className="w-full"
                 />
                 <p className="text-xs text-dark-500 mt-1">0 = Unlimited</p>
@@ -443,27 +580,118 @@ export function SettingsPage() {
                 </label>
                 <input
                   type="number"
-                  value={settings.uploadSlots}
-                  onChange={(e) => setSettings({ ...settings, uploadSlots: Number(e.target.value) })}
+                  value={bandwidth.maxUploadSlots}
+                  onChange={(e) => setBandwidth({ ...bandwidth, maxUploadSlots: Number(e.target.value) })}
                   min="1"
-                  max="50"
+                  max="100"
                   className="w-full"
                 />
+                <p className="text-xs text-dark-500 mt-1">Peers each torrent uploads to at once</p>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-dark-300 mb-2">
-                  Parallel Downloads
-                </label>
-                <input
-                  type="number"
-                  value={settings.downloadSlots}
-                  onChange={(e) => setSettings({ ...settings, downloadSlots: Number(e.target.value) })}
-                  min="1"
-                  max="10"
-                  className="w-full"
+            </div>
+
+            {/* Schedule */}
+            <div className="pt-6 border-t border-dark-800 space-y-4">
+              <label className="flex items-center justify-between cursor-pointer">
+                <div>
+                  <p className="font-medium text-white">Scheduled Limits</p>
+                  <p className="text-sm text-dark-400">Use other limits during part of the day, e.g. limited during work hours</p>
+                </div>
+                <Toggle
+                  checked={schedule.enabled}
+                  onChange={(checked) => setSchedule({ ...schedule, enabled: checked })}
                 />
-              </div>
+              </label>
+              {schedule.enabled && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <div className={`w-2 h-2 rounded-full ${scheduleActive ? 'bg-yellow-500' : 'bg-green-500'}`} />
+                    <span className="text-sm text-dark-300">
+                      {scheduleActive ? 'Scheduled limits in effect' : 'Normal limits in effect'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-dark-300 mb-2">
+                        From
+                      </label>
+                      <input
+                        type="time"
+                        value={schedule.start}
+                        onChange={(e) => setSchedule({ ...schedule, start: e.target.value })}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-dark-300 mb-2">
+                        To
+                      </label>
+                      <input
+                        type="time"
+                        value={schedule.end}
+                        onChange={(e) => setSchedule({ ...schedule, end: e.target.value })}
+                        className="w-full"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-dark-300 mb-2">
+                      Days
+                    </label>
+                    <div className="flex gap-2">
+                      {DAY_LABELS.map((label, day) => (
+                        <button
+                          key={day}
+                          onClick={() => toggleScheduleDay(day)}
+                          className={`btn text-sm ${schedule.days.includes(day) ? 'btn-primary' : 'btn-secondary'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-dark-300 mb-2">
+                        Scheduled Upload Speed (KB/s)
+                      </label>
+                      <input
+                        type="number"
+                        value={schedule.uploadLimit}
+                        onChange={(e) => setSchedule({ ...schedule, uploadLimit: Number(e.target.value) })}
+                        min="0"
+                        className="w-full"
+                      />
+                      <p className="text-xs text-dark-500 mt-1">0 = Unlimited</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-dark-300 mb-2">
+                        Scheduled Download Speed (KB/s)
+                      </label>
+                      <input
+                        type="number"
+                        value={schedule.downloadLimit}
+                        onChange={(e) => setSchedule({ ...schedule, downloadLimit: Number(e.target.value) })}
+                        min="0"
+                        className="w-full"
+                      />
+                      <p className="text-xs text-dark-500 mt-1">0 = Unlimited</p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-dark-500">
+                    A period ending before it starts runs overnight. Outside it the limits above apply.
+                  </p>
+                </>
+              )}
             </div>
+
+            <button
+              onClick={handleSaveBandwidth}
+              disabled={bandwidthSaving}
+              className="btn btn-primary"
+            >
+              {bandwidthSaving ? 'Saving...' : bandwidthSaved ? 'Saved!' : 'Save'}
+            </button>
           </div>
         </section>
 
@@ -475,7 +703,7 @@ export function SettingsPage() {
             </svg>
             Downloads
           </h2>
-          <div className="card p-6">
+          <div className="card p-6 space-y-6">
             <div>
               <label className="block text-sm font-medium text-dark-300 mb-2">
                 Download Location
@@ -490,6 +718,88 @@ export function SettingsPage() {
                 <button className="btn btn-secondary">Browse</button>
               </div>
             </div>
+            <div>
+              <p className="text-xs text-dark-500 mb-2">
+                Torrents beyond these limits wait in the queue and start when a slot frees up.
+              </p>
+              <div className="grid grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-dark-300 mb-2">
+                    Parallel Downloads
+                  </label>
+                  <input
+                    type="number"
+                    value={queueLimits.maxActiveDownloads}
+                    onChange={(e) => setQueueLimits({ ...queueLimits, maxActiveDownloads: Number(e.target.value) })}
+                    min="0"
+                    max="100"
+                    className="w-full"
+                  />
+                  <p className="text-xs text-dark-500 mt-1">0 = Unlimited</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-dark-300 mb-2">
+                    Active Seeds
+                  </label>
+                  <input
+                    type="number"
+                    value={queueLimits.maxActiveSeeds}
+                    onChange={(e) => setQueueLimits({ ...queueLimits, maxActiveSeeds: Number(e.target.value) })}
+                    min="0"
+                    max="100"
+                    className="w-full"
+                  />
+                  <p className="text-xs text-dark-500 mt-1">0 = Unlimited</p>
+                </div>
+              </div>
+              <button
+                onClick={handleSaveQueueLimits}
+                disabled={queueLimitsSaving}
+                className="btn btn-primary mt-4"
+              >
+                {queueLimitsSaving ? 'Saving...' : queueLimitsSaved ? 'Saved!' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </section>
+
+        {/* Indexing Section */}
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <svg className="w-5 h-5 text-primary-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+            </svg>
+            Indexing
+          </h2>
+          <div className="card p-6">
+            <div>
+              <label className="block text-sm font-medium text-dark-300 mb-2">
+                Hashing Workers
+              </label>
+              <p className="text-xs text-dark-500 mb-2">
+                Files hashed in parallel while scanning shared folders.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={hashWorkers}
+                  onChange={(e) => setHashWorkers(Number(e.target.value))}
+                  min="0"
+                  max="16"
+                  className="flex-1"
+                />
+                <button
+                  onClick={handleSaveHashWorkers}
+                  disabled={hashWorkersSaving}
+                  className="btn btn-primary"
+                >
+                  {hashWorkersSaving ? 'Saving...' : hashWorkersSaved ? 'Saved!' : 'Save'}
+                </button>
+              </div>
+              <p className="text-xs text-dark-500 mt-1">
+                0 = Automatic (currently {activeHashWorkers})
+              </p>
+            </div>
           </div>
         </section>
 
@@ -16,20 +16,34 @@ interface SearchResult {
   peerDisplayName: string;
   addedAt: number;
   streamingDestination?: string;
+  sources?: { peerId: string; peerDisplayName: string; streamingDestination?: string }[];
+  seeders?: number;
+  leechers?: number;
+  score?: number;
 }
 
-interface Download {
-  id: number;
+export type QueueMove = 'up' | 'down' | 'top' | 'bottom';
+
+export interface Download {
+  id: string;  // infoHash
   filename: string;
   fileHash: string;
   peerId: string;
   peerName: string;
   totalSize: number;
   downloadedSize: number;
-  status: 'pending' | 'connecting' | 'downloading' | 'paused' | 'completed' | 'failed';
+  status: 'pending' | 'connecting' | 'downloading' | 'queued' | 'paused' | 'completed' | 'failed';
   progress: number;
   speed: number;
   error?: string;
+  /** 0 = low, 1 = normal, 2 = high */
+  priority: number;
+  /** Place in the queue (1 = next to start) */
+  queuePosition: number;
+  /** Own upload limit in bytes/s (0 = only the global limit) */
+  uploadLimit: number;
+  /** Own download limit in bytes/s (0 = only the global limit) */
+  downloadLimit: number;
 }
 
 interface SharedFolder {
@@ -39,8 +53,19 @@ interface SharedFolder {
   isScanning: boolean;
 }
 
-interface Peer {
+export interface ShareRules {
+  include: string[];
+  exclude: string[];
+  extensions: string[];
+  minSize: number;
+  maxSize: number;
+  includeHidden: boolean;
+  followSymlinks: boolean;
+}
+
+export interface Peer {
   peerId: string;
+  b32Address: string;
   displayName: string;
   filesCount: number;
   totalSize: number;
@@ -49,6 +74,41 @@ interface Peer {
   streamingDestination?: string;
 }
 
+export type FolderVisibility = 'public' | 'friends' | 'selected';
+
+export interface Friend {
+  b32Address: string;
+  destination: string;
+  displayName: string;
+  addedAt: number;
+}
+
+export interface DirectMessage {
+  id: string;
+  peerId: string;               // b32 address
+  destination: string | null;
+  direction: 'in' | 'out';
+  body: string;
+  status: 'queued' | 'delivered' | 'failed' | 'received' | 'read';
+  createdAt: number;    // Unix seconds
+  deliveredAt: number | null;
+}
+
+export interface ConversationSummary {
+  peerId: string;
+  lastMessage: string;
+  lastDirection: 'in' | 'out';
+  lastAt: number;
+  unread: number;
+}
+
+interface BlockedPeer {
+  peerId: string;
+  displayName: string | null;
+  blockedUntil: number | null; // Unix seconds, null = until unblocked
+  blockReason: string | null;
+}
+
 interface NetworkStatus {
   isConnected: boolean;
   activeTunnels: number;
@@ -66,7 +126,7 @@ interface IndexingProgress {
   current: number;
   total: number;
   currentFile: string;
-  status: 'scanning' | 'hashing' | 'complete' | 'error';
+  status: 'scanning' | 'hashing' | 'paused' | 'complete' | 'error';
 }
 
 // ============================================================================
@@ -79,17 +139,22 @@ interface AppStore {
   searchResults: SearchResult[];
   isSearching: boolean;
   searchError: string | null;
+  activeSearchId: string | null;
   setSearchQuery: (query: string) => void;
   search: (query: string) => Promise<void>;
+  cancelSearch: () => Promise<void>;
   clearSearch: () => void;
 
   // Downloads
   downloads: Download[];
   fetchDownloads: () => Promise<void>;
   startDownload: (result: SearchResult) => Promise<void>;
-  pauseDownload: (id: number) => Promise<void>;
-  resumeDownload: (id: number) => Promise<void>;
-  cancelDownload: (id: number) => Promise<void>;
+  pauseDownload: (id: string) => Promise<void>;
+  resumeDownload: (id: string) => Promise<void>;
+  cancelDownload: (id: string) => Promise<void>;
+  moveDownload: (id: string, move: QueueMove) => Promise<void>;
+  setDownloadPriority: (id: string, priority: number) => Promise<void>;
+  setDownloadBandwidth: (id: string, uploadLimit: number, downloadLimit: number) => Promise<boolean>;
 
   // Shares
   sharedFolders: SharedFolder[];
@@ -99,10 +164,38 @@ interface AppStore {
   fetchSharedFiles: () => Promise<void>;
   addSharedFolder: () => Promise<void>;
   removeSharedFolder: (path: string) => Promise<void>;
+  fetchShareRules: (path: string) => Promise<ShareRules | null>;
+  saveShareRules: (path: string, rules: ShareRules) => Promise<boolean>;
+  fetchFolderVisibility: (path: string) => Promise<{ visibility: FolderVisibility; allowedFriends: string[] } | null>;
+  saveFolderVisibility: (path: string, visibility: FolderVisibility, allowedFriends: string[]) => Promise<boolean>;
+  pauseIndexing: () => Promise<void>;
+  resumeIndexing: () => Promise<void>;
+  cancelIndexing: () => Promise<void>;
 
   // Peers
   peers: Peer[];
   fetchPeers: () => Promise<void>;
+  blockedPeers: BlockedPeer[];
+  fetchBlockedPeers: () => Promise<void>;
+  blockPeer: (peerId: string) => Promise<void>;
+  unblockPeer: (peerId: string) => Promise<void>;
+
+  // Friends
+  friends: Friend[];
+  fetchFriends: () => Promise<void>;
+  createInvite: () => Promise<string | null>;
+  acceptInvite: (token: string) => Promise<boolean>;
+  removeFriend: (b32Address: string) => Promise<void>;
+
+  // Messages
+  conversations: ConversationSummary[];
+  activeConversation: { peerId: string; displayName: string } | null;
+  messages: DirectMessage[];
+  fetchConversations: () => Promise<void>;
+  openConversation: (peerId: string, displayName: string) => Promise<void>;
+  closeConversation: () => void;
+  sendMessage: (body: string) => Promise<boolean>;
+  retryMessage: (id: string) => Promise<void>;
 
   // Network
   networkStatus: NetworkStatus;
@@ -123,6 +216,7 @@ export const useStore = create<AppStore>((set, get) => ({
   searchResults: [],
   isSearching: false,
   searchError: null,
+  activeSearchId: null,
 
   setSearchQuery: (query) => set({ searchQuery: query }),
 
@@ -144,15 +238,18 @@ export const useStore = create<AppStore>((set, get) => ({
       return;
     }
 
-    set({ isSearching: true, searchQuery: query, searchError: null });
+    // Only one search at a time - stop the previous one
+    const previousSearchId = get().activeSearchId;
+    if (previousSearchId) {
+      window.electron.cancelSearch(previousSearchId).catch(() => {});
+    }
 
-    try {
-      const results = await window.electron.search(trimmed, {});
-      set({ searchResults: results, isSearching: false });
+    set({ isSearching: true, searchQuery: query, searchError: null, searchResults: [], activeSearchId: null });
 
-      if (results.length === 0) {
-        notify.info('No results', `No files found for "${trimmed}"`);
-      }
+    try {
+      // Local results come back right away, remote ones stream in via 'search:result'
+      const { searchId, results } = await window.electron.startSearch(trimmed, {});
+      set({ activeSearchId: searchId, searchResults: results });
     } catch (error: any) {
       console.error('Search error:', error);
       const errorMsg = error.message || 'Search failed';
@@ -161,7 +258,25 @@ export const useStore = create<AppStore>((set, get) => ({
     }
   },
 
-  clearSearch: () => set({ searchQuery: '', searchResults: [], isSearching: false, searchError: null }),
+  cancelSearch: async () => {
+    const searchId = get().activeSearchId;
+    if (!searchId) return;
+
+    try {
+      await window.electron.cancelSearch(searchId);
+    } catch (error: any) {
+      console.error('Failed to cancel search:', error);
+    }
+    set({ isSearching: false });
+  },
+
+  clearSearch: () => {
+    const searchId = get().activeSearchId;
+    if (searchId) {
+      window.electron.cancelSearch(searchId).catch(() => {});
+    }
+    set({ searchQuery: '', searchResults: [], isSearching: false, searchError: null, activeSearchId: null });
+  },
 
   // ============================================================================
   // DOWNLOADS
@@ -195,7 +310,8 @@ export const useStore = create<AppStore>((set, get) => ({
         result.size,
         result.peerDisplayName || 'Unknown Peer',
         result.streamingDestination,
-        result.infoHash || undefined // Pass infoHash for torrent-based downloads
+        result.infoHash || undefined, // Pass infoHash for torrent-based downloads
+        result.sources?.map(s => s.streamingDestination || s.peerId) // Download from every peer that has it
       );
 
       notify.success('Download started', result.filename);
@@ -237,6 +353,38 @@ export const useStore = create<AppStore>((set, get) => ({
     }
   },
 
+  moveDownload: async (id, move) => {
+    try {
+      await window.electron.moveDownload(id, move);
+      await get().fetchDownloads();
+    } catch (error: any) {
+      console.error('Failed to move download:', error);
+      notify.error('Could not reorder queue', error.message);
+    }
+  },
+
+  setDownloadPriority: async (id, priority) => {
+    try {
+      await window.electron.setDownloadPriority(id, priority);
+      await get().fetchDownloads();
+    } catch (error: any) {
+      console.error('Failed to set priority:', error);
+      notify.error('Could not set priority', error.message);
+    }
+  },
+
+  setDownloadBandwidth: async (id, uploadLimit, downloadLimit) => {
+    try {
+      await window.electron.setDownloadBandwidth(id, { uploadLimit, downloadLimit });
+      await get().fetchDownloads();
+      return true;
+    } catch (error: any) {
+      console.error('Failed to set bandwidth limits:', error);
+      notify.error('Could not set speed limits', error.message);
+      return false;
+    }
+  },
+
   // ============================================================================
   // SHARES
   // ============================================================================
@@ -288,6 +436,60 @@ export const useStore = create<AppStore>((set, get) => ({
     }
   },
 
+  fetchShareRules: async (path) => {
+    try {
+      return await window.electron.getShareRules(path);
+    } catch (error: any) {
+      console.error('Failed to fetch share rules:', error);
+      return null;
+    }
+  },
+
+  saveShareRules: async (path, rules) => {
+    try {
+      await window.electron.setShareRules(path, rules);
+      notify.success('Share rules saved', `Rescanning ${path}...`);
+      return true;
+    } catch (error: any) {
+      console.error('Failed to save share rules:', error);
+      notify.error('Failed to save rules', error.message);
+      return false;
+    }
+  },
+
+  fetchFolderVisibility: async (path) => {
+    try {
+      return await window.electron.getFolderVisibility(path);
+    } catch (error: any) {
+      console.error('Failed to fetch folder visibility:', error);
+      return null;
+    }
+  },
+
+  saveFolderVisibility: async (path, visibility, allowedFriends) => {
+    try {
+      await window.electron.setFolderVisibility(path, visibility, allowedFriends);
+      notify.success('Visibility saved', path);
+      return true;
+    } catch (error: any) {
+      console.error('Failed to save folder visibility:', error);
+      notify.error('Failed to save visibility', error.message);
+      return false;
+    }
+  },
+
+  pauseIndexing: async () => {
+    await window.electron.pauseScan();
+  },
+
+  resumeIndexing: async () => {
+    await window.electron.resumeScan();
+  },
+
+  cancelIndexing: async () => {
+    await window.electron.cancelScan();
+  },
+
   // ============================================================================
   // PEERS
   // ============================================================================
@@ -302,6 +504,124 @@ export const useStore = create<AppStore>((set, get) => ({
     }
   },
 
+  blockedPeers: [],
+
+  fetchBlockedPeers: async () => {
+    try {
+      const blockedPeers = await window.electron.getBlockedPeers();
+      set({ blockedPeers });
+    } catch (error: any) {
+      console.error('Failed to fetch blocked peers:', error);
+    }
+  },
+
+  blockPeer: async (peerId) => {
+    await window.electron.blockPeer(peerId);
+    await Promise.all([get().fetchPeers(), get().fetchBlockedPeers()]);
+  },
+
+  unblockPeer: async (peerId) => {
+    await window.electron.unblockPeer(peerId);
+    await Promise.all([get().fetchPeers(), get().fetchBlockedPeers()]);
+  },
+
+  // ============================================================================
+  // FRIENDS
+  // ============================================================================
+  friends: [],
+
+  fetchFriends: async () => {
+    try {
+      const friends = await window.electron.getFriends();
+      set({ friends });
+    } catch (error: any) {
+      console.error('Failed to fetch friends:', error);
+    }
+  },
+
+  createInvite: async () => {
+    const result = await window.electron.createInvite();
+    if (!result.success) {
+      notify.error('Could not create invitation', result.error);
+      return null;
+    }
+    return result.token;
+  },
+
+  acceptInvite: async (token) => {
+    const result = await window.electron.acceptInvite(token);
+    if (!result.success) {
+      notify.error('Invalid invitation', result.error);
+      return false;
+    }
+    notify.success('Friend added', result.friend.displayName);
+    await get().fetchFriends();
+    return true;
+  },
+
+  removeFriend: async (b32Address) => {
+    await window.electron.removeFriend(b32Address);
+    await get().fetchFriends();
+  },
+
+  // ============================================================================
+  // MESSAGES
+  // ============================================================================
+  conversations: [],
+  activeConversation: null,
+  messages: [],
+
+  fetchConversations: async () => {
+    try {
+      const conversations = await window.electron.getConversations();
+      set({ conversations });
+    } catch (error: any) {
+      console.error('Failed to fetch conversations:', error);
+    }
+  },
+
+  openConversation: async (peerId, displayName) => {
+    set({ activeConversation: { peerId, displayName }, messages: [] });
+    try {
+      const messages = await window.electron.getMessages(peerId);
+      if (get().activeConversation?.peerId !== peerId) return;
+      set({ messages });
+      await window.electron.markMessagesRead(peerId);
+      get().fetchConversations();
+    } catch (error: any) {
+      console.error('Failed to fetch messages:', error);
+    }
+  },
+
+  closeConversation: () => set({ activeConversation: null, messages: [] }),
+
+  sendMessage: async (body) => {
+    const conversation = get().activeConversation;
+    if (!conversation) return false;
+
+    const result = await window.electron.sendMessage(conversation.peerId, body);
+    if (!result.success) {
+      notify.error('Message not sent', result.error);
+      return false;
+    }
+    if (get().activeConversation?.peerId === conversation.peerId) {
+      set(state => ({ messages: [...state.messages, result.message] }));
+    }
+    get().fetchConversations();
+    return true;
+  },
+
+  retryMessage: async (id) => {
+    const result = await window.electron.retryMessage(id);
+    if (!result.success) {
+      notify.error('Could not retry message', result.error);
+      return;
+    }
+    set(state => ({
+      messages: state.messages.map(m => m.id === id ? { ...m, status: 'queued' as const } : m)
+    }));
+  },
+
   // ============================================================================
   // NETWORK
   // ============================================================================
@@ -374,6 +694,8 @@ export const useStore = create<AppStore>((set, get) => ({
       }),
       window.electron.on('download:paused', () => get().fetchDownloads()),
       window.electron.on('download:resumed', () => get().fetchDownloads()),
+      window.electron.on('download:queued', () => get().fetchDownloads()),
+      window.electron.on('download:queue-changed', () => get().fetchDownloads()),
       window.electron.on('download:completed', (data: any) => {
         get().fetchDownloads();
         notify.success('Download complete', data.filename);
@@ -384,12 +706,36 @@ export const useStore = create<AppStore>((set, get) => ({
       })
     );
 
+    // Search session events - results stream in while peers answer
+    unsubscribers.push(
+      window.electron.on('search:result', (data: any) => {
+        if (data.searchId !== get().activeSearchId) return;
+        // New files, or known files with more sources / a seeder count: replace by fileHash, re-rank
+        set(state => {
+          const byHash = new Map(state.searchResults.map(r => [r.fileHash, r]));
+          for (const result of data.results as SearchResult[]) {
+            byHash.set(result.fileHash, result);
+          }
+          const searchResults = [...byHash.values()].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+          return { searchResults };
+        });
+      }),
+      window.electron.on('search:complete', (data: any) => {
+        if (data.searchId !== get().activeSearchId) return;
+        set({ isSearching: false, activeSearchId: null });
+
+        if (!data.cancelled && get().searchResults.length === 0) {
+          notify.info('No results', `No files found for "${get().searchQuery.trim()}"`);
+        }
+      })
+    );
+
     // Scan/indexing events
     unsubscribers.push(
       window.electron.on('scan:start', (data: any) => {
         set({
           indexingProgress: {
-            folder: data.path,
+            folder: data.folder,
             current: 0,
             total: 0,
             currentFile: '',
@@ -400,8 +746,8 @@ export const useStore = create<AppStore>((set, get) => ({
       window.electron.on('scan:progress', (data: any) => {
         set({
           indexingProgress: {
-            folder: data.path,
-            current: data.current,
+            folder: data.folder,
+            current: data.scanned,
             total: data.total,
             currentFile: data.currentFile || '',
             status: data.status || 'scanning'
@@ -412,7 +758,44 @@ export const useStore = create<AppStore>((set, get) => ({
         set({ indexingProgress: null });
         get().fetchSharedFolders();
         get().fetchSharedFiles();
-        notify.success('Scan complete', `Found ${data.filesCount} files (${formatBytes(data.totalSize)})`);
+        const changes = data.added !== undefined
+          ? ` - ${data.added} added, ${data.changed + data.renamed} updated, ${data.removed} removed`
+          : '';
+        notify.success('Scan complete', `Found ${data.filesCount} files (${formatBytes(data.totalSize)})${changes}`);
+      }),
+      window.electron.on('scan:cancelled', (data: any) => {
+        set({ indexingProgress: null });
+        get().fetchSharedFolders();
+        get().fetchSharedFiles();
+        notify.info('Scan cancelled', `${data.filesCount} files shared in ${data.folder}`);
+      }),
+      // Shared folders changed on disk and were re-indexed in the background
+      window.electron.on('shares:updated', () => {
+        get().fetchSharedFolders();
+        get().fetchSharedFiles();
+      })
+    );
+
+    // Direct messages
+    unsubscribers.push(
+      window.electron.on('messages:received', (message: DirectMessage) => {
+        const conversation = get().activeConversation;
+        // Peers are listed by b32 address or by full destination
+        if (conversation && (conversation.peerId === message.peerId || conversation.peerId === message.destination)) {
+          set(state => ({ messages: [...state.messages, message] }));
+          window.electron.markMessagesRead(message.peerId);
+        } else {
+          const sender = get().friends.find(f => f.b32Address === message.peerId)?.displayName
+            || get().peers.find(p => p.peerId === message.peerId)?.displayName
+            || `${message.peerId.substring(0, 16)}...`;
+          notify.info(`Message from ${sender}`, message.body.length > 80 ? `${message.body.substring(0, 80)}...` : message.body);
+        }
+        get().fetchConversations();
+      }),
+      window.electron.on('messages:status', (data: { id: string; status: DirectMessage['status'] }) => {
+        set(state => ({
+          messages: state.messages.map(m => m.id === data.id ? { ...m, status: data.status } : m)
+        }));
       })
     );
 
@@ -467,6 +850,7 @@ export const useStore = create<AppStore>((set, get) => ({
             // Add new peer
             const newPeer: Peer = {
               peerId: data.peerId || data.b32Address,
+              b32Address: data.b32Address,
               displayName: data.displayName || 'Unknown',
               filesCount: data.filesCount || 0,
               totalSize: data.totalSize || 0,
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { decodeFrameHeader, encodeFrames, FrameAssembler, MAX_DATAGRAM_SIZE, MAX_MESSAGE_SIZE } from './datagram-framing.js';
+
+const FRAGMENT_PAYLOAD_SIZE = MAX_DATAGRAM_SIZE - 14;
+
+/**
+ * Frame with any header, as a sender not using encodeFrames could send it
+ */
+function craftFrame(messageId: number, index: number, count: number, totalLength: number, payloadLength: number): Buffer {
+  const frame = Buffer.alloc(14 + payloadLength, 0x61);
+  frame[0] = 0xf7;
+  frame[1] = 1;
+  frame.writeUInt32BE(messageId, 2);
+  frame.writeUInt16BE(index, 6);
+  frame.writeUInt16BE(count, 8);
+  frame.writeUInt32BE(totalLength, 10);
+  return frame;
+}
+
+describe('datagram framing', () => {
+  let assembler: FrameAssembler;
+
+  beforeEach(() => {
+    assembler = new FrameAssembler();
+  });
+
+  afterEach(() => {
+    assembler.clear();
+  });
+
+  it('reassembles a message from fragments in any order', () => {
+    const data = crypto.randomBytes(3 * FRAGMENT_PAYLOAD_SIZE + 100);
+    const frames = encodeFrames(data, 7);
+    assert.equal(frames.length, 4);
+
+    const results = [frames[2], frames[0], frames[3], frames[1]].map(frame => assembler.push('peer', frame));
+    assert.deepEqual(results.slice(0, 3), [null, null, null]);
+    assert.deepEqual(results[3], data);
+  });
+
+  it('refuses a fragment count that does not match the length', () => {
+    assert.equal(decodeFrameHeader(craftFrame(1, 0, 65535, 1, FRAGMENT_PAYLOAD_SIZE)), null);
+    assert.equal(decodeFrameHeader(craftFrame(1, 0, 3, FRAGMENT_PAYLOAD_SIZE + 1, FRAGMENT_PAYLOAD_SIZE)), null);
+  });
+
+  it('refuses fragments not cut as the sender would', () => {
+    const totalLength = FRAGMENT_PAYLOAD_SIZE + 100;
+    assert.ok(decodeFrameHeader(craftFrame(1, 0, 2, totalLength, FRAGMENT_PAYLOAD_SIZE)));
+    assert.ok(decodeFrameHeader(craftFrame(1, 1, 2, totalLength, 100)));
+
+    assert.equal(decodeFrameHeader(craftFrame(1, 0, 2, totalLength, 100)), null);
+    assert.equal(decodeFrameHeader(craftFrame(1, 1, 2, totalLength, 101)), null);
+    assert.equal(decodeFrameHeader(craftFrame(1, 1, 2, totalLength, FRAGMENT_PAYLOAD_SIZE)), null);
+  });
+
+  it('keeps a sender within its share of the reassembly buffer', () => {
+    // A whole maximum-size message is in progress...
+    const count = Math.ceil(MAX_MESSAGE_SIZE / FRAGMENT_PAYLOAD_SIZE);
+    assert.equal(assembler.push('peer', craftFrame(1, 0, count, MAX_MESSAGE_SIZE, FRAGMENT_PAYLOAD_SIZE)), null);
+
+    // ...so the sender can't start another, however small it claims to be
+    const small = encodeFrames(crypto.randomBytes(MAX_DATAGRAM_SIZE + 1), 2);
+    assert.equal(assembler.push('peer', small[0]), null);
+    assert.equal(assembler.push('peer', small[1]), null);
+
+    // Other senders still can
+    assert.equal(assembler.push('other', small[0]), null);
+    assert.ok(assembler.push('other', small[1]));
+  });
+});
@@ -0,0 +1,185 @@
+// Datagram framing - splits messages too large for one I2P datagram into
+// numbered fragments and reassembles them on the other side.
+// Used by I2PConnection (tracker client, DHT) and the tracker server.
+//
+// Messages that fit in one datagram are sent as plain JSON, so peers without
+// framing support keep working. Frames start with a magic byte JSON never uses.
+
+/** Largest datagram we send; I2P delivers up to ~11KB reliably */
+export const MAX_DATAGRAM_SIZE = 11 * 1024;
+
+/** Largest reassembled message we accept */
+export const MAX_MESSAGE_SIZE = 1024 * 1024;
+
+const FRAME_MAGIC = 0xf7;
+const FRAME_VERSION = 1;
+// magic(1) version(1) messageId(4) index(2) count(2) totalLength(4)
+const FRAME_HEADER_SIZE = 14;
+const FRAGMENT_PAYLOAD_SIZE = MAX_DATAGRAM_SIZE - FRAME_HEADER_SIZE;
+
+const REASSEMBLY_TIMEOUT = 30000;      // Drop incomplete messages after this
+const MAX_PENDING_PER_SENDER = 8;      // Incomplete messages per sender
+const MAX_PENDING_BYTES_PER_SENDER = MAX_MESSAGE_SIZE; // Declared lengths of a sender's incomplete messages
+const MAX_PENDING_BYTES = 8 * 1024 * 1024;
+
+export interface FrameHeader {
+  messageId: number;
+  index: number;
+  count: number;
+  totalLength: number;
+}
+
+interface PendingMessage {
+  from: string;
+  header: FrameHeader;
+  fragments: (Buffer | undefined)[];
+  received: number;
+  bytes: number; // Payload bytes stored so far
+  timer: NodeJS.Timeout;
+}
+
+export function isFrame(data: Buffer): boolean {
+  return data.length > FRAME_HEADER_SIZE && data[0] === FRAME_MAGIC && data[1] === FRAME_VERSION;
+}
+
+/**
+ * Split a message into datagrams. Returns the message itself when it fits in
+ * one datagram, otherwise one frame per fragment.
+ */
+export function encodeFrames(data: Buffer, messageId: number): Buffer[] {
+  if (data.length <= MAX_DATAGRAM_SIZE) return [data];
+  if (data.length > MAX_MESSAGE_SIZE) {
+    throw new Error(`Message too large (${data.length} bytes, max ${MAX_MESSAGE_SIZE})`);
+  }
+
+  const count = Math.ceil(data.length / FRAGMENT_PAYLOAD_SIZE);
+  const frames: Buffer[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const chunk = data.subarray(index * FRAGMENT_PAYLOAD_SIZE, (index + 1) * FRAGMENT_PAYLOAD_SIZE);
+    const frame = Buffer.alloc(FRAME_HEADER_SIZE + chunk.length);
+    frame[0] = FRAME_MAGIC;
+    frame[1] = FRAME_VERSION;
+    frame.writeUInt32BE(messageId >>> 0, 2);
+    frame.writeUInt16BE(index, 6);
+    frame.writeUInt16BE(count, 8);
+    frame.writeUInt32BE(data.length, 10);
+    chunk.copy(frame, FRAME_HEADER_SIZE);
+    frames.push(frame);
+  }
+
+  return frames;
+}
+
+export function decodeFrameHeader(frame: Buffer): FrameHeader | null {
+  if (!isFrame(frame)) return null;
+
+  const header: FrameHeader = {
+    messageId: frame.readUInt32BE(2),
+    index: frame.readUInt16BE(6),
+    count: frame.readUInt16BE(8),
+    totalLength: frame.readUInt32BE(10)
+  };
+
+  if (header.count < 2 || header.index >= header.count) return null;
+  if (header.totalLength > MAX_MESSAGE_SIZE) return null;
+
+  // Fragments are cut exactly as encodeFrames does: full ones, then the remainder
+  if (header.count !== Math.ceil(header.totalLength / FRAGMENT_PAYLOAD_SIZE)) return null;
+  const payloadLength = header.index < header.count - 1
+    ? FRAGMENT_PAYLOAD_SIZE
+    : header.totalLength - (header.count - 1) * FRAGMENT_PAYLOAD_SIZE;
+  if (frame.length - FRAME_HEADER_SIZE !== payloadLength) return null;
+
+  return header;
+}
+
+/**
+ * Collects fragments per sender and message ID. Incomplete messages expire
+ * after REASSEMBLY_TIMEOUT; oversized or inconsistent frames are dropped.
+ */
+export class FrameAssembler {
+  private pending: Map<string, PendingMessage> = new Map();
+  private pendingBytes = 0;
+
+  /**
+   * Add a frame from an authenticated sender. Returns the whole message once
+   * its last fragment arrives, null until then.
+   */
+  push(from: string, frame: Buffer): Buffer | null {
+    const header = decodeFrameHeader(frame);
+    if (!header || !from) return null;
+
+    const key = `${from}:${header.messageId}`;
+    let message = this.pending.get(key);
+
+    if (!message) {
+      if (!this.canAccept(from, header.totalLength)) return null;
+
+      message = {
+        from,
+        header,
+        fragments: new Array(header.count),
+        received: 0,
+        bytes: 0,
+        timer: setTimeout(() => this.drop(key), REASSEMBLY_TIMEOUT)
+      };
+      this.pending.set(key, message);
+      this.pendingBytes += header.totalLength;
+    } else if (message.header.count !== header.count || message.header.totalLength !== header.totalLength) {
+      this.drop(key);
+      return null;
+    }
+
+    if (message.fragments[header.index]) return null; // Duplicate
+    const payload = frame.subarray(FRAME_HEADER_SIZE);
+    if (message.bytes + payload.length > header.totalLength) {
+      this.drop(key);
+      return null;
+    }
+    message.fragments[header.index] = payload;
+    message.received++;
+    message.bytes += payload.length;
+
+    if (message.received < header.count) return null;
+
+    this.drop(key);
+    const data = Buffer.concat(message.fragments as Buffer[]);
+    return data.length === header.totalLength ? data : null;
+  }
+
+  clear(): void {
+    for (const message of this.pending.values()) {
+      clearTimeout(message.timer);
+    }
+    this.pending.clear();
+    this.pendingBytes = 0;
+  }
+
+  /**
+   * Room is reserved by declared length (fragments can't store more than
+   * that), so one sender can't hold more than its own share of the buffer
+   */
+  private canAccept(from: string, totalLength: number): boolean {
+    if (this.pendingBytes + totalLength > MAX_PENDING_BYTES) return false;
+
+    let fromSender = 0;
+    let senderBytes = totalLength;
+    for (const message of this.pending.values()) {
+      if (message.from === from) {
+        fromSender++;
+        senderBytes += message.header.totalLength;
+      }
+    }
+    return fromSender < MAX_PENDING_PER_SENDER && senderBytes <= MAX_PENDING_BYTES_PER_SENDER;
+  }
+
+  private drop(key: string): void {
+    const message = this.pending.get(key);
+    if (!message) return;
+
+    clearTimeout(message.timer);
+    this.pending.delete(key);
+    this.pendingBytes -= message.header.totalLength;
+  }
+}
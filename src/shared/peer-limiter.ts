@@ -0,0 +1,178 @@
+// Per-peer rate limiting and abuse scoring for inbound messages.
+// Used by the I2P connection, DHT and tracker client (main process) and by
+// the tracker server.
+//
+// Each sender has token buckets (one per kind of request) and a misbehavior
+// score: invalid signatures, replayed nonces, malformed payloads and messages
+// over the rate limit add to it, and it decays over time. A sender reaching
+// the threshold is banned for a while.
+
+export type Misbehavior = 'invalid-signature' | 'replayed-nonce' | 'malformed' | 'rate-limited';
+
+export interface RateLimit {
+  rate: number;   // Tokens refilled per second
+  burst: number;  // Bucket size
+}
+
+export interface PeerLimiterConfig {
+  limits: Record<string, RateLimit>;
+  penalties: Record<Misbehavior, number>;
+  banThreshold: number;
+  banDuration: number;   // ms
+  scoreHalfLife: number; // ms
+  /** Called when a sender gets banned (e.g. to store the ban) */
+  onBan?: (peer: string, until: number, reason: Misbehavior) => void;
+  /** Called when a ban expires or is lifted */
+  onUnban?: (peer: string) => void;
+}
+
+export const DEFAULT_LIMITS: Record<string, RateLimit> = {
+  message: { rate: 20, burst: 100 }, // Any datagram (fragments count one by one)
+  search: { rate: 2, burst: 10 }     // Requests that run a search on our files
+};
+
+const DEFAULT_PENALTIES: Record<Misbehavior, number> = {
+  'invalid-signature': 25,
+  'replayed-nonce': 10,
+  'malformed': 5,
+  'rate-limited': 1
+};
+
+const MAX_TRACKED_PEERS = 10000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface PeerState {
+  buckets: Map<string, Bucket>;
+  score: number;
+  scoredAt: number;
+}
+
+export class PeerLimiter {
+  private config: PeerLimiterConfig;
+  private peers: Map<string, PeerState> = new Map(); // Least recently active first
+  private bans: Map<string, number> = new Map();     // peer -> banned until (ms)
+
+  constructor(config: Partial<PeerLimiterConfig> = {}) {
+    this.config = {
+      limits: { ...DEFAULT_LIMITS, ...config.limits },
+      penalties: { ...DEFAULT_PENALTIES, ...config.penalties },
+      banThreshold: config.banThreshold || 100,
+      banDuration: config.banDuration || 60 * 60 * 1000, // 1 hour
+      scoreHalfLife: config.scoreHalfLife || 10 * 60 * 1000,
+      onBan: config.onBan,
+      onUnban: config.onUnban
+    };
+  }
+
+  /**
+   * Take `cost` tokens from a sender's bucket for this kind of request.
+   * Returns false (and counts it against the sender) if it's banned or over the limit.
+   */
+  allow(peer: string, kind: string = 'message', cost: number = 1): boolean {
+    if (!peer) return true;
+    if (this.isBanned(peer)) return false;
+
+    const limit = this.config.limits[kind] || this.config.limits.message;
+    const state = this.touch(peer);
+    const now = Date.now();
+
+    let bucket = state.buckets.get(kind);
+    if (!bucket) {
+      bucket = { tokens: limit.burst, updatedAt: now };
+      state.buckets.set(kind, bucket);
+    }
+
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.rate);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens < cost) {
+      this.penalize(peer, 'rate-limited');
+      return false;
+    }
+
+    bucket.tokens -= cost;
+    return true;
+  }
+
+  /**
+   * Add to a sender's misbehavior score. Returns true if this got it banned.
+   */
+  penalize(peer: string, reason: Misbehavior): boolean {
+    if (!peer || this.isBanned(peer)) return false;
+
+    const state = this.touch(peer);
+    state.score = this.decayedScore(state) + this.config.penalties[reason];
+    state.scoredAt = Date.now();
+
+    if (state.score < this.config.banThreshold) return false;
+
+    const until = Date.now() + this.config.banDuration;
+    this.bans.set(peer, until);
+    this.peers.delete(peer);
+    console.log(`[Limiter] Banned ${peer.substring(0, 16)}... until ${new Date(until).toISOString()} (${reason})`);
+    this.config.onBan?.(peer, until, reason);
+    return true;
+  }
+
+  isBanned(peer: string): boolean {
+    const until = this.bans.get(peer);
+    if (until === undefined) return false;
+    if (until > Date.now()) return true;
+
+    this.bans.delete(peer);
+    this.config.onUnban?.(peer);
+    return false;
+  }
+
+  /**
+   * Ban a sender until the given time (e.g. a ban loaded from storage)
+   */
+  setBan(peer: string, until: number): void {
+    if (until > Date.now()) {
+      this.bans.set(peer, until);
+    }
+  }
+
+  unban(peer: string): void {
+    this.peers.delete(peer);
+    if (this.bans.delete(peer)) {
+      this.config.onUnban?.(peer);
+    }
+  }
+
+  getScore(peer: string): number {
+    const state = this.peers.get(peer);
+    return state ? this.decayedScore(state) : 0;
+  }
+
+  getBans(): { peer: string; until: number }[] {
+    const now = Date.now();
+    return [...this.bans]
+      .filter(([, until]) => until > now)
+      .map(([peer, until]) => ({ peer, until }));
+  }
+
+  private touch(peer: string): PeerState {
+    let state = this.peers.get(peer);
+    if (state) {
+      // Keep the map ordered by activity
+      this.peers.delete(peer);
+    } else {
+      state = { buckets: new Map(), score: 0, scoredAt: Date.now() };
+      if (this.peers.size >= MAX_TRACKED_PEERS) {
+        this.peers.delete(this.peers.keys().next().value!);
+      }
+    }
+    this.peers.set(peer, state);
+    return state;
+  }
+
+  private decayedScore(state: PeerState): number {
+    const elapsed = Date.now() - state.scoredAt;
+    return state.score * Math.pow(0.5, elapsed / this.config.scoreHalfLife);
+  }
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { deserializeSearchQuery, parseSearchQuery, SEARCH_QUERY_VERSION } from './search-query.js';
+
+function remote(...clauses: object[]): unknown {
+  return { version: SEARCH_QUERY_VERSION, clauses };
+}
+
+describe('deserializeSearchQuery', () => {
+  it('accepts what the local parser produces', () => {
+    const { ast } = parseSearchQuery('-draft "Rapport Annuel" Été ext:pdf,doc mime:application/pdf type:document size:>1mb');
+    assert.deepEqual(deserializeSearchQuery(JSON.parse(JSON.stringify(ast))), ast);
+  });
+
+  it('refuses terms with quotes or FTS5 syntax', () => {
+    for (const value of ['a"b', 'x" OR "y', 'NEAR(a b)', 'a*', 'col:value', 'two words', '^start']) {
+      assert.equal(deserializeSearchQuery(remote({ kind: 'term', value, negated: false })), null, value);
+    }
+  });
+
+  it('refuses phrase words the tokenizer would not produce', () => {
+    assert.equal(deserializeSearchQuery(remote({ kind: 'phrase', value: ['ok', 'a"b'], negated: false })), null);
+    assert.equal(deserializeSearchQuery(remote({ kind: 'phrase', value: ['ok', 'Upper'], negated: false })), null);
+    assert.equal(deserializeSearchQuery(remote({ kind: 'phrase', value: ['ok', ''], negated: false })), null);
+  });
+
+  it('takes letters and digits of any script', () => {
+    const ast = remote({ kind: 'term', value: '東京2024', negated: false }, { kind: 'phrase', value: ['ete', 'мир'], negated: true });
+    assert.ok(deserializeSearchQuery(ast));
+  });
+});
@@ -0,0 +1,330 @@
+// Search query language - parser and evaluator shared by local search and DHT peers
+//
+// Syntax (all parts ANDed):
+//   word          filename/folder/type word starting with "word"
+//   "some words"  exact consecutive words
+//   -word         exclusion (also -"some words", -type:video, ...)
+//   type:audio    video | audio | image | document | archive
+//   ext:flac,mp3  file extension (any of)
+//   mime:audio/   MIME type prefix
+//   size:>100MB   > >= < <= comparison, size:100MB..2GB range, bare value means ">="
+
+import type { FileCategory, SearchClause, SearchFilters, SearchQueryAST, SizeOperator } from './types.js';
+
+export const SEARCH_QUERY_VERSION = 1;
+
+const MAX_CLAUSES = 32;
+const MAX_VALUE_LENGTH = 64;
+const MAX_EXTENSIONS = 16;
+const MIN_KEYWORD_LENGTH = 2;
+const MAX_KEYWORDS_PER_FILE = 16;
+
+const FILE_CATEGORIES: FileCategory[] = ['video', 'audio', 'image', 'document', 'archive'];
+const SIZE_OPERATORS: SizeOperator[] = ['>=', '<=', '>', '<'];
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4
+};
+
+/** Raw query token: optional "-", optional "field:", then a quoted or bare value */
+const TOKEN_REGEX = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+export interface ParsedSearchQuery {
+  ast: SearchQueryAST;
+  errors: string[];
+}
+
+/**
+ * Split text into normalized search words (lowercase, diacritics removed).
+ * Matches the FTS5 unicode61 tokenizer used for the local index.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Get the file category for a MIME type
+ */
+export function getFileCategory(mimeType: string | null | undefined): FileCategory | 'other' {
+  if (!mimeType) return 'other';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('text/') || mimeType.includes('document') || mimeType.includes('pdf')) return 'document';
+  if (mimeType.includes('zip') || mimeType.includes('tar') || mimeType.includes('rar') || mimeType.includes('7z')) return 'archive';
+  return 'other';
+}
+
+/**
+ * Parse a size like "100MB", "1.5gb" or "4096" into bytes
+ */
+function parseSize(text: string): number | null {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] || 'b']);
+}
+
+function parseSizeClauses(text: string, negated: boolean): SearchClause[] | null {
+  const range = text.split('..');
+  if (range.length === 2) {
+    const min = parseSize(range[0]);
+    const max = parseSize(range[1]);
+    if (min === null || max === null) return null;
+    // A negated range is "outside the range", which two ANDed clauses can't express
+    if (negated) return null;
+    return [
+      { kind: 'size', op: '>=', value: min, negated },
+      { kind: 'size', op: '<=', value: max, negated }
+    ];
+  }
+
+  const op = SIZE_OPERATORS.find(o => text.startsWith(o)) || '>=';
+  const value = parseSize(text.substring(text.startsWith(op) ? op.length : 0));
+  if (value === null) return null;
+  return [{ kind: 'size', op, value, negated }];
+}
+
+/**
+ * Parse a query string into a search AST.
+ * Never throws: invalid operators are reported in `errors` and skipped.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = [];
+  const errors: string[] = [];
+
+  const pushText = (text: string, quoted: boolean, negated: boolean) => {
+    const words = tokenizeSearchText(text).map(w => w.substring(0, MAX_VALUE_LENGTH));
+    if (words.length === 0) return;
+    if (words.length === 1 && !quoted) {
+      clauses.push({ kind: 'term', value: words[0], negated });
+    } else if (!quoted && !negated) {
+      // "AC/DC" style bare words: each part is a term
+      for (const word of words) clauses.push({ kind: 'term', value: word, negated });
+    } else {
+      clauses.push({ kind: 'phrase', value: words, negated });
+    }
+  };
+
+  for (const match of (query || '').matchAll(TOKEN_REGEX)) {
+    const negated = match[1] === '-';
+    const field = match[2]?.toLowerCase();
+    const quoted = match[3] !== undefined;
+    const value = quoted ? match[3] : match[4];
+
+    switch (field) {
+      case 'type': {
+        const category = value.toLowerCase() as FileCategory;
+        if (FILE_CATEGORIES.includes(category)) {
+          clauses.push({ kind: 'type', value: category, negated });
+        } else {
+          errors.push(`Unknown file type: ${value}`);
+        }
+        break;
+      }
+      case 'ext': {
+        const extensions = value.toLowerCase().split(',')
+          .map(e => e.trim().replace(/^\./, ''))
+          .filter(e => e.length > 0 && e.length <= MAX_VALUE_LENGTH)
+          .slice(0, MAX_EXTENSIONS);
+        if (extensions.length > 0) {
+          clauses.push({ kind: 'ext', value: extensions, negated });
+        } else {
+          errors.push(`Invalid extension: ${value}`);
+        }
+        break;
+      }
+      case 'mime': {
+        const mime = value.toLowerCase().substring(0, MAX_VALUE_LENGTH);
+        if (mime) clauses.push({ kind: 'mime', value: mime, negated });
+        break;
+      }
+      case 'size': {
+        const sizeClauses = parseSizeClauses(value, negated);
+        if (sizeClauses) {
+          clauses.push(...sizeClauses);
+        } else {
+          errors.push(`Invalid size: ${value}`);
+        }
+        break;
+      }
+      default:
+        // Unknown "field:" prefixes are plain text
+        pushText(field ? `${field} ${value}` : value, quoted, negated);
+    }
+  }
+
+  if (clauses.length > MAX_CLAUSES) {
+    errors.push(`Too many search terms (max ${MAX_CLAUSES})`);
+  }
+
+  return {
+    ast: { version: SEARCH_QUERY_VERSION, clauses: clauses.slice(0, MAX_CLAUSES) },
+    errors
+  };
+}
+
+/**
+ * Add legacy SearchFilters (type buttons, size fields) to a query as clauses
+ */
+export function applySearchFilters(ast: SearchQueryAST, filters: SearchFilters = {}): SearchQueryAST {
+  const clauses = [...ast.clauses];
+
+  if (filters.fileType && filters.fileType !== 'all') {
+    clauses.push({ kind: 'type', value: filters.fileType, negated: false });
+  }
+  if (filters.minSize) {
+    clauses.push({ kind: 'size', op: '>=', value: filters.minSize, negated: false });
+  }
+  if (filters.maxSize) {
+    clauses.push({ kind: 'size', op: '<=', value: filters.maxSize, negated: false });
+  }
+  if (filters.mimeType) {
+    clauses.push({ kind: 'mime', value: filters.mimeType.toLowerCase(), negated: false });
+  }
+
+  return { version: ast.version, clauses: clauses.slice(0, MAX_CLAUSES) };
+}
+
+/**
+ * Validate an AST received from the network.
+ * Returns null if it is malformed or uses an unsupported version.
+ */
+export function deserializeSearchQuery(raw: unknown): SearchQueryAST | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { version, clauses } = raw as { version?: unknown; clauses?: unknown };
+  if (version !== SEARCH_QUERY_VERSION || !Array.isArray(clauses) || clauses.length > MAX_CLAUSES) {
+    return null;
+  }
+
+  const isWord = (v: unknown): v is string => typeof v === 'string' && v.length > 0 && v.length <= MAX_VALUE_LENGTH;
+  const isWordList = (v: unknown, max: number) => Array.isArray(v) && v.length > 0 && v.length <= max && v.every(isWord);
+  // Text words end up in the FTS5 query: only what our own tokenizer produces
+  const isSearchWord = (v: unknown) => {
+    if (!isWord(v)) return false;
+    const words = tokenizeSearchText(v);
+    return words.length === 1 && words[0] === v;
+  };
+  const isSearchWordList = (v: unknown) => isWordList(v, MAX_CLAUSES) && (v as unknown[]).every(isSearchWord);
+
+  for (const clause of clauses) {
+    if (!clause || typeof clause !== 'object' || typeof clause.negated !== 'boolean') return null;
+
+    switch (clause.kind) {
+      case 'term':
+        if (!isSearchWord(clause.value)) return null;
+        break;
+      case 'mime':
+        if (!isWord(clause.value)) return null;
+        break;
+      case 'phrase':
+        if (!isSearchWordList(clause.value)) return null;
+        break;
+      case 'ext':
+        if (!isWordList(clause.value, MAX_EXTENSIONS)) return null;
+        break;
+      case 'type':
+        if (!FILE_CATEGORIES.includes(clause.value)) return null;
+        break;
+      case 'size':
+        if (!SIZE_OPERATORS.includes(clause.op) || typeof clause.value !== 'number' || !Number.isFinite(clause.value)) {
+          return null;
+        }
+        break;
+      default:
+        return null;
+    }
+  }
+
+  return { version, clauses: clauses as SearchClause[] };
+}
+
+/**
+ * True if the query has at least one positive (non-excluding) clause
+ */
+export function hasPositiveClause(ast: SearchQueryAST): boolean {
+  return ast.clauses.some(c => !c.negated);
+}
+
+/**
+ * Fields a file is matched on. Text clauses match the filename, the folder
+ * names of `path` (when known) and the MIME type, like the FTS index does.
+ */
+export interface SearchCandidate {
+  filename: string;
+  size: number;
+  mimeType?: string | null;
+  path?: string;
+}
+
+function matchesClause(clause: SearchClause, file: SearchCandidate, fields: string[][]): boolean {
+  switch (clause.kind) {
+    case 'term':
+      return fields.some(words => words.some(w => w.startsWith(clause.value)));
+    case 'phrase': {
+      // Phrases never span fields, as with FTS columns
+      const phrase = ` ${clause.value.join(' ')} `;
+      return fields.some(words => ` ${words.join(' ')} `.includes(phrase));
+    }
+    case 'type':
+      return getFileCategory(file.mimeType) === clause.value;
+    case 'ext': {
+      const dot = file.filename.lastIndexOf('.');
+      return dot >= 0 && clause.value.includes(file.filename.substring(dot + 1).toLowerCase());
+    }
+    case 'mime':
+      return (file.mimeType || '').toLowerCase().startsWith(clause.value);
+    case 'size':
+      switch (clause.op) {
+        case '>': return file.size > clause.value;
+        case '>=': return file.size >= clause.value;
+        case '<': return file.size < clause.value;
+        case '<=': return file.size <= clause.value;
+      }
+  }
+  return false;
+}
+
+/**
+ * Evaluate a query against a file. Same result on every node for the same input.
+ */
+export function matchesSearchQuery(ast: SearchQueryAST, file: SearchCandidate): boolean {
+  const folders = file.path ? file.path.split(/[\\/]+/).slice(0, -1).join(' ') : '';
+  const fields = [file.filename, folders, file.mimeType || ''].map(tokenizeSearchText);
+
+  return ast.clauses.every(clause => matchesClause(clause, file, fields) !== clause.negated);
+}
+
+/**
+ * Keywords a filename is published under in the DHT keyword index
+ */
+export function extractKeywords(filename: string): string[] {
+  const words = tokenizeSearchText(filename)
+    .filter(w => w.length >= MIN_KEYWORD_LENGTH && w.length <= MAX_VALUE_LENGTH);
+  return [...new Set(words)].slice(0, MAX_KEYWORDS_PER_FILE);
+}
+
+/**
+ * Keywords to look up in the DHT keyword index for a query, longest first
+ * (longer words are usually rarer, so their posting lists are shorter).
+ * Only whole words are indexed, so a term is looked up as typed, not as a prefix.
+ */
+export function getLookupKeywords(ast: SearchQueryAST, max = 3): string[] {
+  const words: string[] = [];
+  for (const clause of ast.clauses) {
+    if (clause.negated) continue;
+    if (clause.kind === 'term') words.push(clause.value);
+    if (clause.kind === 'phrase') words.push(...clause.value);
+  }
+
+  return [...new Set(words)]
+    .filter(w => w.length >= MIN_KEYWORD_LENGTH)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, max);
+}
@@ -0,0 +1,120 @@
+// Search result ranking - one result per content hash, ranked by name
+// relevance and availability (spec: "Ranking des Résultats")
+
+import { tokenizeSearchText } from './search-query.js';
+import type { SearchQueryAST, SearchResult } from './types.js';
+
+// Weights from the spec formula. Upload speed and peer age aren't known yet.
+const WEIGHT_RELEVANCE = 40;
+const WEIGHT_SEEDERS = 20;
+const WEIGHT_SOURCES = 15;
+
+/** Seeder/source count at which availability stops adding to the score */
+const AVAILABILITY_SATURATION = 32;
+
+/**
+ * Token-based relevance of a filename for a query, from 0 to 1.
+ * Query words found as whole filename words count fully, as a prefix half;
+ * quoted phrases must appear in order; extra filename words dilute the score.
+ */
+export function scoreRelevance(ast: SearchQueryAST, filename: string): number {
+  const words = tokenizeSearchText(filename);
+  const queryWords: string[] = [];
+  const phrases: string[][] = [];
+
+  for (const clause of ast.clauses) {
+    if (clause.negated) continue;
+    if (clause.kind === 'term') queryWords.push(clause.value);
+    if (clause.kind === 'phrase') {
+      queryWords.push(...clause.value);
+      phrases.push(clause.value);
+    }
+  }
+
+  if (words.length === 0 || queryWords.length === 0) return 0;
+
+  const matched = new Set<number>(); // Indexes of filename words matched
+  let wordScore = 0;
+  for (const queryWord of queryWords) {
+    const exact = words.indexOf(queryWord);
+    if (exact >= 0) {
+      wordScore += 1;
+      matched.add(exact);
+      continue;
+    }
+    const prefix = words.findIndex(w => w.startsWith(queryWord));
+    if (prefix >= 0) {
+      wordScore += 0.5;
+      matched.add(prefix);
+    }
+  }
+
+  const text = ` ${words.join(' ')} `;
+  const phraseScore = phrases.length === 0
+    ? 1
+    : phrases.filter(p => text.includes(` ${p.join(' ')} `)).length / phrases.length;
+  const coverage = matched.size / words.length;
+
+  return 0.6 * (wordScore / queryWords.length) + 0.2 * phraseScore + 0.2 * coverage;
+}
+
+function availability(count: number): number {
+  return Math.min(1, Math.log2(1 + count) / Math.log2(1 + AVAILABILITY_SATURATION));
+}
+
+/**
+ * Combined ranking score of an aggregated result, from 0 to 1
+ */
+export function scoreSearchResult(result: SearchResult): number {
+  const relevance = result.relevance ?? 0;
+  const sources = result.sources?.length ?? 1;
+  const seeders = result.seeders ?? 0;
+
+  return (relevance * WEIGHT_RELEVANCE + availability(seeders) * WEIGHT_SEEDERS + availability(sources) * WEIGHT_SOURCES)
+    / (WEIGHT_RELEVANCE + WEIGHT_SEEDERS + WEIGHT_SOURCES);
+}
+
+/**
+ * Add a result to the aggregates of a search, keyed by fileHash: a file found
+ * on several peers becomes one result listing every source.
+ * Returns the new or updated aggregate, or null if that source was already known.
+ */
+export function aggregateSearchResult(
+  aggregates: Map<string, SearchResult>,
+  result: SearchResult,
+  ast: SearchQueryAST
+): SearchResult | null {
+  const source = {
+    peerId: result.peerId,
+    peerDisplayName: result.peerDisplayName,
+    streamingDestination: result.streamingDestination
+  };
+
+  let aggregate = aggregates.get(result.fileHash);
+  if (!aggregate) {
+    aggregate = {
+      ...result,
+      sources: [source],
+      relevance: scoreRelevance(ast, result.filename)
+    };
+    aggregates.set(result.fileHash, aggregate);
+  } else {
+    if (aggregate.sources?.some(s => s.peerId === source.peerId)) return null;
+    aggregate.sources = [...(aggregate.sources || []), source];
+    aggregate.infoHash = aggregate.infoHash || result.infoHash;
+  }
+
+  aggregate.score = scoreSearchResult(aggregate);
+  return aggregate;
+}
+
+/**
+ * Sort results best first: combined score, then source count, then name
+ */
+export function rankSearchResults(results: SearchResult[]): SearchResult[] {
+  return [...results].sort((a, b) =>
+    (b.score ?? 0) - (a.score ?? 0)
+    || (b.sources?.length ?? 1) - (a.sources?.length ?? 1)
+    || a.filename.localeCompare(b.filename)
+  );
+}
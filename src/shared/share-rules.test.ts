@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { globToRegExp, isPathShared, matchesGlob } from './share-rules.js';
+import { validateShareRules } from './utils.js';
+
+describe('share rule globs', () => {
+  it('matches character classes, negated classes and ranges', () => {
+    assert.ok(matchesGlob('file[0-9].txt', 'docs/file7.txt'));
+    assert.ok(!matchesGlob('file[0-9].txt', 'docs/fileA.txt'));
+    assert.ok(matchesGlob('file[!0-9].txt', 'fileA.txt'));
+    assert.ok(!matchesGlob('file[!0-9].txt', 'file7.txt'));
+  });
+
+  it('takes a [ without a closing ] literally', () => {
+    assert.ok(matchesGlob('a[b', 'a[b'));
+    assert.ok(!matchesGlob('a[b', 'ab'));
+    assert.ok(matchesGlob('[].txt', '[].txt'));
+    assert.ok(matchesGlob('x[!]', 'x[!]'));
+  });
+
+  it('keeps regex syntax inside a class literal', () => {
+    assert.ok(matchesGlob('[\\^]x', '^x'));
+    assert.ok(matchesGlob('[\\^]x', '\\x'));
+    assert.ok(matchesGlob('[[]x', '[x'));
+    assert.ok(!matchesGlob('[[]x', 'ax'));
+  });
+
+  it('refuses a range out of order', () => {
+    assert.throws(() => globToRegExp('[z-a].txt'), /Invalid range z-a/);
+  });
+});
+
+describe('validateShareRules', () => {
+  it('reports a pattern that does not compile', () => {
+    const result = validateShareRules({ exclude: ['*.tmp', '[z-a].txt'] });
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /Invalid pattern/);
+  });
+
+  it('accepts patterns with a literal [', () => {
+    const result = validateShareRules({ include: ['a[b', 'notes/[0-9]*.md'] });
+    assert.equal(result.valid, true);
+
+    // The folder walk can use them without throwing
+    assert.ok(isPathShared(result.sanitized, 'a[b', false));
+    assert.ok(!isPathShared(result.sanitized, 'other', false));
+  });
+});
@@ -0,0 +1,174 @@
+// Per-folder share rules - which files under a shared folder get indexed.
+// Used by the indexer, the folder watcher and the rules editor validation.
+
+import type { ShareRules } from './types.js';
+
+const MAX_PATTERNS = 100;
+const MAX_PATTERN_LENGTH = 256;
+
+/** Rules of a folder that has none stored: what the indexer always skipped */
+export const DEFAULT_SHARE_RULES: ShareRules = {
+  include: [],
+  exclude: [
+    'node_modules',
+    '$RECYCLE.BIN',
+    'System Volume Information',
+    '*.part',
+    '*.crdownload',
+    '*.tmp',
+    'Thumbs.db',
+    'desktop.ini'
+  ],
+  extensions: [],
+  minSize: 1024,                     // Skip very small files (less than 1KB)
+  maxSize: 100 * 1024 * 1024 * 1024, // Skip very large files (more than 100GB)
+  includeHidden: false,
+  followSymlinks: false
+};
+
+const globCache: Map<string, RegExp> = new Map();
+
+/**
+ * Compile a glob: '**' spans directories, '*' and '?' stay within one segment,
+ * [abc] is a character class. Matching is case-insensitive. A '[' without a
+ * closing ']' is literal.
+ * @throws if a character class has a range out of order ([z-a])
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const classEnd = char === '[' ? findClassEnd(pattern, i) : -1;
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (classEnd !== -1) {
+      source += classToRegExp(pattern, pattern.slice(i + 1, classEnd));
+      i = classEnd;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`, 'i');
+  globCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Index of the ']' closing a class opened at `start`, -1 if there is none
+ * or the class would be empty ('[]', '[!]')
+ */
+function findClassEnd(pattern: string, start: number): number {
+  const bodyStart = pattern[start + 1] === '!' ? start + 2 : start + 1;
+  const end = pattern.indexOf(']', bodyStart);
+  return end > bodyStart ? end : -1;
+}
+
+function classToRegExp(pattern: string, body: string): string {
+  const negated = body.startsWith('!');
+  const chars = Array.from(negated ? body.slice(1) : body);
+
+  for (let i = 1; i < chars.length - 1; i++) {
+    if (chars[i] === '-' && chars[i - 1].codePointAt(0)! > chars[i + 1].codePointAt(0)!) {
+      throw new Error(`Invalid range ${chars[i - 1]}-${chars[i + 1]} in pattern: ${pattern}`);
+    }
+  }
+
+  const escaped = chars.map(c => c.replace(/[\\[\]^]/g, '\\$&')).join('');
+  return `[${negated ? '^' : ''}${escaped}]`;
+}
+
+/**
+ * Match a folder-relative path ('/' separators). A pattern without '/' matches
+ * any segment; one with '/' matches from the folder root, and also excludes
+ * everything under a matching directory.
+ */
+export function matchesGlob(pattern: string, relativePath: string): boolean {
+  const regex = globToRegExp(pattern.replace(/^\/+|\/+$/g, ''));
+  const segments = relativePath.split('/');
+
+  if (!pattern.includes('/')) {
+    return segments.some(segment => regex.test(segment));
+  }
+
+  for (let i = segments.length; i > 0; i--) {
+    if (regex.test(segments.slice(0, i).join('/'))) return true;
+  }
+  return false;
+}
+
+/**
+ * Check if a folder-relative path is shared by the rules. Directories only
+ * check hidden/exclude (so the walk can go inside them); include globs and
+ * the extension allowlist apply to files.
+ */
+export function isPathShared(rules: ShareRules, relativePath: string, isDirectory: boolean): boolean {
+  if (!relativePath || relativePath.startsWith('..')) return false;
+
+  if (!rules.includeHidden && relativePath.split('/').some(segment => segment.startsWith('.'))) {
+    return false;
+  }
+
+  if (rules.exclude.some(pattern => matchesGlob(pattern, relativePath))) return false;
+  if (isDirectory) return true;
+
+  if (rules.extensions.length > 0) {
+    const filename = relativePath.substring(relativePath.lastIndexOf('/') + 1);
+    const dot = filename.lastIndexOf('.');
+    const extension = dot > 0 ? filename.substring(dot + 1).toLowerCase() : '';
+    if (!rules.extensions.includes(extension)) return false;
+  }
+
+  if (rules.include.length > 0 && !rules.include.some(pattern => matchesGlob(pattern, relativePath))) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isSizeShared(rules: ShareRules, size: number): boolean {
+  return size >= rules.minSize && (rules.maxSize === 0 || size <= rules.maxSize);
+}
+
+/**
+ * Fill in missing fields with the defaults and clean up lists
+ * (trimmed, deduplicated, extensions lowercase without dot)
+ */
+export function normalizeShareRules(rules?: Partial<ShareRules> | null): ShareRules {
+  const patterns = (list: unknown, fallback: string[]): string[] => {
+    if (!Array.isArray(list)) return [...fallback];
+    const cleaned = list
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(item => item.length > 0 && item.length <= MAX_PATTERN_LENGTH);
+    return [...new Set(cleaned)].slice(0, MAX_PATTERNS);
+  };
+  const size = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+  return {
+    include: patterns(rules?.include, DEFAULT_SHARE_RULES.include),
+    exclude: patterns(rules?.exclude, DEFAULT_SHARE_RULES.exclude),
+    extensions: patterns(rules?.extensions, DEFAULT_SHARE_RULES.extensions)
+      .map(extension => extension.replace(/^\.+/, '').toLowerCase())
+      .filter(extension => extension.length > 0),
+    minSize: size(rules?.minSize, DEFAULT_SHARE_RULES.minSize),
+    maxSize: size(rules?.maxSize, DEFAULT_SHARE_RULES.maxSize),
+    includeHidden: typeof rules?.includeHidden === 'boolean' ? rules.includeHidden : DEFAULT_SHARE_RULES.includeHidden,
+    followSymlinks: typeof rules?.followSymlinks === 'boolean' ? rules.followSymlinks : DEFAULT_SHARE_RULES.followSymlinks
+  };
+}
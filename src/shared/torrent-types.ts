@@ -72,6 +72,14 @@ export interface TorrentInfo {
   seedersCount: number;
   leechersCount: number;
   createdAt: number;
+  /** Download priority */
+  priority: TorrentPriority;
+  /** Place in the download queue (1 = next to start) */
+  queuePosition: number;
+  /** Upload limit in bytes/s (0 = only the global limit) */
+  uploadLimit: number;
+  /** Download limit in bytes/s (0 = only the global limit) */
+  downloadLimit: number;
 }
 
 // ============================================================================
@@ -100,6 +108,20 @@ export enum TorrentState {
   ERROR = 'error'
 }
 
+/**
+ * Download priority: higher priority torrents get active slots first
+ */
+export enum TorrentPriority {
+  LOW = 0,
+  NORMAL = 1,
+  HIGH = 2
+}
+
+/**
+ * Moves within the download queue
+ */
+export type QueueMove = 'up' | 'down' | 'top' | 'bottom';
+
 /**
  * Detailed status of a torrent
  */
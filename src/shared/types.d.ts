@@ -89,6 +89,29 @@ export interface SharedFolder {
     filesCount: number;
     totalSize: number;
     isScanning: boolean;
+    visibility?: FolderVisibility;
+    allowedFriends?: string[];
+}
+export type FolderVisibility = 'public' | 'friends' | 'selected';
+export interface Friend {
+    b32Address: string;
+    destination: string;
+    signingKey: string;
+    displayName: string;
+    addedAt: number;
+}
+export type DirectMessageStatus = 'queued' | 'delivered' | 'failed' | 'received' | 'read';
+export interface DirectMessage {
+    id: string;
+    peerId: string;
+    destination: string | null;
+    direction: 'in' | 'out';
+    body: string;
+    status: DirectMessageStatus;
+    attempts: number;
+    nextAttemptAt: number | null;
+    createdAt: number;
+    deliveredAt: number | null;
 }
 export interface NetworkStats {
     isConnected: boolean;
@@ -125,7 +148,6 @@ export interface DHTMessage {
     nodeId: string;
     payload: any;
     timestamp: number;
-    signature?: string;
 }
 export interface PeerAnnounce {
     type: 'peer_announce';
@@ -136,6 +158,7 @@ export interface PeerAnnounce {
     filesCount: number;
     totalSize: number;
     timestamp: number;
+    signingKey?: string;  // Ed25519 public key the userId derives from
     signature: string;
 }
 export interface FileRequest {
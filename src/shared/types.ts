@@ -28,15 +28,73 @@ export interface SearchResult {
   addedAt: number;
   quality?: string;
   streamingDestination?: string;
+  // Aggregated per fileHash (see shared/search-ranking.ts)
+  sources?: SearchResultSource[]; // Every peer found sharing this file
+  seeders?: number;               // Tracker scrape: complete
+  leechers?: number;              // Tracker scrape: incomplete
+  relevance?: number;             // Filename match, 0-1
+  score?: number;                 // Combined ranking, 0-1
+}
+
+/** A peer sharing a search result's file */
+export interface SearchResultSource {
+  peerId: string;
+  peerDisplayName: string;
+  streamingDestination?: string;
+}
+
+/** Reply to 'search:start'; remote hits follow as 'search:result' events */
+export interface SearchSessionStart {
+  searchId: string;
+  results: SearchResult[];   // Local matches
+}
+
+/** 'search:result' event payload */
+export interface SearchResultEvent {
+  searchId: string;
+  results: SearchResult[];
+}
+
+/** 'search:complete' event payload */
+export interface SearchCompleteEvent {
+  searchId: string;
+  resultsCount: number;
+  cancelled: boolean;
 }
 
 export interface SearchFilters {
-  fileType?: 'all' | 'video' | 'audio' | 'image' | 'document' | 'archive';
+  fileType?: 'all' | FileCategory;
   minSize?: number;
   maxSize?: number;
   mimeType?: string;
 }
 
+export type FileCategory = 'video' | 'audio' | 'image' | 'document' | 'archive';
+
+// ============================================================================
+// SEARCH QUERY LANGUAGE
+// ============================================================================
+
+/**
+ * Parsed search query, e.g. `"live set" -remix type:audio size:>100MB ext:flac`.
+ * All clauses are ANDed; a negated clause must NOT match.
+ * Sent as-is in FIND_VALUE payloads so remote peers filter exactly like we do.
+ */
+export interface SearchQueryAST {
+  version: number;
+  clauses: SearchClause[];
+}
+
+export type SearchClause =
+  | { kind: 'term'; value: string; negated: boolean }       // word prefix
+  | { kind: 'phrase'; value: string[]; negated: boolean }   // consecutive words
+  | { kind: 'type'; value: FileCategory; negated: boolean }
+  | { kind: 'ext'; value: string[]; negated: boolean }      // any of these extensions
+  | { kind: 'mime'; value: string; negated: boolean }       // MIME type prefix
+  | { kind: 'size'; op: SizeOperator; value: number; negated: boolean };
+
+export type SizeOperator = '>' | '>=' | '<' | '<=';
+
 export interface Download {
   id: number;
   filename: string;
@@ -98,6 +156,41 @@ export interface SharedFolder {
   filesCount: number;
   totalSize: number;
   isScanning: boolean;
+  visibility?: FolderVisibility;
+  allowedFriends?: string[];
+}
+
+/**
+ * Who can find and download a shared folder's files: everyone, all friends,
+ * or only the friends listed in allowedFriends
+ */
+export type FolderVisibility = 'public' | 'friends' | 'selected';
+
+export interface Friend {
+  b32Address: string;
+  destination: string;
+  signingKey: string;     // Ed25519 public key (base64) that signed the invitation
+  displayName: string;
+  addedAt: number;
+}
+
+/**
+ * Outgoing: queued until the recipient acknowledges it, failed after retrying for too long.
+ * Incoming: received until the conversation is opened.
+ */
+export type DirectMessageStatus = 'queued' | 'delivered' | 'failed' | 'received' | 'read';
+
+export interface DirectMessage {
+  id: string;
+  peerId: string;               // Other side's b32 address
+  destination: string | null;
+  direction: 'in' | 'out';
+  body: string;
+  status: DirectMessageStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // Unix seconds
+  createdAt: number;            // Unix seconds
+  deliveredAt: number | null;
 }
 
 // ============================================================================
@@ -156,7 +249,21 @@ export interface DHTMessage {
   nodeId: string;
   payload: any;
   timestamp: number;
-  signature?: string;
+}
+
+/**
+ * Keyword index entry stored in the DHT: one shared file whose name contains a keyword.
+ * Publishers STORE these at the K nodes closest to SHA1("kw:" + keyword).
+ */
+export interface KeywordPosting {
+  fileHash: string;
+  infoHash?: string | null;
+  filename: string;
+  size: number;
+  mimeType: string;
+  publisher: string;   // I2P destination of the peer sharing the file
+  signingKey?: string; // Publisher's Ed25519 public key
+  signature?: string;  // Publisher's signature over the posting (see postingSignedData)
 }
 
 export interface P2PMessage {
@@ -177,6 +284,7 @@ export interface PeerAnnounce {
   filesCount: number;
   totalSize: number;
   timestamp: number;
+  signingKey?: string;  // Ed25519 public key the userId derives from
   signature: string;
 }
 
@@ -351,14 +459,41 @@ export interface IndexingProgress {
   error?: string;
 }
 
+/** 'scan:complete' event payload: what an incremental scan changed in the index */
+export interface ScanSummary {
+  folder: string;
+  filesCount: number;
+  totalSize: number;
+  added: number;
+  changed: number;    // Same path, new size or mtime (re-hashed)
+  renamed: number;    // Same hash, new path
+  removed: number;
+  unchanged: number;  // Skipped without hashing
+}
+
+/**
+ * Per-folder share rules (shared_folders.rules). Globs are relative to the
+ * folder with '/' separators; a glob without '/' matches any path segment.
+ */
+export interface ShareRules {
+  include: string[];       // Only files matching one of these (empty = all files)
+  exclude: string[];       // Files and directories never shared
+  extensions: string[];    // Extension allowlist, lowercase without dot (empty = all)
+  minSize: number;         // Bytes
+  maxSize: number;         // Bytes (0 = no limit)
+  includeHidden: boolean;  // Share dotfiles and dot-directories
+  followSymlinks: boolean;
+}
+
 // ============================================================================
 // IPC CHANNEL TYPES
 // ============================================================================
 
 export type IPCChannels = {
   // Search
+  'search:start': (query: string, filters: SearchFilters) => Promise<SearchSessionStart>;
+  'search:cancel': (searchId: string) => Promise<boolean>;
   'search:query': (query: string, filters: SearchFilters) => Promise<SearchResult[]>;
-  'search:cancel': () => Promise<void>;
 
   // Downloads (legacy - maps to torrent operations)
   'download:start': (fileHash: string, peerId: string, filename: string, size: number) => Promise<number>;
@@ -2,6 +2,9 @@
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { toB32 } from '@diva.exchange/i2p-sam';
+import { hasPositiveClause, parseSearchQuery } from './search-query.js';
+import { globToRegExp, normalizeShareRules } from './share-rules.js';
 
 // ============================================================================
 // FORMATTING UTILITIES
@@ -91,7 +94,7 @@ export function sanitizeFilename(filename) {
 }
 
 /**
- * Validate search query
+ * Validate search query and parse it with the search query language
  */
 export function validateSearchQuery(query) {
     if (!query || typeof query !== 'string') {
@@ -104,7 +107,15 @@ export function validateSearchQuery(query) {
     if (sanitized.length < 1) {
         return { valid: false, sanitized: '', error: 'Query too short' };
     }
-    return { valid: true, sanitized };
+    const { ast, errors } = parseSearchQuery(sanitized);
+    if (errors.length > 0) {
+        return { valid: false, sanitized, error: errors[0] };
+    }
+    // Exclusions alone would match every shared file
+    if (!hasPositiveClause(ast)) {
+        return { valid: false, sanitized, error: 'Query needs at least one term or filter that is not an exclusion' };
+    }
+    return { valid: true, sanitized, ast };
 }
 
 /**
@@ -127,6 +138,35 @@ export function validateI2PDestination(dest) {
     return b32Regex.test(dest);
 }
 
+/**
+ * Key for comparing destinations given as full base64 or as b32 addresses
+ * (with or without .b32.i2p): the lowercase b32 part
+ */
+export function destinationKey(destination) {
+    if (destination.length > 100 && !destination.endsWith('.i2p')) {
+        return toB32(destination);
+    }
+    return destination.replace(/\.b32\.i2p$/i, '').toLowerCase();
+}
+
+/**
+ * Split a datagram received on a repliable (DATAGRAM) session into the sender
+ * destination and the payload. The router writes "<destination> [options]\n"
+ * before the payload; a datagram forwarded without that header (RAW style)
+ * returns an empty sender and the payload as sent.
+ */
+export function parseRepliableDatagram(header, payload) {
+    const destination = header.trim().split(' ')[0];
+    if (destination.length > 100 && /^[A-Za-z0-9~-]+=*$/.test(destination) && validateI2PDestination(destination)) {
+        return { from: destination, data: payload };
+    }
+    // No header: the payload had no newline (whole message) or was split at its first one
+    if (header.length === payload.length - 1) {
+        return { from: '', data: payload };
+    }
+    return { from: '', data: Buffer.concat([Buffer.from(header), Buffer.from('\n'), payload]) };
+}
+
 /**
  * Validate display name
  */
@@ -142,6 +182,31 @@ export function validateDisplayName(name) {
     return { valid: true, sanitized };
 }
 
+/**
+ * Validate share rules from the rules editor
+ */
+export function validateShareRules(rules) {
+    const sanitized = normalizeShareRules(rules);
+    if (!rules || typeof rules !== 'object') {
+        return { valid: false, sanitized, error: 'Rules must be an object' };
+    }
+    if (sanitized.maxSize > 0 && sanitized.maxSize < sanitized.minSize) {
+        return { valid: false, sanitized, error: 'Maximum size is smaller than minimum size' };
+    }
+    for (const pattern of [...sanitized.include, ...sanitized.exclude]) {
+        if (pattern.split('/').includes('..')) {
+            return { valid: false, sanitized, error: `Pattern leaves the folder: ${pattern}` };
+        }
+        try {
+            globToRegExp(pattern.replace(/^\/+|\/+$/g, ''));
+        }
+        catch (e) {
+            return { valid: false, sanitized, error: `Invalid pattern: ${e.message}` };
+        }
+    }
+    return { valid: true, sanitized };
+}
+
 // ============================================================================
 // DISK SPACE UTILITIES
 // ============================================================================
@@ -306,6 +371,13 @@ export function sha1(data) {
     return crypto.createHash('sha1').update(data).digest('hex');
 }
 
+/**
+ * DHT node ID of a signing key: SHA1 of its DER bytes, so a node can't
+ * pick its position in the keyspace or claim another node's ID
+ */
+export function nodeIdFromSigningKey(publicKeyBase64) {
+    return sha1(Buffer.from(publicKeyBase64, 'base64'));
+}
 /**
  * Generate random bytes as hex string
  */
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { beforeEach, describe, it } from 'node:test';
+import { WireCodec } from './wire-codec.js';
+
+/**
+ * Random full destination, in I2P base64 like the router gives them
+ */
+function randomDestination(): string {
+  return crypto.randomBytes(390).toString('base64').replace(/\+/g, '-').replace(/\//g, '~');
+}
+
+describe('WireCodec', () => {
+  let alice: WireCodec;
+  let bob: WireCodec;
+
+  beforeEach(() => {
+    alice = new WireCodec();
+    bob = new WireCodec();
+    // Bob's JSON hint tells Alice he speaks the binary format
+    alice.notePeer('bob', bob.hint('alice'));
+  });
+
+  function send(message: object): { size: number; decoded: any } {
+    const data = alice.encode('bob', message)!;
+    return { size: data.length, decoded: bob.decode('alice', data) };
+  }
+
+  it('stays JSON for peers that never sent a hint', () => {
+    assert.equal(bob.encode('alice', { type: 'PING' }), null);
+  });
+
+  it('round-trips nested maps, lists and scalars', () => {
+    const message = {
+      type: 'RESULTS',
+      id: 4294967296,
+      nested: { deep: { list: [1, -1, -500000, 'été', true, false, null], empty: {} }, bytes: '' },
+      counts: [0, 23, 24, 255, 256, 65535, 65536, Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER]
+    };
+    assert.deepEqual(send(message).decoded, message);
+  });
+
+  it('keeps floats exact', () => {
+    const message = { ratio: 0.1 + 0.2, negative: -2.5, tiny: 5e-324, large: 1e300, zero: -0 };
+    assert.deepEqual(send(message).decoded, message);
+  });
+
+  it('drops undefined fields and non-finite numbers like JSON', () => {
+    assert.deepEqual(send({ a: undefined, b: NaN, c: [Infinity] }).decoded, { b: null, c: [null] });
+  });
+
+  it('sends a destination already sent in a list as its hash', () => {
+    const peers = [randomDestination(), randomDestination()];
+    const first = send({ type: 'PEERS', peers, from: peers[0] });
+    const second = send({ type: 'PEERS', peers, from: peers[0] });
+
+    assert.deepEqual(first.decoded, { type: 'PEERS', peers, from: peers[0] });
+    assert.deepEqual(second.decoded, first.decoded);
+    // Fields outside lists stay full, list items shrink to 32-byte hashes
+    assert.ok(second.size < first.size - 2 * 300);
+  });
+
+  it('resets its cache on an unknown hash and gets full destinations again', () => {
+    const peers = [randomDestination()];
+    alice.encode('bob', { type: 'PEERS', peers }); // Lost on the way
+
+    // Bob can't resolve the hash: dropped, and a new epoch for Alice
+    assert.equal(send({ type: 'PEERS', peers }).decoded, null);
+    assert.equal(send({ type: 'PEERS', peers }).decoded, null);
+
+    // Alice sees the new epoch in Bob's next message and sends destinations in full
+    assert.deepEqual(alice.decode('bob', bob.encode('alice', { type: 'PONG' })!), { type: 'PONG' });
+    assert.deepEqual(send({ type: 'PEERS', peers }).decoded, { type: 'PEERS', peers });
+  });
+});
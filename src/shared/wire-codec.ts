@@ -0,0 +1,386 @@
+// Wire codec - compact binary encoding for tracker and DHT messages.
+// Used by I2PConnection (tracker client, DHT) and the tracker server.
+//
+// Binary messages are magic(1) version(1) epoch(4) followed by a CBOR body.
+// Full destinations travel as raw bytes (tag 40) instead of base64, and inside
+// lists a destination the peer already received from us is sent as its 32-byte
+// SHA256 hash (tag 41). Peers that never told us they speak the binary format
+// get JSON carrying a `_wire` hint, so older peers keep working.
+//
+// The epoch identifies the receiver's destination cache for one peer. When a
+// hash can't be resolved (lost datagram, evicted cache) the receiver drops the
+// message and starts a new epoch; the sender sees it on the next message and
+// sends full destinations again.
+
+import crypto from 'crypto';
+
+export const WIRE_VERSION = 1;
+
+const WIRE_MAGIC = 0xb1;
+const WIRE_HEADER_SIZE = 6;
+
+const TAG_DESTINATION = 40;      // Full destination as raw bytes
+const TAG_DESTINATION_HASH = 41; // SHA256 of a destination the receiver has cached
+
+const MAX_DEPTH = 32;
+const MAX_PEERS = 2048;              // Peers whose wire state we remember
+const MAX_SENT_PER_PEER = 512;       // Destinations remembered as sent in full
+const MAX_RECEIVED_PER_PEER = 1024;  // Destinations cached per sender (more than it remembers)
+
+/** Hint added to JSON messages: our wire version and cache epoch */
+export interface WireHint {
+  v: number;
+  e: number;
+}
+
+interface PeerWireState {
+  version: number;                // Version the peer speaks, 0 = JSON only
+  epoch: number;                  // Peer's cache epoch for us
+  localEpoch: number;             // Our cache epoch for the peer
+  sent: Set<string>;              // Destination hashes (hex) the peer has cached
+  received: Map<string, string>;  // Destination hash (hex) -> destination
+}
+
+class Tagged {
+  constructor(public tag: number, public value: Buffer) {}
+}
+
+class UnknownDestinationError extends Error {}
+
+export function isWireMessage(data: Buffer): boolean {
+  return data.length > WIRE_HEADER_SIZE && data[0] === WIRE_MAGIC;
+}
+
+/**
+ * Per-endpoint codec state: which peers speak the binary format, which
+ * destinations each peer has cached from us and which we cached from it.
+ */
+export class WireCodec {
+  private peers: Map<string, PeerWireState> = new Map();
+
+  /**
+   * Hint for JSON messages to a peer, so it knows it can switch to binary
+   */
+  hint(to: string): WireHint {
+    return { v: WIRE_VERSION, e: this.getPeer(to).localEpoch };
+  }
+
+  /**
+   * Record what a JSON message told us about its sender
+   */
+  notePeer(from: string, hint: unknown): void {
+    if (!from || !hint || typeof hint !== 'object') return;
+    const { v, e } = hint as Partial<WireHint>;
+    if (typeof v !== 'number' || typeof e !== 'number') return;
+
+    this.updatePeer(this.getPeer(from), Math.min(v, WIRE_VERSION), e);
+  }
+
+  /**
+   * Encode a message for a peer. Returns null when the peer has not shown it
+   * speaks the binary format; the caller sends JSON with the hint instead.
+   */
+  encode(to: string, message: object): Buffer | null {
+    const peer = this.peers.get(to);
+    if (!peer || peer.version < 1) return null;
+
+    const body: Buffer[] = [];
+    this.encodeValue(message, body, peer, false, 0);
+
+    const header = Buffer.alloc(WIRE_HEADER_SIZE);
+    header[0] = WIRE_MAGIC;
+    header[1] = WIRE_VERSION;
+    header.writeUInt32BE(peer.localEpoch, 2);
+    return Buffer.concat([header, ...body]);
+  }
+
+  /**
+   * Decode a binary message from an authenticated sender. Returns null if it
+   * is malformed, uses a version we do not know or a destination we lost.
+   */
+  decode(from: string, data: Buffer): any | null {
+    if (!from || !isWireMessage(data) || data[1] > WIRE_VERSION || data[1] < 1) return null;
+
+    const peer = this.getPeer(from);
+    this.updatePeer(peer, data[1], data.readUInt32BE(2));
+
+    try {
+      const reader = { data, offset: WIRE_HEADER_SIZE };
+      const message = this.decodeValue(reader, peer, 0);
+      if (reader.offset !== data.length || !message || typeof message !== 'object' || Array.isArray(message)) {
+        return null;
+      }
+      return message;
+    } catch (error) {
+      if (error instanceof UnknownDestinationError) {
+        // Start over: the peer sends full destinations once it sees the new epoch
+        console.log('[Wire] Unknown destination hash, resetting cache for peer');
+        peer.localEpoch = randomEpoch();
+        peer.received.clear();
+      }
+      return null;
+    }
+  }
+
+  clear(): void {
+    this.peers.clear();
+  }
+
+  private getPeer(destination: string): PeerWireState {
+    let peer = this.peers.get(destination);
+    if (peer) {
+      // Keep the map in least recently used order
+      this.peers.delete(destination);
+    } else {
+      peer = { version: 0, epoch: 0, localEpoch: randomEpoch(), sent: new Set(), received: new Map() };
+    }
+
+    this.peers.set(destination, peer);
+    if (this.peers.size > MAX_PEERS) {
+      this.peers.delete(this.peers.keys().next().value!);
+    }
+    return peer;
+  }
+
+  private updatePeer(peer: PeerWireState, version: number, epoch: number): void {
+    // A new epoch means the peer lost the destinations it had from us
+    if (peer.epoch !== epoch) peer.sent.clear();
+    peer.version = version;
+    peer.epoch = epoch;
+  }
+
+  private encodeValue(value: unknown, out: Buffer[], peer: PeerWireState, inList: boolean, depth: number): void {
+    if (depth > MAX_DEPTH) throw new Error('Message nested too deeply');
+
+    if (value === null || value === undefined) {
+      out.push(Buffer.from([0xf6]));
+    } else if (typeof value === 'boolean') {
+      out.push(Buffer.from([value ? 0xf5 : 0xf4]));
+    } else if (typeof value === 'number') {
+      encodeNumber(value, out);
+    } else if (typeof value === 'string') {
+      const destination = destinationBytes(value);
+      if (destination) {
+        this.encodeDestination(destination, out, peer, inList);
+      } else {
+        const bytes = Buffer.from(value, 'utf8');
+        out.push(encodeHead(3, bytes.length), bytes);
+      }
+    } else if (value instanceof Tagged) {
+      out.push(encodeHead(6, value.tag), encodeHead(2, value.value.length), value.value);
+    } else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+      out.push(encodeHead(2, value.length), Buffer.from(value));
+    } else if (Array.isArray(value)) {
+      out.push(encodeHead(4, value.length));
+      for (const item of value) {
+        this.encodeValue(item, out, peer, true, depth + 1);
+      }
+    } else if (typeof value === 'object') {
+      // Like JSON, drop undefined fields (keeps signed payloads identical)
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      out.push(encodeHead(5, entries.length));
+      for (const [key, item] of entries) {
+        this.encodeValue(key, out, peer, inList, depth + 1);
+        this.encodeValue(item, out, peer, inList, depth + 1);
+      }
+    } else {
+      throw new Error(`Cannot encode ${typeof value}`);
+    }
+  }
+
+  private encodeDestination(destination: Buffer, out: Buffer[], peer: PeerWireState, inList: boolean): void {
+    const hash = crypto.createHash('sha256').update(destination).digest();
+    const key = hash.toString('hex');
+
+    if (inList && peer.sent.has(key)) {
+      this.encodeValue(new Tagged(TAG_DESTINATION_HASH, hash), out, peer, inList, 0);
+      return;
+    }
+
+    this.encodeValue(new Tagged(TAG_DESTINATION, destination), out, peer, inList, 0);
+    peer.sent.delete(key);
+    peer.sent.add(key);
+    if (peer.sent.size > MAX_SENT_PER_PEER) {
+      peer.sent.delete(peer.sent.values().next().value!);
+    }
+  }
+
+  private decodeValue(reader: { data: Buffer; offset: number }, peer: PeerWireState, depth: number): any {
+    if (depth > MAX_DEPTH) throw new Error('Message nested too deeply');
+
+    const { major, info, length } = readHead(reader);
+
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return -1 - length;
+      case 2:
+        return readBytes(reader, length);
+      case 3:
+        return readBytes(reader, length).toString('utf8');
+      case 4: {
+        const list: any[] = [];
+        for (let i = 0; i < length; i++) {
+          list.push(this.decodeValue(reader, peer, depth + 1));
+        }
+        return list;
+      }
+      case 5: {
+        const object: Record<string, any> = {};
+        for (let i = 0; i < length; i++) {
+          const key = this.decodeValue(reader, peer, depth + 1);
+          if (typeof key !== 'string' || key === '__proto__') throw new Error('Invalid map key');
+          object[key] = this.decodeValue(reader, peer, depth + 1);
+        }
+        return object;
+      }
+      case 6:
+        return this.decodeTagged(length, this.decodeValue(reader, peer, depth + 1), peer);
+      default:
+        return decodeSimple(reader, info);
+    }
+  }
+
+  private decodeTagged(tag: number, value: unknown, peer: PeerWireState): string {
+    if (!Buffer.isBuffer(value)) throw new Error('Invalid tagged value');
+
+    if (tag === TAG_DESTINATION) {
+      const destination = toI2PBase64(value);
+      const key = crypto.createHash('sha256').update(value).digest('hex');
+      peer.received.delete(key);
+      peer.received.set(key, destination);
+      if (peer.received.size > MAX_RECEIVED_PER_PEER) {
+        peer.received.delete(peer.received.keys().next().value!);
+      }
+      return destination;
+    }
+
+    if (tag === TAG_DESTINATION_HASH && value.length === 32) {
+      const destination = peer.received.get(value.toString('hex'));
+      if (!destination) throw new UnknownDestinationError();
+      return destination;
+    }
+
+    throw new Error(`Unknown tag ${tag}`);
+  }
+}
+
+function randomEpoch(): number {
+  // Never 0, which stands for "not known yet"
+  return crypto.randomBytes(4).readUInt32BE(0) || 1;
+}
+
+// ============================================================================
+// CBOR PRIMITIVES
+// ============================================================================
+
+function encodeHead(major: number, length: number): Buffer {
+  const type = major << 5;
+  if (length < 24) return Buffer.from([type | length]);
+  if (length < 0x100) return Buffer.from([type | 24, length]);
+  if (length < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = type | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+  }
+  if (length < 0x100000000) {
+    const head = Buffer.alloc(5);
+    head[0] = type | 26;
+    head.writeUInt32BE(length, 1);
+    return head;
+  }
+  const head = Buffer.alloc(9);
+  head[0] = type | 27;
+  head.writeBigUInt64BE(BigInt(length), 1);
+  return head;
+}
+
+function encodeNumber(value: number, out: Buffer[]): void {
+  if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+    out.push(value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value));
+    return;
+  }
+
+  // JSON has no NaN/Infinity; encode them as null like JSON.stringify does
+  if (!Number.isFinite(value)) {
+    out.push(Buffer.from([0xf6]));
+    return;
+  }
+
+  const float = Buffer.alloc(9);
+  float[0] = 0xfb;
+  float.writeDoubleBE(value, 1);
+  out.push(float);
+}
+
+function readHead(reader: { data: Buffer; offset: number }): { major: number; info: number; length: number } {
+  const initial = readBytes(reader, 1)[0];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  // Floats and simple values read their own payload
+  if (major === 7) return { major, info, length: 0 };
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = readBytes(reader, 1)[0];
+  } else if (info === 25) {
+    length = readBytes(reader, 2).readUInt16BE(0);
+  } else if (info === 26) {
+    length = readBytes(reader, 4).readUInt32BE(0);
+  } else if (info === 27) {
+    const big = readBytes(reader, 8).readBigUInt64BE(0);
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('Integer too large');
+    length = Number(big);
+  } else {
+    throw new Error('Indefinite lengths are not supported');
+  }
+
+  // Lists and maps can't have more items than bytes left
+  if ((major === 4 || major === 5) && length > reader.data.length - reader.offset) {
+    throw new Error('Truncated message');
+  }
+
+  return { major, info, length };
+}
+
+function readBytes(reader: { data: Buffer; offset: number }, length: number): Buffer {
+  if (reader.offset + length > reader.data.length) throw new Error('Truncated message');
+  const bytes = reader.data.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return Buffer.from(bytes);
+}
+
+function decodeSimple(reader: { data: Buffer; offset: number }, info: number): boolean | number | null {
+  switch (info) {
+    case 20: return false;
+    case 21: return true;
+    case 22: return null;
+    case 27: return readBytes(reader, 8).readDoubleBE(0);
+    default: throw new Error(`Unsupported simple value ${info}`);
+  }
+}
+
+// ============================================================================
+// DESTINATIONS
+// ============================================================================
+
+/**
+ * Raw bytes of a full I2P destination (base64 with '-' and '~'), or null if
+ * the string is not one that converts back unchanged
+ */
+function destinationBytes(value: string): Buffer | null {
+  if (value.length < 516 || !/^[A-Za-z0-9~-]+=*$/.test(value)) return null;
+
+  const bytes = Buffer.from(value.replace(/-/g, '+').replace(/~/g, '/'), 'base64');
+  if (bytes.length < 387 || toI2PBase64(bytes) !== value) return null;
+  return bytes;
+}
+
+function toI2PBase64(bytes: Buffer): string {
+  return bytes.toString('base64').replace(/\+/g, '-').replace(/\//g, '~');
+}
@@ -29,6 +29,9 @@ for (let i = 0; i < args.length; i++) {
     case '--no-i2pd':
       skipI2pd = true;
       break;
+    case '--no-legacy-senders':
+      config.acceptLegacySenders = false;
+      break;
     case '--help':
     case '-h':
       printHelp();
@@ -52,6 +55,7 @@ Options:
   --listen-port <port>    Local listen port (default: 7670)
   --peer-timeout <secs>   Peer timeout in seconds (default: 300)
   --no-i2pd               Don't auto-start i2pd (use existing instance)
+  --no-legacy-senders     Drop messages without a router-authenticated sender
   -h, --help              Show this help message
 
 Example:
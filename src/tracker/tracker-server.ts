@@ -1,4 +1,4 @@
-import { createForward, createLocalDestination, createRaw, toB32 } from '@diva.exchange/i2p-sam';
+import { createDatagram, createForward, createLocalDestination, toB32 } from '@diva.exchange/i2p-sam';
 import { EventEmitter } from 'events';
 import fs from 'fs';
 import net from 'net';
@@ -7,10 +7,15 @@ import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import {
     createSignedMessage,
     generateSigningKeypair,
+    nodeIdFromSigningKey,
+    parseRepliableDatagram,
     SignedMessage,
     SigningKeypair,
     verifySignedMessage
 } from '../shared/utils.js';
+import { encodeFrames, FrameAssembler, isFrame } from '../shared/datagram-framing.js';
+import { PeerLimiter } from '../shared/peer-limiter.js';
+import { isWireMessage, WireCodec } from '../shared/wire-codec.js';
 import {
     BTAnnounceHandler,
     createErrorHttpResponse,
@@ -41,6 +46,8 @@ interface TrackerConfig {
   httpTrackerPort: number;
   /** Enable BEP3 BitTorrent tracker */
   enableBTTracker: boolean;
+  /** Accept RAW-style messages identified only by their `_from` (compatibility window) */
+  acceptLegacySenders: boolean;
 }
 
 interface TrackerMessage {
@@ -75,6 +82,10 @@ export class TrackerServer extends EventEmitter {
   private signingKeys: SigningKeypair | null = null;
   private isRunning: boolean = false;
   private usedNonces: Set<string> = new Set(); // Replay attack protection
+  private assembler = new FrameAssembler(); // Reassembles fragmented messages
+  private limiter = new PeerLimiter(); // Per-peer rate limits and temporary bans (in memory)
+  private nextMessageId = Math.floor(Math.random() * 0xffffffff);
+  private codec = new WireCodec(); // Binary encoding for peers that support it
   private nonceCleanupTimer: NodeJS.Timeout | null = null;
   private cleanupTimer: NodeJS.Timeout | null = null;
   private statsInterval: NodeJS.Timeout | null = null;
@@ -104,7 +115,8 @@ export class TrackerServer extends EventEmitter {
       dataDir: config.dataDir || './tracker-data',
       maxPeersPerResponse: config.maxPeersPerResponse || 100, // Limit per response for large networks
       httpTrackerPort: config.httpTrackerPort || 7680,
-      enableBTTracker: config.enableBTTracker ?? true
+      enableBTTracker: config.enableBTTracker ?? true,
+      acceptLegacySenders: config.acceptLegacySenders ?? true
     };
   }
 
@@ -410,9 +422,9 @@ export class TrackerServer extends EventEmitter {
     // Use a random port to avoid conflicts with the main app
     const listenPort = this.config.listenPort + Math.floor(Math.random() * 100);
 
-    console.log('[Tracker] Creating RAW session on port', listenPort);
+    console.log('[Tracker] Creating DATAGRAM session on port', listenPort);
 
-    this.sam = await createRaw({
+    this.sam = await createDatagram({
       sam: {
         host: this.config.samHost,
         portTCP: this.config.samPortTCP,
@@ -427,8 +439,8 @@ export class TrackerServer extends EventEmitter {
     });
 
     // Set up event handlers
-    this.sam.on('data', (data: Buffer) => {
-      this.handleIncomingData(data);
+    this.sam.on('data', (data: Buffer, fromDestination: string) => {
+      this.handleIncomingData(data, fromDestination || '');
     });
 
     this.sam.on('close', () => {
@@ -443,7 +455,7 @@ export class TrackerServer extends EventEmitter {
     });
 
     this.reconnectAttempts = 0;
-    console.log('[Tracker] RAW session created successfully');
+    console.log('[Tracker] DATAGRAM session created successfully');
   }
 
   private scheduleReconnect(): void {
@@ -466,17 +478,42 @@ export class TrackerServer extends EventEmitter {
     }, delay);
   }
 
-  private handleIncomingData(data: Buffer): void {
+  private handleIncomingData(payload: Buffer, header: string): void {
+    // The sender comes from the router; `_from` is only a fallback for legacy RAW clients
+    const datagram = parseRepliableDatagram(header, payload);
+    const sender = datagram.from;
+    let data = datagram.data;
+
+    // Banned or flooding senders are dropped before any parsing
+    if (sender && !this.limiter.allow(sender)) return;
+
+    if (isFrame(data)) {
+      const message = this.assembler.push(sender, data);
+      if (!message) return;
+      data = message;
+    }
+
     try {
-      const str = data.toString();
-      if (!str.startsWith('{')) return;
+      let parsed: any;
+      if (isWireMessage(data)) {
+        parsed = this.codec.decode(sender, data);
+        if (!parsed) return;
+      } else {
+        const str = data.toString();
+        if (!str.startsWith('{')) return;
+
+        parsed = JSON.parse(str);
+        this.codec.notePeer(sender, parsed._wire);
+        delete parsed._wire;
+      }
 
-      const parsed = JSON.parse(str);
+      // Request ID of clients with RPC support, echoed in the reply
+      const requestId = typeof parsed._rpc === 'string' ? parsed._rpc : undefined;
 
       // Check if this is a signed message (new format)
       if (parsed.signature && parsed.signingKey && parsed.nonce) {
         const signedMsg = parsed as SignedMessage & { _from?: string };
-        const from = signedMsg._from || '';
+        const from = this.resolveSender(sender, signedMsg._from);
 
         if (!from) {
           console.log('[Tracker] Received signed message without sender');
@@ -494,12 +531,16 @@ export class TrackerServer extends EventEmitter {
 
         if (!verification.valid) {
           console.log(`[Tracker] Rejected message: ${verification.error}`);
+          if (verification.error === 'Invalid signature') {
+            this.limiter.penalize(from, 'invalid-signature');
+          }
           return;
         }
 
         // Check for replay attack (nonce reuse) - use both in-memory and DB for speed
         if (this.usedNonces.has(signedMsg.nonce) || this.isNonceUsed(signedMsg.nonce)) {
           console.log('[Tracker] Rejected message: Nonce already used (replay attack?)');
+          this.limiter.penalize(from, 'replayed-nonce');
           return;
         }
         this.usedNonces.add(signedMsg.nonce);
@@ -507,40 +548,66 @@ export class TrackerServer extends EventEmitter {
 
         // Process verified message
         const message = verification.data as TrackerMessage;
-        this.handleMessage(from, message, signedMsg.signingKey);
+        this.handleMessage(from, message, signedMsg.signingKey, requestId);
       } else {
         // Legacy unsigned message (for backwards compatibility)
         // TODO: Remove this path once all clients are updated
-        const message = parsed as TrackerMessage & { _from?: string };
-        const from = message._from || '';
+        const message = parsed as TrackerMessage & { _from?: string; _rpc?: string };
+        const from = this.resolveSender(sender, message._from);
         delete message._from;
+        delete message._rpc;
 
         if (!from) {
           console.log('[Tracker] Received message without sender');
           return;
         }
 
+        // Legacy senders are only known once parsed
+        if (!sender && !this.limiter.allow(from)) return;
+
         console.log('[Tracker] Warning: Received unsigned message (legacy client)');
-        this.handleMessage(from, message);
+        this.handleMessage(from, message, undefined, requestId);
       }
     } catch (e) {
-      // Ignore invalid messages
+      // Invalid message (not JSON, or a payload the handlers couldn't use)
+      this.limiter.penalize(sender, 'malformed');
     }
   }
 
-  private handleMessage(from: string, message: TrackerMessage, signingKey?: string): void {
+  /**
+   * Pick the destination a message is attributed to: the router's sender,
+   * logging any mismatching `_from`, or `_from` alone during the compatibility window
+   */
+  private resolveSender(sender: string, declared: unknown): string {
+    const claimed = typeof declared === 'string' ? declared : '';
+
+    if (sender) {
+      if (claimed && claimed !== sender) {
+        console.log(`[Tracker] Sender mismatch: ${toB32(sender).substring(0, 16)}... claims to be ${claimed.substring(0, 16)}...`);
+      }
+      return sender;
+    }
+
+    if (!this.config.acceptLegacySenders) return '';
+    if (claimed) {
+      console.log(`[Tracker] Warning: Unauthenticated sender (legacy RAW client) ${claimed.substring(0, 16)}...`);
+    }
+    return claimed;
+  }
+
+  private handleMessage(from: string, message: TrackerMessage, signingKey?: string, requestId?: string): void {
     switch (message.type) {
       case 'ANNOUNCE':
-        this.handleAnnounce(from, message.payload, signingKey);
+        this.handleAnnounce(from, message.payload, signingKey, requestId);
         break;
       case 'GET_PEERS':
-        this.handleGetPeers(from, signingKey);
+        this.handleGetPeers(from, signingKey, requestId);
         break;
       case 'GET_DHT_NODES':
-        this.handleGetDHTNodes(from);
+        this.handleGetDHTNodes(from, requestId);
         break;
       case 'PING':
-        this.handlePing(from, signingKey);
+        this.handlePing(from, signingKey, requestId);
         break;
       case 'DISCONNECT':
         this.handleDisconnect(from);
@@ -560,7 +627,7 @@ export class TrackerServer extends EventEmitter {
     }
   }
 
-  private handleAnnounce(from: string, payload: any, signingKey?: string): void {
+  private handleAnnounce(from: string, payload: any, signingKey?: string, requestId?: string): void {
     const b32 = toB32(from);
 
     // Check existing peer
@@ -626,8 +693,9 @@ export class TrackerServer extends EventEmitter {
       this.emit('peer:updated', peerData);
     }
 
-    // Store as DHT node if nodeId is provided (for DHT bootstrap)
-    if (payload.nodeId) {
+    // Store as DHT node if nodeId is provided (for DHT bootstrap). DHT nodes
+    // reject node IDs that don't derive from the signing key, so don't hand those out.
+    if (payload.nodeId && signingKey && payload.nodeId === nodeIdFromSigningKey(signingKey)) {
       this.dbRun(`
         INSERT INTO dht_nodes (nodeId, destination, lastSeen)
         VALUES (?, ?, ?)
@@ -638,12 +706,12 @@ export class TrackerServer extends EventEmitter {
       console.log(`[Tracker]   -> DHT node registered: ${payload.nodeId.substring(0, 16)}...`);
     }
 
-    // Send back the current peer list AND DHT nodes for bootstrap
-    this.sendPeersList(from);
+    // Send back the current peer list (the reply) AND DHT nodes for bootstrap
+    this.sendPeersList(from, requestId);
     this.sendDHTNodesList(from);
   }
 
-  private handleGetPeers(from: string, signingKey?: string): void {
+  private handleGetPeers(from: string, signingKey?: string, requestId?: string): void {
     const b32 = toB32(from);
     console.log(`[Tracker] Peer list requested by ${b32.substring(0, 16)}...`);
 
@@ -663,10 +731,10 @@ export class TrackerServer extends EventEmitter {
       this.dbRun('UPDATE peers SET lastSeen = ? WHERE destination = ?', [Date.now(), from]);
     }
 
-    this.sendPeersList(from);
+    this.sendPeersList(from, requestId);
   }
 
-  private handlePing(from: string, signingKey?: string): void {
+  private handlePing(from: string, signingKey?: string, requestId?: string): void {
     // Update last seen
     this.dbRun('UPDATE peers SET lastSeen = ? WHERE destination = ?', [Date.now(), from]);
 
@@ -675,22 +743,22 @@ export class TrackerServer extends EventEmitter {
       type: 'PONG',
       payload: {},
       timestamp: Date.now()
-    });
+    }, requestId);
   }
 
   /**
    * Handle GET_DHT_NODES request - returns known DHT nodes for bootstrap
    */
-  private handleGetDHTNodes(from: string): void {
+  private handleGetDHTNodes(from: string, requestId?: string): void {
     const b32 = toB32(from);
     console.log(`[Tracker] DHT nodes requested by ${b32.substring(0, 16)}...`);
-    this.sendDHTNodesList(from);
+    this.sendDHTNodesList(from, requestId);
   }
 
   /**
    * Send list of known DHT nodes to a peer for bootstrap
    */
-  private sendDHTNodesList(to: string): void {
+  private sendDHTNodesList(to: string, replyTo?: string): void {
     // Get active DHT nodes (exclude requester, limit for bandwidth)
     const cutoff = Date.now() - this.config.peerTimeout;
     const nodesList = this.dbQuery(`
@@ -725,12 +793,12 @@ export class TrackerServer extends EventEmitter {
       type: 'DHT_NODES_LIST',
       payload: { nodes: nodesList },
       timestamp: Date.now()
-    });
+    }, replyTo);
 
     console.log(`[Tracker] Sent ${nodesList.length} DHT nodes to ${toB32(to).substring(0, 16)}...`);
   }
 
-  private sendPeersList(to: string): void {
+  private sendPeersList(to: string, replyTo?: string): void {
     // Get active peers (exclude requester, random order, limit for large networks)
     const cutoff = Date.now() - this.config.peerTimeout;
     const peersList = this.dbQuery(`
@@ -745,39 +813,42 @@ export class TrackerServer extends EventEmitter {
       type: 'PEERS_LIST',
       payload: { peers: peersList },
       timestamp: Date.now()
-    });
+    }, replyTo);
 
     console.log(`[Tracker] Sent ${peersList.length} peers to ${toB32(to).substring(0, 16)}...`);
   }
 
-  private sendMessage(destination: string, message: TrackerMessage): void {
+  /**
+   * Send a message; replyTo is the request ID of the request it answers
+   */
+  private sendMessage(destination: string, message: TrackerMessage, replyTo?: string): void {
     if (!this.sam) return;
 
     try {
-      let data: Buffer;
-
-      if (this.signingKeys) {
-        // Sign the message with Ed25519
-        const signedMsg = createSignedMessage(
-          message,
-          this.signingKeys.privateKey,
-          this.signingKeys.publicKey
-        );
-        const msgWithSender = {
-          ...signedMsg,
-          _from: this.destination
-        };
-        data = Buffer.from(JSON.stringify(msgWithSender));
-      } else {
-        // Fallback to unsigned message (should not happen)
-        const msgWithSender = {
-          ...message,
-          _from: this.destination
-        };
+      // Sign the message with Ed25519 (unsigned fallback should not happen)
+      let outgoing: object = this.signingKeys
+        ? createSignedMessage(message, this.signingKeys.privateKey, this.signingKeys.publicKey)
+        : message;
+      // Outside the signed data, like _from
+      if (replyTo) {
+        outgoing = { ...outgoing, _re: replyTo };
+      }
+
+      // Binary for peers that speak it, JSON with a version hint for the others
+      let data = this.codec.encode(destination, outgoing);
+      if (!data) {
+        const msgWithSender = this.config.acceptLegacySenders
+          ? { ...outgoing, _from: this.destination, _wire: this.codec.hint(destination) }
+          : { ...outgoing, _wire: this.codec.hint(destination) };
         data = Buffer.from(JSON.stringify(msgWithSender));
       }
 
-      this.sam.send(destination, data);
+      // Large responses (PEERS_LIST, DHT_NODES_LIST) are split into fragments
+      const frames = encodeFrames(data, this.nextMessageId);
+      this.nextMessageId = (this.nextMessageId + 1) >>> 0;
+      for (const frame of frames) {
+        this.sam.send(destination, frame);
+      }
     } catch (error: any) {
       console.error('[Tracker] Failed to send message:', error.message);
     }
@@ -1011,6 +1082,8 @@ export class TrackerServer extends EventEmitter {
       }
       this.sam = null;
     }
+    this.assembler.clear();
+    this.codec.clear();
 
     // Stop BT tracker
     await this.stopBTTracker();